@@ -3,6 +3,8 @@ export * from './src/script/index.js'
 export * from './src/script/templates/index.js'
 export * from './src/transaction/index.js'
 export * from './src/transaction/fee-models/index.js'
+export * from './src/transaction/coin-selectors/index.js'
+export * from './src/transaction/script-evaluators/index.js'
 export * from './src/transaction/broadcasters/index.js'
 export * from './src/transaction/chaintrackers/index.js'
 export * from './src/transaction/http/index.js'
@@ -1,11 +1,9 @@
 import PushDrop from '../script/templates/PushDrop.js'
 import { WalletInterface } from '../wallet/Wallet.interfaces.js'
-import {
-  LockingScript,
-  ScriptTemplate,
-  UnlockingScript
-} from '../script/index.js'
-import { Transaction } from '../transaction/index.js'
+import LockingScript from '../script/LockingScript.js'
+import UnlockingScript from '../script/UnlockingScript.js'
+import ScriptTemplate from '../script/ScriptTemplate.js'
+import Transaction from '../transaction/Transaction.js'
 import { Utils } from '../primitives/index.js'
 
 /**
@@ -47,6 +47,45 @@ describe('Reader', () => {
     const buf = Buffer.from('0101', 'hex')
     expect(new Reader([...buf]).read(0).length).toEqual(0)
   })
+
+  it('should return a number array when reading a typed array', () => {
+    const br = new Reader(new Uint8Array([1, 2, 3]))
+    expect(br.read(2)).toEqual([1, 2])
+    expect(br.read()).toEqual([3])
+    expect(br.eof()).toBeTruthy()
+  })
+})
+
+describe('#readUint8Array', () => {
+  it('should read the same bytes from a number array or a typed array', () => {
+    for (const bin of [[1, 2, 3, 4], new Uint8Array([1, 2, 3, 4])]) {
+      const br = new Reader(bin, 1)
+      expect(br.readUint8Array(2)).toEqual(new Uint8Array([2, 3]))
+      expect(br.pos).toEqual(3)
+    }
+  })
+
+  it('should copy the bytes it reads', () => {
+    const bin = new Uint8Array([1, 2])
+    const read = new Reader(bin).readUint8Array(2)
+    read[0] = 9
+    expect(bin[0]).toEqual(1)
+  })
+})
+
+describe('#readView', () => {
+  it('should read a view of a typed array, and a copy of a number array', () => {
+    const typed = new Uint8Array([1, 2, 3, 4])
+    const br = new Reader(typed, 1)
+    const view = br.readView(2)
+    expect(view).toEqual(new Uint8Array([2, 3]))
+    expect(br.pos).toEqual(3)
+    typed[1] = 9
+    expect(view[0]).toEqual(9)
+
+    const bin = [1, 2, 3, 4]
+    expect(new Reader(bin, 1).readView(2)).toEqual([2, 3])
+  })
 })
 
 describe('#readReverse', () => {
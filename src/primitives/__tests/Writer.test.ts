@@ -25,6 +25,14 @@ describe('Writer', () => {
     })
   })
 
+  describe('#toUint8Array', () => {
+    it('should concat number arrays and typed arrays', () => {
+      const bw = new Writer([[0], new Uint8Array([1, 2])]).write(new Uint8Array([3])).write([4])
+      expect(bw.toUint8Array()).toEqual(new Uint8Array([0, 1, 2, 3, 4]))
+      expect(bw.toArray()).toEqual([0, 1, 2, 3, 4])
+    })
+  })
+
   describe('#write', () => {
     it('should write a buffer', () => {
       const buf = [0]
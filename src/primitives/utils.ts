@@ -378,9 +378,9 @@ export const fromBase58Check = (
 }
 
 export class Writer {
-  public bufs: number[][]
+  public bufs: Array<number[] | Uint8Array>
 
-  constructor (bufs?: number[][]) {
+  constructor (bufs?: Array<number[] | Uint8Array>) {
     this.bufs = bufs !== undefined ? bufs : []
   }
 
@@ -404,12 +404,31 @@ export class Writer {
     return ret
   }
 
-  write (buf: number[]): this {
+  /**
+   * Joins what has been written into a single typed array, copied a buffer at a time rather than a byte at a time.
+   */
+  toUint8Array (): Uint8Array {
+    const ret = new Uint8Array(this.getLength())
+    let offset = 0
+    for (const buf of this.bufs) {
+      if (buf instanceof Uint8Array) {
+        ret.set(buf, offset)
+        offset += buf.length
+      } else {
+        for (let i = 0; i < buf.length; i++) {
+          ret[offset++] = buf[i]
+        }
+      }
+    }
+    return ret
+  }
+
+  write (buf: number[] | Uint8Array): this {
     this.bufs.push(buf)
     return this
   }
 
-  writeReverse (buf: number[]): this {
+  writeReverse (buf: number[] | Uint8Array): this {
     const buf2: number[] = new Array(buf.length)
     for (let i = 0; i < buf2.length; i++) {
       buf2[i] = buf[buf.length - 1 - i]
@@ -585,10 +604,10 @@ export class Writer {
 }
 
 export class Reader {
-  public bin: number[]
+  public bin: number[] | Uint8Array
   public pos: number
 
-  constructor (bin: number[] = [], pos: number = 0) {
+  constructor (bin: number[] | Uint8Array = [], pos: number = 0) {
     this.bin = bin
     this.pos = pos
   }
@@ -601,9 +620,42 @@ export class Reader {
     const start = this.pos
     const end = this.pos + len
     this.pos = end
+    if (this.bin instanceof Uint8Array) {
+      const bin = this.bin
+      const ret: number[] = new Array(Math.max(0, Math.min(end, bin.length) - start))
+      for (let i = 0; i < ret.length; i++) {
+        ret[i] = bin[start + i]
+      }
+      return ret
+    }
     return this.bin.slice(start, end)
   }
 
+  /**
+   * Reads `len` bytes as a typed array, copying them without first making a `number[]` of them.
+   */
+  public readUint8Array (len = this.bin.length): Uint8Array {
+    const start = this.pos
+    const end = this.pos + len
+    this.pos = end
+    if (this.bin instanceof Uint8Array) {
+      return this.bin.slice(start, end)
+    }
+    return Uint8Array.from(this.bin.slice(start, end))
+  }
+
+  /**
+   * Reads `len` bytes without copying them when reading a typed array, as a view of it, and as a `number[]` otherwise.
+   */
+  public readView (len = this.bin.length): number[] | Uint8Array {
+    if (this.bin instanceof Uint8Array) {
+      const start = this.pos
+      this.pos += len
+      return this.bin.subarray(start, this.pos)
+    }
+    return this.read(len)
+  }
+
   public readReverse (len = this.bin.length): number[] {
     const buf2 = new Array(len)
     for (let i = 0; i < len; i++) {
@@ -685,9 +737,8 @@ export class Reader {
   }
 
   public readUInt64BEBn (): BigNumber {
-    const bin = this.bin.slice(this.pos, this.pos + 8)
+    const bin = this.read(8)
     const bn = new BigNumber(bin)
-    this.pos = this.pos + 8
     return bn
   }
 
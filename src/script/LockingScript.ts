@@ -1,4 +1,6 @@
 import Script from './Script.js'
+// Registers the script templates of the SDK, which decode locking scripts, with the default registry.
+import './builtinScriptTemplates.js'
 
 /**
  * The LockingScript class represents a locking script in a Bitcoin SV transaction.
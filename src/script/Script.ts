@@ -2,6 +2,7 @@ import ScriptChunk from './ScriptChunk.js'
 import OP from './OP.js'
 import { encode, toHex, Reader, Writer, toArray } from '../primitives/utils.js'
 import BigNumber from '../primitives/BigNumber.js'
+import ScriptTemplateRegistry, { IdentifiedScript, scriptTemplateRegistry } from './ScriptTemplateRegistry.js'
 
 /**
  * The Script class represents a script in a Bitcoin SV transaction,
@@ -116,13 +117,13 @@ export default class Script {
   /**
    * @method fromBinary
    * Static method to construct a Script instance from a binary array.
-   * @param bin - The script in binary array format.
+   * @param bin - The script in binary array or typed array format.
    * @returns A new Script instance.
    * @example
    * const script = Script.fromBinary([0x76, 0xa9, ...])
    */
-  static fromBinary (bin: number[]): Script {
-    bin = [...bin]
+  static fromBinary (bin: number[] | Uint8Array): Script {
+    if (Array.isArray(bin)) bin = [...bin]
     const chunks: ScriptChunk[] = []
 
     const br = new Reader(bin)
@@ -220,7 +221,27 @@ export default class Script {
    */
   toBinary (): number[] {
     const writer = new Writer()
+    this.toWriter(writer)
+    return writer.toArray()
+  }
 
+  /**
+   * @method toUint8Array
+   * Serializes the script to a typed array.
+   * @returns The script in typed array format.
+   */
+  toUint8Array (): Uint8Array {
+    const writer = new Writer()
+    this.toWriter(writer)
+    return writer.toUint8Array()
+  }
+
+  /**
+   * @method toWriter
+   * Serializes the script to a writer.
+   * @param writer - The writer to append the script to.
+   */
+  toWriter (writer: Writer): void {
     for (let i = 0; i < this.chunks.length; i++) {
       const chunk = this.chunks[i]
       const op = chunk.op
@@ -240,8 +261,6 @@ export default class Script {
         }
       }
     }
-
-    return writer.toArray()
   }
 
   /**
@@ -414,6 +433,35 @@ export default class Script {
     throw new Error('Not implemented')
   }
 
+  /**
+   * @method identify
+   * Identifies the script template this script is of, such as P2PKH or PushDrop, and decodes its parameters.
+   * @param registry - The templates to recognize. Defaults to the templates of the SDK and any registered with `scriptTemplateRegistry`.
+   * @returns The template name and decoded parameters, or undefined if the script is not of a registered template.
+   *
+   * @example
+   * const identified = LockingScript.fromHex(hex).identify()
+   * if (identified?.template === 'P2PKH') console.log(identified.params.address)
+   */
+  identify (registry: ScriptTemplateRegistry = scriptTemplateRegistry): IdentifiedScript | undefined {
+    return registry.identify(this)
+  }
+
+  /**
+   * @method decode
+   * Decodes the script with the script template it is of, such as the address of a P2PKH script or the fields of a PushDrop token.
+   * @param registry - The templates to recognize. Defaults to the templates of the SDK and any registered with `scriptTemplateRegistry`.
+   * @returns The template name and decoded parameters.
+   * @throws If the script is not of a registered template.
+   */
+  decode (registry: ScriptTemplateRegistry = scriptTemplateRegistry): IdentifiedScript {
+    const identified = this.identify(registry)
+    if (identified === undefined) {
+      throw new Error('The script is not of a registered script template.')
+    }
+    return identified
+  }
+
   /**
    * @private
    * @method _chunkToString
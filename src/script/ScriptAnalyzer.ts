@@ -0,0 +1,344 @@
+import OP from './OP.js'
+import Script from './Script.js'
+import UnlockingScript from './UnlockingScript.js'
+import ScriptChunk from './ScriptChunk.js'
+import { ScriptVerifyFlags, standardScriptFlags } from './ScriptVerifyFlags.js'
+import {
+  stackEffects,
+  chunkNumber,
+  isChunkMinimal,
+  isNopOpcode,
+  isOpcodeDisabled,
+  isOpcodeInvalid,
+  isPushOpcode
+} from './opcodeRules.js'
+
+/**
+ * The kinds of problem `ScriptAnalyzer` reports.
+ */
+export type ScriptDiagnosticCode =
+  | 'unbalancedConditional'
+  | 'stackUnderflow'
+  | 'opReturn'
+  | 'unreachableCode'
+  | 'unreachableBranch'
+  | 'nonMinimalPush'
+  | 'disabledOpcode'
+  | 'invalidOpcode'
+  | 'notPushOnly'
+
+/**
+ * A problem found in a script.
+ *
+ * @interface ScriptDiagnostic
+ * @property {number} chunkIndex - The index of the chunk the problem is at.
+ * @property {ScriptDiagnosticCode} code - The kind of problem.
+ * @property {'error'|'warning'} severity - Errors fail the script, or the spend, whenever it is evaluated. Warnings may
+ *           fail it, depending on the branches taken, or point to code that cannot have been meant.
+ * @property {string} message - A description of the problem.
+ */
+export interface ScriptDiagnostic {
+  chunkIndex: number
+  code: ScriptDiagnosticCode
+  severity: 'error' | 'warning'
+  message: string
+}
+
+/**
+ * The effect of a chunk on the main stack.
+ *
+ * @interface ChunkStackEffect
+ * @property {number} chunkIndex - The index of the chunk.
+ * @property {number} op - The opcode of the chunk.
+ * @property {number} [taken] - The number of items the chunk takes from the stack, unless it depends on the stack.
+ * @property {number} [pushed] - The number of items the chunk pushes onto the stack, unless it depends on the stack.
+ * @property {number} [depth] - The depth of the stack after the chunk, relative to the start of the script, as long as
+ *           it is known. It is negative once the script has taken items it did not push itself.
+ */
+export interface ChunkStackEffect {
+  chunkIndex: number
+  op: number
+  taken?: number
+  pushed?: number
+  depth?: number
+}
+
+/**
+ * Options for analyzing a script.
+ *
+ * @interface AnalyzeOptions
+ * @property {'locking'|'unlocking'} [role] - Optional. Whether the script is a locking or an unlocking script. Defaults
+ *           to 'unlocking' for an `UnlockingScript` and to 'locking' otherwise.
+ * @property {number} [inputs] - Optional. The number of stack items the script starts with. Unlocking scripts start with
+ *           none. When known, taking more items than there are is reported.
+ */
+export interface AnalyzeOptions {
+  role?: 'locking' | 'unlocking'
+  inputs?: number
+}
+
+/**
+ * The result of analyzing a script.
+ *
+ * @interface ScriptAnalysis
+ * @property {'locking'|'unlocking'} role - Whether the script was analyzed as a locking or an unlocking script.
+ * @property {ScriptDiagnostic[]} diagnostics - The problems found, in the order of the chunks.
+ * @property {ChunkStackEffect[]} stackEffects - The effect of each chunk on the stack, in order.
+ * @property {number} requiredInputs - The number of stack items the script takes beyond those it pushes itself, as far
+ *           as it could be determined.
+ * @property {boolean} valid - Whether no errors were found.
+ */
+export interface ScriptAnalysis {
+  role: 'locking' | 'unlocking'
+  diagnostics: ScriptDiagnostic[]
+  stackEffects: ChunkStackEffect[]
+  requiredInputs: number
+  valid: boolean
+}
+
+interface Path {
+  // Whether the chunks on the path may be executed at all, and whether they are executed whenever the script is.
+  reachable: boolean
+  certain: boolean
+  // Whether the depths of the stacks are known.
+  known: boolean
+  depth: number
+  altDepth: number
+}
+
+interface Branch {
+  chunkIndex: number
+  op: number
+  // The path before the conditional, and the truthiness of its condition, when it is a constant.
+  before: Path
+  condition?: boolean
+  other?: Path
+}
+
+function opName (op: number): string {
+  return (OP[op] as string | undefined) ?? `opcode 0x${op.toString(16)}`
+}
+
+/**
+ * Analyzes scripts without evaluating them, following the effect of each chunk on the stacks through the conditional
+ * branches of the script.
+ *
+ * It reports unbalanced conditionals, stack underflows, reachable `OP_RETURN`s and the code they make unreachable,
+ * branches that a constant condition makes unreachable, non-minimal pushes, disabled and invalid opcodes, and unlocking
+ * scripts that are not push-only, each with the index of its chunk. Problems are errors when they fail every
+ * evaluation under the flags of the analyzer, and warnings otherwise.
+ *
+ * @example
+ * const analysis = new ScriptAnalyzer().analyze(lockingScript)
+ * for (const { chunkIndex, severity, message } of analysis.diagnostics) {
+ *   console.log(`${severity} at chunk ${chunkIndex}: ${message}`)
+ * }
+ * if (!analysis.valid) process.exit(1)
+ */
+export default class ScriptAnalyzer {
+  flags: ScriptVerifyFlags
+
+  /**
+   * @param {ScriptVerifyFlags} flags - Optional. The policy scripts are analyzed under. Defaults to `standardScriptFlags`.
+   */
+  constructor (flags: ScriptVerifyFlags = standardScriptFlags) {
+    this.flags = flags
+  }
+
+  /**
+   * Analyzes a script.
+   *
+   * @param {Script} script - The script to analyze.
+   * @param {AnalyzeOptions} options - Optional. The role of the script, and the number of stack items it starts with.
+   * @returns {ScriptAnalysis} The diagnostics and stack effects of the script.
+   */
+  analyze (script: Script, options: AnalyzeOptions = {}): ScriptAnalysis {
+    const role = options.role ?? (script instanceof UnlockingScript ? 'unlocking' : 'locking')
+    const inputs = options.inputs ?? (role === 'unlocking' ? 0 : undefined)
+    const diagnostics: ScriptDiagnostic[] = []
+    const effects: ChunkStackEffect[] = []
+    const branches: Branch[] = []
+    let path: Path = { reachable: true, certain: true, known: true, depth: 0, altDepth: 0 }
+    let lowest = 0
+    let unreachableReported = false
+
+    const report = (chunkIndex: number, code: ScriptDiagnosticCode, certain: boolean, message: string): void => {
+      diagnostics.push({ chunkIndex, code, severity: certain ? 'error' : 'warning', message })
+    }
+    const take = (chunkIndex: number, op: number, count: number): void => {
+      if (!path.known) return
+      path.depth -= count
+      lowest = Math.min(lowest, path.depth)
+      if (inputs !== undefined && path.depth + inputs < 0) {
+        report(
+          chunkIndex,
+          'stackUnderflow',
+          path.certain,
+          `Stack underflow: ${opName(op)} needs ${count} items but only ${count + path.depth + inputs} may be on the stack`
+        )
+        // Report each shortfall once.
+        path.depth = -inputs
+      }
+    }
+
+    script.chunks.forEach((chunk: ScriptChunk, i: number) => {
+      const op = chunk.op
+      const effect: ChunkStackEffect = { chunkIndex: i, op }
+      effects.push(effect)
+
+      if (role === 'unlocking' && !isPushOpcode(op)) {
+        report(i, 'notPushOnly', this.flags.requirePushOnlyUnlockingScripts, `Unlocking scripts should only push data, but it contains ${opName(op)}`)
+      }
+
+      if (op === OP.OP_IF || op === OP.OP_NOTIF) {
+        effect.taken = 1
+        effect.pushed = 0
+        if (path.reachable) take(i, op, 1)
+        const before = { ...path }
+        const previous = script.chunks[i - 1]
+        const value = previous?.data === undefined ? chunkNumber(previous) : undefined
+        // Whether the branch up to OP_ELSE is executed, when the condition is a constant.
+        const condition = value === undefined ? undefined : (value !== 0) !== (op === OP.OP_NOTIF)
+        branches.push({ chunkIndex: i, op, before, condition })
+        path = { ...before, reachable: before.reachable && condition !== false, certain: before.certain && condition === true }
+        if (before.reachable && condition === false) {
+          report(i, 'unreachableBranch', false, `The condition of ${opName(op)} is always false, so its branch is never executed`)
+          unreachableReported = true
+        }
+      } else if (op === OP.OP_ELSE) {
+        effect.taken = 0
+        effect.pushed = 0
+        const branch = branches[branches.length - 1]
+        if (branch === undefined) {
+          report(i, 'unbalancedConditional', true, 'OP_ELSE without a preceding OP_IF')
+          return
+        }
+        const { before, condition } = branch
+        if (branch.other !== undefined) {
+          // A second OP_ELSE toggles back to the first branch, whose stacks are not followed.
+          branch.other = { ...path, known: false }
+          path = { ...before, reachable: before.reachable && condition !== false, certain: before.certain && condition === true, known: false }
+        } else {
+          branch.other = path
+          path = { ...before, reachable: before.reachable && condition !== true, certain: before.certain && condition === false }
+          unreachableReported = false
+          if (before.reachable && condition === true) {
+            report(i, 'unreachableBranch', false, `The condition of ${opName(branch.op)} is always true, so the branch of OP_ELSE is never executed`)
+            unreachableReported = true
+          }
+        }
+      } else if (op === OP.OP_ENDIF) {
+        effect.taken = 0
+        effect.pushed = 0
+        const branch = branches.pop()
+        if (branch === undefined) {
+          report(i, 'unbalancedConditional', true, 'OP_ENDIF without a preceding OP_IF')
+          return
+        }
+        const { before, condition } = branch
+        const other = branch.other ?? {
+          ...before,
+          reachable: before.reachable && condition !== true,
+          certain: before.certain && condition === false
+        }
+        path = this.join(before, other, path)
+        unreachableReported = !path.reachable && unreachableReported
+      }
+      if (op >= OP.OP_IF && op <= OP.OP_ENDIF && op !== OP.OP_VERIF && op !== OP.OP_VERNOTIF) {
+        if (path.known && path.reachable) effect.depth = path.depth
+        return
+      }
+
+      if (!path.reachable) {
+        if (!unreachableReported) {
+          report(i, 'unreachableCode', false, 'This code is never executed')
+          unreachableReported = true
+        }
+        return
+      }
+
+      if (isPushOpcode(op)) {
+        if (!isChunkMinimal(chunk)) {
+          report(i, 'nonMinimalPush', path.certain && this.flags.requireMinimalPush, 'This data is not pushed with its minimal encoding')
+        }
+        effect.taken = 0
+        effect.pushed = 1
+        path.depth++
+      } else if (isOpcodeDisabled(op)) {
+        report(i, 'disabledOpcode', path.certain, `${opName(op)} is disabled`)
+      } else if (isOpcodeInvalid(op)) {
+        report(i, 'invalidOpcode', path.certain, `${opName(op)} is not a valid operation`)
+      } else if (op === OP.OP_RETURN) {
+        if (!this.flags.genesisRules) {
+          report(i, 'opReturn', path.certain, 'OP_RETURN fails the script before the Genesis upgrade')
+        } else if (role === 'locking') {
+          report(i, 'opReturn', path.certain, 'OP_RETURN ends the evaluation of the locking script')
+        }
+        effect.taken = 0
+        effect.pushed = 0
+        // OP_RETURN ends the script, so the rest of the path is never executed.
+        path.reachable = false
+      } else if (op === OP.OP_PICK || op === OP.OP_ROLL) {
+        const n = chunkNumber(script.chunks[i - 1])
+        if (n === undefined || n < 0) {
+          path.known = false
+        } else {
+          effect.taken = n + 2
+          effect.pushed = op === OP.OP_PICK ? n + 2 : n + 1
+        }
+      } else if (op === OP.OP_TOALTSTACK) {
+        effect.taken = 1
+        effect.pushed = 0
+        path.altDepth++
+      } else if (op === OP.OP_FROMALTSTACK) {
+        if (path.known && path.altDepth === 0) {
+          report(i, 'stackUnderflow', path.certain, 'OP_FROMALTSTACK with an empty alt stack')
+          path.altDepth++
+        }
+        effect.taken = 0
+        effect.pushed = 1
+        path.altDepth--
+      } else if (isNopOpcode(op)) {
+        effect.taken = 0
+        effect.pushed = 0
+      } else if (stackEffects[op] !== undefined) {
+        [effect.taken, effect.pushed] = stackEffects[op]
+      } else {
+        // Operations such as OP_CHECKMULTISIG and OP_IFDUP take or push a number of items that depends on the stack.
+        path.known = false
+      }
+
+      if (!isPushOpcode(op) && effect.taken !== undefined && effect.pushed !== undefined) {
+        take(i, op, effect.taken)
+        path.depth += effect.pushed
+      }
+      if (path.known) effect.depth = path.depth
+    })
+
+    for (const branch of branches) {
+      report(branch.chunkIndex, 'unbalancedConditional', true, `${opName(branch.op)} is not closed by OP_ENDIF`)
+    }
+    diagnostics.sort((a, b) => a.chunkIndex - b.chunkIndex)
+    return {
+      role,
+      diagnostics,
+      stackEffects: effects,
+      requiredInputs: Math.abs(lowest),
+      valid: diagnostics.every((d) => d.severity !== 'error')
+    }
+  }
+
+  /** The path after a conditional, from the path before it and those at the ends of its two branches. */
+  private join (before: Path, a: Path, b: Path): Path {
+    if (!a.reachable) return b
+    if (!b.reachable) return a
+    return {
+      reachable: true,
+      certain: before.certain,
+      // When the branches leave different stacks, what follows depends on the branch taken.
+      known: a.known && b.known && a.depth === b.depth && a.altDepth === b.altDepth,
+      depth: a.depth,
+      altDepth: a.altDepth
+    }
+  }
+}
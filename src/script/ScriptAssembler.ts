@@ -0,0 +1,551 @@
+import OP from './OP.js'
+import Script from './Script.js'
+import LockingScript from './LockingScript.js'
+import ScriptChunk from './ScriptChunk.js'
+import ScriptAssemblyError from './ScriptAssemblyError.js'
+import ScriptAnalyzer from './ScriptAnalyzer.js'
+import ScriptTemplateRegistry, { scriptTemplateRegistry } from './ScriptTemplateRegistry.js'
+import BigNumber from '../primitives/BigNumber.js'
+import PublicKey from '../primitives/PublicKey.js'
+import { toArray, toHex } from '../primitives/utils.js'
+
+/**
+ * A value for a constant or a placeholder: a number, which is pushed as a script number, bytes or their hex encoding,
+ * which are pushed as data, or a public key, which is pushed in its compressed encoding.
+ */
+export type AssemblerValue = number | number[] | string | PublicKey
+
+/**
+ * Options for assembling a source.
+ *
+ * @interface AssembleOptions
+ * @property {number} [inputs] - Optional. The number of stack items the script starts with, such as those pushed by the
+ *           unlocking script. When given, assembling fails if the script may take more items from the stack than that.
+ */
+export interface AssembleOptions {
+  inputs?: number
+}
+
+/**
+ * A source assembled by `ScriptAssembler.compile`, whose placeholders are filled when it is locked.
+ *
+ * @interface ScriptContract
+ * @property {string[]} placeholders - The names of the placeholders in the source, in the order they first appear.
+ * @property {number} requiredInputs - The number of stack items the script takes beyond those it pushes itself, as far as
+ *           it could be determined. Operations with a stack effect only known when executing, such as `OP_CHECKMULTISIG`,
+ *           end the analysis.
+ * @property {function} lock - Creates the locking script, with a value for every placeholder.
+ */
+export interface ScriptContract {
+  placeholders: string[]
+  requiredInputs: number
+  lock: (params?: Record<string, AssemblerValue>) => LockingScript
+}
+
+interface Token {
+  text: string
+  line: number
+  column: number
+}
+
+interface Macro {
+  params: string[]
+  body: Token[]
+}
+
+type Item =
+  | { chunk: ScriptChunk, token: Token }
+  | { placeholder: string, token: Token }
+
+const MAX_EXPANSION_DEPTH = 64
+const PUNCTUATION = '(){},='
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+function tokenize (source: string): Token[] {
+  const tokens: Token[] = []
+  let line = 1
+  let lineStart = 0
+  let i = 0
+  while (i < source.length) {
+    const c = source[i]
+    if (c === '\n') {
+      line++
+      lineStart = i + 1
+      i++
+      continue
+    }
+    if (/\s/.test(c)) {
+      i++
+      continue
+    }
+    if (c === '#' || source.startsWith('//', i)) {
+      while (i < source.length && source[i] !== '\n') i++
+      continue
+    }
+    const column = i - lineStart + 1
+    let end = i + 1
+    if (c === "'") {
+      while (end < source.length && source[end] !== "'" && source[end] !== '\n') {
+        end += source[end] === '\\' ? 2 : 1
+      }
+      if (source[end] !== "'") {
+        throw new ScriptAssemblyError('Unterminated string', line, column)
+      }
+      end++
+    } else if (c === '<') {
+      end = source.indexOf('>', i) + 1
+      if (end === 0 || !IDENTIFIER.test(source.slice(i + 1, end - 1))) {
+        throw new ScriptAssemblyError('A placeholder must be a name between < and >', line, column)
+      }
+    } else if (!PUNCTUATION.includes(c)) {
+      while (
+        end < source.length &&
+        !/[\s(){},='#<]/.test(source[end]) &&
+        !source.startsWith('//', end)
+      ) {
+        end++
+      }
+    }
+    tokens.push({ text: source.slice(i, end), line, column })
+    i = end
+  }
+  return tokens
+}
+
+function dataChunk (data: number[]): ScriptChunk {
+  if (data.length === 0) return { op: OP.OP_0 }
+  if (data.length < OP.OP_PUSHDATA1) return { op: data.length, data }
+  if (data.length < 256) return { op: OP.OP_PUSHDATA1, data }
+  if (data.length < 65536) return { op: OP.OP_PUSHDATA2, data }
+  return { op: OP.OP_PUSHDATA4, data }
+}
+
+function numberChunk (n: BigNumber): ScriptChunk {
+  const data = n.toScriptNum()
+  if (data.length === 0) return { op: OP.OP_0 }
+  if (data.length === 1 && data[0] >= 1 && data[0] <= 16) return { op: OP.OP_1 + data[0] - 1 }
+  if (data.length === 1 && data[0] === 0x81) return { op: OP.OP_1NEGATE }
+  return dataChunk(data)
+}
+
+function valueChunk (value: AssemblerValue): ScriptChunk {
+  if (typeof value === 'number') return numberChunk(new BigNumber(value))
+  if (typeof value === 'string') return dataChunk(toArray(value, 'hex'))
+  if (value instanceof PublicKey) return dataChunk(value.encode(true) as number[])
+  return dataChunk(value)
+}
+
+function valueText (value: AssemblerValue): string {
+  if (typeof value === 'number') return String(value)
+  if (typeof value === 'string') return '0x' + value
+  if (value instanceof PublicKey) return '0x' + value.toString()
+  return '0x' + toHex(value)
+}
+
+function opcode (text: string): number | undefined {
+  const name = text.toUpperCase()
+  for (const candidate of [name, 'OP_' + name]) {
+    if (candidate.startsWith('OP_') && typeof OP[candidate] === 'number') {
+      return OP[candidate]
+    }
+  }
+  return undefined
+}
+
+function literal (text: string): ScriptChunk | undefined {
+  if (/^-?\d+$/.test(text)) {
+    return numberChunk(new BigNumber(text))
+  }
+  if (/^0x([0-9a-fA-F]{2})*$/.test(text)) {
+    return dataChunk(toArray(text.slice(2), 'hex'))
+  }
+  if (text.startsWith("'")) {
+    return dataChunk(toArray(text.slice(1, -1).replace(/\\(.)/g, '$1'), 'utf8'))
+  }
+  return undefined
+}
+
+function describeData (data: number[], previous?: ScriptChunk): string | undefined {
+  if ((data.length === 33 && (data[0] === 2 || data[0] === 3)) || (data.length === 65 && data[0] === 4)) {
+    return 'public key'
+  }
+  if (data.length >= 70 && data.length <= 73 && data[0] === 0x30) {
+    return 'signature'
+  }
+  if (previous !== undefined && previous.data === undefined) {
+    if (data.length === 20 && previous.op === OP.OP_HASH160) return 'public key hash'
+    if (data.length === 32 && (previous.op === OP.OP_SHA256 || previous.op === OP.OP_HASH256)) return 'hash'
+  }
+  if (data.length <= 4) {
+    try {
+      return String(BigNumber.fromScriptNum(data, true).toNumber())
+    } catch {
+      return undefined
+    }
+  }
+  return undefined
+}
+
+/**
+ * An assembler for scripts, and the matching disassembler.
+ *
+ * Sources are written like the ASM of `Script.fromASM`, except that hex data is prefixed with `0x`, and may contain:
+ * - comments, from `#` or `//` to the end of the line;
+ * - opcodes with or without their `OP_` prefix, in any case, such as `OP_DUP`, `DUP` or `dup`;
+ * - decimal numbers, pushed as script numbers, `0x` prefixed hex data, and `'text'` pushed as UTF-8;
+ * - named constants, `const FEE = 500`;
+ * - macros, `macro CHECK_OWNER(hash) { DUP HASH160 hash EQUALVERIFY CHECKSIG }`, used as `CHECK_OWNER(<owner>)`,
+ *   or without parentheses when they take no arguments;
+ * - placeholders such as `<owner>`, filled with values when the compiled contract is locked.
+ *
+ * Assembling checks that `OP_IF`, `OP_NOTIF`, `OP_ELSE` and `OP_ENDIF` are balanced, and follows the depth of the stacks
+ * to report the number of items the script needs, failing when it needs more than the `inputs` it is given.
+ *
+ * @example
+ * const assembler = new ScriptAssembler()
+ * assembler.defineMacro('CHECK_OWNER', 'DUP HASH160 hash EQUALVERIFY CHECKSIG', ['hash'])
+ * const contract = assembler.compile(`
+ *   # Pays the owner, or anyone with the secret after the owner has had their turn
+ *   IF
+ *     SHA256 <secretHash> EQUALVERIFY
+ *   ELSE
+ *     CHECK_OWNER(<ownerHash>)
+ *   ENDIF
+ * `)
+ * const lockingScript = contract.lock({ secretHash, ownerHash: owner.toPublicKey().toHash() })
+ * console.log(assembler.disassemble(lockingScript))
+ */
+export default class ScriptAssembler {
+  private readonly constants = new Map<string, Token[]>()
+  private readonly macros = new Map<string, Macro>()
+
+  /**
+   * Defines a constant available to every source this assembler assembles.
+   *
+   * @param {string} name - The name of the constant.
+   * @param {AssemblerValue} value - The value of the constant.
+   */
+  defineConstant (name: string, value: AssemblerValue): void {
+    this.checkName(name, { text: name, line: 1, column: 1 })
+    this.constants.set(name, [{ text: valueText(value), line: 1, column: 1 }])
+  }
+
+  /**
+   * Defines a macro available to every source this assembler assembles. Macros without parameters are also recognized
+   * by the disassembler.
+   *
+   * @param {string} name - The name of the macro.
+   * @param {string} body - The source the macro expands to.
+   * @param {string[]} params - The names of the parameters of the macro, which are replaced in the body by its arguments.
+   */
+  defineMacro (name: string, body: string, params: string[] = []): void {
+    this.checkName(name, { text: name, line: 1, column: 1 })
+    this.macros.set(name, { params, body: tokenize(body) })
+  }
+
+  /**
+   * Assembles a source into a contract whose placeholders are filled when it is locked.
+   *
+   * @param {string} source - The source to assemble.
+   * @param {AssembleOptions} options - Optional. The number of stack items the script starts with.
+   * @returns {ScriptContract} The assembled contract.
+   * @throws {ScriptAssemblyError} If the source is malformed or fails validation.
+   */
+  compile (source: string, options: AssembleOptions = {}): ScriptContract {
+    const constants = new Map(this.constants)
+    const macros = new Map(this.macros)
+    const tokens = this.readDefinitions(tokenize(source), constants, macros)
+    const items: Item[] = []
+    this.expand(tokens, constants, macros, 0, items)
+    const requiredInputs = this.validate(items, options.inputs)
+    const placeholders: string[] = []
+    for (const item of items) {
+      if ('placeholder' in item && !placeholders.includes(item.placeholder)) {
+        placeholders.push(item.placeholder)
+      }
+    }
+    return {
+      placeholders,
+      requiredInputs,
+      lock: (params: Record<string, AssemblerValue> = {}): LockingScript => {
+        return new LockingScript(items.map((item) => {
+          if ('chunk' in item) return item.chunk
+          const value = params[item.placeholder]
+          if (value === undefined) {
+            throw new ScriptAssemblyError(
+              `No value was given for the placeholder <${item.placeholder}>`,
+              item.token.line,
+              item.token.column
+            )
+          }
+          return valueChunk(value)
+        }))
+      }
+    }
+  }
+
+  /**
+   * Assembles a source into a script.
+   *
+   * @param {string} source - The source to assemble.
+   * @param {Record<string, AssemblerValue>} params - Optional. The values of the placeholders in the source.
+   * @param {AssembleOptions} options - Optional. The number of stack items the script starts with.
+   * @returns {Script} The assembled script.
+   * @throws {ScriptAssemblyError} If the source is malformed, fails validation or has a placeholder without a value.
+   */
+  assemble (source: string, params: Record<string, AssemblerValue> = {}, options: AssembleOptions = {}): Script {
+    return new Script(this.compile(source, options).lock(params).chunks)
+  }
+
+  /**
+   * Disassembles a script into a source this assembler assembles back into the same script, annotated with the
+   * template the script is of, the macros without parameters it contains, and what its pushed data appears to be,
+   * such as public keys, signatures and numbers. Conditional blocks are indented.
+   *
+   * @param {Script} script - The script to disassemble.
+   * @param {ScriptTemplateRegistry} registry - Optional. The templates to recognize.
+   * @returns {string} The annotated source.
+   */
+  disassemble (script: Script, registry: ScriptTemplateRegistry = scriptTemplateRegistry): string {
+    const lines: string[] = []
+    const identified = script.identify(registry)
+    if (identified !== undefined) {
+      lines.push(`# ${identified.template}`)
+    }
+    const patterns = this.patterns()
+    const chunks = script.chunks
+    let indent = 0
+    let i = 0
+    while (i < chunks.length) {
+      const pattern = patterns.find(({ chunks: p }) =>
+        p.every((chunk, j) => chunks[i + j] !== undefined && this.sameChunk(chunk, chunks[i + j]))
+      )
+      if (pattern !== undefined) {
+        lines.push('  '.repeat(indent) + pattern.name)
+        i += pattern.chunks.length
+        continue
+      }
+      const chunk = chunks[i]
+      if (chunk.op === OP.OP_ELSE || chunk.op === OP.OP_ENDIF) {
+        indent = Math.max(0, indent - 1)
+      }
+      lines.push('  '.repeat(indent) + this.chunkSource(chunk, chunks[i - 1]))
+      if (chunk.op === OP.OP_IF || chunk.op === OP.OP_NOTIF || chunk.op === OP.OP_ELSE) {
+        indent++
+      }
+      i++
+    }
+    return lines.join('\n')
+  }
+
+  private checkName (name: string, token: Token): void {
+    if (!IDENTIFIER.test(name) || opcode(name) !== undefined || literal(name) !== undefined) {
+      throw new ScriptAssemblyError(`${name} cannot be the name of a constant or macro`, token.line, token.column)
+    }
+  }
+
+  private readDefinitions (tokens: Token[], constants: Map<string, Token[]>, macros: Map<string, Macro>): Token[] {
+    const rest: Token[] = []
+    let i = 0
+    const expect = (text: string): void => {
+      const token = tokens[i] ?? tokens[i - 1]
+      if (tokens[i]?.text !== text) {
+        throw new ScriptAssemblyError(`Expected ${text}`, token.line, token.column)
+      }
+      i++
+    }
+    while (i < tokens.length) {
+      const token = tokens[i]
+      if (token.text !== 'const' && token.text !== 'macro') {
+        rest.push(token)
+        i++
+        continue
+      }
+      const name = tokens[i + 1]
+      if (name === undefined) {
+        throw new ScriptAssemblyError(`Expected a name after ${token.text}`, token.line, token.column)
+      }
+      this.checkName(name.text, name)
+      i += 2
+      if (token.text === 'const') {
+        expect('=')
+        const value = tokens[i]
+        if (value === undefined || literal(value.text) === undefined) {
+          throw new ScriptAssemblyError(`The constant ${name.text} must be a number, data or text`, name.line, name.column)
+        }
+        constants.set(name.text, [value])
+        i++
+        continue
+      }
+      const params: string[] = []
+      if (tokens[i]?.text === '(') {
+        i++
+        while (tokens[i]?.text !== ')') {
+          const param = tokens[i]
+          if (param === undefined || !IDENTIFIER.test(param.text)) {
+            throw new ScriptAssemblyError(`Expected a parameter name for the macro ${name.text}`, name.line, name.column)
+          }
+          params.push(param.text)
+          i++
+          if (tokens[i]?.text === ',') i++
+        }
+        i++
+      }
+      expect('{')
+      const body: Token[] = []
+      while (tokens[i] !== undefined && tokens[i].text !== '}') {
+        if (tokens[i].text === '{' || tokens[i].text === 'macro' || tokens[i].text === 'const') {
+          throw new ScriptAssemblyError('Definitions cannot be nested in a macro', tokens[i].line, tokens[i].column)
+        }
+        body.push(tokens[i])
+        i++
+      }
+      expect('}')
+      macros.set(name.text, { params, body })
+    }
+    return rest
+  }
+
+  private readArguments (tokens: Token[], start: number): { args: Token[][], end: number } {
+    const args: Token[][] = []
+    let current: Token[] = []
+    let depth = 0
+    for (let i = start + 1; i < tokens.length; i++) {
+      const text = tokens[i].text
+      if (depth === 0 && (text === ',' || text === ')')) {
+        if (current.length > 0 || text === ',') args.push(current)
+        current = []
+        if (text === ')') return { args, end: i }
+        continue
+      }
+      if (text === '(') depth++
+      if (text === ')') depth--
+      current.push(tokens[i])
+    }
+    throw new ScriptAssemblyError('Unclosed macro arguments', tokens[start].line, tokens[start].column)
+  }
+
+  private expand (
+    tokens: Token[],
+    constants: Map<string, Token[]>,
+    macros: Map<string, Macro>,
+    depth: number,
+    out: Item[]
+  ): void {
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i]
+      const { text } = token
+      const macro = macros.get(text)
+      const constant = constants.get(text)
+      if ((macro !== undefined || constant !== undefined) && depth >= MAX_EXPANSION_DEPTH) {
+        throw new ScriptAssemblyError(`${text} expands too deeply, it may refer to itself`, token.line, token.column)
+      }
+      if (macro !== undefined) {
+        let args: Token[][] = []
+        if (tokens[i + 1]?.text === '(') {
+          const read = this.readArguments(tokens, i + 1)
+          args = read.args
+          i = read.end
+        }
+        if (args.length !== macro.params.length) {
+          throw new ScriptAssemblyError(
+            `The macro ${text} takes ${macro.params.length} arguments but was given ${args.length}`,
+            token.line,
+            token.column
+          )
+        }
+        const body = macro.body.flatMap((t) => {
+          const index = macro.params.indexOf(t.text)
+          return index === -1 ? [t] : args[index]
+        })
+        this.expand(body, constants, macros, depth + 1, out)
+      } else if (constant !== undefined) {
+        this.expand(constant, constants, macros, depth + 1, out)
+      } else if (text.startsWith('<')) {
+        out.push({ placeholder: text.slice(1, -1), token })
+      } else if (PUNCTUATION.includes(text)) {
+        throw new ScriptAssemblyError(`Unexpected ${text}`, token.line, token.column)
+      } else {
+        const op = /^-?\d+$/.test(text) ? undefined : opcode(text)
+        const chunk = op !== undefined ? { op } : literal(text)
+        if (chunk === undefined) {
+          // Unlike in Script.fromASM, a bare 1234 is a number, so hex data must be prefixed to be told apart from one.
+          const message = /^([0-9a-fA-F]{2})+$/.test(text)
+            ? `Hex data must be prefixed with 0x, as in 0x${text}`
+            : `Unknown token ${text}`
+          throw new ScriptAssemblyError(message, token.line, token.column)
+        }
+        const previous = out[out.length - 1]
+        if (
+          previous !== undefined &&
+          'chunk' in previous &&
+          previous.chunk.data === undefined &&
+          (previous.chunk.op === OP.OP_PUSHDATA1 || previous.chunk.op === OP.OP_PUSHDATA2 || previous.chunk.op === OP.OP_PUSHDATA4)
+        ) {
+          // OP_PUSHDATA1, 2 and 4 push the data that follows them with that opcode.
+          if (chunk.data === undefined) {
+            throw new ScriptAssemblyError(`${OP[previous.chunk.op] as string} must be followed by data`, token.line, token.column)
+          }
+          previous.chunk = { op: previous.chunk.op, data: chunk.data }
+        } else {
+          out.push({ chunk, token })
+        }
+      }
+    }
+  }
+
+  private validate (items: Item[], inputs?: number): number {
+    const chunks = items.map((item) => {
+      if ('placeholder' in item) {
+        // Placeholders push a value that is not known yet.
+        return { op: 2, data: [0, 0] }
+      }
+      const { op, data } = item.chunk
+      if (op >= OP.OP_PUSHDATA1 && op <= OP.OP_PUSHDATA4 && data === undefined) {
+        throw new ScriptAssemblyError(`${item.token.text} must be followed by data`, item.token.line, item.token.column)
+      }
+      return item.chunk
+    })
+    const analysis = new ScriptAnalyzer().analyze(new Script(chunks), { role: 'locking', inputs })
+    // Other diagnostics, such as OP_RETURN in a data output, describe scripts that may well be intended.
+    const problem = analysis.diagnostics.find(({ code }) => code === 'unbalancedConditional' || code === 'stackUnderflow')
+    if (problem !== undefined) {
+      const { token } = items[problem.chunkIndex]
+      throw new ScriptAssemblyError(problem.message, token.line, token.column)
+    }
+    return analysis.requiredInputs
+  }
+
+  private patterns (): Array<{ name: string, chunks: ScriptChunk[] }> {
+    const patterns: Array<{ name: string, chunks: ScriptChunk[] }> = []
+    for (const [name, macro] of this.macros) {
+      if (macro.params.length > 0) continue
+      try {
+        const chunks = this.compile(name).lock().chunks
+        if (chunks.length > 1) patterns.push({ name, chunks })
+      } catch {
+        // Macros with placeholders, or unbalanced conditionals, are not recognized.
+      }
+    }
+    return patterns.sort((a, b) => b.chunks.length - a.chunks.length)
+  }
+
+  private sameChunk (a: ScriptChunk, b: ScriptChunk): boolean {
+    return a.op === b.op && toHex(a.data ?? []) === toHex(b.data ?? []) && (a.data === undefined) === (b.data === undefined)
+  }
+
+  private chunkSource (chunk: ScriptChunk, previous?: ScriptChunk): string {
+    const { op, data } = chunk
+    if (data === undefined) {
+      if (op === OP.OP_0) return '0'
+      if (op === OP.OP_1NEGATE) return '-1'
+      if (op >= OP.OP_1 && op <= OP.OP_16) return String(op - OP.OP_1 + 1)
+      return (OP[op] as string | undefined) ?? `OP_INVALIDOPCODE # 0x${toHex([op])}`
+    }
+    let source = dataChunk(data).op === op ? '' : `${OP[op] as string} `
+    const printable = data.length >= 4 && data.every((b) => b >= 0x20 && b <= 0x7e && b !== 0x27 && b !== 0x5c)
+    source += printable ? `'${String.fromCharCode(...data)}'` : '0x' + toHex(data)
+    const description = printable ? undefined : describeData(data, previous)
+    return description === undefined ? source : `${source}  # ${description}`
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * Thrown when `ScriptAssembler` cannot assemble a source, with the position in the source at which it failed.
+ */
+export default class ScriptAssemblyError extends Error {
+  line: number
+  column: number
+
+  constructor (message: string, line: number, column: number) {
+    super(`${message} (line ${line}, column ${column})`)
+    this.name = this.constructor.name
+    this.line = line
+    this.column = column
+  }
+}
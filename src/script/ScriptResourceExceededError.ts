@@ -0,0 +1,23 @@
+/**
+ * The resources metered while evaluating a `Spend`:
+ * non-push operations, memory used by and items on the stacks, execution cost, and the size of each script.
+ */
+export type ScriptResource = 'operations' | 'stackMemory' | 'stackSize' | 'executionCost' | 'scriptSize'
+
+/**
+ * Thrown when evaluating a `Spend` exceeds one of the limits set by its `ScriptVerifyFlags`.
+ * Evaluation is aborted before the operation that would exceed an operation or execution cost limit is performed.
+ */
+export default class ScriptResourceExceededError extends Error {
+  resource: ScriptResource
+  limit: number
+  used: number
+
+  constructor (message: string, resource: ScriptResource, limit: number, used: number) {
+    super(message)
+    this.name = this.constructor.name
+    this.resource = resource
+    this.limit = limit
+    this.used = used
+  }
+}
@@ -0,0 +1,104 @@
+import Script from './Script.js'
+
+/**
+ * Describes how to recognize and decode the locking scripts of a script template.
+ *
+ * @interface ScriptTemplateDecoder
+ * @property {string} name - The name of the template, such as 'P2PKH'.
+ * @property {number} [priority] - Optional. Templates with a higher priority are tried first, so that a template which specializes
+ *           another, such as a PushDrop token of a particular protocol, is reported instead of the general one. Defaults to 0.
+ * @property {function} [matches] - Optional. A quick check of whether a script is of this template. Without it, any script the
+ *           decoder does not throw for is of this template.
+ * @property {function} decode - Decodes a script of this template into its parameters, throwing if it is not of this template.
+ */
+export interface ScriptTemplateDecoder {
+  name: string
+  priority?: number
+  matches?: (script: Script) => boolean
+  decode: (script: Script) => Record<string, any>
+}
+
+/**
+ * A script recognized by a `ScriptTemplateRegistry`.
+ *
+ * @interface IdentifiedScript
+ * @property {string} template - The name of the template the script is of.
+ * @property {Record<string, any>} params - The parameters decoded from the script, such as an address, token fields or puzzle hash.
+ */
+export interface IdentifiedScript {
+  template: string
+  params: Record<string, any>
+}
+
+/**
+ * Recognizes the template of locking scripts from a set of registered decoders.
+ *
+ * The templates of the SDK, such as `P2PKH`, `PushDrop`, `RPuzzle` and `OverlayAdminTokenTemplate`, are registered with
+ * `scriptTemplateRegistry` by `registerBuiltinScriptTemplates`, and `Script.identify` and `Script.decode` use that registry
+ * unless given another.
+ *
+ * @example
+ * scriptTemplateRegistry.register({
+ *   name: 'MyToken',
+ *   matches: (script) => script.chunks[0]?.op === OP.OP_RETURN,
+ *   decode: (script) => ({ data: script.chunks[1]?.data })
+ * })
+ * const { template, params } = lockingScript.decode()
+ */
+export default class ScriptTemplateRegistry {
+  private decoders: ScriptTemplateDecoder[] = []
+
+  /**
+   * Registers a template decoder, replacing any registered with the same name.
+   *
+   * @param {ScriptTemplateDecoder} decoder - The decoder to register.
+   */
+  register (decoder: ScriptTemplateDecoder): void {
+    this.decoders = this.decoders.filter((d) => d.name !== decoder.name)
+    this.decoders.push(decoder)
+    // Array sorting is stable, so decoders of equal priority are tried in the order they were registered.
+    this.decoders.sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0))
+  }
+
+  /**
+   * Removes a template decoder.
+   *
+   * @param {string} name - The name of the template.
+   * @returns {boolean} Whether a decoder was registered with the name.
+   */
+  unregister (name: string): boolean {
+    const count = this.decoders.length
+    this.decoders = this.decoders.filter((d) => d.name !== name)
+    return this.decoders.length !== count
+  }
+
+  /**
+   * @returns {string[]} The names of the registered templates, in the order they are tried.
+   */
+  get templates (): string[] {
+    return this.decoders.map((d) => d.name)
+  }
+
+  /**
+   * Identifies the template of a script.
+   *
+   * @param {Script} script - The script to identify.
+   * @returns {IdentifiedScript | undefined} The template and decoded parameters, or undefined if no registered template matches.
+   */
+  identify (script: Script): IdentifiedScript | undefined {
+    for (const decoder of this.decoders) {
+      if (decoder.matches !== undefined && !decoder.matches(script)) continue
+      let params: Record<string, any>
+      try {
+        params = decoder.decode(script)
+      } catch {
+        continue
+      }
+      return { template: decoder.name, params }
+    }
+    return undefined
+  }
+}
+
+/** The registry the templates of the SDK are registered with. */
+export const scriptTemplateRegistry = new ScriptTemplateRegistry()
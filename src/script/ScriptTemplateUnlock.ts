@@ -4,4 +4,9 @@ import Transaction from '../transaction/Transaction.js'
 export default interface ScriptTemplateUnlock {
   sign: (tx: Transaction, inputIndex: number) => Promise<UnlockingScript>
   estimateLength: (tx: Transaction, inputIndex: number) => Promise<number>
+  /**
+   * Optional. Adjusts the transaction for this input before any input is signed, such as by setting its lock time.
+   * Called by `Transaction.sign`.
+   */
+  prepare?: (tx: Transaction, inputIndex: number) => void
 }
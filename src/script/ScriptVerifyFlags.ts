@@ -0,0 +1,97 @@
+/**
+ * The rules and limits the script interpreter enforces when evaluating a `Spend`.
+ *
+ * Limits that do not apply are set to `Number.MAX_SAFE_INTEGER`.
+ *
+ * @interface ScriptVerifyFlags
+ * @property {number} maxScriptElementSize - The largest item, in bytes, that may be pushed to the stack.
+ * @property {number} maxMultisigKeyCount - The most public keys OP_CHECKMULTISIG may check.
+ * @property {number} maxScriptNumLength - The longest number, in bytes, numeric opcodes accept as an operand.
+ * @property {number} maxStackMemory - The most memory, in bytes, the stack and alt stack may use together. Each item counts its length plus 32 bytes.
+ * @property {number} maxStackSize - The most items the stack and alt stack may hold together.
+ * @property {number} maxScriptSize - The largest unlocking or locking script, in bytes.
+ * @property {number} maxOps - The most non-push opcodes the unlocking and locking scripts may contain together.
+ * @property {number} maxExecutionCost - A budget for the work evaluation may do. Each executed chunk costs 1, plus the
+ *           size in bytes of the stack items it reads, copies or hashes. Multiplication, division and modulo instead cost the
+ *           product of their operand sizes, shifts also cost the bytes shifted through, OP_NUM2BIN the size it pads to, and signature
+ *           checks the size of the script being signed for each public key.
+ * @property {boolean} requireMinimalPush - Whether pushes and numbers must use their minimal encoding.
+ * @property {boolean} requirePushOnlyUnlockingScripts - Whether unlocking scripts may only contain push operations.
+ * @property {boolean} requireLowSSignatures - Whether signatures must have a low S value.
+ * @property {boolean} requireCleanStack - Whether exactly one item must be left on the stack after evaluation.
+ * @property {boolean} genesisRules - Whether the rules of the Genesis upgrade apply. Before Genesis, OP_RETURN fails the script rather than ending it
+ *           successfully, and OP_NOP2 and OP_NOP3 act as OP_CHECKLOCKTIMEVERIFY and OP_CHECKSEQUENCEVERIFY.
+ */
+export interface ScriptVerifyFlags {
+  maxScriptElementSize: number
+  maxMultisigKeyCount: number
+  maxScriptNumLength: number
+  maxStackMemory: number
+  maxStackSize: number
+  maxScriptSize: number
+  maxOps: number
+  maxExecutionCost: number
+  requireMinimalPush: boolean
+  requirePushOnlyUnlockingScripts: boolean
+  requireLowSSignatures: boolean
+  requireCleanStack: boolean
+  genesisRules: boolean
+}
+
+/**
+ * The rules every node enforces on scripts since the Genesis upgrade. Spends that only meet these rules
+ * are valid in blocks, but may not be relayed or mined by nodes enforcing the standard policy.
+ */
+export const consensusScriptFlags: ScriptVerifyFlags = {
+  maxScriptElementSize: Number.MAX_SAFE_INTEGER,
+  maxMultisigKeyCount: Math.pow(2, 31) - 1,
+  maxScriptNumLength: 750 * 1000,
+  maxStackMemory: Number.MAX_SAFE_INTEGER,
+  maxStackSize: Number.MAX_SAFE_INTEGER,
+  maxScriptSize: Number.MAX_SAFE_INTEGER,
+  maxOps: Number.MAX_SAFE_INTEGER,
+  maxExecutionCost: Number.MAX_SAFE_INTEGER,
+  requireMinimalPush: false,
+  requirePushOnlyUnlockingScripts: true,
+  requireLowSSignatures: false,
+  requireCleanStack: false,
+  genesisRules: true
+}
+
+/**
+ * The default policy of nodes for relaying and mining transactions. This is what `Spend` enforces unless told otherwise.
+ */
+export const standardScriptFlags: ScriptVerifyFlags = {
+  maxScriptElementSize: 1024 * 1024 * 1024,
+  maxMultisigKeyCount: Math.pow(2, 31) - 1,
+  maxScriptNumLength: 250 * 1000,
+  maxStackMemory: 100 * 1000 * 1000,
+  maxStackSize: Number.MAX_SAFE_INTEGER,
+  maxScriptSize: Number.MAX_SAFE_INTEGER,
+  maxOps: Number.MAX_SAFE_INTEGER,
+  maxExecutionCost: 100 * 1000 * 1000,
+  requireMinimalPush: true,
+  requirePushOnlyUnlockingScripts: true,
+  requireLowSSignatures: true,
+  requireCleanStack: true,
+  genesisRules: true
+}
+
+/**
+ * The consensus rules for scripts before the Genesis upgrade, for validating historic transactions.
+ */
+export const preGenesisScriptFlags: ScriptVerifyFlags = {
+  maxScriptElementSize: 520,
+  maxMultisigKeyCount: 20,
+  maxScriptNumLength: 4,
+  maxStackMemory: Number.MAX_SAFE_INTEGER,
+  maxStackSize: 1000,
+  maxScriptSize: 10000,
+  maxOps: 500,
+  maxExecutionCost: Number.MAX_SAFE_INTEGER,
+  requireMinimalPush: false,
+  requirePushOnlyUnlockingScripts: false,
+  requireLowSSignatures: false,
+  requireCleanStack: false,
+  genesisRules: false
+}
@@ -11,15 +11,107 @@ import PublicKey from '../primitives/PublicKey.js'
 import { verify } from '../primitives/ECDSA.js'
 import TransactionInput from '../transaction/TransactionInput.js'
 import TransactionOutput from '../transaction/TransactionOutput.js'
+import { ScriptVerifyFlags, standardScriptFlags } from './ScriptVerifyFlags.js'
+import ScriptResourceExceededError, { ScriptResource } from './ScriptResourceExceededError.js'
+import { isChunkMinimal, isOpcodeDisabled } from './opcodeRules.js'
 
-// These constants control the current behavior of the interpreter.
-// In the future, all of them will go away.
-const maxScriptElementSize = 1024 * 1024 * 1024
-const maxMultisigKeyCount = Math.pow(2, 31) - 1
-const requireMinimalPush = true
-const requirePushOnlyUnlockingScripts = true
-const requireLowSSignatures = true
-const requireCleanStack = true
+/**
+ * The evaluation state of a `Spend`, as captured by `Spend.snapshot`.
+ */
+export interface SpendSnapshot {
+  context: 'UnlockingScript' | 'LockingScript'
+  programCounter: number
+  lastCodeSeparator: number | null
+  stack: number[][]
+  altStack: number[][]
+  ifStack: boolean[]
+  opCount: number
+  executionCost: number
+  peakStackMemory: number
+}
+
+/**
+ * The resources used so far while evaluating a `Spend`, as reported by `Spend.usage`.
+ *
+ * @interface SpendUsage
+ * @property {number} operations - The number of non-push operations counted against `maxOps`.
+ * @property {number} executionCost - The execution cost counted against `maxExecutionCost`.
+ * @property {number} peakStackMemory - The most memory, in bytes, the stacks have used at once.
+ */
+export interface SpendUsage {
+  operations: number
+  executionCost: number
+  peakStackMemory: number
+}
+
+// Each stack item is counted as using this many bytes on top of its length, as nodes do.
+const stackItemOverhead = 32
+
+// Lock times below this are block heights, and from it on are timestamps.
+const lockTimeThreshold = 500000000
+
+// Bits of an input sequence number, as used by OP_CHECKSEQUENCEVERIFY.
+const sequenceDisableFlag = 0x80000000
+const sequenceTypeFlag = 0x400000
+
+/**
+ * The part of a sequence number OP_CHECKSEQUENCEVERIFY compares: its type flag and 16 bit relative lock time.
+ * Arithmetic is used rather than bitwise operators, as the operand may be wider than 32 bits.
+ */
+function sequenceLock (sequence: number): number {
+  return (Math.floor(sequence / sequenceTypeFlag) % 2) * sequenceTypeFlag + (sequence % 0x10000)
+}
+
+// The number of stack items, counting from the top, each operation reads, copies or hashes.
+const operandCounts: Record<number, number> = {
+  [OP.OP_DUP]: 1,
+  [OP.OP_IFDUP]: 1,
+  [OP.OP_TUCK]: 1,
+  [OP.OP_2DUP]: 2,
+  [OP.OP_OVER]: 2,
+  [OP.OP_3DUP]: 3,
+  [OP.OP_2OVER]: 4,
+  [OP.OP_CAT]: 2,
+  [OP.OP_SPLIT]: 2,
+  [OP.OP_NUM2BIN]: 2,
+  [OP.OP_BIN2NUM]: 1,
+  [OP.OP_INVERT]: 1,
+  [OP.OP_AND]: 2,
+  [OP.OP_OR]: 2,
+  [OP.OP_XOR]: 2,
+  [OP.OP_LSHIFT]: 2,
+  [OP.OP_RSHIFT]: 2,
+  [OP.OP_EQUAL]: 2,
+  [OP.OP_EQUALVERIFY]: 2,
+  [OP.OP_1ADD]: 1,
+  [OP.OP_1SUB]: 1,
+  [OP.OP_NEGATE]: 1,
+  [OP.OP_ABS]: 1,
+  [OP.OP_NOT]: 1,
+  [OP.OP_0NOTEQUAL]: 1,
+  [OP.OP_ADD]: 2,
+  [OP.OP_SUB]: 2,
+  [OP.OP_MUL]: 2,
+  [OP.OP_DIV]: 2,
+  [OP.OP_MOD]: 2,
+  [OP.OP_BOOLAND]: 2,
+  [OP.OP_BOOLOR]: 2,
+  [OP.OP_NUMEQUAL]: 2,
+  [OP.OP_NUMEQUALVERIFY]: 2,
+  [OP.OP_NUMNOTEQUAL]: 2,
+  [OP.OP_LESSTHAN]: 2,
+  [OP.OP_GREATERTHAN]: 2,
+  [OP.OP_LESSTHANOREQUAL]: 2,
+  [OP.OP_GREATERTHANOREQUAL]: 2,
+  [OP.OP_MIN]: 2,
+  [OP.OP_MAX]: 2,
+  [OP.OP_WITHIN]: 3,
+  [OP.OP_RIPEMD160]: 1,
+  [OP.OP_SHA1]: 1,
+  [OP.OP_SHA256]: 1,
+  [OP.OP_HASH160]: 1,
+  [OP.OP_HASH256]: 1
+}
 
 /**
  * The Spend class represents a spend action within a Bitcoin SV transaction.
@@ -38,6 +130,7 @@ const requireCleanStack = true
  * @property {number} inputIndex - The index of this input in the current transaction.
  * @property {UnlockingScript} unlockingScript - The unlocking script that unlocks the UTXO for spending.
  * @property {number} inputSequence - The sequence number of this input.
+ * @property {ScriptVerifyFlags} flags - The rules and limits enforced during evaluation.
  */
 export default class Spend {
   sourceTXID: string
@@ -57,6 +150,12 @@ export default class Spend {
   stack: number[][]
   altStack: number[][]
   ifStack: boolean[]
+  readonly flags: ScriptVerifyFlags
+  private opCount: number
+  private executionCost: number
+  private peakStackMemory: number
+  // The memory the stacks use, kept up to date as items are pushed, popped and replaced.
+  private stackMemory: number
 
   /**
    * @constructor
@@ -74,6 +173,7 @@ export default class Spend {
    * @param {UnlockingScript} params.unlockingScript - The unlocking script for this spend.
    * @param {number} params.inputSequence - The sequence number of this input.
    * @param {number} params.lockTime - The lock time of the transaction.
+   * @param {Partial<ScriptVerifyFlags>} [params.flags] - Optional. Rules and limits that replace those of the standard policy, such as `preGenesisScriptFlags`.
    *
    * @example
    * const spend = new Spend({
@@ -101,6 +201,7 @@ export default class Spend {
     inputSequence: number
     inputIndex: number
     lockTime: number
+    flags?: Partial<ScriptVerifyFlags>
   }) {
     this.sourceTXID = params.sourceTXID
     this.sourceOutputIndex = params.sourceOutputIndex
@@ -113,6 +214,7 @@ export default class Spend {
     this.unlockingScript = params.unlockingScript
     this.inputSequence = params.inputSequence
     this.lockTime = params.lockTime
+    this.flags = { ...standardScriptFlags, ...params.flags }
     this.reset()
   }
 
@@ -123,6 +225,71 @@ export default class Spend {
     this.stack = []
     this.altStack = []
     this.ifStack = []
+    this.opCount = 0
+    this.executionCost = 0
+    this.peakStackMemory = 0
+    this.stackMemory = 0
+  }
+
+  /**
+   * The resources used so far by evaluation, as metered against the limits of `flags`.
+   */
+  get usage (): SpendUsage {
+    return {
+      operations: this.opCount,
+      executionCost: this.executionCost,
+      peakStackMemory: this.peakStackMemory
+    }
+  }
+
+  /**
+   * @method snapshot
+   * Captures the evaluation state, so that it can later be restored.
+   * @returns {SpendSnapshot} A copy of the evaluation state.
+   */
+  snapshot (): SpendSnapshot {
+    return {
+      context: this.context,
+      programCounter: this.programCounter,
+      lastCodeSeparator: this.lastCodeSeparator,
+      stack: this.stack.map((item) => [...item]),
+      altStack: this.altStack.map((item) => [...item]),
+      ifStack: [...this.ifStack],
+      opCount: this.opCount,
+      executionCost: this.executionCost,
+      peakStackMemory: this.peakStackMemory
+    }
+  }
+
+  /**
+   * @method restore
+   * Returns evaluation to a previously captured state.
+   * @param {SpendSnapshot} snapshot - A state captured by `snapshot`.
+   */
+  restore (snapshot: SpendSnapshot): void {
+    this.context = snapshot.context
+    this.programCounter = snapshot.programCounter
+    this.lastCodeSeparator = snapshot.lastCodeSeparator
+    this.stack = snapshot.stack.map((item) => [...item])
+    this.altStack = snapshot.altStack.map((item) => [...item])
+    this.ifStack = [...snapshot.ifStack]
+    this.opCount = snapshot.opCount
+    this.executionCost = snapshot.executionCost
+    this.peakStackMemory = snapshot.peakStackMemory
+    this.stackMemory = 0
+    for (const item of this.stack) this.stackMemory += item.length + stackItemOverhead
+    for (const item of this.altStack) this.stackMemory += item.length + stackItemOverhead
+  }
+
+  /**
+   * @method isFinished
+   * @returns {boolean} Whether every chunk of the unlocking and locking scripts has been evaluated.
+   */
+  isFinished (): boolean {
+    return (
+      this.context === 'LockingScript' &&
+      this.programCounter >= this.lockingScript.chunks.length
+    )
   }
 
   step (): void {
@@ -143,42 +310,16 @@ export default class Spend {
       operation = this.lockingScript.chunks[this.programCounter]
     }
 
-    const isOpcodeDisabled = (op: number): boolean => {
-      return (
-        op === OP.OP_2MUL ||
-        op === OP.OP_2DIV ||
-        op === OP.OP_VERIF ||
-        op === OP.OP_VERNOTIF ||
-        op === OP.OP_VER
-      )
-    }
-
-    const isChunkMinimal = (chunk: ScriptChunk): boolean => {
-      const data = chunk.data
-      const op = chunk.op
-      if (!Array.isArray(data)) {
-        return true
-      }
-      if (data.length === 0) {
-        // Could have used OP_0.
-        return op === OP.OP_0
-      } else if (data.length === 1 && data[0] >= 1 && data[0] <= 16) {
-        // Could have used OP_1 .. OP_16.
-        return op === OP.OP_1 + (data[0] - 1)
-      } else if (data.length === 1 && data[0] === 0x81) {
-        // Could have used OP_1NEGATE.
-        return op === OP.OP_1NEGATE
-      } else if (data.length <= 75) {
-        // Could have used a direct push (opCode indicating number of bytes pushed + those bytes).
-        return op === data.length
-      } else if (data.length <= 255) {
-        // Could have used OP_PUSHDATA.
-        return op === OP.OP_PUSHDATA1
-      } else if (data.length <= 65535) {
-        // Could have used OP_PUSHDATA2.
-        return op === OP.OP_PUSHDATA2
+    if (this.programCounter === 0 && this.flags.maxScriptSize < Number.MAX_SAFE_INTEGER) {
+      const scriptSize = this.currentScriptLength()
+      if (scriptSize > this.flags.maxScriptSize) {
+        this.resourceExceeded(
+          'scriptSize',
+          this.flags.maxScriptSize,
+          scriptSize,
+          `The ${this.context} may be no larger than ${this.flags.maxScriptSize} bytes.`
+        )
       }
-      return true
     }
 
     // Following example from sCrypt now using Number.MAX_SAFE_INTEGER (bsv/lib/transaction/input/input).
@@ -308,7 +449,7 @@ export default class Spend {
         this.scriptEvaluationError('The signature format is invalid.')
       }
       const sig = TransactionSignature.fromChecksigFormat(buf)
-      if (requireLowSSignatures && !sig.hasLowS()) {
+      if (this.flags.requireLowSSignatures && !sig.hasLowS()) {
         this.scriptEvaluationError('The signature must have a low S value.')
       }
       if ((sig.scope & TransactionSignature.SIGHASH_FORKID) === 0) {
@@ -406,10 +547,20 @@ export default class Spend {
     }
     if (
       Array.isArray(operation.data) &&
-      operation.data.length > maxScriptElementSize
+      operation.data.length > this.flags.maxScriptElementSize
     ) {
       this.scriptEvaluationError(
-        `It's not currently possible to push data larger than ${maxScriptElementSize} bytes.`
+        `It's not currently possible to push data larger than ${this.flags.maxScriptElementSize} bytes.`
+      )
+    }
+
+    // Like nodes, count non-push opcodes whether or not they are executed.
+    if (currentOpcode > OP.OP_16 && ++this.opCount > this.flags.maxOps) {
+      this.resourceExceeded(
+        'operations',
+        this.flags.maxOps,
+        this.opCount,
+        `The scripts may contain no more than ${this.flags.maxOps} non-push operations.`
       )
     }
 
@@ -417,19 +568,36 @@ export default class Spend {
       this.scriptEvaluationError('This opcode is currently disabled.')
     }
 
+    // Charge for the operation before performing it, so that costly operations are never started.
+    if (
+      isScriptExecuting ||
+      (OP.OP_IF <= currentOpcode && currentOpcode <= OP.OP_ENDIF)
+    ) {
+      const cost = this.executionCost + this.operationCost(currentOpcode)
+      if (cost > this.flags.maxExecutionCost) {
+        this.resourceExceeded(
+          'executionCost',
+          this.flags.maxExecutionCost,
+          cost,
+          `The scripts may cost no more than ${this.flags.maxExecutionCost} to execute.`
+        )
+      }
+      this.executionCost = cost
+    }
+
     if (
       isScriptExecuting &&
       currentOpcode >= 0 &&
       currentOpcode <= OP.OP_PUSHDATA4
     ) {
-      if (requireMinimalPush && !isChunkMinimal(operation)) {
+      if (this.flags.requireMinimalPush && !isChunkMinimal(operation)) {
         this.scriptEvaluationError('This data is not minimally-encoded.')
       }
 
       if (!Array.isArray(operation.data)) {
-        this.stack.push([])
+        this.pushStack([])
       } else {
-        this.stack.push(operation.data)
+        this.pushStack(operation.data)
       }
     } else if (
       isScriptExecuting ||
@@ -455,12 +623,91 @@ export default class Spend {
         case OP.OP_16:
           n = currentOpcode - (OP.OP_1 - 1)
           buf = new BigNumber(n).toScriptNum()
-          this.stack.push(buf)
+          this.pushStack(buf)
           break
 
-        case OP.OP_NOP:
         case OP.OP_NOP2:
+          // OP_CHECKLOCKTIMEVERIFY before Genesis
+          if (!this.flags.genesisRules) {
+            if (this.stack.length < 1) {
+              this.scriptEvaluationError(
+                'OP_CHECKLOCKTIMEVERIFY requires at least one item to be on the stack.'
+              )
+            }
+            n = BigNumber.fromScriptNum(
+              this.stacktop(-1),
+              this.flags.requireMinimalPush,
+              5
+            ).toNumber()
+            if (n < 0) {
+              this.scriptEvaluationError(
+                'OP_CHECKLOCKTIMEVERIFY requires the lock time not to be negative.'
+              )
+            }
+            if ((n < lockTimeThreshold) !== (this.lockTime < lockTimeThreshold)) {
+              this.scriptEvaluationError(
+                'OP_CHECKLOCKTIMEVERIFY requires the lock time to be of the same type, block height or time, as that of the transaction.'
+              )
+            }
+            if (n > this.lockTime) {
+              this.scriptEvaluationError(
+                'OP_CHECKLOCKTIMEVERIFY requires the lock time not to be later than that of the transaction.'
+              )
+            }
+            if (this.inputSequence === 0xffffffff) {
+              this.scriptEvaluationError(
+                'OP_CHECKLOCKTIMEVERIFY requires the sequence number of the input not to be final.'
+              )
+            }
+          }
+          break
+
         case OP.OP_NOP3:
+          // OP_CHECKSEQUENCEVERIFY before Genesis
+          if (!this.flags.genesisRules) {
+            if (this.stack.length < 1) {
+              this.scriptEvaluationError(
+                'OP_CHECKSEQUENCEVERIFY requires at least one item to be on the stack.'
+              )
+            }
+            n = BigNumber.fromScriptNum(
+              this.stacktop(-1),
+              this.flags.requireMinimalPush,
+              5
+            ).toNumber()
+            if (n < 0) {
+              this.scriptEvaluationError(
+                'OP_CHECKSEQUENCEVERIFY requires the relative lock time not to be negative.'
+              )
+            }
+            // With the disable flag set, the operation does nothing.
+            if (Math.floor(n / sequenceDisableFlag) % 2 === 1) {
+              break
+            }
+            if (this.transactionVersion < 2) {
+              this.scriptEvaluationError(
+                'OP_CHECKSEQUENCEVERIFY requires a transaction version of at least 2.'
+              )
+            }
+            if (this.inputSequence >= sequenceDisableFlag) {
+              this.scriptEvaluationError(
+                'OP_CHECKSEQUENCEVERIFY requires the relative lock time of the input to be enabled.'
+              )
+            }
+            if ((sequenceLock(n) < sequenceTypeFlag) !== (sequenceLock(this.inputSequence) < sequenceTypeFlag)) {
+              this.scriptEvaluationError(
+                'OP_CHECKSEQUENCEVERIFY requires the relative lock time to be of the same type, blocks or time, as that of the input.'
+              )
+            }
+            if (sequenceLock(n) > sequenceLock(this.inputSequence)) {
+              this.scriptEvaluationError(
+                'OP_CHECKSEQUENCEVERIFY requires the relative lock time not to be later than that of the input.'
+              )
+            }
+          }
+          break
+
+        case OP.OP_NOP:
         case OP.OP_NOP1:
         case OP.OP_NOP4:
         case OP.OP_NOP5:
@@ -550,7 +797,7 @@ export default class Spend {
             if (currentOpcode === OP.OP_NOTIF) {
               fValue = !fValue
             }
-            this.stack.pop()
+            this.popStack()
           }
           this.ifStack.push(fValue)
           break
@@ -579,7 +826,7 @@ export default class Spend {
           buf = this.stacktop(-1)
           fValue = this.castToBool(buf)
           if (fValue) {
-            this.stack.pop()
+            this.popStack()
           } else {
             this.scriptEvaluationError(
               'OP_VERIFY requires the top stack value to be truthy.'
@@ -588,6 +835,9 @@ export default class Spend {
           break
 
         case OP.OP_RETURN:
+          if (!this.flags.genesisRules) {
+            this.scriptEvaluationError('OP_RETURN was encountered before the Genesis upgrade.')
+          }
           if (this.context === 'UnlockingScript') {
             this.programCounter = this.unlockingScript.chunks.length
           } else {
@@ -601,6 +851,7 @@ export default class Spend {
             this.scriptEvaluationError(
               'OP_TOALTSTACK requires at oeast one item to be on the stack.')
           }
+          // Moving an item between the stacks leaves the memory they use unchanged.
           this.altStack.push(this.stack.pop() ?? [])
           break
 
@@ -619,8 +870,8 @@ export default class Spend {
               'OP_2DROP requires at least two items to be on the stack.'
             )
           }
-          this.stack.pop()
-          this.stack.pop()
+          this.popStack()
+          this.popStack()
           break
 
         case OP.OP_2DUP:
@@ -631,8 +882,8 @@ export default class Spend {
           }
           buf1 = this.stacktop(-2)
           buf2 = this.stacktop(-1)
-          this.stack.push([...buf1])
-          this.stack.push([...buf2])
+          this.pushStack([...buf1])
+          this.pushStack([...buf2])
           break
 
         case OP.OP_3DUP:
@@ -644,9 +895,9 @@ export default class Spend {
           buf1 = this.stacktop(-3)
           buf2 = this.stacktop(-2)
           buf3 = this.stacktop(-1)
-          this.stack.push([...buf1])
-          this.stack.push([...buf2])
-          this.stack.push([...buf3])
+          this.pushStack([...buf1])
+          this.pushStack([...buf2])
+          this.pushStack([...buf3])
           break
 
         case OP.OP_2OVER:
@@ -657,8 +908,8 @@ export default class Spend {
           }
           buf1 = this.stacktop(-4)
           buf2 = this.stacktop(-3)
-          this.stack.push([...buf1])
-          this.stack.push([...buf2])
+          this.pushStack([...buf1])
+          this.pushStack([...buf2])
           break
 
         case OP.OP_2ROT:
@@ -692,13 +943,13 @@ export default class Spend {
           buf = this.stacktop(-1)
           fValue = this.castToBool(buf)
           if (fValue) {
-            this.stack.push([...buf])
+            this.pushStack([...buf])
           }
           break
 
         case OP.OP_DEPTH:
           buf = new BigNumber(this.stack.length).toScriptNum()
-          this.stack.push(buf)
+          this.pushStack(buf)
           break
 
         case OP.OP_DROP:
@@ -707,7 +958,7 @@ export default class Spend {
               'OP_DROP requires at least one item to be on the stack.'
             )
           }
-          this.stack.pop()
+          this.popStack()
           break
 
         case OP.OP_DUP:
@@ -716,7 +967,7 @@ export default class Spend {
               'OP_DUP requires at least one item to be on the stack.'
             )
           }
-          this.stack.push([...this.stacktop(-1)])
+          this.pushStack([...this.stacktop(-1)])
           break
 
         case OP.OP_NIP:
@@ -725,7 +976,7 @@ export default class Spend {
               'OP_NIP requires at least two items to be on the stack.'
             )
           }
-          this.stack.splice(this.stack.length - 2, 1)
+          this.removeStack(-2)
           break
 
         case OP.OP_OVER:
@@ -734,7 +985,7 @@ export default class Spend {
               'OP_OVER requires at least two items to be on the stack.'
             )
           }
-          this.stack.push([...this.stacktop(-2)])
+          this.pushStack([...this.stacktop(-2)])
           break
 
         case OP.OP_PICK:
@@ -745,9 +996,13 @@ export default class Spend {
             )
           }
           buf = this.stacktop(-1)
-          bn = BigNumber.fromScriptNum(buf, requireMinimalPush)
+          bn = BigNumber.fromScriptNum(
+            buf,
+            this.flags.requireMinimalPush,
+            this.flags.maxScriptNumLength
+          )
           n = bn.toNumber()
-          this.stack.pop()
+          this.popStack()
           if (n < 0 || n >= this.stack.length) {
             this.scriptEvaluationError(
               `${OP[currentOpcode] as string} requires the top stack element to be 0 or a positive number less than the current size of the stack.`
@@ -755,9 +1010,9 @@ export default class Spend {
           }
           buf = this.stacktop(-n - 1)
           if (currentOpcode === OP.OP_ROLL) {
-            this.stack.splice(this.stack.length - n - 1, 1)
+            this.removeStack(-n - 1)
           }
-          this.stack.push([...buf])
+          this.pushStack([...buf])
           break
 
         case OP.OP_ROT:
@@ -769,9 +1024,9 @@ export default class Spend {
           x1 = this.stacktop(-3)
           x2 = this.stacktop(-2)
           x3 = this.stacktop(-1)
-          this.stack[this.stack.length - 3] = x2
-          this.stack[this.stack.length - 2] = x3
-          this.stack[this.stack.length - 1] = x1
+          this.setStack(-3, x2)
+          this.setStack(-2, x3)
+          this.setStack(-1, x1)
           break
 
         case OP.OP_SWAP:
@@ -782,8 +1037,8 @@ export default class Spend {
           }
           x1 = this.stacktop(-2)
           x2 = this.stacktop(-1)
-          this.stack[this.stack.length - 2] = x2
-          this.stack[this.stack.length - 1] = x1
+          this.setStack(-2, x2)
+          this.setStack(-1, x1)
           break
 
         case OP.OP_TUCK:
@@ -792,7 +1047,7 @@ export default class Spend {
               'OP_TUCK requires at least two items to be on the stack.'
             )
           }
-          this.stack.splice(this.stack.length - 2, 0, [...this.stacktop(-1)])
+          this.insertStack(-2, [...this.stacktop(-1)])
           break
 
         case OP.OP_SIZE:
@@ -802,7 +1057,7 @@ export default class Spend {
             )
           }
           bn = new BigNumber(this.stacktop(-1).length)
-          this.stack.push(bn.toScriptNum())
+          this.pushStack(bn.toScriptNum())
           break
 
         case OP.OP_AND:
@@ -841,7 +1096,7 @@ export default class Spend {
           }
 
           // And pop vch2.
-          this.stack.pop()
+          this.popStack()
           break
 
         case OP.OP_INVERT:
@@ -865,12 +1120,13 @@ export default class Spend {
           }
           buf1 = this.stacktop(-2)
           if (buf1.length === 0) {
-            this.stack.pop()
+            this.popStack()
           } else {
             bn1 = new BigNumber(buf1)
             bn2 = BigNumber.fromScriptNum(
               this.stacktop(-1),
-              requireMinimalPush
+              this.flags.requireMinimalPush,
+              this.flags.maxScriptNumLength
             )
             n = bn2.toNumber()
             if (n < 0) {
@@ -878,8 +1134,8 @@ export default class Spend {
                 `${OP[currentOpcode] as string} requires the top item on the stack not to be negative.`
               )
             }
-            this.stack.pop()
-            this.stack.pop()
+            this.popStack()
+            this.popStack()
             let shifted
             if (currentOpcode === OP.OP_LSHIFT) {
               shifted = bn1.ushln(n)
@@ -891,7 +1147,7 @@ export default class Spend {
               shifted.toArray().slice(buf1.length * -1),
               buf1.length
             )
-            this.stack.push(bufShifted)
+            this.pushStack(bufShifted)
           }
           break
 
@@ -905,12 +1161,12 @@ export default class Spend {
           buf1 = this.stacktop(-2)
           buf2 = this.stacktop(-1)
           fEqual = toHex(buf1) === toHex(buf2)
-          this.stack.pop()
-          this.stack.pop()
-          this.stack.push(fEqual ? [1] : [])
+          this.popStack()
+          this.popStack()
+          this.pushStack(fEqual ? [1] : [])
           if (currentOpcode === OP.OP_EQUALVERIFY) {
             if (fEqual) {
-              this.stack.pop()
+              this.popStack()
             } else {
               this.scriptEvaluationError(
                 'OP_EQUALVERIFY requires the top two stack items to be equal.'
@@ -931,7 +1187,11 @@ export default class Spend {
             )
           }
           buf = this.stacktop(-1)
-          bn = BigNumber.fromScriptNum(buf, requireMinimalPush)
+          bn = BigNumber.fromScriptNum(
+            buf,
+            this.flags.requireMinimalPush,
+            this.flags.maxScriptNumLength
+          )
           switch (currentOpcode) {
             case OP.OP_1ADD:
               bn = bn.addn(1)
@@ -954,8 +1214,8 @@ export default class Spend {
               bn = new BigNumber(bn.cmpn(0) !== 0 ? 1 : 0 + 0)
               break
           }
-          this.stack.pop()
-          this.stack.push(bn.toScriptNum())
+          this.popStack()
+          this.pushStack(bn.toScriptNum())
           break
 
         case OP.OP_ADD:
@@ -979,8 +1239,16 @@ export default class Spend {
               `${OP[currentOpcode] as string} requires at least two items to be on the stack.`
             )
           }
-          bn1 = BigNumber.fromScriptNum(this.stacktop(-2), requireMinimalPush)
-          bn2 = BigNumber.fromScriptNum(this.stacktop(-1), requireMinimalPush)
+          bn1 = BigNumber.fromScriptNum(
+            this.stacktop(-2),
+            this.flags.requireMinimalPush,
+            this.flags.maxScriptNumLength
+          )
+          bn2 = BigNumber.fromScriptNum(
+            this.stacktop(-1),
+            this.flags.requireMinimalPush,
+            this.flags.maxScriptNumLength
+          )
           bn = new BigNumber(0)
 
           switch (currentOpcode) {
@@ -1043,13 +1311,13 @@ export default class Spend {
               bn = bn1.cmp(bn2) > 0 ? bn1 : bn2
               break
           }
-          this.stack.pop()
-          this.stack.pop()
-          this.stack.push(bn.toScriptNum())
+          this.popStack()
+          this.popStack()
+          this.pushStack(bn.toScriptNum())
 
           if (currentOpcode === OP.OP_NUMEQUALVERIFY) {
             if (this.castToBool(this.stacktop(-1))) {
-              this.stack.pop()
+              this.popStack()
             } else {
               this.scriptEvaluationError(
                 'OP_NUMEQUALVERIFY requires the top stack item to be truthy.'
@@ -1064,14 +1332,26 @@ export default class Spend {
               'OP_WITHIN requires at least three items to be on the stack.'
             )
           }
-          bn1 = BigNumber.fromScriptNum(this.stacktop(-3), requireMinimalPush)
-          bn2 = BigNumber.fromScriptNum(this.stacktop(-2), requireMinimalPush)
-          bn3 = BigNumber.fromScriptNum(this.stacktop(-1), requireMinimalPush)
+          bn1 = BigNumber.fromScriptNum(
+            this.stacktop(-3),
+            this.flags.requireMinimalPush,
+            this.flags.maxScriptNumLength
+          )
+          bn2 = BigNumber.fromScriptNum(
+            this.stacktop(-2),
+            this.flags.requireMinimalPush,
+            this.flags.maxScriptNumLength
+          )
+          bn3 = BigNumber.fromScriptNum(
+            this.stacktop(-1),
+            this.flags.requireMinimalPush,
+            this.flags.maxScriptNumLength
+          )
           fValue = bn2.cmp(bn1) <= 0 && bn1.cmp(bn3) < 0
-          this.stack.pop()
-          this.stack.pop()
-          this.stack.pop()
-          this.stack.push(fValue ? [1] : [])
+          this.popStack()
+          this.popStack()
+          this.popStack()
+          this.pushStack(fValue ? [1] : [])
           break
 
         case OP.OP_RIPEMD160:
@@ -1099,8 +1379,8 @@ export default class Spend {
             bufHash = Hash.hash256(buf)
           }
 
-          this.stack.pop()
-          this.stack.push(bufHash)
+          this.popStack()
+          this.pushStack(bufHash)
           break
         }
 
@@ -1158,14 +1438,14 @@ export default class Spend {
             )
           }
 
-          this.stack.pop()
-          this.stack.pop()
+          this.popStack()
+          this.popStack()
 
           // stack.push_back(fSuccess ? vchTrue : vchFalse);
-          this.stack.push(fSuccess ? [1] : [])
+          this.pushStack(fSuccess ? [1] : [])
           if (currentOpcode === OP.OP_CHECKSIGVERIFY) {
             if (fSuccess) {
-              this.stack.pop()
+              this.popStack()
             } else {
               this.scriptEvaluationError(
                 'OP_CHECKSIGVERIFY requires that a valid signature is provided.'
@@ -1185,12 +1465,13 @@ export default class Spend {
 
           nKeysCount = BigNumber.fromScriptNum(
             this.stacktop(-i),
-            requireMinimalPush
+            this.flags.requireMinimalPush,
+            this.flags.maxScriptNumLength
           ).toNumber()
           // TODO: Keys and opcount are parameterized in client. No magic numbers!
-          if (nKeysCount < 0 || nKeysCount > maxMultisigKeyCount) {
+          if (nKeysCount < 0 || nKeysCount > this.flags.maxMultisigKeyCount) {
             this.scriptEvaluationError(
-              `${OP[currentOpcode] as string} requires a key count between 0 and ${maxMultisigKeyCount}.`
+              `${OP[currentOpcode] as string} requires a key count between 0 and ${this.flags.maxMultisigKeyCount}.`
             )
           }
           ikey = ++i
@@ -1210,7 +1491,8 @@ export default class Spend {
 
           nSigsCount = BigNumber.fromScriptNum(
             this.stacktop(-i),
-            requireMinimalPush
+            this.flags.requireMinimalPush,
+            this.flags.maxScriptNumLength
           ).toNumber()
           if (nSigsCount < 0 || nSigsCount > nKeysCount) {
             this.scriptEvaluationError(
@@ -1293,7 +1575,7 @@ export default class Spend {
               ikey2--
             }
 
-            this.stack.pop()
+            this.popStack()
           }
 
           // A bug causes CHECKMULTISIG to consume one extra argument
@@ -1313,13 +1595,13 @@ export default class Spend {
               `${OP[currentOpcode] as string} requires the extra stack item to be empty.`
             )
           }
-          this.stack.pop()
+          this.popStack()
 
-          this.stack.push(fSuccess ? [1] : [])
+          this.pushStack(fSuccess ? [1] : [])
 
           if (currentOpcode === OP.OP_CHECKMULTISIGVERIFY) {
             if (fSuccess) {
-              this.stack.pop()
+              this.popStack()
             } else {
               this.scriptEvaluationError(
                 'OP_CHECKMULTISIGVERIFY requires that a sufficient number of valid signatures are provided.'
@@ -1337,13 +1619,13 @@ export default class Spend {
 
           buf1 = this.stacktop(-2)
           buf2 = this.stacktop(-1)
-          if (buf1.length + buf2.length > maxScriptElementSize) {
+          if (buf1.length + buf2.length > this.flags.maxScriptElementSize) {
             this.scriptEvaluationError(
-              `It's not currently possible to push data larger than ${maxScriptElementSize} bytes.`
+              `It's not currently possible to push data larger than ${this.flags.maxScriptElementSize} bytes.`
             )
           }
-          this.stack[this.stack.length - 2] = [...buf1, ...buf2]
-          this.stack.pop()
+          this.setStack(-2, [...buf1, ...buf2])
+          this.popStack()
           break
 
         case OP.OP_SPLIT:
@@ -1357,7 +1639,8 @@ export default class Spend {
           // Make sure the split point is apropriate.
           n = BigNumber.fromScriptNum(
             this.stacktop(-1),
-            requireMinimalPush
+            this.flags.requireMinimalPush,
+            this.flags.maxScriptNumLength
           ).toNumber()
           if (n < 0 || n > buf1.length) {
             this.scriptEvaluationError(
@@ -1371,8 +1654,8 @@ export default class Spend {
           buf2 = [...buf1]
 
           // Replace existing stack values by the new values.
-          this.stack[this.stack.length - 2] = buf2.slice(0, n)
-          this.stack[this.stack.length - 1] = buf2.slice(n)
+          this.setStack(-2, buf2.slice(0, n))
+          this.setStack(-1, buf2.slice(n))
           break
 
         case OP.OP_NUM2BIN:
@@ -1384,15 +1667,16 @@ export default class Spend {
 
           size = BigNumber.fromScriptNum(
             this.stacktop(-1),
-            requireMinimalPush
+            this.flags.requireMinimalPush,
+            this.flags.maxScriptNumLength
           ).toNumber()
-          if (size > maxScriptElementSize) {
+          if (size > this.flags.maxScriptElementSize) {
             this.scriptEvaluationError(
-              `It's not currently possible to push data larger than ${maxScriptElementSize} bytes.`
+              `It's not currently possible to push data larger than ${this.flags.maxScriptElementSize} bytes.`
             )
           }
 
-          this.stack.pop()
+          this.popStack()
           rawnum = this.stacktop(-1)
 
           // Try to see if we can fit that number in the number of
@@ -1408,7 +1692,7 @@ export default class Spend {
           // We already have an element of the right size, we
           // don't need to do anything.
           if (rawnum.length === size) {
-            this.stack[this.stack.length - 1] = rawnum
+            this.setStack(-1, rawnum)
             break
           }
 
@@ -1430,7 +1714,7 @@ export default class Spend {
 
           num[n] = signbit
 
-          this.stack[this.stack.length - 1] = num
+          this.setStack(-1, num)
           break
 
         case OP.OP_BIN2NUM:
@@ -1443,7 +1727,7 @@ export default class Spend {
           buf1 = this.stacktop(-1)
           buf2 = minimallyEncode(buf1)
 
-          this.stack[this.stack.length - 1] = buf2
+          this.setStack(-1, buf2)
 
           // The resulting number must be a valid number.
           if (!isMinimallyEncoded(buf2)) {
@@ -1458,6 +1742,28 @@ export default class Spend {
       }
     }
 
+    const memory = this.stackMemory
+    if (memory > this.peakStackMemory) {
+      this.peakStackMemory = memory
+    }
+    if (memory > this.flags.maxStackMemory) {
+      this.resourceExceeded(
+        'stackMemory',
+        this.flags.maxStackMemory,
+        memory,
+        `The stacks may use no more than ${this.flags.maxStackMemory} bytes of memory.`
+      )
+    }
+    const stackSize = this.stack.length + this.altStack.length
+    if (stackSize > this.flags.maxStackSize) {
+      this.resourceExceeded(
+        'stackSize',
+        this.flags.maxStackSize,
+        stackSize,
+        `The stacks may hold no more than ${this.flags.maxStackSize} items.`
+      )
+    }
+
     // Finally, increment the program counter
     this.programCounter++
   }
@@ -1474,26 +1780,32 @@ export default class Spend {
    * }
    */
   validate (): boolean {
-    if (requirePushOnlyUnlockingScripts && !this.unlockingScript.isPushOnly()) {
+    if (this.flags.requirePushOnlyUnlockingScripts && !this.unlockingScript.isPushOnly()) {
       this.scriptEvaluationError(
         'Unlocking scripts can only contain push operations, and no other opcodes.'
       )
     }
     while (true) {
       this.step()
-      if (
-        this.context === 'LockingScript' &&
-        this.programCounter >= this.lockingScript.chunks.length
-      ) {
+      if (this.isFinished()) {
         break
       }
     }
+    return this.validateFinalState()
+  }
+
+  /**
+   * @method validateFinalState
+   * Checks the state left once both scripts have been evaluated.
+   * @returns {boolean} Returns true if the spend is valid. Otherwise, an error is thrown.
+   */
+  validateFinalState (): boolean {
     if (this.ifStack.length > 0) {
       this.scriptEvaluationError(
         'Every OP_IF must be terminated prior to the end of the script.'
       )
     }
-    if (requireCleanStack) {
+    if (this.flags.requireCleanStack) {
       if (this.stack.length !== 1) {
         this.scriptEvaluationError(
           'The clean stack rule requires exactly one item to be on the stack after script execution.'
@@ -1508,6 +1820,99 @@ export default class Spend {
     return true
   }
 
+  private pushStack (item: number[]): void {
+    this.stack.push(item)
+    this.stackMemory += item.length + stackItemOverhead
+  }
+
+  private popStack (): number[] {
+    const item = this.stack.pop()
+    if (item === undefined) return []
+    this.stackMemory -= item.length + stackItemOverhead
+    return item
+  }
+
+  /** Replaces the stack item at the given position from the top, counting from -1 as `stacktop` does. */
+  private setStack (i: number, item: number[]): void {
+    this.stackMemory += item.length - this.stacktop(i).length
+    this.stack[this.stack.length + i] = item
+  }
+
+  private removeStack (i: number): void {
+    const [item] = this.stack.splice(this.stack.length + i, 1)
+    this.stackMemory -= item.length + stackItemOverhead
+  }
+
+  private insertStack (i: number, item: number[]): void {
+    this.stack.splice(this.stack.length + i, 0, item)
+    this.stackMemory += item.length + stackItemOverhead
+  }
+
+  private operationCost (opcode: number): number {
+    let cost = 1
+    const operands = Math.min(operandCounts[opcode] ?? 0, this.stack.length)
+    for (let i = 1; i <= operands; i++) {
+      cost += this.stacktop(-i).length
+    }
+    switch (opcode) {
+      case OP.OP_MUL:
+      case OP.OP_DIV:
+      case OP.OP_MOD:
+        // Long multiplication and division take time proportional to the product of the operand sizes.
+        if (this.stack.length >= 2) {
+          cost = 1 + Math.max(this.stacktop(-1).length, 1) * Math.max(this.stacktop(-2).length, 1)
+        }
+        break
+      case OP.OP_LSHIFT:
+      case OP.OP_RSHIFT:
+        cost += Math.ceil(this.topNumber() / 8)
+        break
+      case OP.OP_NUM2BIN:
+        cost += this.topNumber()
+        break
+      case OP.OP_PICK:
+      case OP.OP_ROLL: {
+        const n = this.topNumber()
+        if (n < this.stack.length - 1) {
+          cost += this.stacktop(-n - 2).length
+        }
+        break
+      }
+      case OP.OP_CHECKSIG:
+      case OP.OP_CHECKSIGVERIFY:
+        cost += this.currentScriptLength()
+        break
+      case OP.OP_CHECKMULTISIG:
+      case OP.OP_CHECKMULTISIGVERIFY:
+        cost += this.currentScriptLength() * Math.min(this.topNumber(), this.stack.length)
+        break
+    }
+    return cost
+  }
+
+  /**
+   * Reads the top stack item as a count for metering, or 0 if it is not a non-negative number
+   * the operation itself would accept.
+   */
+  private topNumber (): number {
+    if (this.stack.length === 0) return 0
+    try {
+      const n = BigNumber.fromScriptNum(
+        this.stacktop(-1),
+        this.flags.requireMinimalPush,
+        this.flags.maxScriptNumLength
+      ).toNumber()
+      return n > 0 ? n : 0
+    } catch {
+      return 0
+    }
+  }
+
+  private currentScriptLength (): number {
+    const script = this.context === 'UnlockingScript' ? this.unlockingScript : this.lockingScript
+    return script.toBinary().length
+  }
+
   private stacktop (i: number): number[] {
     return this.stack[this.stack.length + i]
   }
@@ -1525,6 +1930,15 @@ export default class Spend {
     return false
   }
 
+  private resourceExceeded (resource: ScriptResource, limit: number, used: number, str: string): void {
+    throw new ScriptResourceExceededError(
+      `Script evaluation error: ${str}\n\nSource TXID: ${this.sourceTXID}\nSource output index: ${this.sourceOutputIndex}\nContext: ${this.context}\nProgram counter: ${this.programCounter}\nStack size: ${this.stack.length}\nAlt stack size: ${this.altStack.length}`,
+      resource,
+      limit,
+      used
+    )
+  }
+
   private scriptEvaluationError (str: string): void {
     throw new Error(
       `Script evaluation error: ${str}\n\nSource TXID: ${this.sourceTXID}\nSource output index: ${this.sourceOutputIndex}\nContext: ${this.context}\nProgram counter: ${this.programCounter}\nStack size: ${this.stack.length}\nAlt stack size: ${this.altStack.length}`
@@ -0,0 +1,312 @@
+import Spend, { SpendSnapshot } from './Spend.js'
+import Script from './Script.js'
+import OP from './OP.js'
+import ScriptChunk from './ScriptChunk.js'
+import { toHex } from '../primitives/utils.js'
+
+/**
+ * Where a `SpendDebugger` pauses, before the matching chunk is evaluated.
+ * Either a program counter, optionally within one of the scripts, or an opcode wherever it appears.
+ */
+export type SpendBreakpoint =
+  | { programCounter: number, context?: 'UnlockingScript' | 'LockingScript' }
+  | { opcode: number }
+
+/**
+ * The evaluation of one chunk, as recorded by a `SpendDebugger`. Stack items are hex, with the top item last.
+ */
+export interface SpendTraceStep {
+  /** The position of the step in the trace, from 0. */
+  step: number
+  context: 'UnlockingScript' | 'LockingScript'
+  programCounter: number
+  /** The name of the opcode, such as OP_DUP or OP_PUSHDATA1. Direct pushes are named by their length, such as OP_PUSH20. */
+  opcode: string
+  /** The chunk in ASM form. */
+  asm: string
+  /** Whether the chunk was executed, rather than skipped within a branch that is not taken. */
+  executed: boolean
+  stackBefore: string[]
+  stackAfter: string[]
+  altStackBefore: string[]
+  altStackAfter: string[]
+  ifStackBefore: boolean[]
+  ifStackAfter: boolean[]
+  /** Why evaluation failed at this chunk, if it did. */
+  error?: string
+}
+
+/**
+ * A complete record of a debugging session, in a form that can be serialized as JSON and rendered by a UI.
+ */
+export interface SpendTrace {
+  version: 1
+  sourceTXID: string
+  sourceOutputIndex: number
+  inputIndex: number
+  unlockingScript: string
+  lockingScript: string
+  steps: SpendTraceStep[]
+  /** The outcome of the spend, once evaluation has finished or failed. */
+  result?: { valid: boolean, error?: string }
+}
+
+/**
+ * Why `SpendDebugger.run` stopped: at a breakpoint, after evaluating both scripts, or when evaluation failed.
+ */
+export type SpendDebugStop = 'breakpoint' | 'finished' | 'error'
+
+const hexStack = (stack: number[][]): string[] => stack.map((item) => toHex(item))
+
+/**
+ * Steps through the evaluation of a `Spend`, recording a trace of every chunk evaluated.
+ *
+ * Evaluation can be paused at breakpoints and undone one step at a time with `stepBack`.
+ * The debugger controls the spend it is given, which should not be stepped or validated elsewhere while it is being debugged.
+ *
+ * @example
+ * const debug = new SpendDebugger(spend)
+ * debug.addBreakpoint({ opcode: OP.OP_CHECKSIG })
+ * if (debug.run() === 'breakpoint') {
+ *   console.log(debug.stack)
+ * }
+ * debug.run()
+ * console.log(JSON.stringify(debug.toJSON()))
+ */
+export default class SpendDebugger {
+  readonly spend: Spend
+  private readonly breakpoints: Map<number, SpendBreakpoint> = new Map()
+  private readonly steps: SpendTraceStep[] = []
+  private readonly snapshots: SpendSnapshot[] = []
+  private breakpointIdCounter = 0
+  private result?: { valid: boolean, error?: string }
+  // The number of steps taken when the last run paused at a breakpoint.
+  private pausedAt?: number
+
+  /**
+   * Constructs a debugger for a spend, starting from the spend's current state.
+   *
+   * @param {Spend} spend - The spend to debug.
+   */
+  constructor (spend: Spend) {
+    this.spend = spend
+  }
+
+  /** The steps evaluated so far. */
+  get trace (): SpendTraceStep[] {
+    return [...this.steps]
+  }
+
+  /** The main stack as hex, with the top item last. */
+  get stack (): string[] {
+    return hexStack(this.spend.stack)
+  }
+
+  /** The alt stack as hex, with the top item last. */
+  get altStack (): string[] {
+    return hexStack(this.spend.altStack)
+  }
+
+  /** Whether the spend has finished evaluating, successfully or not. */
+  get done (): boolean {
+    return this.result !== undefined
+  }
+
+  /** Whether the spend is valid, or undefined while evaluation has not finished. */
+  get valid (): boolean | undefined {
+    return this.result?.valid
+  }
+
+  /** Why evaluation failed, if it did. */
+  get error (): string | undefined {
+    return this.result?.error
+  }
+
+  /**
+   * Adds a breakpoint.
+   *
+   * @param {SpendBreakpoint} breakpoint - Where to pause.
+   * @returns {number} An identifier for removing the breakpoint.
+   */
+  addBreakpoint (breakpoint: SpendBreakpoint): number {
+    const id = this.breakpointIdCounter++
+    this.breakpoints.set(id, breakpoint)
+    return id
+  }
+
+  /**
+   * Removes a breakpoint.
+   *
+   * @param {number} id - The identifier returned by `addBreakpoint`.
+   */
+  removeBreakpoint (id: number): void {
+    this.breakpoints.delete(id)
+  }
+
+  /**
+   * Removes all breakpoints.
+   */
+  clearBreakpoints (): void {
+    this.breakpoints.clear()
+  }
+
+  /**
+   * The chunk that will be evaluated next, and where it is.
+   *
+   * @returns The next chunk, or undefined once evaluation is done.
+   */
+  next (): { context: 'UnlockingScript' | 'LockingScript', programCounter: number, chunk: ScriptChunk } | undefined {
+    if (this.done) return undefined
+    let { context, programCounter } = this.spend
+    if (context === 'UnlockingScript' && programCounter >= this.spend.unlockingScript.chunks.length) {
+      context = 'LockingScript'
+      programCounter = 0
+    }
+    const script = context === 'UnlockingScript' ? this.spend.unlockingScript : this.spend.lockingScript
+    const chunk = script.chunks[programCounter]
+    if (chunk === undefined) return undefined
+    return { context, programCounter, chunk }
+  }
+
+  /**
+   * Evaluates the next chunk.
+   *
+   * @returns {SpendTraceStep | undefined} The step evaluated, or undefined if evaluation is already done.
+   */
+  step (): SpendTraceStep | undefined {
+    if (this.done) return undefined
+    if (this.steps.length === 0 && this.spend.flags.requirePushOnlyUnlockingScripts && !this.spend.unlockingScript.isPushOnly()) {
+      this.result = { valid: false, error: 'Unlocking scripts can only contain push operations, and no other opcodes.' }
+      return undefined
+    }
+    const next = this.next()
+    if (next === undefined) {
+      // Both scripts are empty.
+      this.finish()
+      return undefined
+    }
+    const before = this.spend.snapshot()
+    const traceStep: SpendTraceStep = {
+      step: this.steps.length,
+      context: next.context,
+      programCounter: next.programCounter,
+      opcode: SpendDebugger.opcodeName(next.chunk),
+      asm: new Script([next.chunk]).toASM(),
+      executed: !before.ifStack.includes(false),
+      stackBefore: hexStack(before.stack),
+      stackAfter: [],
+      altStackBefore: hexStack(before.altStack),
+      altStackAfter: [],
+      ifStackBefore: before.ifStack,
+      ifStackAfter: []
+    }
+    this.snapshots.push(before)
+    this.steps.push(traceStep)
+    try {
+      this.spend.step()
+    } catch (e) {
+      traceStep.error = SpendDebugger.errorMessage(e)
+      this.result = { valid: false, error: traceStep.error }
+    }
+    traceStep.stackAfter = this.stack
+    traceStep.altStackAfter = this.altStack
+    traceStep.ifStackAfter = [...this.spend.ifStack]
+    if (this.result === undefined && this.spend.isFinished()) {
+      this.finish()
+    }
+    return traceStep
+  }
+
+  /**
+   * Undoes the last step, along with the result of evaluation if it had finished.
+   *
+   * @returns {boolean} False if there is nothing to undo.
+   */
+  stepBack (): boolean {
+    const finished = this.result !== undefined
+    this.result = undefined
+    const snapshot = this.snapshots.pop()
+    // Evaluation can also finish without a step, for empty or non push only unlocking scripts.
+    if (snapshot === undefined) return finished
+    this.steps.pop()
+    this.spend.restore(snapshot)
+    return true
+  }
+
+  /**
+   * Evaluates chunks until a breakpoint is reached, both scripts have been evaluated, or evaluation fails.
+   * A run continuing from the breakpoint the last run paused at does not stop there again.
+   *
+   * @returns {SpendDebugStop} Why the run stopped.
+   */
+  run (): SpendDebugStop {
+    let resuming = this.pausedAt === this.steps.length
+    this.pausedAt = undefined
+    while (!this.done) {
+      const next = this.next()
+      if (!resuming && next !== undefined && this.isBreakpoint(next.context, next.programCounter, next.chunk)) {
+        this.pausedAt = this.steps.length
+        return 'breakpoint'
+      }
+      resuming = false
+      this.step()
+    }
+    return this.result?.valid === true ? 'finished' : 'error'
+  }
+
+  /**
+   * Undoes every step and clears the trace.
+   */
+  restart (): void {
+    while (this.stepBack());
+  }
+
+  /**
+   * @returns {SpendTrace} The trace of this session, which can be serialized with `JSON.stringify`.
+   */
+  toJSON (): SpendTrace {
+    return {
+      version: 1,
+      sourceTXID: this.spend.sourceTXID,
+      sourceOutputIndex: this.spend.sourceOutputIndex,
+      inputIndex: this.spend.inputIndex,
+      unlockingScript: this.spend.unlockingScript.toASM(),
+      lockingScript: this.spend.lockingScript.toASM(),
+      steps: this.trace,
+      result: this.result
+    }
+  }
+
+  private finish (): void {
+    try {
+      this.result = { valid: this.spend.validateFinalState() }
+    } catch (e) {
+      this.result = { valid: false, error: SpendDebugger.errorMessage(e) }
+    }
+  }
+
+  private isBreakpoint (context: 'UnlockingScript' | 'LockingScript', programCounter: number, chunk: ScriptChunk): boolean {
+    for (const breakpoint of this.breakpoints.values()) {
+      if ('opcode' in breakpoint) {
+        if (breakpoint.opcode === chunk.op) return true
+      } else if (
+        breakpoint.programCounter === programCounter &&
+        (breakpoint.context === undefined || breakpoint.context === context)
+      ) {
+        return true
+      }
+    }
+    return false
+  }
+
+  private static opcodeName (chunk: ScriptChunk): string {
+    if (chunk.op > 0 && chunk.op < OP.OP_PUSHDATA1) {
+      return `OP_PUSH${chunk.op}`
+    }
+    return (OP[chunk.op] as string | undefined) ?? `OP_UNKNOWN${chunk.op}`
+  }
+
+  private static errorMessage (e: unknown): string {
+    return (e as Error).message.split('\n')[0].replace(/^Script evaluation error: /, '')
+  }
+}
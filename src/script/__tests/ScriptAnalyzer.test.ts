@@ -0,0 +1,127 @@
+/* eslint-env jest */
+import {
+  Script,
+  LockingScript,
+  UnlockingScript,
+  OP,
+  P2PKH,
+  Multisig,
+  TimeLock,
+  HTLC,
+  ScriptAnalyzer,
+  consensusScriptFlags,
+  preGenesisScriptFlags
+} from '../../script/index'
+import { PrivateKey, Hash } from '../../primitives/index'
+
+describe('ScriptAnalyzer', () => {
+  const key = new PrivateKey(42)
+  const analyzer = new ScriptAnalyzer()
+
+  const codes = (script: Script, role?: 'locking' | 'unlocking', inputs?: number): Array<[number, string, string]> =>
+    analyzer.analyze(script, { role, inputs }).diagnostics.map((d) => [d.chunkIndex, d.code, d.severity])
+
+  it('Finds no problems in the templates of the SDK', () => {
+    const other = new PrivateKey(43)
+    const scripts = [
+      new P2PKH().lock(key.toAddress()),
+      new Multisig().lock(2, [key.toPublicKey(), other.toPublicKey()]),
+      new TimeLock().lock(key.toPublicKey(), 850000),
+      new HTLC().lock(Hash.sha256([1]), key.toPublicKey(), other.toPublicKey(), 850000)
+    ]
+    for (const script of scripts) {
+      const analysis = analyzer.analyze(script)
+      expect(analysis.role).toBe('locking')
+      expect(analysis.diagnostics).toEqual([])
+      expect(analysis.valid).toBe(true)
+    }
+    expect(analyzer.analyze(scripts[0]).requiredInputs).toBe(2)
+  })
+
+  it('Computes the stack effect of each chunk', () => {
+    const analysis = analyzer.analyze(Script.fromASM('OP_DUP OP_HASH160 0000000000000000000000000000000000000000 OP_EQUALVERIFY OP_CHECKSIG'))
+    expect(analysis.stackEffects).toEqual([
+      { chunkIndex: 0, op: OP.OP_DUP, taken: 1, pushed: 2, depth: 1 },
+      { chunkIndex: 1, op: OP.OP_HASH160, taken: 1, pushed: 1, depth: 1 },
+      { chunkIndex: 2, op: 20, taken: 0, pushed: 1, depth: 2 },
+      { chunkIndex: 3, op: OP.OP_EQUALVERIFY, taken: 2, pushed: 0, depth: 0 },
+      { chunkIndex: 4, op: OP.OP_CHECKSIG, taken: 2, pushed: 1, depth: -1 }
+    ])
+    // The effect of OP_CHECKMULTISIG depends on its operands, so depths are unknown after it.
+    const multisig = analyzer.analyze(Script.fromASM('OP_1 OP_CHECKMULTISIG OP_DROP'))
+    expect(multisig.stackEffects[1]).toEqual({ chunkIndex: 1, op: OP.OP_CHECKMULTISIG })
+    expect(multisig.stackEffects[2].depth).toBeUndefined()
+    expect(analyzer.analyze(Script.fromASM('OP_2 OP_PICK')).requiredInputs).toBe(3)
+  })
+
+  it('Reports unbalanced conditionals', () => {
+    expect(codes(Script.fromASM('OP_1 OP_ELSE OP_ENDIF OP_ENDIF'))).toEqual([
+      [1, 'unbalancedConditional', 'error'],
+      [2, 'unbalancedConditional', 'error'],
+      [3, 'unbalancedConditional', 'error']
+    ])
+    expect(codes(Script.fromASM('OP_DUP OP_IF OP_DROP'))).toEqual([[1, 'unbalancedConditional', 'error']])
+  })
+
+  it('Reports OP_RETURN and the code it makes unreachable', () => {
+    expect(codes(Script.fromASM('OP_0 OP_RETURN 68656c6c6f'))).toEqual([
+      [1, 'opReturn', 'error'],
+      [2, 'unreachableCode', 'warning']
+    ])
+    expect(codes(Script.fromASM('OP_IF OP_RETURN OP_ENDIF OP_1'))).toEqual([[1, 'opReturn', 'warning']])
+    expect(codes(Script.fromASM('OP_1 OP_RETURN'), 'locking')).toEqual([[1, 'opReturn', 'error']])
+    expect(new ScriptAnalyzer(preGenesisScriptFlags).analyze(Script.fromASM('OP_1 OP_RETURN'), { role: 'unlocking' }).diagnostics[1])
+      .toEqual({ chunkIndex: 1, code: 'opReturn', severity: 'error', message: 'OP_RETURN fails the script before the Genesis upgrade' })
+  })
+
+  it('Reports branches that constant conditions make unreachable', () => {
+    expect(codes(Script.fromASM('OP_0 OP_IF OP_DROP OP_ENDIF OP_1'))).toEqual([[1, 'unreachableBranch', 'warning']])
+    expect(codes(Script.fromASM('OP_1 OP_IF OP_1 OP_ELSE OP_2MUL OP_ENDIF'))).toEqual([[3, 'unreachableBranch', 'warning']])
+    // The reachable branch of a constant condition is always executed.
+    expect(codes(Script.fromASM('OP_0 OP_NOTIF OP_2MUL OP_ENDIF'))).toEqual([[2, 'disabledOpcode', 'error']])
+  })
+
+  it('Reports non-minimal pushes, and disabled and invalid opcodes', () => {
+    const script = new Script([
+      { op: OP.OP_PUSHDATA1, data: [1, 2] },
+      { op: 1, data: [5] },
+      { op: OP.OP_2MUL },
+      { op: OP.OP_RESERVED },
+      { op: OP.OP_IF },
+      { op: OP.OP_RESERVED1 },
+      { op: OP.OP_ENDIF },
+      { op: OP.OP_INVALIDOPCODE }
+    ])
+    expect(codes(script)).toEqual([
+      [0, 'nonMinimalPush', 'error'],
+      [1, 'nonMinimalPush', 'error'],
+      [2, 'disabledOpcode', 'error'],
+      [3, 'invalidOpcode', 'error'],
+      [5, 'invalidOpcode', 'warning'],
+      [7, 'invalidOpcode', 'error']
+    ])
+    // Without requireMinimalPush, non-minimal pushes are only warned about.
+    expect(new ScriptAnalyzer(consensusScriptFlags).analyze(new Script([{ op: 1, data: [5] }])).diagnostics[0].severity).toBe('warning')
+  })
+
+  it('Reports unlocking scripts that are not push-only, or take from an empty stack', () => {
+    expect(codes(new UnlockingScript(Script.fromASM('OP_1 OP_DUP').chunks))).toEqual([[1, 'notPushOnly', 'error']])
+    expect(codes(new UnlockingScript([{ op: OP.OP_DROP }]))).toEqual([
+      [0, 'notPushOnly', 'error'],
+      [0, 'stackUnderflow', 'error']
+    ])
+    expect(codes(new LockingScript([{ op: OP.OP_FROMALTSTACK }]))).toEqual([[0, 'stackUnderflow', 'error']])
+  })
+
+  it('Reports stack underflows for the given number of inputs', () => {
+    const lockingScript = new P2PKH().lock(key.toAddress())
+    expect(codes(lockingScript, 'locking', 2)).toEqual([])
+    expect(analyzer.analyze(lockingScript, { inputs: 1 }).diagnostics).toEqual([{
+      chunkIndex: 4,
+      code: 'stackUnderflow',
+      severity: 'error',
+      message: 'Stack underflow: OP_CHECKSIG needs 2 items but only 1 may be on the stack'
+    }])
+    expect(codes(Script.fromASM('OP_IF OP_DROP OP_ENDIF'), 'locking', 1)).toEqual([[1, 'stackUnderflow', 'warning']])
+  })
+})
@@ -0,0 +1,182 @@
+/* eslint-env jest */
+import {
+  LockingScript,
+  UnlockingScript,
+  Script,
+  Spend,
+  OP,
+  P2PKH,
+  HTLC,
+  ScriptAssembler,
+  ScriptAssemblyError
+} from '../../script/index'
+import { PrivateKey, Hash, Utils } from '../../primitives/index'
+
+describe('ScriptAssembler', () => {
+  const key = new PrivateKey(42)
+  const publicKeyHash = key.toPublicKey().toHash() as number[]
+
+  const validate = (lockingScript: LockingScript, unlockingScript: UnlockingScript): boolean => {
+    return new Spend({
+      sourceTXID: '00'.repeat(32),
+      sourceOutputIndex: 0,
+      sourceSatoshis: 1,
+      lockingScript,
+      transactionVersion: 1,
+      otherInputs: [],
+      outputs: [],
+      inputIndex: 0,
+      unlockingScript,
+      inputSequence: 0xffffffff,
+      lockTime: 0
+    }).validate()
+  }
+
+  it('Assembles opcodes, numbers, data and text', () => {
+    const script = new ScriptAssembler().assemble(`
+      # Comments run to the end of the line
+      OP_DUP hash160 0x${Utils.toHex(publicKeyHash)} EQUALVERIFY // and so do these
+      CHECKSIG
+      0 1 16 17 -1 -2 1000 'hello' 0x
+    `)
+    expect(script.chunks.slice(0, 5)).toEqual(new P2PKH().lock(publicKeyHash).chunks)
+    expect(script.chunks.slice(5)).toEqual([
+      { op: OP.OP_0 },
+      { op: OP.OP_1 },
+      { op: OP.OP_16 },
+      { op: 1, data: [17] },
+      { op: OP.OP_1NEGATE },
+      { op: 1, data: [0x82] },
+      { op: 2, data: [0xe8, 0x03] },
+      { op: 5, data: Utils.toArray('hello', 'utf8') },
+      { op: OP.OP_0 }
+    ])
+    expect(new ScriptAssembler().assemble('OP_PUSHDATA1 0x0102').chunks).toEqual([{ op: OP.OP_PUSHDATA1, data: [1, 2] }])
+  })
+
+  it('Expands constants and macros', () => {
+    const assembler = new ScriptAssembler()
+    assembler.defineMacro('CHECK_OWNER', 'DUP HASH160 hash EQUALVERIFY CHECKSIG', ['hash'])
+    assembler.defineConstant('OWNER', publicKeyHash)
+    const script = assembler.assemble(`
+      const FEE = 500
+      macro ADD_FEE { FEE ADD }
+      macro CHECK_SUM(a, b, expected) { a b ADD_FEE ADD expected NUMEQUALVERIFY }
+      CHECK_SUM(1, 2, 503)
+      CHECK_OWNER(OWNER)
+    `)
+    expect(script.toASM()).toBe(Script.fromASM(`OP_1 OP_2 f401 OP_ADD OP_ADD f701 OP_NUMEQUALVERIFY ${new P2PKH().lock(publicKeyHash).toASM()}`).toASM())
+    // Definitions in a source are local to it.
+    expect(() => assembler.assemble('ADD_FEE')).toThrow('Unknown token ADD_FEE')
+    expect(() => assembler.assemble('CHECK_OWNER')).toThrow('takes 1 arguments but was given 0')
+    expect(() => assembler.assemble('macro LOOP { LOOP } LOOP')).toThrow('expands too deeply')
+    expect(() => assembler.defineConstant('DUP', 1)).toThrow('cannot be the name')
+  })
+
+  it('Fills placeholders when a contract is locked', () => {
+    const contract = new ScriptAssembler().compile(`
+      OP_IF
+        OP_SHA256 <secretHash> OP_EQUALVERIFY
+      OP_ELSE
+        <lockTime> OP_DROP
+      OP_ENDIF
+      <owner> OP_CHECKSIG
+    `)
+    expect(contract.placeholders).toEqual(['secretHash', 'lockTime', 'owner'])
+    const secretHash = Hash.sha256([1, 2, 3])
+    const lockingScript = contract.lock({ secretHash, lockTime: 850000, owner: key.toPublicKey() })
+    expect(lockingScript).toBeInstanceOf(LockingScript)
+    expect(lockingScript.chunks[2].data).toEqual(secretHash)
+    expect(lockingScript.chunks[5].data).toEqual(new ScriptAssembler().assemble('850000').chunks[0].data)
+    expect(lockingScript.chunks[8].data).toEqual(key.toPublicKey().encode(true))
+    expect(() => contract.lock({ secretHash })).toThrow('No value was given for the placeholder <lockTime>')
+  })
+
+  it('Assembles contracts that Spend evaluates', () => {
+    const secret = Utils.toArray('open sesame', 'utf8')
+    const lockingScript = new ScriptAssembler().compile(`
+      macro CHECK_SECRET(hash) { SHA256 hash EQUAL }
+      SIZE 11 EQUALVERIFY
+      CHECK_SECRET(<hash>)
+    `, { inputs: 1 }).lock({ hash: Hash.sha256(secret) })
+    const unlockingScript = new UnlockingScript([{ op: secret.length, data: secret }])
+    expect(validate(lockingScript, unlockingScript)).toBe(true)
+    const wrong = Utils.toArray('open barley', 'utf8')
+    expect(() => validate(lockingScript, new UnlockingScript([{ op: wrong.length, data: wrong }]))).toThrow()
+  })
+
+  it('Reports unbalanced conditionals and unknown tokens with their position', () => {
+    const assembler = new ScriptAssembler()
+    expect(() => assembler.assemble('1\nOP_IF\n  OP_DROP')).toThrow(new ScriptAssemblyError('OP_IF is not closed by OP_ENDIF', 2, 1))
+    expect(() => assembler.assemble('1 OP_ELSE')).toThrow('OP_ELSE without a preceding OP_IF')
+    expect(() => assembler.assemble('OP_ENDIF')).toThrow('OP_ENDIF without a preceding OP_IF')
+    expect(() => assembler.assemble('OP_DUP\n  OP_FOO')).toThrow('Unknown token OP_FOO (line 2, column 3)')
+    expect(() => assembler.assemble("'unterminated")).toThrow('Unterminated string')
+    // Bare numbers are decimal, so hex data needs its 0x prefix even where it could not be a number.
+    expect(assembler.assemble('1234').chunks).toEqual([{ op: 2, data: [0xd2, 0x04] }])
+    expect(() => assembler.assemble('OP_1 abcd')).toThrow('Hex data must be prefixed with 0x, as in 0xabcd (line 1, column 6)')
+    expect(() => assembler.assemble('0x123')).toThrow('Unknown token 0x123')
+    expect(() => assembler.assemble('OP_PUSHDATA1')).toThrow('must be followed by data')
+    try {
+      assembler.assemble('OP_DUP\n  OP_FOO')
+    } catch (e) {
+      expect(e).toBeInstanceOf(ScriptAssemblyError)
+      expect((e as ScriptAssemblyError).line).toBe(2)
+      expect((e as ScriptAssemblyError).column).toBe(3)
+    }
+  })
+
+  it('Follows the depth of the stack', () => {
+    const assembler = new ScriptAssembler()
+    expect(assembler.compile(`OP_DUP OP_HASH160 0x${Utils.toHex(publicKeyHash)} OP_EQUALVERIFY OP_CHECKSIG`).requiredInputs).toBe(2)
+    expect(assembler.compile('OP_IF OP_DROP OP_ELSE OP_NIP OP_ENDIF').requiredInputs).toBe(3)
+    expect(assembler.compile('3 OP_PICK').requiredInputs).toBe(4)
+    expect(assembler.compile('OP_DUP OP_TOALTSTACK OP_FROMALTSTACK OP_EQUAL').requiredInputs).toBe(1)
+    // The stacks after OP_CHECKMULTISIG depend on its operands, so it ends the analysis.
+    expect(assembler.compile('2 OP_CHECKMULTISIG OP_DROP OP_DROP OP_DROP').requiredInputs).toBe(0)
+
+    expect(() => assembler.compile('OP_CHECKSIG', { inputs: 1 }))
+      .toThrow('Stack underflow: OP_CHECKSIG needs 2 items but only 1 may be on the stack (line 1, column 1)')
+    expect(() => assembler.compile('OP_FROMALTSTACK', { inputs: 5 })).toThrow('empty alt stack')
+    expect(assembler.compile('OP_CHECKSIG', { inputs: 2 }).requiredInputs).toBe(2)
+  })
+
+  it('Disassembles scripts with annotations that assemble back', () => {
+    const assembler = new ScriptAssembler()
+    const p2pkh = new P2PKH().lock(publicKeyHash)
+    const source = assembler.disassemble(p2pkh)
+    expect(source).toBe([
+      '# P2PKH',
+      'OP_DUP',
+      'OP_HASH160',
+      `0x${Utils.toHex(publicKeyHash)}  # public key hash`,
+      'OP_EQUALVERIFY',
+      'OP_CHECKSIG'
+    ].join('\n'))
+    expect(assembler.assemble(source).toHex()).toBe(p2pkh.toHex())
+
+    const htlc = new HTLC().lock(Hash.sha256([7]), key.toPublicKey(), new PrivateKey(43).toPublicKey(), 850000)
+    const htlcSource = assembler.disassemble(htlc)
+    expect(htlcSource.split('\n')[0]).toBe('# HTLC')
+    expect(htlcSource).toContain('  OP_SHA256')
+    expect(htlcSource).toContain('  # public key')
+    expect(assembler.assemble(htlcSource).toHex()).toBe(htlc.toHex())
+
+    const data = new Script([
+      { op: OP.OP_FALSE },
+      { op: OP.OP_RETURN },
+      { op: 5, data: Utils.toArray('hello', 'utf8') },
+      { op: OP.OP_PUSHDATA1, data: [1, 2] },
+      { op: 2, data: [0xe8, 0x03] }
+    ])
+    expect(assembler.disassemble(data)).toBe("0\nOP_RETURN\n'hello'\nOP_PUSHDATA1 0x0102  # 513\n0xe803  # 1000")
+    expect(assembler.assemble(assembler.disassemble(data)).toHex()).toBe(data.toHex())
+  })
+
+  it('Recognizes macros when disassembling', () => {
+    const assembler = new ScriptAssembler()
+    assembler.defineMacro('CAT_HASH', 'OP_CAT OP_SHA256')
+    const script = assembler.assemble('1 2 CAT_HASH OP_DROP')
+    expect(assembler.disassemble(script)).toBe('1\n2\nCAT_HASH\nOP_DROP')
+  })
+})
@@ -0,0 +1,151 @@
+/* eslint-env jest */
+import {
+  LockingScript,
+  OP,
+  P2PKH,
+  PushDrop,
+  RPuzzle,
+  Multisig,
+  TimeLock,
+  HTLC,
+  ScriptTemplateRegistry,
+  scriptTemplateRegistry,
+  registerBuiltinScriptTemplates
+} from '../../script/index'
+import OverlayAdminTokenTemplate from '../../overlay-tools/OverlayAdminTokenTemplate'
+import { CompletedProtoWallet } from '../../auth/certificates/__tests/CompletedProtoWallet'
+import { PrivateKey, Hash, Utils } from '../../primitives/index'
+
+describe('ScriptTemplateRegistry', () => {
+  const key = new PrivateKey(42)
+
+  it('Identifies P2PKH scripts', () => {
+    const lockingScript = new P2PKH().lock(key.toAddress())
+    const identified = lockingScript.identify()
+    expect(identified?.template).toBe('P2PKH')
+    expect(identified?.params).toEqual({
+      publicKeyHash: Utils.toHex(key.toPublicKey().toHash() as number[]),
+      address: key.toAddress()
+    })
+    expect(lockingScript.decode()).toEqual(identified)
+  })
+
+  it('Identifies R puzzle scripts', () => {
+    const value = Hash.sha256([1, 2, 3])
+    const identified = new RPuzzle('SHA256').lock(value).identify()
+    expect(identified).toEqual({
+      template: 'RPuzzle',
+      params: { type: 'SHA256', value: Utils.toHex(value) }
+    })
+    expect(new RPuzzle().lock([4, 5, 6]).identify()?.params).toEqual({ type: 'raw', value: '040506' })
+  })
+
+  it('Identifies PushDrop tokens and SHIP advertisements', async () => {
+    const wallet = new CompletedProtoWallet(key)
+    const token = await new PushDrop(wallet).lock([[1, 2], [3]], [0, 'tests'], '1', 'self')
+    const identified = token.identify()
+    expect(identified?.template).toBe('PushDrop')
+    expect(identified?.params.fields.slice(0, 2)).toEqual([[1, 2], [3]])
+
+    const advertisement = await new OverlayAdminTokenTemplate(wallet).lock('SHIP', 'test.com', 'tm_tests')
+    expect(advertisement.decode()).toEqual({
+      template: 'OverlayAdminTokenTemplate',
+      params: {
+        protocol: 'SHIP',
+        identityKey: key.toPublicKey().toString(),
+        domain: 'test.com',
+        topicOrService: 'tm_tests'
+      }
+    })
+  })
+
+  it('Identifies multisig, time lock and HTLC scripts', () => {
+    const other = new PrivateKey(43)
+    const multisig = new Multisig().lock(1, [key.toPublicKey(), other.toPublicKey()]).identify()
+    expect(multisig?.template).toBe('Multisig')
+    expect(multisig?.params.threshold).toBe(1)
+
+    const timeLock = new TimeLock().lock(key.toPublicKey(), 850000).identify()
+    expect(timeLock?.template).toBe('TimeLock')
+    expect(timeLock?.params.lockTime).toBe(850000)
+
+    const htlc = new HTLC().lock(Hash.sha256([7]), key.toPublicKey(), other.toPublicKey(), 850000).identify()
+    expect(htlc?.template).toBe('HTLC')
+    expect(htlc?.params.type).toBe('SHA256')
+  })
+
+  it('Does not identify scripts of no registered template', () => {
+    const lockingScript = LockingScript.fromASM('OP_1 OP_ADD OP_3 OP_EQUAL')
+    expect(lockingScript.identify()).toBeUndefined()
+    expect(() => lockingScript.decode()).toThrow('not of a registered script template')
+    // A P2PK script is not a PushDrop token, which must have fields.
+    expect(new LockingScript([
+      { op: 33, data: key.toPublicKey().encode(true) as number[] },
+      { op: OP.OP_CHECKSIG }
+    ]).identify()).toBeUndefined()
+  })
+
+  it('Tries custom templates by priority', () => {
+    const registry = new ScriptTemplateRegistry()
+    registry.register({
+      name: 'Data',
+      matches: (script) => script.chunks[0]?.op === OP.OP_FALSE && script.chunks[1]?.op === OP.OP_RETURN,
+      decode: (script) => ({ data: script.chunks[2]?.data })
+    })
+    registry.register({
+      name: 'Greeting',
+      priority: 1,
+      decode: (script) => {
+        const data = script.chunks[2]?.data ?? []
+        if (Utils.toUTF8(data) !== 'hello') throw new Error('Not a greeting')
+        return { greeting: 'hello' }
+      }
+    })
+    expect(registry.templates).toEqual(['Greeting', 'Data'])
+    const greeting = new LockingScript([
+      { op: OP.OP_FALSE },
+      { op: OP.OP_RETURN },
+      { op: 5, data: Utils.toArray('hello', 'utf8') }
+    ])
+    expect(greeting.identify(registry)?.template).toBe('Greeting')
+    const data = new LockingScript([
+      { op: OP.OP_FALSE },
+      { op: OP.OP_RETURN },
+      { op: 2, data: [1, 2] }
+    ])
+    expect(data.decode(registry)).toEqual({ template: 'Data', params: { data: [1, 2] } })
+    // The default registry does not know either.
+    expect(data.identify()).toBeUndefined()
+
+    expect(registry.unregister('Greeting')).toBe(true)
+    expect(registry.unregister('Greeting')).toBe(false)
+    expect(greeting.identify(registry)?.template).toBe('Data')
+  })
+
+  it('Registers the templates of the SDK', () => {
+    expect(scriptTemplateRegistry.templates).toEqual(expect.arrayContaining([
+      'P2PKH', 'RPuzzle', 'PushDrop', 'Multisig', 'TimeLock', 'HTLC', 'OverlayAdminTokenTemplate'
+    ]))
+    expect(scriptTemplateRegistry.templates[0]).toBe('OverlayAdminTokenTemplate')
+  })
+
+  it('Registers the templates of the SDK with another registry', () => {
+    const registry = new ScriptTemplateRegistry()
+    registerBuiltinScriptTemplates(registry)
+    expect(registry.templates).toEqual(scriptTemplateRegistry.templates)
+    expect(new P2PKH().lock(key.toAddress()).identify(registry)?.template).toBe('P2PKH')
+  })
+
+  it('Only decodes scripts that match a template', () => {
+    const decode = jest.spyOn(P2PKH, 'decode')
+    try {
+      const data = new LockingScript([{ op: OP.OP_FALSE }, { op: OP.OP_RETURN }, { op: 2, data: [1, 2] }])
+      expect(data.identify()).toBeUndefined()
+      expect(decode).not.toHaveBeenCalled()
+      new P2PKH().lock(key.toAddress()).identify()
+      expect(decode).toHaveBeenCalledTimes(1)
+    } finally {
+      decode.mockRestore()
+    }
+  })
+})
@@ -7,6 +7,13 @@ import RPuzzle from '../../script/templates/RPuzzle'
 import Transaction from '../../transaction/Transaction'
 import LockingScript from '../../script/LockingScript'
 import UnlockingScript from '../../script/UnlockingScript'
+import {
+  ScriptVerifyFlags,
+  consensusScriptFlags,
+  standardScriptFlags,
+  preGenesisScriptFlags
+} from '../../script/ScriptVerifyFlags'
+import ScriptResourceExceededError from '../../script/ScriptResourceExceededError'
 
 import spendValid from './spend.valid.vectors'
 
@@ -345,6 +352,195 @@ describe('Spend', () => {
 
     expect(() => spend.validate()).toThrow()
   })
+  describe('script verify flags', () => {
+    const makeSpend = (unlockingASM: string, lockingASM: string, flags?: Partial<ScriptVerifyFlags>): Spend => new Spend({
+      sourceTXID: '00'.repeat(32),
+      sourceOutputIndex: 0,
+      sourceSatoshis: 1,
+      lockingScript: LockingScript.fromASM(lockingASM),
+      transactionVersion: 1,
+      otherInputs: [],
+      outputs: [],
+      inputIndex: 0,
+      unlockingScript: unlockingASM === '' ? new UnlockingScript() : UnlockingScript.fromASM(unlockingASM),
+      inputSequence: 0xffffffff,
+      lockTime: 0,
+      flags
+    })
+
+    it('Enforces the standard policy by default', () => {
+      const spend = makeSpend('OP_1 OP_1', 'OP_1')
+      expect(spend.flags).toEqual(standardScriptFlags)
+      expect(() => spend.validate()).toThrow('clean stack')
+      expect(makeSpend('OP_1 OP_1', 'OP_1', consensusScriptFlags).validate()).toBe(true)
+      expect(makeSpend('OP_1 OP_1', 'OP_1', { requireCleanStack: false }).validate()).toBe(true)
+    })
+
+    it('Only requires minimal pushes under the standard policy', () => {
+      const unlockingScript = UnlockingScript.fromHex('0105')
+      const spend = (flags?: Partial<ScriptVerifyFlags>): Spend => {
+        const s = makeSpend('', 'OP_5 OP_EQUAL', flags)
+        s.unlockingScript = unlockingScript
+        return s
+      }
+      expect(() => spend().validate()).toThrow('minimally-encoded')
+      expect(spend(consensusScriptFlags).validate()).toBe(true)
+    })
+
+    it('Applies the historic limits before Genesis', () => {
+      const large = '00'.repeat(521)
+      expect(makeSpend(large, 'OP_DROP OP_1').validate()).toBe(true)
+      expect(() => makeSpend(large, 'OP_DROP OP_1', preGenesisScriptFlags).validate()).toThrow('520 bytes')
+
+      expect(makeSpend('', 'OP_1 OP_RETURN').validate()).toBe(true)
+      expect(() => makeSpend('', 'OP_1 OP_RETURN', preGenesisScriptFlags).validate()).toThrow('Genesis')
+
+      expect(makeSpend('0100000001', 'OP_1ADD OP_DROP OP_1').validate()).toBe(true)
+      expect(() => makeSpend('0100000001', 'OP_1ADD OP_DROP OP_1', preGenesisScriptFlags).validate()).toThrow('overflow')
+    })
+
+    it('Limits the number of stack items and the script size before Genesis', () => {
+      const pushes = (count: number): string => new Array(count).fill('OP_1').join(' ')
+      expect(makeSpend(pushes(999), 'OP_1', preGenesisScriptFlags).validate()).toBe(true)
+      expect(() => makeSpend(pushes(999), 'OP_1 OP_1', preGenesisScriptFlags).validate()).toThrow('no more than 1000 items')
+      expect(() => makeSpend(pushes(500), 'OP_TOALTSTACK OP_DUP OP_DUP', { maxStackSize: 501 }).validate()).toThrow('no more than 501 items')
+      expect(makeSpend(pushes(1000), 'OP_1', { requireCleanStack: false }).validate()).toBe(true)
+
+      const nops = new Array(9998).fill('OP_NOP').join(' ')
+      expect(makeSpend('', `${nops} OP_1`, { ...preGenesisScriptFlags, maxOps: 10000 }).validate()).toBe(true)
+      expect(() => makeSpend('', `${nops} OP_NOP OP_NOP OP_1`, { ...preGenesisScriptFlags, maxOps: 10000 }).validate())
+        .toThrow('The LockingScript may be no larger than 10000 bytes.')
+    })
+
+    it('Checks lock times with OP_NOP2 before Genesis', () => {
+      const spend = (lockTime: number, inputSequence: number, lockingASM = 'f401 OP_NOP2 OP_DROP OP_1'): Spend => {
+        const s = makeSpend('', lockingASM, preGenesisScriptFlags)
+        s.lockTime = lockTime
+        s.inputSequence = inputSequence
+        return s
+      }
+      // Block height 500
+      expect(spend(500, 0xfffffffe).validate()).toBe(true)
+      expect(spend(600, 0).validate()).toBe(true)
+      expect(() => spend(499, 0xfffffffe).validate()).toThrow('not to be later than that of the transaction')
+      expect(() => spend(500, 0xffffffff).validate()).toThrow('not to be final')
+      expect(() => spend(1600000000, 0).validate()).toThrow('of the same type')
+      expect(() => spend(500, 0, '81 OP_NOP2 OP_DROP OP_1').validate()).toThrow('not to be negative')
+      expect(() => spend(500, 0, 'OP_NOP2 OP_1').validate()).toThrow('at least one item')
+      // After Genesis, OP_NOP2 does nothing.
+      expect(makeSpend('', 'f401 OP_NOP2 OP_DROP OP_1').validate()).toBe(true)
+    })
+
+    it('Checks relative lock times with OP_NOP3 before Genesis', () => {
+      const spend = (transactionVersion: number, inputSequence: number, lockingASM = 'OP_10 OP_NOP3 OP_DROP OP_1'): Spend => {
+        const s = makeSpend('', lockingASM, preGenesisScriptFlags)
+        s.transactionVersion = transactionVersion
+        s.inputSequence = inputSequence
+        return s
+      }
+      // 10 blocks
+      expect(spend(2, 10).validate()).toBe(true)
+      expect(spend(2, 11).validate()).toBe(true)
+      expect(() => spend(2, 9).validate()).toThrow('not to be later than that of the input')
+      expect(() => spend(1, 10).validate()).toThrow('version of at least 2')
+      expect(() => spend(2, 0x80000000 + 10).validate()).toThrow('to be enabled')
+      expect(() => spend(2, 0x400000 + 10).validate()).toThrow('of the same type')
+      // 10 units of 512 seconds
+      expect(spend(2, 0x400000 + 10, '0a0040 OP_NOP3 OP_DROP OP_1').validate()).toBe(true)
+      // The disable flag makes the operation do nothing.
+      expect(spend(1, 0xffffffff, '0000008000 OP_NOP3 OP_DROP OP_1').validate()).toBe(true)
+      // After Genesis, OP_NOP3 does nothing.
+      expect(makeSpend('', 'OP_10 OP_NOP3 OP_DROP OP_1').validate()).toBe(true)
+    })
+
+    it('Limits the operation count', () => {
+      const lockingASM = 'OP_1 OP_DUP OP_DROP OP_DUP OP_DROP'
+      expect(makeSpend('', lockingASM, { maxOps: 4 }).validate()).toBe(true)
+      expect(() => makeSpend('', lockingASM, { maxOps: 3 }).validate()).toThrow('no more than 3 non-push operations')
+      // Operations in branches that are not executed still count.
+      expect(() => makeSpend('', 'OP_1 OP_0 OP_IF OP_DUP OP_DROP OP_ENDIF', { maxOps: 3 }).validate()).toThrow('non-push operations')
+    })
+
+    it('Limits the stack memory', () => {
+      const item = 'ff'.repeat(100)
+      expect(makeSpend(item, 'OP_DUP OP_2DROP OP_1', { maxStackMemory: 264 }).validate()).toBe(true)
+      expect(() => makeSpend(item, 'OP_DUP OP_2DROP OP_1', { maxStackMemory: 263 }).validate()).toThrow('263 bytes of memory')
+      // The alt stack counts too.
+      expect(() => makeSpend(item, 'OP_TOALTSTACK OP_1 OP_DUP OP_2DROP OP_1', { maxStackMemory: 190 }).validate()).toThrow('bytes of memory')
+    })
+
+    it('Meters the stack memory of long push-only scripts in linear time', () => {
+      const pushes = 100000
+      const unlockingScript = new UnlockingScript(
+        new Array(pushes).fill(null).map(() => ({ op: 1, data: [0x20] }))
+      )
+      const spend = (maxStackMemory?: number): Spend => {
+        const s = makeSpend('', 'OP_DEPTH OP_TOALTSTACK', { requireCleanStack: false, maxStackMemory: maxStackMemory ?? standardScriptFlags.maxStackMemory })
+        s.unlockingScript = unlockingScript
+        return s
+      }
+      // Each item uses its byte plus 32, and OP_DEPTH pushes the 3 byte count.
+      const peak = pushes * (1 + 32) + (3 + 32)
+      const long = spend()
+      const start = Date.now()
+      expect(long.validate()).toBe(true)
+      expect(Date.now() - start).toBeLessThan(5000)
+      expect(long.usage.peakStackMemory).toBe(peak)
+      expect(spend(peak).validate()).toBe(true)
+      expect(() => spend(peak - 1).validate()).toThrow(`${peak - 1} bytes of memory`)
+    })
+
+    it('Reports exceeded limits with a typed error', () => {
+      const error = (spend: Spend): ScriptResourceExceededError => {
+        try {
+          spend.validate()
+        } catch (e) {
+          return e as ScriptResourceExceededError
+        }
+        throw new Error('Expected evaluation to fail')
+      }
+      const operations = error(makeSpend('', 'OP_1 OP_DUP OP_DROP', { maxOps: 1 }))
+      expect(operations).toBeInstanceOf(ScriptResourceExceededError)
+      expect(operations).toMatchObject({ name: 'ScriptResourceExceededError', resource: 'operations', limit: 1, used: 2 })
+      const memory = error(makeSpend('ff'.repeat(100), 'OP_DUP OP_2DROP OP_1', { maxStackMemory: 263 }))
+      expect(memory).toMatchObject({ resource: 'stackMemory', limit: 263, used: 264 })
+      // Other failures are not resource errors.
+      expect(error(makeSpend('', 'OP_0 OP_VERIFY'))).not.toBeInstanceOf(ScriptResourceExceededError)
+    })
+
+    it('Aborts a huge shift before performing it', () => {
+      const spend = makeSpend('ff ffffff7f', 'OP_LSHIFT OP_DROP OP_1')
+      const start = Date.now()
+      expect(() => spend.validate()).toThrow(ScriptResourceExceededError)
+      expect(Date.now() - start).toBeLessThan(1000)
+      expect(spend.usage.executionCost).toBe(2)
+      expect(spend.stack).toHaveLength(2)
+    })
+
+    it('Charges multiplication by the product of its operand sizes', () => {
+      const operand = '01'.repeat(100)
+      const lockingASM = 'OP_MUL OP_DROP OP_1'
+      const spend = makeSpend(`${operand} ${operand}`, lockingASM)
+      expect(spend.validate()).toBe(true)
+      const { executionCost } = spend.usage
+      expect(executionCost).toBe(2 + (1 + 100 * 100) + 2)
+      expect(makeSpend(`${operand} ${operand}`, lockingASM, { maxExecutionCost: executionCost }).validate()).toBe(true)
+      expect(() => makeSpend(`${operand} ${operand}`, lockingASM, { maxExecutionCost: executionCost - 1 }).validate())
+        .toThrow(`no more than ${executionCost - 1} to execute`)
+    })
+
+    it('Reports the resources used', () => {
+      const spend = makeSpend('ff'.repeat(100), 'OP_DUP OP_2DROP OP_1')
+      expect(spend.validate()).toBe(true)
+      expect(spend.usage).toEqual({
+        operations: 2,
+        executionCost: 1 + (1 + 100) + 1 + 1,
+        peakStackMemory: 264
+      })
+      spend.reset()
+      expect(spend.usage).toEqual({ operations: 0, executionCost: 0, peakStackMemory: 0 })
+    })
+  })
   for (let i = 0; i < spendValid.length; i++) {
     const a = spendValid[i]
     if (a.length === 1) {
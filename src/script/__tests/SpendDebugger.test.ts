@@ -0,0 +1,152 @@
+import PrivateKey from '../../primitives/PrivateKey'
+import Spend from '../../script/Spend'
+import SpendDebugger from '../../script/SpendDebugger'
+import OP from '../../script/OP'
+import P2PKH from '../../script/templates/P2PKH'
+import Transaction from '../../transaction/Transaction'
+import LockingScript from '../../script/LockingScript'
+import UnlockingScript from '../../script/UnlockingScript'
+
+const makeSpend = (unlockingScript: UnlockingScript, lockingScript: LockingScript): Spend => new Spend({
+  sourceTXID: '00'.repeat(32),
+  sourceOutputIndex: 0,
+  sourceSatoshis: 1,
+  lockingScript,
+  transactionVersion: 1,
+  otherInputs: [],
+  outputs: [],
+  inputIndex: 0,
+  unlockingScript,
+  inputSequence: 0xffffffff,
+  lockTime: 0
+})
+
+const p2pkhSpend = async (): Promise<Spend> => {
+  const privateKey = new PrivateKey(1)
+  const p2pkh = new P2PKH()
+  const lockingScript = p2pkh.lock(privateKey.toPublicKey().toHash())
+  const sourceTx = new Transaction(1, [], [{ lockingScript, satoshis: 1 }], 0)
+  const spendTx = new Transaction(1, [{ sourceTransaction: sourceTx, sourceOutputIndex: 0, sequence: 0xffffffff }], [], 0)
+  const unlockingScript = await p2pkh.unlock(privateKey).sign(spendTx, 0)
+  return new Spend({
+    sourceTXID: sourceTx.id('hex'),
+    sourceOutputIndex: 0,
+    sourceSatoshis: 1,
+    lockingScript,
+    transactionVersion: 1,
+    otherInputs: [],
+    outputs: [],
+    inputIndex: 0,
+    unlockingScript,
+    inputSequence: 0xffffffff,
+    lockTime: 0
+  })
+}
+
+describe('SpendDebugger', () => {
+  it('pauses at opcode breakpoints and runs to completion', async () => {
+    const debug = new SpendDebugger(await p2pkhSpend())
+    debug.addBreakpoint({ opcode: OP.OP_CHECKSIG })
+    expect(debug.run()).toBe('breakpoint')
+    expect(debug.next()).toMatchObject({ context: 'LockingScript', programCounter: 4 })
+    expect(debug.stack).toHaveLength(2)
+    expect(debug.done).toBe(false)
+
+    expect(debug.run()).toBe('finished')
+    expect(debug.valid).toBe(true)
+    // The signature length depends on its encoding.
+    expect(debug.trace[0].opcode).toMatch(/^OP_PUSH7[0-2]$/)
+    expect(debug.trace.slice(1).map((s) => s.opcode)).toEqual([
+      'OP_PUSH33', 'OP_DUP', 'OP_HASH160', 'OP_PUSH20', 'OP_EQUALVERIFY', 'OP_CHECKSIG'
+    ])
+    expect(debug.trace[6].stackAfter).toEqual(['01'])
+  })
+
+  it('pauses at program counter breakpoints, optionally within one script', () => {
+    const debug = new SpendDebugger(makeSpend(UnlockingScript.fromASM('OP_1 OP_2'), LockingScript.fromASM('OP_ADD OP_3 OP_EQUAL')))
+    const id = debug.addBreakpoint({ programCounter: 1, context: 'LockingScript' })
+    expect(debug.run()).toBe('breakpoint')
+    expect(debug.next()).toMatchObject({ context: 'LockingScript', programCounter: 1 })
+    expect(debug.stack).toEqual(['03'])
+    debug.removeBreakpoint(id)
+    debug.addBreakpoint({ programCounter: 0 })
+    expect(debug.run()).toBe('finished')
+  })
+
+  it('pauses at a breakpoint on the first chunk of a new session', () => {
+    const debug = new SpendDebugger(makeSpend(UnlockingScript.fromASM('OP_1 OP_2'), LockingScript.fromASM('OP_ADD OP_3 OP_EQUAL')))
+    debug.addBreakpoint({ programCounter: 0, context: 'UnlockingScript' })
+    expect(debug.run()).toBe('breakpoint')
+    expect(debug.trace).toHaveLength(0)
+    expect(debug.next()).toMatchObject({ context: 'UnlockingScript', programCounter: 0 })
+    expect(debug.run()).toBe('finished')
+    debug.restart()
+    expect(debug.run()).toBe('breakpoint')
+    expect(debug.trace).toHaveLength(0)
+  })
+
+  it('records the stacks and branch state of each step', () => {
+    const debug = new SpendDebugger(makeSpend(
+      UnlockingScript.fromASM('OP_0'),
+      LockingScript.fromASM('OP_IF OP_2 OP_ELSE OP_3 OP_TOALTSTACK OP_1 OP_ENDIF')
+    ))
+    expect(debug.run()).toBe('finished')
+    const [push, ifStep, skipped, elseStep, three, toAlt] = debug.trace
+    expect(push).toMatchObject({ step: 0, context: 'UnlockingScript', programCounter: 0, stackBefore: [], stackAfter: [''] })
+    expect(ifStep).toMatchObject({ opcode: 'OP_IF', executed: true, ifStackBefore: [], ifStackAfter: [false], stackAfter: [] })
+    expect(skipped).toMatchObject({ asm: 'OP_2', executed: false, stackAfter: [] })
+    expect(elseStep).toMatchObject({ ifStackBefore: [false], ifStackAfter: [true] })
+    expect(three.stackAfter).toEqual(['03'])
+    expect(toAlt).toMatchObject({ altStackBefore: [], altStackAfter: ['03'], stackAfter: [] })
+  })
+
+  it('steps back through snapshots', () => {
+    const spend = makeSpend(UnlockingScript.fromASM('OP_1 OP_2'), LockingScript.fromASM('OP_ADD OP_4 OP_EQUAL'))
+    const debug = new SpendDebugger(spend)
+    expect(debug.run()).toBe('error')
+    expect(debug.error).toContain('top stack element must be truthy')
+    expect(debug.stepBack()).toBe(true)
+    expect(debug.done).toBe(false)
+    expect(debug.stack).toEqual(['03', '04'])
+    expect(debug.trace).toHaveLength(4)
+    debug.stepBack()
+    debug.stepBack()
+    expect(debug.stack).toEqual(['01', '02'])
+    expect(debug.next()).toMatchObject({ context: 'LockingScript', programCounter: 0 })
+    debug.restart()
+    expect(debug.trace).toHaveLength(0)
+    expect(spend.context).toBe('UnlockingScript')
+    expect(spend.programCounter).toBe(0)
+    expect(debug.stepBack()).toBe(false)
+  })
+
+  it('records the failing step and exports a JSON trace', () => {
+    const debug = new SpendDebugger(makeSpend(UnlockingScript.fromASM('OP_2'), LockingScript.fromASM('OP_3 OP_EQUALVERIFY OP_1')))
+    expect(debug.run()).toBe('error')
+    const failed = debug.trace[debug.trace.length - 1]
+    expect(failed).toMatchObject({ opcode: 'OP_EQUALVERIFY', programCounter: 1, stackBefore: ['02', '03'] })
+    expect(failed.error).toContain('OP_EQUALVERIFY')
+    expect(debug.step()).toBeUndefined()
+
+    const json = JSON.parse(JSON.stringify(debug))
+    expect(json).toMatchObject({
+      version: 1,
+      sourceTXID: '00'.repeat(32),
+      unlockingScript: 'OP_2',
+      lockingScript: 'OP_3 OP_EQUALVERIFY OP_1',
+      result: { valid: false, error: failed.error }
+    })
+    expect(json.steps).toHaveLength(3)
+  })
+
+  it('fails unlocking scripts that are not push only before stepping', () => {
+    const debug = new SpendDebugger(makeSpend(UnlockingScript.fromASM('OP_1 OP_DUP'), LockingScript.fromASM('OP_EQUAL')))
+    expect(debug.run()).toBe('error')
+    expect(debug.error).toContain('push operations')
+    expect(debug.trace).toHaveLength(0)
+    expect(debug.stepBack()).toBe(true)
+    expect(debug.done).toBe(false)
+    expect(debug.error).toBeUndefined()
+    expect(debug.stepBack()).toBe(false)
+  })
+})
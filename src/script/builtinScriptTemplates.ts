@@ -0,0 +1,90 @@
+import OP from './OP.js'
+import Script from './Script.js'
+import ScriptTemplateRegistry, { scriptTemplateRegistry } from './ScriptTemplateRegistry.js'
+import P2PKH from './templates/P2PKH.js'
+import PushDrop from './templates/PushDrop.js'
+import RPuzzle from './templates/RPuzzle.js'
+import Multisig from './templates/Multisig.js'
+import TimeLock from './templates/TimeLock.js'
+import HTLC from './templates/HTLC.js'
+import OverlayAdminTokenTemplate from '../overlay-tools/OverlayAdminTokenTemplate.js'
+
+/**
+ * The operation of a chunk of a script, counting negative indices from the end.
+ */
+function opAt (script: Script, index: number): number | undefined {
+  return script.chunks[index < 0 ? script.chunks.length + index : index]?.op
+}
+
+/**
+ * Whether a script could be a PushDrop token: it ends with the OP_CHECKSIG of a lock after the fields, or with the
+ * OP_DROP or OP_2DROP of the fields after a lock.
+ */
+function mayBePushDrop (script: Script): boolean {
+  const last = opAt(script, -1)
+  return last === OP.OP_CHECKSIG || last === OP.OP_DROP || last === OP.OP_2DROP
+}
+
+/**
+ * Registers the script templates of the SDK with a registry.
+ *
+ * They are registered with `scriptTemplateRegistry` when this module is loaded, which `LockingScript` does, so
+ * `Script.identify` and `Script.decode` recognize them however the SDK is imported. Each has a `matches` check of
+ * the operations that distinguish its scripts, so that `decode` is only tried for scripts that are likely of the
+ * template.
+ *
+ * @param {ScriptTemplateRegistry} registry - The registry to register the templates with.
+ */
+export function registerBuiltinScriptTemplates (registry: ScriptTemplateRegistry): void {
+  registry.register({
+    name: 'P2PKH',
+    matches: (script) =>
+      script.chunks.length === 5 &&
+      opAt(script, 0) === OP.OP_DUP &&
+      opAt(script, 1) === OP.OP_HASH160,
+    decode: (script) => P2PKH.decode(script)
+  })
+  registry.register({
+    name: 'RPuzzle',
+    matches: (script) =>
+      (script.chunks.length === 12 || script.chunks.length === 13) &&
+      opAt(script, 0) === OP.OP_OVER &&
+      opAt(script, 1) === OP.OP_3,
+    decode: (script) => RPuzzle.decode(script)
+  })
+  registry.register({
+    name: 'PushDrop',
+    matches: mayBePushDrop,
+    decode: (script) => PushDrop.decodeToken(script)
+  })
+  registry.register({
+    name: 'Multisig',
+    matches: (script) => opAt(script, -1) === OP.OP_CHECKMULTISIG,
+    decode: (script) => Multisig.decode(script)
+  })
+  registry.register({
+    name: 'TimeLock',
+    matches: (script) =>
+      opAt(script, 0) === OP.OP_DUP &&
+      opAt(script, 1) === OP.OP_HASH256 &&
+      opAt(script, -1) === OP.OP_CHECKSIG,
+    decode: (script) => TimeLock.decode(script)
+  })
+  registry.register({
+    name: 'HTLC',
+    matches: (script) =>
+      opAt(script, 0) === OP.OP_IF &&
+      opAt(script, -2) === OP.OP_ENDIF &&
+      opAt(script, -1) === OP.OP_CHECKSIG,
+    decode: (script) => HTLC.decode(script)
+  })
+  registry.register({
+    name: 'OverlayAdminTokenTemplate',
+    // SHIP and SLAP advertisements are PushDrop tokens, so they are recognized before PushDrop.
+    priority: 1,
+    matches: mayBePushDrop,
+    decode: (script) => OverlayAdminTokenTemplate.decode(script)
+  })
+}
+
+registerBuiltinScriptTemplates(scriptTemplateRegistry)
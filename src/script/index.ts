@@ -3,6 +3,41 @@ export { default as Script } from './Script.js'
 export { default as LockingScript } from './LockingScript.js'
 export { default as UnlockingScript } from './UnlockingScript.js'
 export { default as Spend } from './Spend.js'
+export * from './ScriptVerifyFlags.js'
+export { default as ScriptResourceExceededError } from './ScriptResourceExceededError.js'
+export type { ScriptResource } from './ScriptResourceExceededError.js'
+export { default as SpendDebugger } from './SpendDebugger.js'
+export type {
+  SpendBreakpoint,
+  SpendTraceStep,
+  SpendTrace,
+  SpendDebugStop
+} from './SpendDebugger.js'
+export type { SpendSnapshot, SpendUsage } from './Spend.js'
+export {
+  default as ScriptTemplateRegistry,
+  scriptTemplateRegistry
+} from './ScriptTemplateRegistry.js'
+export type {
+  ScriptTemplateDecoder,
+  IdentifiedScript
+} from './ScriptTemplateRegistry.js'
+export { registerBuiltinScriptTemplates } from './builtinScriptTemplates.js'
+export { default as ScriptAssembler } from './ScriptAssembler.js'
+export type {
+  AssemblerValue,
+  AssembleOptions,
+  ScriptContract
+} from './ScriptAssembler.js'
+export { default as ScriptAssemblyError } from './ScriptAssemblyError.js'
+export { default as ScriptAnalyzer } from './ScriptAnalyzer.js'
+export type {
+  ScriptDiagnosticCode,
+  ScriptDiagnostic,
+  ChunkStackEffect,
+  AnalyzeOptions,
+  ScriptAnalysis
+} from './ScriptAnalyzer.js'
 export type { default as ScriptTemplateUnlock } from './ScriptTemplateUnlock.js'
 export type { default as ScriptTemplate } from './ScriptTemplate.js'
 export * from './templates/index.js'
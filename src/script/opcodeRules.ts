@@ -0,0 +1,151 @@
+import OP from './OP.js'
+import ScriptChunk from './ScriptChunk.js'
+import BigNumber from '../primitives/BigNumber.js'
+
+/**
+ * The number of items each operation takes from the stack and the number it pushes. Pushes, NOPs, conditionals,
+ * the alt stack operations and those whose effect depends on the stack, such as `OP_PICK` and `OP_CHECKMULTISIG`,
+ * are not listed.
+ */
+export const stackEffects: Record<number, [number, number]> = {
+  [OP.OP_VERIFY]: [1, 0],
+  [OP.OP_2DROP]: [2, 0],
+  [OP.OP_2DUP]: [2, 4],
+  [OP.OP_3DUP]: [3, 6],
+  [OP.OP_2OVER]: [4, 6],
+  [OP.OP_2ROT]: [6, 6],
+  [OP.OP_2SWAP]: [4, 4],
+  [OP.OP_DEPTH]: [0, 1],
+  [OP.OP_DROP]: [1, 0],
+  [OP.OP_DUP]: [1, 2],
+  [OP.OP_NIP]: [2, 1],
+  [OP.OP_OVER]: [2, 3],
+  [OP.OP_ROT]: [3, 3],
+  [OP.OP_SWAP]: [2, 2],
+  [OP.OP_TUCK]: [2, 3],
+  [OP.OP_CAT]: [2, 1],
+  [OP.OP_SPLIT]: [2, 2],
+  [OP.OP_NUM2BIN]: [2, 1],
+  [OP.OP_BIN2NUM]: [1, 1],
+  [OP.OP_SIZE]: [1, 2],
+  [OP.OP_INVERT]: [1, 1],
+  [OP.OP_AND]: [2, 1],
+  [OP.OP_OR]: [2, 1],
+  [OP.OP_XOR]: [2, 1],
+  [OP.OP_EQUAL]: [2, 1],
+  [OP.OP_EQUALVERIFY]: [2, 0],
+  [OP.OP_1ADD]: [1, 1],
+  [OP.OP_1SUB]: [1, 1],
+  [OP.OP_2MUL]: [1, 1],
+  [OP.OP_2DIV]: [1, 1],
+  [OP.OP_NEGATE]: [1, 1],
+  [OP.OP_ABS]: [1, 1],
+  [OP.OP_NOT]: [1, 1],
+  [OP.OP_0NOTEQUAL]: [1, 1],
+  [OP.OP_ADD]: [2, 1],
+  [OP.OP_SUB]: [2, 1],
+  [OP.OP_MUL]: [2, 1],
+  [OP.OP_DIV]: [2, 1],
+  [OP.OP_MOD]: [2, 1],
+  [OP.OP_LSHIFT]: [2, 1],
+  [OP.OP_RSHIFT]: [2, 1],
+  [OP.OP_BOOLAND]: [2, 1],
+  [OP.OP_BOOLOR]: [2, 1],
+  [OP.OP_NUMEQUAL]: [2, 1],
+  [OP.OP_NUMEQUALVERIFY]: [2, 0],
+  [OP.OP_NUMNOTEQUAL]: [2, 1],
+  [OP.OP_LESSTHAN]: [2, 1],
+  [OP.OP_GREATERTHAN]: [2, 1],
+  [OP.OP_LESSTHANOREQUAL]: [2, 1],
+  [OP.OP_GREATERTHANOREQUAL]: [2, 1],
+  [OP.OP_MIN]: [2, 1],
+  [OP.OP_MAX]: [2, 1],
+  [OP.OP_WITHIN]: [3, 1],
+  [OP.OP_RIPEMD160]: [1, 1],
+  [OP.OP_SHA1]: [1, 1],
+  [OP.OP_SHA256]: [1, 1],
+  [OP.OP_HASH160]: [1, 1],
+  [OP.OP_HASH256]: [1, 1],
+  [OP.OP_CODESEPARATOR]: [0, 0],
+  [OP.OP_CHECKSIG]: [2, 1],
+  [OP.OP_CHECKSIGVERIFY]: [2, 0],
+  [OP.OP_NOP]: [0, 0]
+}
+
+/** Whether an opcode pushes data, including the numbers of `OP_1NEGATE` and `OP_1` to `OP_16`. */
+export function isPushOpcode (op: number): boolean {
+  return op <= OP.OP_16 && op !== OP.OP_RESERVED
+}
+
+/** Whether an opcode does nothing when executed. */
+export function isNopOpcode (op: number): boolean {
+  return op === OP.OP_NOP || (op >= OP.OP_NOP1 && op <= OP.OP_NOP73) || op === OP.OP_NOP77
+}
+
+/** Whether an opcode is disabled, failing the script whenever it is executed. */
+export function isOpcodeDisabled (op: number): boolean {
+  return (
+    op === OP.OP_2MUL ||
+    op === OP.OP_2DIV ||
+    op === OP.OP_VERIF ||
+    op === OP.OP_VERNOTIF ||
+    op === OP.OP_VER
+  )
+}
+
+/** Whether an opcode is not an operation at all, failing the script whenever it is executed. */
+export function isOpcodeInvalid (op: number): boolean {
+  return (
+    op === OP.OP_RESERVED ||
+    op === OP.OP_RESERVED1 ||
+    op === OP.OP_RESERVED2 ||
+    (op > OP.OP_NOP73 && op !== OP.OP_NOP77)
+  )
+}
+
+/** Whether a chunk pushes its data with the shortest encoding, as `requireMinimalPush` requires. */
+export function isChunkMinimal (chunk: ScriptChunk): boolean {
+  const data = chunk.data
+  const op = chunk.op
+  if (!Array.isArray(data)) {
+    return true
+  }
+  if (data.length === 0) {
+    // Could have used OP_0.
+    return op === OP.OP_0
+  } else if (data.length === 1 && data[0] >= 1 && data[0] <= 16) {
+    // Could have used OP_1 .. OP_16.
+    return op === OP.OP_1 + (data[0] - 1)
+  } else if (data.length === 1 && data[0] === 0x81) {
+    // Could have used OP_1NEGATE.
+    return op === OP.OP_1NEGATE
+  } else if (data.length <= 75) {
+    // Could have used a direct push (opCode indicating number of bytes pushed + those bytes).
+    return op === data.length
+  } else if (data.length <= 255) {
+    // Could have used OP_PUSHDATA.
+    return op === OP.OP_PUSHDATA1
+  } else if (data.length <= 65535) {
+    // Could have used OP_PUSHDATA2.
+    return op === OP.OP_PUSHDATA2
+  }
+  return true
+}
+
+/** The small number a chunk pushes, if it pushes a minimally encoded number of at most four bytes. */
+export function chunkNumber (chunk: ScriptChunk | undefined): number | undefined {
+  if (chunk === undefined) return undefined
+  const { op, data } = chunk
+  if (data === undefined) {
+    if (op === OP.OP_0) return 0
+    if (op === OP.OP_1NEGATE) return -1
+    if (op >= OP.OP_1 && op <= OP.OP_16) return op - OP.OP_1 + 1
+    return undefined
+  }
+  if (data.length > 4) return undefined
+  try {
+    return BigNumber.fromScriptNum(data, true).toNumber()
+  } catch {
+    return undefined
+  }
+}
@@ -0,0 +1,261 @@
+import OP from '../OP.js'
+import ScriptTemplate from '../ScriptTemplate.js'
+import LockingScript from '../LockingScript.js'
+import UnlockingScript from '../UnlockingScript.js'
+import Script from '../Script.js'
+import Transaction from '../../transaction/Transaction.js'
+import PrivateKey from '../../primitives/PrivateKey.js'
+import PublicKey from '../../primitives/PublicKey.js'
+import BigNumber from '../../primitives/BigNumber.js'
+import { toHex } from '../../primitives/utils.js'
+import {
+  applyLockTime,
+  inputPreimage,
+  lockTimeCondition,
+  lockTimePreimage,
+  preimagePushLength,
+  pushChunk,
+  signatureScope,
+  signPreimage,
+  spentLockingScript
+} from './lockTime.js'
+
+/**
+ * The parameters of a hash time-locked contract, as decoded by `HTLC.decode`.
+ */
+export interface HTLCParameters {
+  type: 'SHA1' | 'SHA256' | 'HASH256' | 'RIPEMD160' | 'HASH160'
+  hash: number[]
+  recipientPublicKey: PublicKey
+  refundPublicKey: PublicKey
+  lockTime: number
+}
+
+/**
+ * HTLC (Hash Time-Locked Contract) class implementing ScriptTemplate.
+ *
+ * This class provides methods to create locking scripts that a recipient can claim by revealing the preimage of a hash
+ * and signing, or that a refund key can reclaim by signing once an absolute lock time has passed. These are the
+ * building blocks of atomic swaps and payment channels.
+ *
+ * The refund path reads the transaction lock time from the signature preimage of the input, which the unlocking script
+ * pushes, so refunding sets the transaction lock time and a non-final input sequence for nodes to enforce.
+ *
+ * @example
+ * const htlc = new HTLC('SHA256')
+ * const lockingScript = htlc.lock(sha256(secret), bob.toPublicKey(), alice.toPublicKey(), 850000)
+ * // Bob claims with the secret at any time
+ * tx.inputs[0].unlockingScriptTemplate = htlc.claim(bob, secret)
+ * // or Alice reclaims from block 850000 on
+ * tx.inputs[0].unlockingScriptTemplate = htlc.refund(alice)
+ */
+export default class HTLC implements ScriptTemplate {
+  type: 'SHA1' | 'SHA256' | 'HASH256' | 'RIPEMD160' | 'HASH160' = 'SHA256'
+
+  /**
+   * @constructor
+   * Constructs an HTLC template instance for a given hash function.
+   *
+   * @param {'SHA1'|'SHA256'|'HASH256'|'RIPEMD160'|'HASH160'} type Denotes the hash function the preimage is hashed with
+   */
+  constructor (type: 'SHA1' | 'SHA256' | 'HASH256' | 'RIPEMD160' | 'HASH160' = 'SHA256') {
+    this.type = type
+  }
+
+  /**
+   * Decodes an HTLC locking script into its parameters.
+   *
+   * @param {Script} script - The locking script to decode.
+   * @returns {HTLCParameters} The hash function and hash, the public keys of the recipient and refund paths, and the lock time.
+   * @throws {Error} If the script is not an HTLC locking script.
+   */
+  static decode (script: Script): HTLCParameters {
+    const chunks = script.chunks
+    try {
+      const type = (OP[chunks[1].op] as string).slice(3) as HTLCParameters['type']
+      const lockTime = chunks[chunks.length - 6]
+      const decoded: HTLCParameters = {
+        type,
+        hash: chunks[2].data ?? [],
+        recipientPublicKey: PublicKey.fromString(toHex(chunks[4].data ?? [])),
+        refundPublicKey: PublicKey.fromString(toHex(chunks[chunks.length - 3].data ?? [])),
+        lockTime: lockTime.op >= OP.OP_1 && lockTime.op <= OP.OP_16
+          ? lockTime.op - OP.OP_1 + 1
+          : BigNumber.fromScriptNum(lockTime.data ?? []).toNumber()
+      }
+      const expected = new HTLC(type).lock(
+        decoded.hash,
+        decoded.recipientPublicKey,
+        decoded.refundPublicKey,
+        decoded.lockTime
+      )
+      if (expected.toHex() === script.toHex()) {
+        return decoded
+      }
+    } catch {
+      // Not an HTLC
+    }
+    throw new Error('The script is not an HTLC locking script.')
+  }
+
+  /**
+   * Creates an HTLC locking script.
+   *
+   * @param {number[]} hash - The hash of the secret preimage that claims the output.
+   * @param {PublicKey | string} recipientPublicKey - The public key that can claim the output with the preimage.
+   * @param {PublicKey | string} refundPublicKey - The public key that can reclaim the output after the lock time.
+   * @param {number} lockTime - The block height, or UNIX timestamp, from which the output can be refunded.
+   * @returns {LockingScript} - An HTLC locking script.
+   */
+  lock (
+    hash: number[],
+    recipientPublicKey: PublicKey | string,
+    refundPublicKey: PublicKey | string,
+    lockTime: number
+  ): LockingScript {
+    const encode = (key: PublicKey | string): number[] =>
+      (typeof key === 'string' ? PublicKey.fromString(key) : key).encode(true) as number[]
+    const recipient = encode(recipientPublicKey)
+    const refund = encode(refundPublicKey)
+    return new LockingScript([
+      { op: OP.OP_IF },
+      { op: OP['OP_' + this.type] },
+      { op: hash.length, data: hash },
+      { op: OP.OP_EQUALVERIFY },
+      { op: recipient.length, data: recipient },
+      { op: OP.OP_ELSE },
+      ...lockTimeCondition(lockTime),
+      { op: refund.length, data: refund },
+      { op: OP.OP_ENDIF },
+      { op: OP.OP_CHECKSIG }
+    ])
+  }
+
+  /**
+   * Creates an unlocking template for either path: claiming when a secret is given, or refunding otherwise.
+   *
+   * @param {PrivateKey} privateKey - The private key of the recipient when claiming, or of the refund key when refunding.
+   * @param {number[]} [secret] - The preimage of the hash, to claim the output.
+   * @param {'all'|'none'|'single'} signOutputs - The signature scope for outputs.
+   * @param {boolean} anyoneCanPay - Flag indicating if the signature allows for other inputs to be added later.
+   * @param {number} sourceSatoshis - Optional. The amount being unlocked. Otherwise the input.sourceTransaction is required.
+   * @param {Script} lockingScript - Optional. The locking script. Otherwise the input.sourceTransaction is required.
+   * @returns {Object} - An object containing the `sign` and `estimateLength` functions, and `prepare` when refunding.
+   */
+  unlock (
+    privateKey: PrivateKey,
+    secret?: number[],
+    signOutputs: 'all' | 'none' | 'single' = 'all',
+    anyoneCanPay: boolean = false,
+    sourceSatoshis?: number,
+    lockingScript?: Script
+  ): {
+      prepare?: (tx: Transaction, inputIndex: number) => void
+      sign: (tx: Transaction, inputIndex: number) => Promise<UnlockingScript>
+      estimateLength: (tx: Transaction, inputIndex: number) => Promise<number>
+    } {
+    return secret !== undefined
+      ? this.claim(privateKey, secret, signOutputs, anyoneCanPay, sourceSatoshis, lockingScript)
+      : this.refund(privateKey, signOutputs, anyoneCanPay, sourceSatoshis, lockingScript)
+  }
+
+  /**
+   * Creates a function that generates an unlocking script claiming the output with the secret preimage,
+   * along with its length estimation.
+   *
+   * @param {PrivateKey} privateKey - The private key of the recipient.
+   * @param {number[]} secret - The preimage of the hash.
+   * @param {'all'|'none'|'single'} signOutputs - The signature scope for outputs.
+   * @param {boolean} anyoneCanPay - Flag indicating if the signature allows for other inputs to be added later.
+   * @param {number} sourceSatoshis - Optional. The amount being unlocked. Otherwise the input.sourceTransaction is required.
+   * @param {Script} lockingScript - Optional. The locking script. Otherwise the input.sourceTransaction is required.
+   * @returns {Object} - An object containing the `sign` and `estimateLength` functions.
+   */
+  claim (
+    privateKey: PrivateKey,
+    secret: number[],
+    signOutputs: 'all' | 'none' | 'single' = 'all',
+    anyoneCanPay: boolean = false,
+    sourceSatoshis?: number,
+    lockingScript?: Script
+  ): {
+      sign: (tx: Transaction, inputIndex: number) => Promise<UnlockingScript>
+      estimateLength: (tx: Transaction, inputIndex: number) => Promise<number>
+    } {
+    const secretChunk = pushChunk(secret)
+    return {
+      sign: async (tx: Transaction, inputIndex: number) => {
+        const scope = signatureScope(signOutputs, anyoneCanPay)
+        const signature = signPreimage(
+          privateKey,
+          inputPreimage(tx, inputIndex, scope, sourceSatoshis, lockingScript),
+          scope
+        )
+        return new UnlockingScript([
+          { op: signature.length, data: signature },
+          secretChunk,
+          { op: OP.OP_1 }
+        ])
+      },
+      estimateLength: async () => {
+        // signature (1+73) + secret + OP_1 (1)
+        return 74 + new UnlockingScript([secretChunk]).toBinary().length + 1
+      }
+    }
+  }
+
+  /**
+   * Creates a function that generates an unlocking script refunding the output after the lock time,
+   * along with its length estimation.
+   *
+   * The returned object contains:
+   * 1. `prepare` - A function that sets the transaction lock time and the input sequence, called by `Transaction.sign`
+   *    before any input is signed.
+   * 2. `sign` - A function that, when invoked with a transaction and an input index, produces the refund unlocking script.
+   * 3. `estimateLength` - A function that returns the estimated length of the unlocking script in bytes.
+   *
+   * @param {PrivateKey} privateKey - The private key of the refund key.
+   * @param {'all'|'none'|'single'} signOutputs - The signature scope for outputs.
+   * @param {boolean} anyoneCanPay - Flag indicating if the signature allows for other inputs to be added later.
+   * @param {number} sourceSatoshis - Optional. The amount being unlocked. Otherwise the input.sourceTransaction is required.
+   * @param {Script} lockingScript - Optional. The locking script. Otherwise the input.sourceTransaction is required.
+   * @returns {Object} - An object containing the `prepare`, `sign` and `estimateLength` functions.
+   */
+  refund (
+    privateKey: PrivateKey,
+    signOutputs: 'all' | 'none' | 'single' = 'all',
+    anyoneCanPay: boolean = false,
+    sourceSatoshis?: number,
+    lockingScript?: Script
+  ): {
+      prepare: (tx: Transaction, inputIndex: number) => void
+      sign: (tx: Transaction, inputIndex: number) => Promise<UnlockingScript>
+      estimateLength: (tx: Transaction, inputIndex: number) => Promise<number>
+    } {
+    const prepare = (tx: Transaction, inputIndex: number): void => {
+      const { lockTime } = HTLC.decode(spentLockingScript(tx, inputIndex, lockingScript))
+      applyLockTime(tx, inputIndex, lockTime)
+    }
+    return {
+      prepare,
+      sign: async (tx: Transaction, inputIndex: number) => {
+        prepare(tx, inputIndex)
+        const scope = signatureScope(signOutputs, anyoneCanPay)
+        const signature = signPreimage(
+          privateKey,
+          inputPreimage(tx, inputIndex, scope, sourceSatoshis, lockingScript),
+          scope
+        )
+        return new UnlockingScript([
+          { op: signature.length, data: signature },
+          pushChunk(lockTimePreimage(tx, inputIndex, sourceSatoshis, lockingScript)),
+          { op: OP.OP_0 }
+        ])
+      },
+      estimateLength: async (tx: Transaction, inputIndex: number) => {
+        // signature (1+73) + preimage + OP_0 (1)
+        return 74 + preimagePushLength(spentLockingScript(tx, inputIndex, lockingScript)) + 1
+      }
+    }
+  }
+}
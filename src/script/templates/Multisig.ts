@@ -0,0 +1,247 @@
+import OP from '../OP.js'
+import ScriptTemplate from '../ScriptTemplate.js'
+import ScriptChunk from '../ScriptChunk.js'
+import LockingScript from '../LockingScript.js'
+import UnlockingScript from '../UnlockingScript.js'
+import Script from '../Script.js'
+import Transaction from '../../transaction/Transaction.js'
+import PrivateKey from '../../primitives/PrivateKey.js'
+import PublicKey from '../../primitives/PublicKey.js'
+import TransactionSignature from '../../primitives/TransactionSignature.js'
+import BigNumber from '../../primitives/BigNumber.js'
+import { sha256, hash256 } from '../../primitives/Hash.js'
+import { verify } from '../../primitives/ECDSA.js'
+import { toHex } from '../../primitives/utils.js'
+
+function countChunk (n: number): ScriptChunk {
+  if (n <= 16) {
+    return { op: OP.OP_1 + n - 1 }
+  }
+  const data = new BigNumber(n).toScriptNum()
+  return { op: data.length, data }
+}
+
+function readCount (chunk: ScriptChunk | undefined): number | undefined {
+  if (chunk === undefined) return undefined
+  if (chunk.op >= OP.OP_1 && chunk.op <= OP.OP_16) {
+    return chunk.op - OP.OP_1 + 1
+  }
+  if (Array.isArray(chunk.data) && chunk.data.length > 0 && chunk.op <= 75) {
+    return BigNumber.fromScriptNum(chunk.data).toNumber()
+  }
+  return undefined
+}
+
+/**
+ * Multisig class implementing ScriptTemplate.
+ *
+ * This class provides methods to create m-of-n bare multisig (P2MS) locking scripts,
+ * `OP_m <pubkey 1> ... <pubkey n> OP_n OP_CHECKMULTISIG`, and to unlock them with any m of the n private keys.
+ *
+ * Cosigners can sign one after another. Signing an input that already has a partial multisig unlocking script adds
+ * the new signatures to those already present, in the order of the public keys, so the transaction can be
+ * serialized and handed to the next cosigner until the threshold is met.
+ *
+ * @example
+ * const lockingScript = new Multisig().lock(2, [alice.toPublicKey(), bob.toPublicKey(), carol.toPublicKey()])
+ * // Alice signs first and sends the transaction on, for example as hex
+ * tx.inputs[0].unlockingScriptTemplate = new Multisig().unlock(alice)
+ * await tx.sign()
+ * // Carol adds her signature to Alice's
+ * const received = Transaction.fromHex(tx.toHex())
+ * received.inputs[0].unlockingScriptTemplate = new Multisig().unlock(carol, 'all', false, satoshis, lockingScript)
+ * await received.sign()
+ */
+export default class Multisig implements ScriptTemplate {
+  /**
+   * Decodes a multisig locking script into its threshold and public keys.
+   *
+   * @param {Script} script - The locking script to decode.
+   * @returns {{ threshold: number, publicKeys: PublicKey[] }} The number of signatures required and the public keys, in order.
+   * @throws {Error} If the script is not a multisig locking script.
+   */
+  static decode (script: Script): { threshold: number, publicKeys: PublicKey[] } {
+    const chunks = script.chunks
+    const threshold = readCount(chunks[0])
+    const keyCount = readCount(chunks[chunks.length - 2])
+    if (
+      threshold === undefined ||
+      keyCount === undefined ||
+      chunks[chunks.length - 1]?.op !== OP.OP_CHECKMULTISIG ||
+      chunks.length !== keyCount + 3 ||
+      threshold > keyCount
+    ) {
+      throw new Error('The script is not a multisig locking script.')
+    }
+    const publicKeys = chunks.slice(1, -2).map((chunk) => {
+      if (!Array.isArray(chunk.data)) {
+        throw new Error('The script is not a multisig locking script.')
+      }
+      return PublicKey.fromString(toHex(chunk.data))
+    })
+    return { threshold, publicKeys }
+  }
+
+  /**
+   * Creates an m-of-n multisig locking script.
+   *
+   * @param {number} threshold - The number of signatures required, m.
+   * @param {Array<PublicKey | string>} publicKeys - The n public keys, or their hex encodings. Signatures must be given in this order.
+   * @returns {LockingScript} - A multisig locking script.
+   */
+  lock (threshold: number, publicKeys: Array<PublicKey | string>): LockingScript {
+    if (publicKeys.length === 0) {
+      throw new Error('At least one public key is required.')
+    }
+    if (!Number.isInteger(threshold) || threshold < 1 || threshold > publicKeys.length) {
+      throw new Error(`The threshold must be between 1 and ${publicKeys.length}.`)
+    }
+    const chunks: ScriptChunk[] = [countChunk(threshold)]
+    for (const key of publicKeys) {
+      const data = (typeof key === 'string' ? PublicKey.fromString(key) : key).encode(true) as number[]
+      chunks.push({ op: data.length, data })
+    }
+    chunks.push(countChunk(publicKeys.length))
+    chunks.push({ op: OP.OP_CHECKMULTISIG })
+    return new LockingScript(chunks)
+  }
+
+  /**
+   * Creates a function that generates a multisig unlocking script along with its signature and length estimation.
+   *
+   * The returned object contains:
+   * 1. `sign` - A function that, when invoked with a transaction and an input index, signs with the given private keys
+   *    and merges the signatures with any already in the input's unlocking script.
+   * 2. `estimateLength` - A function that returns the length of the completed unlocking script in bytes, at most.
+   *
+   * @param {PrivateKey | PrivateKey[]} privateKeys - The private key, or keys, of this cosigner.
+   * @param {'all'|'none'|'single'} signOutputs - The signature scope for outputs.
+   * @param {boolean} anyoneCanPay - Flag indicating if the signature allows for other inputs to be added later.
+   * @param {number} sourceSatoshis - Optional. The amount being unlocked. Otherwise the input.sourceTransaction is required.
+   * @param {Script} lockingScript - Optional. The locking script. Otherwise the input.sourceTransaction is required.
+   * @returns {Object} - An object containing the `sign` and `estimateLength` functions.
+   */
+  unlock (
+    privateKeys: PrivateKey | PrivateKey[],
+    signOutputs: 'all' | 'none' | 'single' = 'all',
+    anyoneCanPay: boolean = false,
+    sourceSatoshis?: number,
+    lockingScript?: Script
+  ): {
+      sign: (tx: Transaction, inputIndex: number) => Promise<UnlockingScript>
+      estimateLength: (tx: Transaction, inputIndex: number) => Promise<number>
+    } {
+    const keys = Array.isArray(privateKeys) ? privateKeys : [privateKeys]
+    const getLockingScript = (tx: Transaction, inputIndex: number): Script => {
+      const input = tx.inputs[inputIndex]
+      const script = lockingScript ?? input.sourceTransaction?.outputs[input.sourceOutputIndex]?.lockingScript ??
+        input.sourceLockingScript
+      if (script === undefined) {
+        throw new Error(
+          'The lockingScript or input sourceTransaction is required for transaction signing.'
+        )
+      }
+      return script
+    }
+    return {
+      sign: async (tx: Transaction, inputIndex: number) => {
+        let signatureScope = TransactionSignature.SIGHASH_FORKID
+        if (signOutputs === 'all') {
+          signatureScope |= TransactionSignature.SIGHASH_ALL
+        }
+        if (signOutputs === 'none') {
+          signatureScope |= TransactionSignature.SIGHASH_NONE
+        }
+        if (signOutputs === 'single') {
+          signatureScope |= TransactionSignature.SIGHASH_SINGLE
+        }
+        if (anyoneCanPay) {
+          signatureScope |= TransactionSignature.SIGHASH_ANYONECANPAY
+        }
+
+        const input = tx.inputs[inputIndex]
+        const sourceTXID = input.sourceTXID ?? input.sourceTransaction?.id('hex')
+        if (sourceTXID === undefined || sourceTXID === '') {
+          throw new Error(
+            'The input sourceTXID or sourceTransaction is required for transaction signing.'
+          )
+        }
+        const satoshis = sourceSatoshis ?? input.sourceTransaction?.outputs[input.sourceOutputIndex]?.satoshis ??
+          input.sourceSatoshis
+        if (satoshis === undefined) {
+          throw new Error(
+            'The sourceSatoshis or input sourceTransaction is required for transaction signing.'
+          )
+        }
+        const subscript = getLockingScript(tx, inputIndex)
+        const { threshold, publicKeys } = Multisig.decode(subscript)
+
+        const preimage = (scope: number): number[] => TransactionSignature.format({
+          sourceTXID,
+          sourceOutputIndex: input.sourceOutputIndex,
+          sourceSatoshis: satoshis,
+          transactionVersion: tx.version,
+          otherInputs: tx.inputs.filter((_, index) => index !== inputIndex),
+          inputIndex,
+          outputs: tx.outputs,
+          inputSequence: input.sequence ?? 0xffffffff,
+          subscript,
+          lockTime: tx.lockTime,
+          scope
+        })
+
+        // Each signature goes in the slot of the public key it is for.
+        const signatures: Array<number[] | undefined> = publicKeys.map(() => undefined)
+        const previous = input.unlockingScript?.chunks ?? []
+        if (previous.length > 0 && previous[0].op !== OP.OP_0) {
+          throw new Error('The unlocking script is not a partial multisig unlocking script.')
+        }
+        for (const chunk of previous.slice(1)) {
+          if (!Array.isArray(chunk.data) || chunk.data.length === 0) {
+            throw new Error('The unlocking script is not a partial multisig unlocking script.')
+          }
+          const sig = TransactionSignature.fromChecksigFormat(chunk.data)
+          const hash = new BigNumber(hash256(preimage(sig.scope)))
+          const slot = publicKeys.findIndex(
+            (key, i) => signatures[i] === undefined && verify(hash, sig, key)
+          )
+          if (slot === -1) {
+            throw new Error(
+              'A signature in the unlocking script does not match any of the public keys, or the transaction has changed since it was made.'
+            )
+          }
+          signatures[slot] = chunk.data
+        }
+
+        const encodedKeys = publicKeys.map((key) => key.toString())
+        for (const key of keys) {
+          const slot = encodedKeys.indexOf(key.toPublicKey().toString())
+          if (slot === -1) {
+            throw new Error('The private key does not belong to any of the public keys of the multisig.')
+          }
+          const rawSignature = key.sign(sha256(preimage(signatureScope)))
+          signatures[slot] = new TransactionSignature(
+            rawSignature.r,
+            rawSignature.s,
+            signatureScope
+          ).toChecksigFormat()
+        }
+
+        // OP_CHECKMULTISIG pops one item more than it uses, and extra signatures would be left on the stack.
+        const chunks: ScriptChunk[] = [{ op: OP.OP_0 }]
+        for (const sig of signatures) {
+          if (sig !== undefined && chunks.length <= threshold) {
+            chunks.push({ op: sig.length, data: sig })
+          }
+        }
+        return new UnlockingScript(chunks)
+      },
+      estimateLength: async (tx: Transaction, inputIndex: number) => {
+        // OP_0 (1) + threshold signatures (1+73)
+        // Note: We add 1 to each signature's length because of the associated OP_PUSH
+        const { threshold } = Multisig.decode(getLockingScript(tx, inputIndex))
+        return 1 + threshold * 74
+      }
+    }
+  }
+}
@@ -1,6 +1,6 @@
 import OP from '../OP.js'
 import ScriptTemplate from '../ScriptTemplate.js'
-import { fromBase58Check } from '../../primitives/utils.js'
+import { fromBase58Check, toBase58Check, toHex } from '../../primitives/utils.js'
 import LockingScript from '../LockingScript.js'
 import UnlockingScript from '../UnlockingScript.js'
 import Transaction from '../../transaction/Transaction.js'
@@ -20,6 +20,32 @@ function verifyTruthy<T>(v: T | undefined): T {
  * This class provides methods to create Pay To Public Key Hash locking and unlocking scripts, including the unlocking of P2PKH UTXOs with the private key.
  */
 export default class P2PKH implements ScriptTemplate {
+  /**
+   * Decodes a P2PKH locking script into its public key hash and mainnet address.
+   *
+   * @param {Script} script - The locking script to decode.
+   * @returns {{ publicKeyHash: string, address: string }} The public key hash, as hex, and the mainnet address.
+   * @throws {Error} If the script is not a P2PKH locking script.
+   */
+  static decode(script: Script): { publicKeyHash: string, address: string } {
+    const chunks = script.chunks
+    const hash = chunks[2]?.data
+    if (
+      chunks.length !== 5 ||
+      chunks[0].op !== OP.OP_DUP ||
+      chunks[1].op !== OP.OP_HASH160 ||
+      hash?.length !== 20 ||
+      chunks[3].op !== OP.OP_EQUALVERIFY ||
+      chunks[4].op !== OP.OP_CHECKSIG
+    ) {
+      throw new Error('The script is not a P2PKH locking script.')
+    }
+    return {
+      publicKeyHash: toHex(hash),
+      address: toBase58Check(hash, [0x00])
+    }
+  }
+
   /**
    * Creates a P2PKH locking script for a given public key hash or address string
    *
@@ -108,7 +134,8 @@ export default class P2PKH implements ScriptTemplate {
           )
         }
         sourceSatoshis ||=
-          input.sourceTransaction?.outputs[input.sourceOutputIndex].satoshis
+          input.sourceTransaction?.outputs[input.sourceOutputIndex].satoshis ??
+          input.sourceSatoshis
         if (sourceSatoshis == null || sourceSatoshis === undefined) {
           throw new Error(
             'The sourceSatoshis or input sourceTransaction is required for transaction signing.'
@@ -116,7 +143,7 @@ export default class P2PKH implements ScriptTemplate {
         }
         lockingScript ||=
           input.sourceTransaction?.outputs[input.sourceOutputIndex]
-            .lockingScript
+            .lockingScript ?? input.sourceLockingScript
         if (lockingScript == null) {
           throw new Error(
             'The lockingScript or input sourceTransaction is required for transaction signing.'
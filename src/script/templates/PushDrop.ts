@@ -1,4 +1,8 @@
-import { ScriptTemplate, LockingScript, UnlockingScript, OP } from '../index.js'
+import OP from '../OP.js'
+import ScriptTemplate from '../ScriptTemplate.js'
+import LockingScript from '../LockingScript.js'
+import UnlockingScript from '../UnlockingScript.js'
+import Script from '../Script.js'
 import {
   Utils,
   Hash,
@@ -7,7 +11,77 @@ import {
   PublicKey
 } from '../../primitives/index.js'
 import { WalletInterface, SecurityLevel } from '../../wallet/Wallet.interfaces.js'
-import { Transaction } from '../../transaction/index.js'
+import Transaction from '../../transaction/Transaction.js'
+import { Beef } from '../../transaction/Beef.js'
+
+/**
+ * The lock a PushDrop token is spendable with: a public key (P2PK), or the hash of one (P2PKH).
+ */
+export type PushDropLockType = 'P2PK' | 'P2PKH'
+
+/**
+ * The types a PushDrop token field can be encoded as:
+ * - `bytes`: the field as it is.
+ * - `string`: UTF-8 text.
+ * - `varint`: a number, as a Bitcoin variable-length integer.
+ * - `json`: a JSON value, as UTF-8 text.
+ * - `publicKey`: a compressed public key.
+ * - `beef`: a BEEF of transactions the token refers to.
+ */
+export type PushDropFieldType =
+  | 'bytes'
+  | 'string'
+  | 'varint'
+  | 'json'
+  | 'publicKey'
+  | 'beef'
+
+/**
+ * The values of each type of PushDrop token field.
+ */
+export interface PushDropFieldValues {
+  bytes: number[]
+  string: string
+  varint: number
+  json: unknown
+  publicKey: PublicKey
+  beef: Beef
+}
+
+/**
+ * A field of a PushDrop token schema.
+ */
+export interface PushDropField {
+  name: string
+  type: PushDropFieldType
+}
+
+/**
+ * The fields of a PushDrop token, in the order they are pushed. Declare it `as const` for the values to be typed by
+ * field name.
+ */
+export type PushDropSchema = readonly PushDropField[]
+
+/**
+ * The values of the fields of a PushDrop token with the given schema, by field name.
+ */
+export type PushDropValues<S extends PushDropSchema> = {
+  [F in S[number] as F['name']]: PushDropFieldValues[F['type']]
+}
+
+/**
+ * A PushDrop token, as decoded by `PushDrop.decodeToken`.
+ */
+export interface DecodedPushDrop {
+  /** The token fields. If a signature was included, it will be the last field. */
+  fields: number[][]
+  /** The public key the token is locked to. Only a P2PK lock includes it. */
+  lockingPublicKey?: PublicKey
+  /** The hash of the public key the token is locked to. */
+  lockingPublicKeyHash: number[]
+  lockType: PushDropLockType
+  lockPosition: 'before' | 'after'
+}
 
 function verifyTruthy<T>(v: T | undefined): T {
   if (v == null) throw new Error('must have value')
@@ -21,14 +95,15 @@ function verifyTruthy<T>(v: T | undefined): T {
  * TODO: This should be made into a TS-SDK util (distinct from the `minimallyEncode` util)
  */
 const createMinimallyEncodedScriptChunk = (
-  data: number[]
+  data: number[],
+  exactFields = false
 ): { op: number, data?: number[] } => {
   if (data.length === 0) {
     // Could have used OP_0.
     return { op: 0 }
   }
-  if (data.length === 1 && data[0] === 0) {
-    // Could have used OP_0.
+  if (data.length === 1 && data[0] === 0 && !exactFields) {
+    // Could have used OP_0, which tokens have always been locked with, although it pushes an empty value.
     return { op: 0 }
   }
   if (data.length === 1 && data[0] > 0 && data[0] <= 16) {
@@ -55,51 +130,343 @@ const createMinimallyEncodedScriptChunk = (
   return { op: 0x4e, data }
 }
 
+/**
+ * The script chunks of a lock of a given type, for a public key, or the hash of one with P2PKH.
+ */
+const lockChunks = (
+  lockType: PushDropLockType,
+  key: number[]
+): Array<{ op: number, data?: number[] }> => {
+  if (lockType === 'P2PK') {
+    return [{ op: key.length, data: key }, { op: OP.OP_CHECKSIG }]
+  }
+  const hash = key.length === 20 ? key : Hash.hash160(key)
+  return [
+    { op: OP.OP_DUP },
+    { op: OP.OP_HASH160 },
+    { op: hash.length, data: hash },
+    { op: OP.OP_EQUALVERIFY },
+    { op: OP.OP_CHECKSIG }
+  ]
+}
+
+/**
+ * Matches the lock at the given chunk of a script, returning its type and the public key, or public key hash, in it.
+ */
+const matchLock = (
+  script: Script,
+  start: number
+): { lockType: PushDropLockType, key: number[], length: number } | undefined => {
+  const chunks = script.chunks
+  const key = chunks[start]?.data
+  if (
+    (key?.length === 33 || key?.length === 65) &&
+    chunks[start + 1]?.op === OP.OP_CHECKSIG
+  ) {
+    return { lockType: 'P2PK', key, length: 2 }
+  }
+  const hash = chunks[start + 2]?.data
+  if (
+    chunks[start]?.op === OP.OP_DUP &&
+    chunks[start + 1]?.op === OP.OP_HASH160 &&
+    hash?.length === 20 &&
+    chunks[start + 3]?.op === OP.OP_EQUALVERIFY &&
+    chunks[start + 4]?.op === OP.OP_CHECKSIG
+  ) {
+    return { lockType: 'P2PKH', key: hash, length: 5 }
+  }
+  return undefined
+}
+
+/**
+ * Matches the pushed fields at the given chunk of a script, and the OP_DROP and OP_2DROP operations after them that
+ * drop exactly those fields, returning the number of fields and of chunks.
+ */
+const matchFields = (
+  script: Script,
+  start: number
+): { fieldCount: number, length: number } | undefined => {
+  const chunks = script.chunks
+  let i = start
+  while (
+    i < chunks.length &&
+    chunks[i].op <= OP.OP_16 &&
+    chunks[i].op !== OP.OP_RESERVED
+  ) {
+    i++
+  }
+  const fieldCount = i - start
+  let dropped = 0
+  for (; i < chunks.length && dropped < fieldCount; i++) {
+    if (chunks[i].op === OP.OP_DROP) {
+      dropped += 1
+    } else if (chunks[i].op === OP.OP_2DROP) {
+      dropped += 2
+    } else {
+      break
+    }
+  }
+  if (fieldCount === 0 || dropped !== fieldCount) {
+    return undefined
+  }
+  return { fieldCount, length: i - start }
+}
+
+/**
+ * The lock and fields of a parsed PushDrop token.
+ */
+interface ParsedPushDrop {
+  lockType: PushDropLockType
+  lockPosition: 'before' | 'after'
+  key: number[]
+  fieldStart: number
+  fieldCount: number
+}
+
+/**
+ * Parses a PushDrop token: a P2PK or P2PKH lock, either before or after at least one pushed field and the OP_DROP and
+ * OP_2DROP operations that drop exactly those fields.
+ */
+const parsePushDrop = (script: Script): ParsedPushDrop | undefined => {
+  const chunks = script.chunks
+  const lockBefore = matchLock(script, 0)
+  if (lockBefore !== undefined) {
+    const fields = matchFields(script, lockBefore.length)
+    if (
+      fields !== undefined &&
+      lockBefore.length + fields.length === chunks.length
+    ) {
+      return {
+        lockType: lockBefore.lockType,
+        lockPosition: 'before',
+        key: lockBefore.key,
+        fieldStart: lockBefore.length,
+        fieldCount: fields.fieldCount
+      }
+    }
+  }
+  const fields = matchFields(script, 0)
+  if (fields !== undefined) {
+    const lockAfter = matchLock(script, fields.length)
+    if (
+      lockAfter !== undefined &&
+      fields.length + lockAfter.length === chunks.length
+    ) {
+      return {
+        lockType: lockAfter.lockType,
+        lockPosition: 'after',
+        key: lockAfter.key,
+        fieldStart: 0,
+        fieldCount: fields.fieldCount
+      }
+    }
+  }
+  return undefined
+}
+
+/**
+ * The value a script chunk pushes onto the stack, except that OP_0 is read as `[0]` unless fields are exact, as
+ * PushDrop encodes empty fields and `[0]` alike as OP_0 otherwise.
+ */
+const pushedValue = (
+  chunk: { op: number, data?: number[] },
+  exactFields = false
+): number[] => {
+  if (chunk.data !== undefined && chunk.data.length > 0) {
+    return chunk.data
+  }
+  if (chunk.op >= OP.OP_1 && chunk.op <= OP.OP_16) {
+    return [chunk.op - OP.OP_1 + 1]
+  }
+  if (chunk.op === OP.OP_1NEGATE) {
+    return [0x81]
+  }
+  return chunk.op === OP.OP_0 && !exactFields ? [0] : []
+}
+
+const encodeField = (field: PushDropField, value: unknown): number[] => {
+  switch (field.type) {
+    case 'bytes':
+      return value as number[]
+    case 'string':
+      return Utils.toArray(value as string, 'utf8')
+    case 'varint':
+      return new Utils.Writer().writeVarIntNum(value as number).toArray()
+    case 'json':
+      return Utils.toArray(JSON.stringify(value), 'utf8')
+    case 'publicKey':
+      return (value as PublicKey).encode(true) as number[]
+    case 'beef':
+      return (value as Beef).toBinary()
+  }
+}
+
+const decodeField = (field: PushDropField, data: number[]): unknown => {
+  switch (field.type) {
+    case 'bytes':
+      return data
+    case 'string':
+      return Utils.toUTF8(data)
+    case 'varint': {
+      const reader = new Utils.Reader(data)
+      const value = reader.readVarIntNum()
+      if (!reader.eof()) {
+        throw new Error(`The field ${field.name} is not a varint.`)
+      }
+      return value
+    }
+    case 'json':
+      return JSON.parse(Utils.toUTF8(data))
+    case 'publicKey':
+      return PublicKey.fromString(Utils.toHex(data))
+    case 'beef':
+      return Beef.fromBinary(data)
+  }
+}
+
 export default class PushDrop implements ScriptTemplate {
   wallet: WalletInterface
   originator?: string
 
   /**
    * Decodes a PushDrop script back into its token fields and the locking public key. If a signature was present, it will be the last field returned.
-   * Warning: Only works with a P2PK lock at the beginning of the script.
+   * The P2PK lock can be before or after the fields. Use `decodeToken` for tokens with a P2PKH lock.
+   * Warning: Other scripts are read as if they had a P2PK lock at the beginning.
    * @param script PushDrop script to decode back into token fields
+   * @param schema Optional. The schema of the token, for its fields to also be decoded into typed values.
    * @returns An object containing PushDrop token fields and the locking public key. If a signature was included, it will be the last field.
    */
   static decode(script: LockingScript): {
     lockingPublicKey: PublicKey
     fields: number[][]
+  }
+  static decode<S extends PushDropSchema>(
+    script: LockingScript,
+    schema: S
+  ): {
+    lockingPublicKey: PublicKey
+    fields: number[][]
+    values: PushDropValues<S>
+  }
+  static decode<S extends PushDropSchema>(
+    script: LockingScript,
+    schema?: S
+  ): {
+    lockingPublicKey: PublicKey
+    fields: number[][]
+    values?: PushDropValues<S>
   } {
-    const lockingPublicKey = PublicKey.fromString(
-      Utils.toHex(verifyTruthy(script.chunks[0].data)) // ✅ Ensure not undefined
-    )
-
+    const parsed = parsePushDrop(script)
+    let lockingPublicKey: PublicKey
     const fields: number[][] = []
-    for (let i = 2; i < script.chunks.length; i++) {
-      const nextOpcode = script.chunks[i + 1]?.op // ✅ Prevent accessing `op` from `undefined`
-      let chunk: number[] = script.chunks[i].data ?? [] // ✅ Ensure `chunk` is always `number[]`
-
-      if (chunk.length === 0) {
-        // ✅ Only modify `chunk` if it was empty
-        if (script.chunks[i].op >= 80 && script.chunks[i].op <= 95) {
-          chunk = [script.chunks[i].op - 80]
-        } else if (script.chunks[i].op === 0) {
-          chunk = [0]
-        } else if (script.chunks[i].op === 0x4f) {
-          chunk = [0x81]
-        }
+    if (parsed?.lockType === 'P2PK') {
+      lockingPublicKey = PublicKey.fromString(Utils.toHex(parsed.key))
+      for (const chunk of script.chunks.slice(parsed.fieldStart, parsed.fieldStart + parsed.fieldCount)) {
+        fields.push(pushedValue(chunk))
       }
-      fields.push(chunk)
-
-      // If the next value is DROP or 2DROP then this is the final field
-      if (nextOpcode === OP.OP_DROP || nextOpcode === OP.OP_2DROP) {
-        break
+    } else {
+      lockingPublicKey = PublicKey.fromString(
+        Utils.toHex(verifyTruthy(script.chunks[0].data))
+      )
+      for (let i = 2; i < script.chunks.length; i++) {
+        fields.push(pushedValue(script.chunks[i]))
+        // If the next value is DROP or 2DROP then this is the final field
+        const nextOpcode = script.chunks[i + 1]?.op
+        if (nextOpcode === OP.OP_DROP || nextOpcode === OP.OP_2DROP) {
+          break
+        }
       }
     }
+    if (schema === undefined) {
+      return { fields, lockingPublicKey }
+    }
+    return { fields, lockingPublicKey, values: PushDrop.decodeFields(schema, fields) }
+  }
 
-    return {
+  /**
+   * Decodes a PushDrop token back into its token fields and its lock. The lock can be P2PK or P2PKH, and either before
+   * or after the fields. If a signature was present, it will be the last field returned.
+   * @param script PushDrop script to decode back into token fields
+   * @param schema Optional. The schema of the token, for its fields to also be decoded into typed values.
+   * @param exactFields Optional. Whether the token was locked with `exactFields`, for fields pushed with OP_0 to be
+   * decoded as empty rather than as `[0]` (default no).
+   * @returns An object containing PushDrop token fields and the lock. If a signature was included, it will be the last field.
+   * @throws If the script is not a PushDrop token, or its fields do not match the schema.
+   */
+  static decodeToken(
+    script: LockingScript,
+    schema?: undefined,
+    exactFields?: boolean
+  ): DecodedPushDrop
+  static decodeToken<S extends PushDropSchema>(
+    script: LockingScript,
+    schema: S,
+    exactFields?: boolean
+  ): DecodedPushDrop & { values: PushDropValues<S> }
+  static decodeToken<S extends PushDropSchema>(
+    script: LockingScript,
+    schema?: S,
+    exactFields = false
+  ): DecodedPushDrop & { values?: PushDropValues<S> } {
+    const parsed = parsePushDrop(script)
+    if (parsed === undefined) {
+      throw new Error('The script is not a PushDrop token.')
+    }
+    const fields = script.chunks
+      .slice(parsed.fieldStart, parsed.fieldStart + parsed.fieldCount)
+      .map((chunk) => pushedValue(chunk, exactFields))
+    const decoded: DecodedPushDrop & { values?: PushDropValues<S> } = {
       fields,
-      lockingPublicKey
+      lockingPublicKeyHash: parsed.key,
+      lockType: parsed.lockType,
+      lockPosition: parsed.lockPosition
+    }
+    if (parsed.lockType === 'P2PK') {
+      decoded.lockingPublicKey = PublicKey.fromString(Utils.toHex(parsed.key))
+      decoded.lockingPublicKeyHash = Hash.hash160(parsed.key)
     }
+    if (schema !== undefined) {
+      decoded.values = PushDrop.decodeFields(schema, fields)
+    }
+    return decoded
+  }
+
+  /**
+   * Encodes the values of token fields by a schema, for locking them with `lock`.
+   * @param schema The schema of the token.
+   * @param values The value of each field in the schema, by name.
+   * @returns The token fields, in the order of the schema.
+   */
+  static encodeFields<S extends PushDropSchema>(
+    schema: S,
+    values: PushDropValues<S>
+  ): number[][] {
+    return schema.map((field) =>
+      encodeField(field, (values as Record<string, unknown>)[field.name])
+    )
+  }
+
+  /**
+   * Decodes token fields into typed values by a schema.
+   * @param schema The schema of the token.
+   * @param fields The token fields, as returned by `decode`. A signature after the fields of the schema is ignored.
+   * @returns The value of each field in the schema, by name.
+   * @throws If there are fewer fields than the schema has, more than one field besides them, or a field does not decode as its type.
+   */
+  static decodeFields<S extends PushDropSchema>(
+    schema: S,
+    fields: number[][]
+  ): PushDropValues<S> {
+    if (fields.length !== schema.length && fields.length !== schema.length + 1) {
+      throw new Error(
+        `The token has ${fields.length} fields, but its schema has ${schema.length}.`
+      )
+    }
+    const values: Record<string, unknown> = {}
+    schema.forEach((field, i) => {
+      values[field.name] = decodeField(field, fields[i])
+    })
+    return values as PushDropValues<S>
   }
 
   /**
@@ -122,6 +489,10 @@ export default class PushDrop implements ScriptTemplate {
    * @param {string} counterparty - The counterparty involved in the transaction, "self" or "anyone".
    * @param {boolean} [forSelf=false] - Flag indicating if the lock is for the creator (default no).
    * @param {boolean} [includeSignature=true] - Flag indicating if a signature should be included in the script (default yes).
+   * @param {'before' | 'after'} [lockPosition='before'] - Whether the lock comes before or after the fields.
+   * @param {PushDropLockType} [lockType='P2PK'] - Whether to lock to the public key, or to its hash.
+   * @param {boolean} [exactFields=false] - Flag indicating if a `[0]` field should be pushed as it is, rather than with
+   *        OP_0 like an empty field, so that both round-trip through `decodeToken` with `exactFields` (default no).
    * @returns {Promise<LockingScript>} The generated PushDrop locking script.
    */
   async lock(
@@ -131,7 +502,9 @@ export default class PushDrop implements ScriptTemplate {
     counterparty: string,
     forSelf = false,
     includeSignature = true,
-    lockPosition: 'before' | 'after' = 'before'
+    lockPosition: 'before' | 'after' = 'before',
+    lockType: PushDropLockType = 'P2PK',
+    exactFields = false
   ): Promise<LockingScript> {
     const { publicKey } = await this.wallet.getPublicKey({
       protocolID,
@@ -139,13 +512,8 @@ export default class PushDrop implements ScriptTemplate {
       counterparty,
       forSelf
     }, this.originator)
-    const lockChunks: Array<{ op: number, data?: number[] }> = []
+    const lock = lockChunks(lockType, Utils.toArray(publicKey, 'hex'))
     const pushDropChunks: Array<{ op: number, data?: number[] }> = []
-    lockChunks.push({
-      op: publicKey.length / 2,
-      data: Utils.toArray(publicKey, 'hex')
-    })
-    lockChunks.push({ op: OP.OP_CHECKSIG })
     if (includeSignature) {
       const dataToSign = fields.reduce((a, e) => [...a, ...e], [])
       const { signature } = await this.wallet.createSignature({
@@ -157,7 +525,7 @@ export default class PushDrop implements ScriptTemplate {
       fields.push(signature)
     }
     for (const field of fields) {
-      pushDropChunks.push(createMinimallyEncodedScriptChunk(field))
+      pushDropChunks.push(createMinimallyEncodedScriptChunk(field, exactFields))
     }
     let notYetDropped = fields.length
     while (notYetDropped > 1) {
@@ -168,9 +536,9 @@ export default class PushDrop implements ScriptTemplate {
       pushDropChunks.push({ op: OP.OP_DROP })
     }
     if (lockPosition === 'before') {
-      return new LockingScript([...lockChunks, ...pushDropChunks])
+      return new LockingScript([...lock, ...pushDropChunks])
     } else {
-      return new LockingScript([...pushDropChunks, ...lockChunks])
+      return new LockingScript([...pushDropChunks, ...lock])
     }
   }
 
@@ -185,7 +553,8 @@ export default class PushDrop implements ScriptTemplate {
    * @param {LockingScript} [lockingScript] - The locking script of the source output.
    * @param {'all' | 'none' | 'single'} [signOutputs='all'] - Specifies which outputs to sign.
    * @param {boolean} [anyoneCanPay=false] - Specifies if the anyone-can-pay flag is set.
-   * @returns {Object} An object containing functions to sign the transaction and estimate the script length.
+   * @returns {Object} An object containing functions to sign the transaction and estimate the script length. A P2PKH
+   * lock is unlocked with the public key as well as the signature.
    */
   unlock(
     protocolID: [SecurityLevel, string],
@@ -197,7 +566,7 @@ export default class PushDrop implements ScriptTemplate {
     lockingScript?: LockingScript
   ): {
     sign: (tx: Transaction, inputIndex: number) => Promise<UnlockingScript>
-    estimateLength: () => Promise<73>
+    estimateLength: (tx?: Transaction, inputIndex?: number) => Promise<number>
   } {
     return {
       sign: async (
@@ -231,7 +600,8 @@ export default class PushDrop implements ScriptTemplate {
           )
         }
         sourceSatoshis ||=
-          input.sourceTransaction?.outputs[input.sourceOutputIndex].satoshis
+          input.sourceTransaction?.outputs[input.sourceOutputIndex].satoshis ??
+          input.sourceSatoshis
         if (sourceSatoshis == null || sourceSatoshis === undefined) {
           throw new Error(
             'The sourceSatoshis or input sourceTransaction is required for transaction signing.'
@@ -239,7 +609,7 @@ export default class PushDrop implements ScriptTemplate {
         }
         lockingScript ||=
           input.sourceTransaction?.outputs[input.sourceOutputIndex]
-            .lockingScript
+            .lockingScript ?? input.sourceLockingScript
         if (lockingScript == null) {
           throw new Error(
             'The lockingScript or input sourceTransaction is required for transaction signing.'
@@ -274,11 +644,35 @@ export default class PushDrop implements ScriptTemplate {
           signatureScope
         )
         const sigForScript = txSignature.toChecksigFormat()
+        if (parsePushDrop(lockingScript)?.lockType !== 'P2PKH') {
+          return new UnlockingScript([
+            { op: sigForScript.length, data: sigForScript }
+          ])
+        }
+        const { publicKey } = await this.wallet.getPublicKey({
+          protocolID,
+          keyID,
+          counterparty,
+          forSelf: true
+        }, this.originator)
         return new UnlockingScript([
-          { op: sigForScript.length, data: sigForScript }
+          { op: sigForScript.length, data: sigForScript },
+          { op: publicKey.length / 2, data: Utils.toArray(publicKey, 'hex') }
         ])
       },
-      estimateLength: async () => 73
+      estimateLength: async (tx?: Transaction, inputIndex?: number) => {
+        const input = inputIndex !== undefined ? tx?.inputs[inputIndex] : undefined
+        const script =
+          lockingScript ??
+          input?.sourceTransaction?.outputs[input.sourceOutputIndex]
+            .lockingScript ??
+          input?.sourceLockingScript
+        // A P2PKH lock also takes a compressed public key.
+        return script !== undefined &&
+          parsePushDrop(script)?.lockType === 'P2PKH'
+          ? 73 + 34
+          : 73
+      }
     }
   }
 }
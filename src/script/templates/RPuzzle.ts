@@ -5,10 +5,58 @@ import UnlockingScript from '../UnlockingScript.js'
 import Transaction from '../../transaction/Transaction.js'
 import PrivateKey from '../../primitives/PrivateKey.js'
 import TransactionSignature from '../../primitives/TransactionSignature.js'
-import { sha256 } from '../../primitives/Hash.js'
+import {
+  sha1,
+  sha256,
+  hash256,
+  ripemd160,
+  hash160
+} from '../../primitives/Hash.js'
 import ScriptChunk from '../ScriptChunk.js'
 import BigNumber from '../../primitives/BigNumber.js'
 import Script from '../Script.js'
+import { toHex } from '../../primitives/utils.js'
+import Curve from '../../primitives/Curve.js'
+import PublicKey from '../../primitives/PublicKey.js'
+import Signature from '../../primitives/Signature.js'
+import { verify } from '../../primitives/ECDSA.js'
+import {
+  WalletInterface,
+  WalletProtocol
+} from '../../wallet/Wallet.interfaces.js'
+
+/**
+ * A signature along with the hash of the message it signs, as used to recover K-values and private keys.
+ * For transaction signatures, the hash is the `hash256` of the signature preimage.
+ */
+export interface SignedHash {
+  signature: Signature
+  msgHash: BigNumber
+}
+
+const hashFunctions: Record<'SHA1' | 'SHA256' | 'HASH256' | 'RIPEMD160' | 'HASH160', (data: number[]) => number[]> = {
+  SHA1: sha1,
+  SHA256: sha256,
+  HASH256: hash256,
+  RIPEMD160: ripemd160,
+  HASH160: hash160
+}
+
+/**
+ * The private key whose signature with a K-value is the given one, when that K-value, or its negation, was used.
+ */
+const privateKeyCandidates = (
+  { signature, msgHash }: SignedHash,
+  k: BigNumber
+): PrivateKey[] => {
+  const n = new Curve().n
+  const rInv = signature.r.invm(n)
+  // Signatures are normalized to low S, which negates S, so both signs are candidates.
+  return [signature.s, n.sub(signature.s)].map(
+    (s) =>
+      new PrivateKey(s.mul(k).sub(msgHash).umod(n).mul(rInv).umod(n).toArray())
+  )
+}
 
 /**
  * RPuzzle class implementing ScriptTemplate.
@@ -18,6 +66,226 @@ import Script from '../Script.js'
 export default class RPuzzle implements ScriptTemplate {
   type: 'raw' | 'SHA1' | 'SHA256' | 'HASH256' | 'RIPEMD160' | 'HASH160' = 'raw'
 
+  /**
+   * The protocol K-values are encrypted under by `encryptK` and `decryptK`.
+   */
+  static readonly kProtocolID: WalletProtocol = [2, 'r puzzle k value']
+
+  /**
+   * Generates a random K-value for a new R puzzle.
+   *
+   * @returns {BigNumber} A K-value between 1 and the order of the curve.
+   */
+  static generateK(): BigNumber {
+    return new BigNumber(PrivateKey.fromRandom().toArray())
+  }
+
+  /**
+   * Computes the R value of a K-value, as it appears in signatures made with it.
+   *
+   * @param {BigNumber} k - The K-value.
+   * @returns {number[]} The R value, with a leading zero byte when its high bit is set, as in DER encoding.
+   */
+  static computeR(k: BigNumber): number[] {
+    const curve = new Curve()
+    const r = curve.g.mul(k).getX().umod(curve.n).toArray()
+    return r[0] > 127 ? [0, ...r] : r
+  }
+
+  /**
+   * Computes the value an R puzzle of a given type is locked to for a K-value: its R value, or the hash of it.
+   *
+   * @param {BigNumber} k - The K-value.
+   * @param {'raw'|'SHA1'|'SHA256'|'HASH256'|'RIPEMD160'|'HASH160'} type - The type of puzzle.
+   * @returns {number[]} The value to pass to `lock`.
+   */
+  static computeValue(
+    k: BigNumber,
+    type: 'raw' | 'SHA1' | 'SHA256' | 'HASH256' | 'RIPEMD160' | 'HASH160' = 'raw'
+  ): number[] {
+    const r = RPuzzle.computeR(k)
+    return type === 'raw' ? r : hashFunctions[type](r)
+  }
+
+  /**
+   * Encrypts a K-value with a wallet, for storing it until the puzzle is unlocked.
+   *
+   * @param {WalletInterface} wallet - The wallet to encrypt with.
+   * @param {BigNumber} k - The K-value.
+   * @param {string} keyID - Identifies the puzzle, such as by its outpoint. The same key ID decrypts it.
+   * @param {string} originator - Optional. The originator of the wallet request.
+   * @returns {Promise<number[]>} The encrypted K-value.
+   */
+  static async encryptK(
+    wallet: WalletInterface,
+    k: BigNumber,
+    keyID: string,
+    originator?: string
+  ): Promise<number[]> {
+    const { ciphertext } = await wallet.encrypt(
+      {
+        plaintext: k.toArray('be', 32),
+        protocolID: RPuzzle.kProtocolID,
+        keyID,
+        counterparty: 'self'
+      },
+      originator
+    )
+    return ciphertext
+  }
+
+  /**
+   * Decrypts a K-value encrypted by `encryptK`.
+   *
+   * @param {WalletInterface} wallet - The wallet that encrypted the K-value.
+   * @param {number[]} ciphertext - The encrypted K-value.
+   * @param {string} keyID - The key ID the K-value was encrypted with.
+   * @param {string} originator - Optional. The originator of the wallet request.
+   * @returns {Promise<BigNumber>} The K-value.
+   */
+  static async decryptK(
+    wallet: WalletInterface,
+    ciphertext: number[],
+    keyID: string,
+    originator?: string
+  ): Promise<BigNumber> {
+    const { plaintext } = await wallet.decrypt(
+      {
+        ciphertext,
+        protocolID: RPuzzle.kProtocolID,
+        keyID,
+        counterparty: 'self'
+      },
+      originator
+    )
+    return new BigNumber(plaintext)
+  }
+
+  /**
+   * Finds the signatures that share an R value, and so were made with the same K-value, or its negation.
+   * Anyone who sees two such signatures, with their message hashes, can recover the K-value and the private key.
+   *
+   * @param {Signature[]} signatures - The signatures to check.
+   * @returns {Array<{ r: BigNumber, indexes: number[] }>} Each R value used more than once, with the indexes of the signatures using it.
+   */
+  static findReusedK(
+    signatures: Signature[]
+  ): Array<{ r: BigNumber, indexes: number[] }> {
+    const byR = new Map<string, { r: BigNumber, indexes: number[] }>()
+    signatures.forEach((signature, index) => {
+      const key = signature.r.toHex()
+      const entry = byR.get(key) ?? { r: signature.r, indexes: [] }
+      entry.indexes.push(index)
+      byR.set(key, entry)
+    })
+    return [...byR.values()].filter((entry) => entry.indexes.length > 1)
+  }
+
+  /**
+   * Recovers the K-value of two signatures of different messages that share an R value.
+   *
+   * @param {SignedHash} first - One of the signatures, with the hash of its message.
+   * @param {SignedHash} second - The other signature, with the hash of its message.
+   * @returns {BigNumber} The K-value. Its negation, which has the same R value, signs equally well.
+   * @throws {Error} If the signatures do not share an R value, or sign the same message.
+   */
+  static recoverK(first: SignedHash, second: SignedHash): BigNumber {
+    if (!first.signature.r.eq(second.signature.r)) {
+      throw new Error('The signatures do not share an R value.')
+    }
+    const curve = new Curve()
+    const n = curve.n
+    const r = first.signature.r
+    const z = first.msgHash.sub(second.msgHash).umod(n)
+    // Either signature may have had its S negated, so both differences are candidates.
+    for (const s of [
+      first.signature.s.sub(second.signature.s),
+      first.signature.s.add(second.signature.s)
+    ]) {
+      const ds = s.umod(n)
+      if (ds.isZero()) continue
+      const k = z.mul(ds.invm(n)).umod(n)
+      if (!k.isZero() && curve.g.mul(k).getX().umod(n).eq(r)) {
+        return k
+      }
+    }
+    throw new Error('The K-value could not be recovered from the signatures.')
+  }
+
+  /**
+   * Recovers the private key that made two signatures of different messages sharing an R value.
+   *
+   * @param {SignedHash} first - One of the signatures, with the hash of its message.
+   * @param {SignedHash} second - The other signature, with the hash of its message.
+   * @returns {PrivateKey} The private key.
+   * @throws {Error} If the signatures do not share an R value, or were not made by the same key.
+   */
+  static recoverPrivateKey(first: SignedHash, second: SignedHash): PrivateKey {
+    const k = RPuzzle.recoverK(first, second)
+    const privateKey = privateKeyCandidates(first, k).find((candidate) => {
+      const publicKey = candidate.toPublicKey()
+      return (
+        verify(first.msgHash, first.signature, publicKey) &&
+        verify(second.msgHash, second.signature, publicKey)
+      )
+    })
+    if (privateKey === undefined) {
+      throw new Error('The signatures were not made by the same private key.')
+    }
+    return privateKey
+  }
+
+  /**
+   * Recovers the private key that made a signature with a known K-value, such as one unlocking an R puzzle.
+   *
+   * @param {SignedHash} signed - The signature, with the hash of its message.
+   * @param {BigNumber} k - The K-value the signature was made with.
+   * @param {PublicKey} publicKey - The public key of the signer, which tells apart the keys the signature could be from.
+   * @returns {PrivateKey} The private key.
+   * @throws {Error} If the signature was not made with the K-value by the public key.
+   */
+  static privateKeyFromK(
+    signed: SignedHash,
+    k: BigNumber,
+    publicKey: PublicKey
+  ): PrivateKey {
+    const privateKey = privateKeyCandidates(signed, k).find((candidate) =>
+      candidate.toPublicKey().eq(publicKey)
+    )
+    if (privateKey === undefined) {
+      throw new Error(
+        'The signature was not made with the K-value by the public key.'
+      )
+    }
+    return privateKey
+  }
+
+  /**
+   * Decodes an R puzzle locking script into its type and the R value, or R value hash, it is locked to.
+   *
+   * @param {Script} script - The locking script to decode.
+   * @returns {{ type: 'raw'|'SHA1'|'SHA256'|'HASH256'|'RIPEMD160'|'HASH160', value: string }} The puzzle type and value, as hex.
+   * @throws {Error} If the script is not an R puzzle locking script.
+   */
+  static decode(script: Script): {
+    type: 'raw' | 'SHA1' | 'SHA256' | 'HASH256' | 'RIPEMD160' | 'HASH160'
+    value: string
+  } {
+    const chunks = script.chunks
+    const hashed = chunks.length === 13
+    const value = chunks[hashed ? 10 : 9]?.data
+    const type = hashed ? (OP[chunks[9].op] as string)?.slice(3) : 'raw'
+    if (
+      (chunks.length !== 12 && !hashed) ||
+      !['raw', 'SHA1', 'SHA256', 'HASH256', 'RIPEMD160', 'HASH160'].includes(type) ||
+      value === undefined ||
+      new RPuzzle(type as RPuzzle['type']).lock(value).toHex() !== script.toHex()
+    ) {
+      throw new Error('The script is not an R puzzle locking script.')
+    }
+    return { type: type as RPuzzle['type'], value: toHex(value) }
+  }
+
   /**
    * @constructor
    * Constructs an R Puzzle template instance for a given puzzle type
@@ -108,17 +376,21 @@ export default class RPuzzle implements ScriptTemplate {
         }
         const otherInputs = [...tx.inputs]
         const [input] = otherInputs.splice(inputIndex, 1)
-        if (typeof input.sourceTransaction !== 'object') {
+        if (
+          typeof input.sourceTransaction !== 'object' &&
+          (typeof input.sourceTXID !== 'string' ||
+            typeof input.sourceSatoshis !== 'number')
+        ) {
           throw new Error(
             'The source transaction is needed for transaction signing.'
           )
         }
         const preimage = TransactionSignature.format({
-          sourceTXID: input.sourceTransaction?.id('hex') ?? '',
+          sourceTXID: input.sourceTransaction?.id('hex') ?? input.sourceTXID ?? '',
           sourceOutputIndex: input.sourceOutputIndex ?? 0,
           sourceSatoshis:
             input.sourceTransaction?.outputs[input.sourceOutputIndex]
-              ?.satoshis ?? 0,
+              ?.satoshis ?? input.sourceSatoshis ?? 0,
           transactionVersion: tx.version,
           otherInputs,
           inputIndex,
@@ -126,7 +398,7 @@ export default class RPuzzle implements ScriptTemplate {
           inputSequence: input.sequence ?? 0xffffffff,
           subscript:
             input.sourceTransaction?.outputs[input.sourceOutputIndex]
-              ?.lockingScript ?? new Script(),
+              ?.lockingScript ?? input.sourceLockingScript ?? new Script(),
           lockTime: tx.lockTime,
           scope: signatureScope
         })
@@ -0,0 +1,131 @@
+import OP from '../OP.js'
+import ScriptTemplate from '../ScriptTemplate.js'
+import LockingScript from '../LockingScript.js'
+import UnlockingScript from '../UnlockingScript.js'
+import Script from '../Script.js'
+import Transaction from '../../transaction/Transaction.js'
+import PrivateKey from '../../primitives/PrivateKey.js'
+import PublicKey from '../../primitives/PublicKey.js'
+import BigNumber from '../../primitives/BigNumber.js'
+import { toHex } from '../../primitives/utils.js'
+import {
+  applyLockTime,
+  inputPreimage,
+  lockTimeCondition,
+  lockTimePreimage,
+  preimagePushLength,
+  pushChunk,
+  signatureScope,
+  signPreimage,
+  spentLockingScript
+} from './lockTime.js'
+
+/**
+ * TimeLock class implementing ScriptTemplate.
+ *
+ * This class provides methods to create locking scripts that only a public key can unlock, and only once an absolute
+ * lock time has passed, as OP_CHECKLOCKTIMEVERIFY did before the Genesis upgrade. The lock time is a block height,
+ * or a UNIX timestamp from 500,000,000 on.
+ *
+ * The unlocking script pushes the signature preimage of the input, from which the locking script reads the transaction
+ * lock time, so unlocking sets the transaction lock time and a non-final input sequence for nodes to enforce.
+ * BSV has had no relative lock times since the Genesis upgrade, so only absolute lock times are supported.
+ */
+export default class TimeLock implements ScriptTemplate {
+  /**
+   * Decodes a time lock locking script into its public key and lock time.
+   *
+   * @param {Script} script - The locking script to decode.
+   * @returns {{ publicKey: PublicKey, lockTime: number }} The public key that can unlock the script, and its lock time.
+   * @throws {Error} If the script is not a time lock locking script.
+   */
+  static decode (script: Script): { publicKey: PublicKey, lockTime: number } {
+    const chunks = script.chunks
+    const key = chunks[chunks.length - 2]?.data
+    const lockTime = chunks[chunks.length - 5]
+    try {
+      const decoded = {
+        publicKey: PublicKey.fromString(toHex(key ?? [])),
+        lockTime: lockTime.op >= OP.OP_1 && lockTime.op <= OP.OP_16
+          ? lockTime.op - OP.OP_1 + 1
+          : BigNumber.fromScriptNum(lockTime.data ?? []).toNumber()
+      }
+      if (new TimeLock().lock(decoded.publicKey, decoded.lockTime).toHex() === script.toHex()) {
+        return decoded
+      }
+    } catch {
+      // Not a time lock
+    }
+    throw new Error('The script is not a time lock locking script.')
+  }
+
+  /**
+   * Creates a time lock locking script.
+   *
+   * @param {PublicKey | string} publicKey - The public key that can unlock the output, or its hex encoding.
+   * @param {number} lockTime - The block height, or UNIX timestamp, before which the output cannot be spent.
+   * @returns {LockingScript} - A time lock locking script.
+   */
+  lock (publicKey: PublicKey | string, lockTime: number): LockingScript {
+    const key = (typeof publicKey === 'string' ? PublicKey.fromString(publicKey) : publicKey).encode(true) as number[]
+    return new LockingScript([
+      ...lockTimeCondition(lockTime),
+      { op: key.length, data: key },
+      { op: OP.OP_CHECKSIG }
+    ])
+  }
+
+  /**
+   * Creates a function that generates a time lock unlocking script along with its signature and length estimation.
+   *
+   * The returned object contains:
+   * 1. `prepare` - A function that sets the transaction lock time and the input sequence, called by `Transaction.sign`
+   *    before any input is signed.
+   * 2. `sign` - A function that, when invoked with a transaction and an input index,
+   *    produces an unlocking script suitable for a time locked output.
+   * 3. `estimateLength` - A function that returns the estimated length of the unlocking script in bytes.
+   *
+   * @param {PrivateKey} privateKey - The private key used for signing the transaction.
+   * @param {'all'|'none'|'single'} signOutputs - The signature scope for outputs.
+   * @param {boolean} anyoneCanPay - Flag indicating if the signature allows for other inputs to be added later.
+   * @param {number} sourceSatoshis - Optional. The amount being unlocked. Otherwise the input.sourceTransaction is required.
+   * @param {Script} lockingScript - Optional. The locking script. Otherwise the input.sourceTransaction is required.
+   * @returns {Object} - An object containing the `prepare`, `sign` and `estimateLength` functions.
+   */
+  unlock (
+    privateKey: PrivateKey,
+    signOutputs: 'all' | 'none' | 'single' = 'all',
+    anyoneCanPay: boolean = false,
+    sourceSatoshis?: number,
+    lockingScript?: Script
+  ): {
+      prepare: (tx: Transaction, inputIndex: number) => void
+      sign: (tx: Transaction, inputIndex: number) => Promise<UnlockingScript>
+      estimateLength: (tx: Transaction, inputIndex: number) => Promise<number>
+    } {
+    const prepare = (tx: Transaction, inputIndex: number): void => {
+      const { lockTime } = TimeLock.decode(spentLockingScript(tx, inputIndex, lockingScript))
+      applyLockTime(tx, inputIndex, lockTime)
+    }
+    return {
+      prepare,
+      sign: async (tx: Transaction, inputIndex: number) => {
+        prepare(tx, inputIndex)
+        const scope = signatureScope(signOutputs, anyoneCanPay)
+        const signature = signPreimage(
+          privateKey,
+          inputPreimage(tx, inputIndex, scope, sourceSatoshis, lockingScript),
+          scope
+        )
+        return new UnlockingScript([
+          { op: signature.length, data: signature },
+          pushChunk(lockTimePreimage(tx, inputIndex, sourceSatoshis, lockingScript))
+        ])
+      },
+      estimateLength: async (tx: Transaction, inputIndex: number) => {
+        // signature (1+73) + preimage
+        return 74 + preimagePushLength(spentLockingScript(tx, inputIndex, lockingScript))
+      }
+    }
+  }
+}
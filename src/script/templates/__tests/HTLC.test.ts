@@ -0,0 +1,108 @@
+/* eslint-env jest */
+import HTLC from '../../../script/templates/HTLC'
+import P2PKH from '../../../script/templates/P2PKH'
+import { PrivateKey, Hash } from '../../../primitives/index'
+import { LockingScript, UnlockingScript, Spend } from '../../../script/index'
+import { Transaction } from '../../../transaction/index'
+
+describe('HTLC', () => {
+  const alice = PrivateKey.fromRandom()
+  const bob = PrivateKey.fromRandom()
+  const secret = [3, 1, 4, 1, 5, 9, 2, 6, 5, 3, 5, 8, 9, 7, 9, 3]
+  const satoshis = 1000
+
+  const makeSpendingTransaction = (lockingScript: LockingScript): Transaction => {
+    const sourceTx = new Transaction(1, [], [{ lockingScript, satoshis }], 0)
+    return new Transaction(1, [{
+      sourceTransaction: sourceTx,
+      sourceOutputIndex: 0,
+      sequence: 0xffffffff
+    }], [{
+      lockingScript: LockingScript.fromASM('OP_TRUE'),
+      satoshis: satoshis - 10
+    }], 0)
+  }
+
+  const spendOf = (tx: Transaction): Spend => {
+    const input = tx.inputs[0]
+    const source = input.sourceTransaction as Transaction
+    return new Spend({
+      sourceTXID: source.id('hex'),
+      sourceOutputIndex: 0,
+      sourceSatoshis: satoshis,
+      lockingScript: source.outputs[0].lockingScript,
+      transactionVersion: tx.version,
+      otherInputs: [],
+      outputs: tx.outputs,
+      inputIndex: 0,
+      unlockingScript: input.unlockingScript as UnlockingScript,
+      inputSequence: input.sequence as number,
+      lockTime: tx.lockTime
+    })
+  }
+
+  it('Creates and decodes locking scripts', () => {
+    const lockingScript = new HTLC('HASH160').lock(Hash.hash160(secret), bob.toPublicKey(), alice.toPublicKey(), 1700000000)
+    const decoded = HTLC.decode(lockingScript)
+    expect(decoded.type).toBe('HASH160')
+    expect(decoded.hash).toEqual(Hash.hash160(secret))
+    expect(decoded.recipientPublicKey.toString()).toEqual(bob.toPublicKey().toString())
+    expect(decoded.refundPublicKey.toString()).toEqual(alice.toPublicKey().toString())
+    expect(decoded.lockTime).toBe(1700000000)
+    expect(() => HTLC.decode(new P2PKH().lock(bob.toAddress()))).toThrow('not an HTLC')
+  })
+
+  it('Lets the recipient claim with the secret', async () => {
+    const htlc = new HTLC()
+    const lockingScript = htlc.lock(Hash.sha256(secret), bob.toPublicKey(), alice.toPublicKey(), 850000)
+    const tx = makeSpendingTransaction(lockingScript)
+    const template = htlc.claim(bob, secret)
+    tx.inputs[0].unlockingScriptTemplate = template
+    await tx.sign()
+    expect(tx.lockTime).toBe(0)
+    expect(spendOf(tx).validate()).toBe(true)
+    expect(tx.inputs[0].unlockingScript?.toBinary().length).toBeLessThanOrEqual(await template.estimateLength(tx, 0))
+  })
+
+  it('Rejects a claim with the wrong secret or key', async () => {
+    const htlc = new HTLC()
+    const lockingScript = htlc.lock(Hash.sha256(secret), bob.toPublicKey(), alice.toPublicKey(), 850000)
+    const tx = makeSpendingTransaction(lockingScript)
+    tx.inputs[0].unlockingScriptTemplate = htlc.claim(bob, [1, 2, 3])
+    await tx.sign()
+    expect(() => spendOf(tx).validate()).toThrow()
+    tx.inputs[0].unlockingScriptTemplate = htlc.claim(alice, secret)
+    await tx.sign()
+    expect(() => spendOf(tx).validate()).toThrow()
+  })
+
+  it('Lets the refund key reclaim after the lock time', async () => {
+    const htlc = new HTLC()
+    const lockingScript = htlc.lock(Hash.sha256(secret), bob.toPublicKey(), alice.toPublicKey(), 850000)
+    const tx = makeSpendingTransaction(lockingScript)
+    const template = htlc.unlock(alice)
+    tx.inputs[0].unlockingScriptTemplate = template
+    await tx.sign()
+    expect(tx.lockTime).toBe(850000)
+    expect(tx.inputs[0].sequence).toBe(0xfffffffe)
+    expect(spendOf(tx).validate()).toBe(true)
+    const length = tx.inputs[0].unlockingScript?.toBinary().length as number
+    const estimate = await template.estimateLength(tx, 0)
+    expect(length).toBeLessThanOrEqual(estimate)
+    expect(estimate - length).toBeLessThanOrEqual(2)
+  })
+
+  it('Rejects a refund by the recipient or before the lock time', async () => {
+    const htlc = new HTLC()
+    const lockingScript = htlc.lock(Hash.sha256(secret), bob.toPublicKey(), alice.toPublicKey(), 850000)
+    const tx = makeSpendingTransaction(lockingScript)
+    tx.inputs[0].unlockingScriptTemplate = htlc.refund(bob)
+    await tx.sign()
+    expect(() => spendOf(tx).validate()).toThrow()
+
+    tx.inputs[0].unlockingScriptTemplate = htlc.refund(alice)
+    await tx.sign()
+    tx.lockTime = 849999
+    expect(() => spendOf(tx).validate()).toThrow()
+  })
+})
@@ -0,0 +1,128 @@
+/* eslint-env jest */
+import Multisig from '../../../script/templates/Multisig'
+import { PrivateKey } from '../../../primitives/index'
+import { LockingScript, UnlockingScript, Spend } from '../../../script/index'
+import { Transaction } from '../../../transaction/index'
+
+describe('Multisig', () => {
+  const alice = PrivateKey.fromRandom()
+  const bob = PrivateKey.fromRandom()
+  const carol = PrivateKey.fromRandom()
+  const publicKeys = [alice, bob, carol].map((key) => key.toPublicKey())
+  const satoshis = 1000
+
+  const makeSpendingTransaction = (lockingScript: LockingScript): Transaction => {
+    const sourceTx = new Transaction(1, [], [{ lockingScript, satoshis }], 0)
+    return new Transaction(1, [{
+      sourceTransaction: sourceTx,
+      sourceOutputIndex: 0,
+      sequence: 0xffffffff
+    }], [{
+      lockingScript: LockingScript.fromASM('OP_TRUE'),
+      satoshis: satoshis - 10
+    }], 0)
+  }
+
+  const validate = (tx: Transaction, lockingScript: LockingScript): boolean => {
+    const input = tx.inputs[0]
+    return new Spend({
+      sourceTXID: input.sourceTXID ?? input.sourceTransaction?.id('hex') ?? '',
+      sourceOutputIndex: 0,
+      sourceSatoshis: satoshis,
+      lockingScript,
+      transactionVersion: tx.version,
+      otherInputs: [],
+      outputs: tx.outputs,
+      inputIndex: 0,
+      unlockingScript: input.unlockingScript ?? new UnlockingScript(),
+      inputSequence: 0xffffffff,
+      lockTime: tx.lockTime
+    }).validate()
+  }
+
+  it('Creates and decodes m-of-n locking scripts', () => {
+    const lockingScript = new Multisig().lock(2, publicKeys)
+    expect(lockingScript.toASM()).toEqual(`OP_2 ${publicKeys.map((key) => key.toString()).join(' ')} OP_3 OP_CHECKMULTISIG`)
+    const decoded = Multisig.decode(lockingScript)
+    expect(decoded.threshold).toBe(2)
+    expect(decoded.publicKeys.map((key) => key.toString())).toEqual(publicKeys.map((key) => key.toString()))
+    expect(Multisig.decode(new Multisig().lock(1, publicKeys.map((key) => key.toString()))).threshold).toBe(1)
+  })
+
+  it('Encodes more than 16 public keys as a number', () => {
+    const keys = Array.from({ length: 20 }, () => PrivateKey.fromRandom().toPublicKey())
+    const lockingScript = new Multisig().lock(17, keys)
+    expect(lockingScript.chunks[0].data).toEqual([17])
+    expect(lockingScript.chunks[21].data).toEqual([20])
+    expect(Multisig.decode(lockingScript).threshold).toBe(17)
+  })
+
+  it('Rejects invalid thresholds and other scripts', () => {
+    expect(() => new Multisig().lock(0, publicKeys)).toThrow('between 1 and 3')
+    expect(() => new Multisig().lock(4, publicKeys)).toThrow('between 1 and 3')
+    expect(() => new Multisig().lock(1, [])).toThrow('At least one public key')
+    expect(() => Multisig.decode(LockingScript.fromASM('OP_1 OP_1 OP_CHECKMULTISIG'))).toThrow('not a multisig')
+    expect(() => Multisig.decode(LockingScript.fromASM('OP_DUP OP_HASH160'))).toThrow('not a multisig')
+  })
+
+  it('Signs with all the required keys at once', async () => {
+    const lockingScript = new Multisig().lock(2, publicKeys)
+    const tx = makeSpendingTransaction(lockingScript)
+    tx.inputs[0].unlockingScriptTemplate = new Multisig().unlock([alice, carol])
+    await tx.sign()
+    expect(tx.inputs[0].unlockingScript?.chunks).toHaveLength(3)
+    expect(validate(tx, lockingScript)).toBe(true)
+  })
+
+  it('Lets cosigners add signatures in turn, in key order', async () => {
+    const lockingScript = new Multisig().lock(2, publicKeys)
+    const tx = makeSpendingTransaction(lockingScript)
+    tx.inputs[0].unlockingScriptTemplate = new Multisig().unlock(carol)
+    await tx.sign()
+    expect(tx.inputs[0].unlockingScript?.chunks).toHaveLength(2)
+    expect(() => validate(tx, lockingScript)).toThrow()
+
+    // The partially signed transaction travels to the next cosigner without its source transaction.
+    const received = Transaction.fromHex(tx.toHex())
+    received.inputs[0].unlockingScriptTemplate = new Multisig().unlock(alice, 'all', false, satoshis, lockingScript)
+    await received.sign()
+    const chunks = received.inputs[0].unlockingScript?.chunks ?? []
+    expect(chunks).toHaveLength(3)
+    // Alice's signature comes first, since her key does.
+    expect(chunks[2].data).toEqual(tx.inputs[0].unlockingScript?.chunks[1].data)
+    expect(validate(received, lockingScript)).toBe(true)
+  })
+
+  it('Keeps no more signatures than the threshold', async () => {
+    const lockingScript = new Multisig().lock(2, publicKeys)
+    const tx = makeSpendingTransaction(lockingScript)
+    tx.inputs[0].unlockingScriptTemplate = new Multisig().unlock([alice, bob, carol])
+    await tx.sign()
+    expect(tx.inputs[0].unlockingScript?.chunks).toHaveLength(3)
+    expect(validate(tx, lockingScript)).toBe(true)
+  })
+
+  it('Rejects keys and signatures that do not belong to the multisig', async () => {
+    const lockingScript = new Multisig().lock(2, publicKeys)
+    const tx = makeSpendingTransaction(lockingScript)
+    tx.inputs[0].unlockingScriptTemplate = new Multisig().unlock(PrivateKey.fromRandom())
+    await expect(tx.sign()).rejects.toThrow('does not belong')
+
+    tx.inputs[0].unlockingScriptTemplate = new Multisig().unlock(alice)
+    await tx.sign()
+    // Changing the outputs invalidates Alice's signature.
+    tx.outputs[0].satoshis = satoshis - 20
+    tx.inputs[0].unlockingScriptTemplate = new Multisig().unlock(bob)
+    await expect(tx.sign()).rejects.toThrow('does not match')
+  })
+
+  it('Estimates the length of the completed unlocking script', async () => {
+    const lockingScript = new Multisig().lock(2, publicKeys)
+    const tx = makeSpendingTransaction(lockingScript)
+    const template = new Multisig().unlock([alice, bob])
+    const estimate = await template.estimateLength(tx, 0)
+    expect(estimate).toBe(1 + 2 * 74)
+    const unlockingScript = await template.sign(tx, 0)
+    expect(unlockingScript.toBinary().length).toBeLessThanOrEqual(estimate)
+  })
+})
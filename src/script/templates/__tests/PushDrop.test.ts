@@ -1,9 +1,9 @@
 /* eslint-env jest */
 import PushDrop from '../../../script/templates/PushDrop'
 import { CompletedProtoWallet } from '../../../auth/certificates/__tests/CompletedProtoWallet'
-import { PrivateKey, Utils } from '../../../primitives/index'
-import { Script, Spend } from '../../../script/index'
-import { Transaction } from '../../../transaction/index'
+import { PrivateKey, Hash, Utils } from '../../../primitives/index'
+import { Script, LockingScript, Spend } from '../../../script/index'
+import { Transaction, Beef } from '../../../transaction/index'
 
 describe('PushDrop', () => {
   let wallet
@@ -90,6 +90,7 @@ describe('PushDrop', () => {
     await createDecodeRedeem()
     await createDecodeRedeem([[0]])
     await createDecodeRedeem([[1]])
+    await createDecodeRedeem([[16]])
     await createDecodeRedeem([[0x81]])
     await createDecodeRedeem([[3, 1, 4, 1, 5, 9]])
     await createDecodeRedeem([new Array(200).fill(0xff)])
@@ -260,4 +261,129 @@ describe('PushDrop', () => {
       expect(decoded.lockingPublicKey.toString()).toEqual(expectedPublicKey)
     })
   })
+
+  describe('lock types', () => {
+    const protocolID: [0 | 1 | 2, string] = [0, 'tests']
+    const fields = [Utils.toArray('hello world', 'utf8'), [0xde, 0xad, 0xbe, 0xef]]
+
+    it('Locks with P2PK or P2PKH, before or after the fields, and decodes and unlocks each', async () => {
+      const { publicKey } = await wallet.getPublicKey({ protocolID, keyID: 'test-key', counterparty: 'self' })
+      for (const lockType of ['P2PK', 'P2PKH'] as const) {
+        for (const lockPosition of ['before', 'after'] as const) {
+          const lockingScript = await pushDrop.lock(
+            [...fields], protocolID, 'test-key', 'self', false, true, lockPosition, lockType
+          )
+          const decoded = PushDrop.decodeToken(lockingScript)
+          expect(decoded.fields.slice(0, 2)).toEqual(fields)
+          expect(decoded.fields).toHaveLength(3)
+          expect(decoded.lockType).toBe(lockType)
+          expect(decoded.lockPosition).toBe(lockPosition)
+          expect(decoded.lockingPublicKeyHash).toEqual(Hash.hash160(publicKey, 'hex'))
+          expect(decoded.lockingPublicKey?.toString()).toBe(lockType === 'P2PK' ? publicKey : undefined)
+          expect(lockingScript.identify()?.template).toBe('PushDrop')
+          if (lockType === 'P2PK') {
+            expect(PushDrop.decode(lockingScript).fields).toEqual(decoded.fields)
+          }
+
+          const sourceTx = new Transaction(1, [], [{ lockingScript, satoshis: 1 }], 0)
+          const spendTx = new Transaction(1, [{ sourceTransaction: sourceTx, sourceOutputIndex: 0, sequence: 0xffffffff }], [], 0)
+          const template = pushDrop.unlock(protocolID, 'test-key', 'self')
+          const unlockingScript = await template.sign(spendTx, 0)
+          expect(unlockingScript.toBinary().length).toBeLessThanOrEqual(await template.estimateLength(spendTx, 0))
+          expect(await pushDrop.unlock(protocolID, 'test-key', 'self').estimateLength(spendTx, 0)).toBe(lockType === 'P2PK' ? 73 : 107)
+          const spend = new Spend({
+            sourceTXID: sourceTx.id('hex'),
+            sourceOutputIndex: 0,
+            sourceSatoshis: 1,
+            lockingScript,
+            transactionVersion: 1,
+            otherInputs: [],
+            inputIndex: 0,
+            unlockingScript,
+            outputs: [],
+            inputSequence: 0xffffffff,
+            lockTime: 0
+          })
+          expect(spend.validate()).toBe(true)
+        }
+      }
+    })
+
+    it('Rejects scripts that are not PushDrop tokens', () => {
+      const key = PrivateKey.fromRandom().toPublicKey().toString()
+      for (const asm of [
+        `${key} OP_CHECKSIG`,
+        `${key} OP_CHECKSIG 01 02 OP_DROP`,
+        `${key} OP_CHECKSIG 01 02 OP_2DROP OP_DROP`,
+        `01 OP_DROP ${key} OP_CHECKSIG OP_1`,
+        'OP_DUP OP_HASH160 01 OP_EQUALVERIFY OP_CHECKSIG 01 OP_DROP'
+      ]) {
+        expect(() => PushDrop.decodeToken(LockingScript.fromASM(asm))).toThrow('not a PushDrop token')
+      }
+      // decode reads them as if they had a P2PK lock at the beginning, as it always has.
+      expect(PushDrop.decode(LockingScript.fromASM(`${key} OP_CHECKSIG 01 02 OP_DROP`)).fields).toEqual([[1], [2]])
+    })
+  })
+
+  describe('schemas', () => {
+    const schema = [
+      { name: 'name', type: 'string' },
+      { name: 'amount', type: 'varint' },
+      { name: 'metadata', type: 'json' },
+      { name: 'owner', type: 'publicKey' },
+      { name: 'source', type: 'beef' },
+      { name: 'raw', type: 'bytes' }
+    ] as const
+    const owner = PrivateKey.fromRandom().toPublicKey()
+    const source = new Beef()
+    source.mergeRawTx(new Transaction(1, [], [{ lockingScript: LockingScript.fromASM('OP_TRUE'), satoshis: 1 }], 0).toBinary())
+
+    it('Encodes and decodes typed fields', async () => {
+      const fields = PushDrop.encodeFields(schema, {
+        name: 'token',
+        amount: 100000,
+        metadata: { tags: ['a', 'b'] },
+        owner,
+        source,
+        raw: [1, 2, 3]
+      })
+      expect(fields[0]).toEqual(Utils.toArray('token', 'utf8'))
+      expect(fields[1]).toEqual([0xfe, 0xa0, 0x86, 0x01, 0x00])
+      const lockingScript = await pushDrop.lock(fields, [0, 'tests'], 'test-key', 'self')
+      const { values } = PushDrop.decode(lockingScript, schema)
+      expect(values.name).toBe('token')
+      expect(values.amount).toBe(100000)
+      expect(values.metadata).toEqual({ tags: ['a', 'b'] })
+      expect(values.owner.toString()).toBe(owner.toString())
+      expect(values.source.toHex()).toBe(source.toHex())
+      expect(values.raw).toEqual([1, 2, 3])
+    })
+
+    it('Round-trips empty fields with exact fields', async () => {
+      const emptySchema = [
+        { name: 'memo', type: 'string' },
+        { name: 'raw', type: 'bytes' },
+        { name: 'zero', type: 'bytes' }
+      ] as const
+      const fields = PushDrop.encodeFields(emptySchema, { memo: '', raw: [], zero: [0] })
+      const lockingScript = await pushDrop.lock([...fields], [0, 'tests'], 'test-key', 'self', false, true, 'before', 'P2PK', true)
+      // Empty fields are pushed with OP_0, which pushes an empty value, and a zero byte is pushed as it is.
+      expect(lockingScript.chunks.slice(2, 5)).toEqual([{ op: 0 }, { op: 0 }, { op: 1, data: [0] }])
+      expect(PushDrop.decodeToken(lockingScript, emptySchema, true).values).toEqual({ memo: '', raw: [], zero: [0] })
+
+      // Otherwise, empty fields and zero bytes are both pushed with OP_0 and decoded as [0], as they always have been.
+      const legacyScript = await pushDrop.lock([...fields], [0, 'tests'], 'test-key', 'self')
+      expect(legacyScript.chunks.slice(2, 5)).toEqual([{ op: 0 }, { op: 0 }, { op: 0 }])
+      expect(PushDrop.decode(legacyScript).fields.slice(0, 3)).toEqual([[0], [0], [0]])
+      expect(PushDrop.decodeToken(legacyScript).fields.slice(0, 3)).toEqual([[0], [0], [0]])
+    })
+
+    it('Rejects fields that do not match the schema', () => {
+      const fields = PushDrop.encodeFields([schema[0], schema[1]] as const, { name: 'token', amount: 1 })
+      expect(() => PushDrop.decodeFields(schema, fields)).toThrow('The token has 2 fields, but its schema has 6.')
+      expect(() => PushDrop.decodeFields([{ name: 'amount', type: 'varint' }], [[1, 2]])).toThrow('The field amount is not a varint.')
+      // A signature after the fields of the schema is ignored.
+      expect(PushDrop.decodeFields([{ name: 'amount', type: 'varint' }], [[1], [2]])).toEqual({ amount: 1 })
+    })
+  })
 })
@@ -0,0 +1,107 @@
+/* eslint-env jest */
+import RPuzzle from '../../../script/templates/RPuzzle'
+import { PrivateKey, BigNumber, Signature, Hash, Utils } from '../../../primitives/index'
+import { LockingScript, UnlockingScript, Spend } from '../../../script/index'
+import { Transaction } from '../../../transaction/index'
+import { CompletedProtoWallet } from '../../../auth/certificates/__tests/CompletedProtoWallet'
+
+describe('RPuzzle', () => {
+  const satoshis = 1000
+
+  // Private keys sign the SHA-256 hash of a message.
+  const signedHash = (message: string, key: PrivateKey, k: BigNumber): { signature: Signature, msgHash: BigNumber } => ({
+    signature: key.sign(message, 'utf8', true, k),
+    msgHash: new BigNumber(Hash.sha256(message, 'utf8'))
+  })
+
+  it('Locks to the R value of a K-value, or its hash, and unlocks with it', async () => {
+    for (const type of ['raw', 'SHA1', 'SHA256', 'HASH256', 'RIPEMD160', 'HASH160'] as const) {
+      const k = RPuzzle.generateK()
+      const value = RPuzzle.computeValue(k, type)
+      const lockingScript = new RPuzzle(type).lock(value)
+      expect(lockingScript.identify()?.params).toEqual({ type, value: Utils.toHex(value) })
+
+      const sourceTx = new Transaction(1, [], [{ lockingScript, satoshis }], 0)
+      const tx = new Transaction(1, [{
+        sourceTransaction: sourceTx,
+        sourceOutputIndex: 0,
+        unlockingScriptTemplate: new RPuzzle(type).unlock(k, PrivateKey.fromRandom()),
+        sequence: 0xffffffff
+      }], [{ lockingScript: LockingScript.fromASM('OP_TRUE'), satoshis: satoshis - 10 }], 0)
+      await tx.sign()
+      const spend = new Spend({
+        sourceTXID: sourceTx.id('hex'),
+        sourceOutputIndex: 0,
+        sourceSatoshis: satoshis,
+        lockingScript,
+        transactionVersion: 1,
+        otherInputs: [],
+        outputs: tx.outputs,
+        inputIndex: 0,
+        unlockingScript: tx.inputs[0].unlockingScript ?? new UnlockingScript(),
+        inputSequence: 0xffffffff,
+        lockTime: 0
+      })
+      expect(spend.validate()).toBe(true)
+    }
+  })
+
+  it('Computes R values as they appear in signatures', () => {
+    for (let i = 0; i < 8; i++) {
+      const k = RPuzzle.generateK()
+      const r = RPuzzle.computeR(k)
+      const { signature } = signedHash('hello', PrivateKey.fromRandom(), k)
+      expect(r).toEqual(signature.toDER().slice(4, 4 + r.length))
+      expect(r[0] > 127).toBe(false)
+    }
+  })
+
+  it('Stores K-values encrypted by a wallet', async () => {
+    const wallet = new CompletedProtoWallet(PrivateKey.fromRandom())
+    const k = RPuzzle.generateK()
+    const ciphertext = await RPuzzle.encryptK(wallet, k, 'puzzle 1')
+    expect(ciphertext).not.toEqual(k.toArray('be', 32))
+    expect((await RPuzzle.decryptK(wallet, ciphertext, 'puzzle 1')).eq(k)).toBe(true)
+    await expect(RPuzzle.decryptK(wallet, ciphertext, 'puzzle 2')).rejects.toThrow()
+  })
+
+  it('Finds signatures that reuse a K-value', () => {
+    const key = PrivateKey.fromRandom()
+    const k = RPuzzle.generateK()
+    const signatures = [
+      signedHash('first', key, k).signature,
+      signedHash('second', key, RPuzzle.generateK()).signature,
+      signedHash('third', PrivateKey.fromRandom(), k).signature
+    ]
+    const reused = RPuzzle.findReusedK(signatures)
+    expect(reused).toHaveLength(1)
+    expect(reused[0].indexes).toEqual([0, 2])
+    expect(reused[0].r.toArray()).toEqual(RPuzzle.computeR(k).filter((byte, i) => i > 0 || byte !== 0))
+    expect(RPuzzle.findReusedK(signatures.slice(0, 2))).toEqual([])
+  })
+
+  it('Recovers the K-value and private key from two signatures sharing an R value', () => {
+    for (let i = 0; i < 4; i++) {
+      const key = PrivateKey.fromRandom()
+      const k = RPuzzle.generateK()
+      const first = signedHash('first', key, k)
+      const second = signedHash('second', key, k)
+      const recoveredK = RPuzzle.recoverK(first, second)
+      expect(RPuzzle.computeR(recoveredK)).toEqual(RPuzzle.computeR(k))
+      expect(RPuzzle.recoverPrivateKey(first, second).eq(key)).toBe(true)
+      expect(RPuzzle.privateKeyFromK(first, k, key.toPublicKey()).eq(key)).toBe(true)
+    }
+  })
+
+  it('Rejects signatures that cannot be used for recovery', () => {
+    const key = PrivateKey.fromRandom()
+    const k = RPuzzle.generateK()
+    const first = signedHash('first', key, k)
+    expect(() => RPuzzle.recoverK(first, signedHash('second', key, RPuzzle.generateK())))
+      .toThrow('do not share an R value')
+    expect(() => RPuzzle.recoverPrivateKey(first, signedHash('second', PrivateKey.fromRandom(), k)))
+      .toThrow('could not be recovered')
+    expect(() => RPuzzle.privateKeyFromK(first, k, PrivateKey.fromRandom().toPublicKey()))
+      .toThrow('not made with the K-value')
+  })
+})
@@ -0,0 +1,138 @@
+/* eslint-env jest */
+import TimeLock from '../../../script/templates/TimeLock'
+import P2PKH from '../../../script/templates/P2PKH'
+import { PrivateKey } from '../../../primitives/index'
+import { LockingScript, UnlockingScript, Spend } from '../../../script/index'
+import {
+  inputPreimage,
+  lockTimePreimage,
+  pushChunk,
+  signatureScope,
+  signPreimage
+} from '../../../script/templates/lockTime'
+import { Transaction } from '../../../transaction/index'
+
+describe('TimeLock', () => {
+  const owner = PrivateKey.fromRandom()
+  const satoshis = 1000
+
+  const makeSpendingTransaction = (lockingScript: LockingScript): Transaction => {
+    const sourceTx = new Transaction(1, [], [{ lockingScript, satoshis }], 0)
+    return new Transaction(1, [{
+      sourceTransaction: sourceTx,
+      sourceOutputIndex: 0,
+      sequence: 0xffffffff
+    }], [{
+      lockingScript: LockingScript.fromASM('OP_TRUE'),
+      satoshis: satoshis - 10
+    }], 0)
+  }
+
+  const spendOf = (tx: Transaction, inputIndex = 0): Spend => {
+    const input = tx.inputs[inputIndex]
+    const source = input.sourceTransaction as Transaction
+    return new Spend({
+      sourceTXID: source.id('hex'),
+      sourceOutputIndex: input.sourceOutputIndex,
+      sourceSatoshis: source.outputs[input.sourceOutputIndex].satoshis as number,
+      lockingScript: source.outputs[input.sourceOutputIndex].lockingScript,
+      transactionVersion: tx.version,
+      otherInputs: tx.inputs.filter((_, i) => i !== inputIndex),
+      outputs: tx.outputs,
+      inputIndex,
+      unlockingScript: input.unlockingScript as UnlockingScript,
+      inputSequence: input.sequence as number,
+      lockTime: tx.lockTime
+    })
+  }
+
+  it('Creates and decodes locking scripts', () => {
+    const lockingScript = new TimeLock().lock(owner.toPublicKey(), 850000)
+    const decoded = TimeLock.decode(lockingScript)
+    expect(decoded.publicKey.toString()).toEqual(owner.toPublicKey().toString())
+    expect(decoded.lockTime).toBe(850000)
+    expect(TimeLock.decode(new TimeLock().lock(owner.toPublicKey().toString(), 5)).lockTime).toBe(5)
+    expect(() => TimeLock.decode(new P2PKH().lock(owner.toAddress()))).toThrow('not a time lock')
+    expect(() => new TimeLock().lock(owner.toPublicKey(), 0)).toThrow('lock time')
+  })
+
+  it('Unlocks once the lock time is set, with a block height', async () => {
+    const lockingScript = new TimeLock().lock(owner.toPublicKey(), 850000)
+    const tx = makeSpendingTransaction(lockingScript)
+    tx.inputs[0].unlockingScriptTemplate = new TimeLock().unlock(owner)
+    await tx.sign()
+    expect(tx.lockTime).toBe(850000)
+    expect(tx.inputs[0].sequence).toBe(0xfffffffe)
+    expect(spendOf(tx).validate()).toBe(true)
+  })
+
+  it('Unlocks with a timestamp and a later lock time', async () => {
+    const lockingScript = new TimeLock().lock(owner.toPublicKey(), 1700000000)
+    const tx = makeSpendingTransaction(lockingScript)
+    tx.lockTime = 1700000500
+    tx.inputs[0].sequence = 7
+    tx.inputs[0].unlockingScriptTemplate = new TimeLock().unlock(owner)
+    await tx.sign()
+    expect(tx.lockTime).toBe(1700000500)
+    expect(tx.inputs[0].sequence).toBe(7)
+    expect(spendOf(tx).validate()).toBe(true)
+  })
+
+  it('Rejects an earlier lock time, a final sequence or a timestamp for a block height', () => {
+    const lockingScript = new TimeLock().lock(owner.toPublicKey(), 850000)
+    // Unlocks without preparing the transaction first.
+    const validateAs = (lockTime: number, sequence: number): boolean => {
+      const tx = makeSpendingTransaction(lockingScript)
+      tx.lockTime = lockTime
+      tx.inputs[0].sequence = sequence
+      const scope = signatureScope('all', false)
+      const signature = signPreimage(owner, inputPreimage(tx, 0, scope), scope)
+      tx.inputs[0].unlockingScript = new UnlockingScript([
+        { op: signature.length, data: signature },
+        pushChunk(lockTimePreimage(tx, 0))
+      ])
+      return spendOf(tx).validate()
+    }
+    expect(validateAs(850000, 0xfffffffe)).toBe(true)
+    expect(() => validateAs(849999, 0xfffffffe)).toThrow()
+    expect(() => validateAs(850000, 0xffffffff)).toThrow()
+    expect(() => validateAs(1700000000, 0xfffffffe)).toThrow()
+  })
+
+  it('Cannot be unlocked by a preimage of another transaction', async () => {
+    const lockingScript = new TimeLock().lock(owner.toPublicKey(), 850000)
+    const tx = makeSpendingTransaction(lockingScript)
+    tx.inputs[0].unlockingScriptTemplate = new TimeLock().unlock(owner)
+    await tx.sign()
+    // A transaction with an early lock time cannot reuse the preimage of one with a late lock time.
+    tx.lockTime = 0
+    expect(() => spendOf(tx).validate()).toThrow()
+  })
+
+  it('Sets the lock time before other inputs are signed', async () => {
+    const lockingScript = new TimeLock().lock(owner.toPublicKey(), 850000)
+    const tx = makeSpendingTransaction(lockingScript)
+    const other = PrivateKey.fromRandom()
+    const otherSource = new Transaction(1, [], [{ lockingScript: new P2PKH().lock(other.toAddress()), satoshis }], 0)
+    tx.inputs.unshift({
+      sourceTransaction: otherSource,
+      sourceOutputIndex: 0,
+      sequence: 0xffffffff,
+      unlockingScriptTemplate: new P2PKH().unlock(other)
+    })
+    tx.inputs[1].unlockingScriptTemplate = new TimeLock().unlock(owner)
+    await tx.sign()
+    expect(spendOf(tx, 0).validate()).toBe(true)
+    expect(spendOf(tx, 1).validate()).toBe(true)
+  })
+
+  it('Estimates the length of the unlocking script', async () => {
+    const lockingScript = new TimeLock().lock(owner.toPublicKey(), 850000)
+    const tx = makeSpendingTransaction(lockingScript)
+    const template = new TimeLock().unlock(owner)
+    const estimate = await template.estimateLength(tx, 0)
+    const unlockingScript = await template.sign(tx, 0)
+    expect(unlockingScript.toBinary().length).toBeLessThanOrEqual(estimate)
+    expect(estimate - unlockingScript.toBinary().length).toBeLessThanOrEqual(2)
+  })
+})
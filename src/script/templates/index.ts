@@ -1,3 +1,17 @@
 export { default as P2PKH } from './P2PKH.js'
 export { default as RPuzzle } from './RPuzzle.js'
+export type { SignedHash } from './RPuzzle.js'
 export { default as PushDrop } from './PushDrop.js'
+export type {
+  PushDropLockType,
+  PushDropFieldType,
+  PushDropFieldValues,
+  PushDropField,
+  PushDropSchema,
+  PushDropValues,
+  DecodedPushDrop
+} from './PushDrop.js'
+export { default as Multisig } from './Multisig.js'
+export { default as TimeLock } from './TimeLock.js'
+export { default as HTLC } from './HTLC.js'
+export type { HTLCParameters } from './HTLC.js'
@@ -0,0 +1,282 @@
+import OP from '../OP.js'
+import ScriptChunk from '../ScriptChunk.js'
+import Script from '../Script.js'
+import Transaction from '../../transaction/Transaction.js'
+import PrivateKey from '../../primitives/PrivateKey.js'
+import TransactionSignature from '../../primitives/TransactionSignature.js'
+import BigNumber from '../../primitives/BigNumber.js'
+import Curve from '../../primitives/Curve.js'
+import { sha256 } from '../../primitives/Hash.js'
+
+/** Lock times below this are block heights, and from it on UNIX timestamps in seconds. */
+export const LOCKTIME_THRESHOLD = 500000000
+
+// The preimage signature is checked against the generator point, the public key of the private key 1.
+const PREIMAGE_SCOPE = TransactionSignature.SIGHASH_ALL | TransactionSignature.SIGHASH_FORKID
+const curve = new Curve()
+const gx = curve.g.getX()
+const gxBytes = gx.toArray('be', 32)
+
+/**
+ * The minimally-encoded chunk that pushes some data.
+ */
+export function pushChunk (data: number[]): ScriptChunk {
+  if (data.length === 0) return { op: OP.OP_0 }
+  if (data.length === 1 && data[0] >= 1 && data[0] <= 16) return { op: OP.OP_1 + data[0] - 1 }
+  if (data.length === 1 && data[0] === 0x81) return { op: OP.OP_1NEGATE }
+  if (data.length <= 75) return { op: data.length, data }
+  if (data.length <= 255) return { op: OP.OP_PUSHDATA1, data }
+  if (data.length <= 65535) return { op: OP.OP_PUSHDATA2, data }
+  return { op: OP.OP_PUSHDATA4, data }
+}
+
+function numberChunk (n: number | BigNumber): ScriptChunk {
+  return pushChunk((typeof n === 'number' ? new BigNumber(n) : n).toScriptNum())
+}
+
+/** Reverses the byte order of the top stack item, which must be `length` bytes long. */
+function reverseBytes (length: number): ScriptChunk[] {
+  const chunks: ScriptChunk[] = []
+  for (let i = 1; i < length; i++) {
+    chunks.push({ op: OP.OP_1 }, { op: OP.OP_SPLIT })
+  }
+  for (let i = 1; i < length; i++) {
+    chunks.push({ op: OP.OP_SWAP }, { op: OP.OP_CAT })
+  }
+  return chunks
+}
+
+/**
+ * Builds the chunks that prevent an output from being spent before a lock time.
+ *
+ * Since the Genesis upgrade, OP_CHECKLOCKTIMEVERIFY is a no-op on BSV, so the lock time is instead read from the
+ * signature preimage of the spending input, which the unlocking script pushes. The chunks check the preimage is genuine
+ * by making a signature of it with the private key 1 and a nonce of 1, and checking that signature with OP_CHECKSIGVERIFY.
+ * They then require the transaction lock time to be at least `lockTime`, of the same kind, and the input sequence
+ * not to be final, so that nodes do not accept the transaction before the lock time.
+ *
+ * The chunks consume the preimage on top of the stack.
+ *
+ * @param lockTime - The block height, or UNIX timestamp from 500,000,000 on, before which the output cannot be spent.
+ */
+export function lockTimeCondition (lockTime: number): ScriptChunk[] {
+  if (!Number.isInteger(lockTime) || lockTime < 1 || lockTime > 0xffffffff) {
+    throw new Error('The lock time must be a block height or timestamp between 1 and 4294967295.')
+  }
+  const chunks: ScriptChunk[] = [
+    // z, the signature hash as a number
+    { op: OP.OP_DUP },
+    { op: OP.OP_HASH256 },
+    ...reverseBytes(32),
+    pushChunk([0]),
+    { op: OP.OP_CAT },
+    { op: OP.OP_BIN2NUM },
+    // s = z + r mod n, as r is the x coordinate of the generator, with a low S value
+    numberChunk(gx),
+    { op: OP.OP_ADD },
+    numberChunk(curve.n),
+    { op: OP.OP_MOD },
+    { op: OP.OP_DUP },
+    numberChunk(curve.n.ushrn(1)),
+    { op: OP.OP_GREATERTHAN },
+    { op: OP.OP_IF },
+    numberChunk(curve.n),
+    { op: OP.OP_SWAP },
+    { op: OP.OP_SUB },
+    { op: OP.OP_ENDIF },
+    // The DER encoding of s is its minimal script number encoding, reversed.
+    { op: OP.OP_DUP },
+    { op: OP.OP_SIZE },
+    { op: OP.OP_NIP },
+    { op: OP.OP_SWAP },
+    numberChunk(32),
+    { op: OP.OP_NUM2BIN },
+    ...reverseBytes(32),
+    { op: OP.OP_OVER },
+    numberChunk(32),
+    { op: OP.OP_SWAP },
+    { op: OP.OP_SUB },
+    { op: OP.OP_SPLIT },
+    { op: OP.OP_NIP },
+    // 30 <length> 02 20 <r> 02 <length of s> <s> <scope>
+    { op: OP.OP_SWAP },
+    { op: OP.OP_DUP },
+    numberChunk(36),
+    { op: OP.OP_ADD },
+    pushChunk([0x30]),
+    { op: OP.OP_SWAP },
+    { op: OP.OP_CAT },
+    pushChunk([0x02, 0x20, ...gxBytes, 0x02]),
+    { op: OP.OP_CAT },
+    { op: OP.OP_SWAP },
+    { op: OP.OP_CAT },
+    { op: OP.OP_SWAP },
+    { op: OP.OP_CAT },
+    pushChunk([PREIMAGE_SCOPE]),
+    { op: OP.OP_CAT },
+    pushChunk(curve.g.encode(true) as number[]),
+    { op: OP.OP_CHECKSIGVERIFY },
+    // The preimage ends with the sequence (4), the hash of the outputs (32), the lock time (4) and the scope (4).
+    { op: OP.OP_SIZE },
+    numberChunk(44),
+    { op: OP.OP_SUB },
+    { op: OP.OP_SPLIT },
+    { op: OP.OP_NIP },
+    { op: OP.OP_4 },
+    { op: OP.OP_SPLIT },
+    { op: OP.OP_SWAP },
+    pushChunk([0xff, 0xff, 0xff, 0xff]),
+    { op: OP.OP_EQUAL },
+    { op: OP.OP_NOT },
+    { op: OP.OP_VERIFY },
+    numberChunk(32),
+    { op: OP.OP_SPLIT },
+    { op: OP.OP_NIP },
+    { op: OP.OP_4 },
+    { op: OP.OP_SPLIT },
+    { op: OP.OP_DROP },
+    pushChunk([0]),
+    { op: OP.OP_CAT },
+    { op: OP.OP_BIN2NUM }
+  ]
+  if (lockTime < LOCKTIME_THRESHOLD) {
+    // A timestamp lock time would otherwise satisfy a block height.
+    chunks.push(
+      { op: OP.OP_DUP },
+      numberChunk(LOCKTIME_THRESHOLD),
+      { op: OP.OP_LESSTHAN },
+      { op: OP.OP_VERIFY }
+    )
+  }
+  chunks.push(
+    numberChunk(lockTime),
+    { op: OP.OP_GREATERTHANOREQUAL },
+    { op: OP.OP_VERIFY }
+  )
+  return chunks
+}
+
+/**
+ * Sets the lock time of a transaction and the sequence of one of its inputs so that the input can satisfy
+ * a `lockTimeCondition`. The lock time is only raised, unless it is of the wrong kind.
+ *
+ * These are covered by the signatures of every input, so must be set before any input is signed.
+ */
+export function applyLockTime (tx: Transaction, inputIndex: number, lockTime: number): void {
+  const isHeight = lockTime < LOCKTIME_THRESHOLD
+  if (tx.lockTime < lockTime || (isHeight && tx.lockTime >= LOCKTIME_THRESHOLD)) {
+    tx.lockTime = lockTime
+  }
+  const input = tx.inputs[inputIndex]
+  if (input.sequence === undefined || input.sequence === 0xffffffff) {
+    input.sequence = 0xfffffffe
+  }
+}
+
+/**
+ * The signature scope for the given outputs and anyone-can-pay options.
+ */
+export function signatureScope (
+  signOutputs: 'all' | 'none' | 'single',
+  anyoneCanPay: boolean
+): number {
+  let scope = TransactionSignature.SIGHASH_FORKID
+  if (signOutputs === 'all') {
+    scope |= TransactionSignature.SIGHASH_ALL
+  }
+  if (signOutputs === 'none') {
+    scope |= TransactionSignature.SIGHASH_NONE
+  }
+  if (signOutputs === 'single') {
+    scope |= TransactionSignature.SIGHASH_SINGLE
+  }
+  if (anyoneCanPay) {
+    scope |= TransactionSignature.SIGHASH_ANYONECANPAY
+  }
+  return scope
+}
+
+/**
+ * Finds the locking script spent by an input, from the one given or the input's source transaction.
+ */
+export function spentLockingScript (tx: Transaction, inputIndex: number, lockingScript?: Script): Script {
+  const input = tx.inputs[inputIndex]
+  const script = lockingScript ?? input.sourceTransaction?.outputs[input.sourceOutputIndex]?.lockingScript ??
+    input.sourceLockingScript
+  if (script === undefined) {
+    throw new Error(
+      'The lockingScript or input sourceTransaction is required for transaction signing.'
+    )
+  }
+  return script
+}
+
+/**
+ * Computes the signature preimage of an input for a scope.
+ */
+export function inputPreimage (
+  tx: Transaction,
+  inputIndex: number,
+  scope: number,
+  sourceSatoshis?: number,
+  lockingScript?: Script
+): number[] {
+  const input = tx.inputs[inputIndex]
+  const sourceTXID = input.sourceTXID ?? input.sourceTransaction?.id('hex')
+  if (sourceTXID === undefined || sourceTXID === '') {
+    throw new Error(
+      'The input sourceTXID or sourceTransaction is required for transaction signing.'
+    )
+  }
+  const satoshis = sourceSatoshis ?? input.sourceTransaction?.outputs[input.sourceOutputIndex]?.satoshis ??
+    input.sourceSatoshis
+  if (satoshis === undefined) {
+    throw new Error(
+      'The sourceSatoshis or input sourceTransaction is required for transaction signing.'
+    )
+  }
+  return TransactionSignature.format({
+    sourceTXID,
+    sourceOutputIndex: input.sourceOutputIndex,
+    sourceSatoshis: satoshis,
+    transactionVersion: tx.version,
+    otherInputs: tx.inputs.filter((_, index) => index !== inputIndex),
+    inputIndex,
+    outputs: tx.outputs,
+    inputSequence: input.sequence ?? 0xffffffff,
+    subscript: spentLockingScript(tx, inputIndex, lockingScript),
+    lockTime: tx.lockTime,
+    scope
+  })
+}
+
+/**
+ * The preimage an unlocking script pushes to satisfy a `lockTimeCondition`.
+ */
+export function lockTimePreimage (
+  tx: Transaction,
+  inputIndex: number,
+  sourceSatoshis?: number,
+  lockingScript?: Script
+): number[] {
+  return inputPreimage(tx, inputIndex, PREIMAGE_SCOPE, sourceSatoshis, lockingScript)
+}
+
+/**
+ * Signs a preimage, returning the signature in checksig format.
+ */
+export function signPreimage (privateKey: PrivateKey, preimage: number[], scope: number): number[] {
+  const rawSignature = privateKey.sign(sha256(preimage))
+  return new TransactionSignature(rawSignature.r, rawSignature.s, scope).toChecksigFormat()
+}
+
+/**
+ * The length of the chunk pushing a preimage for the given locking script, as pushed to satisfy a `lockTimeCondition`.
+ */
+export function preimagePushLength (lockingScript: Script): number {
+  const scriptLength = lockingScript.toBinary().length
+  const varIntLength = scriptLength < 0xfd ? 1 : scriptLength <= 0xffff ? 3 : 5
+  // version, prevouts hash, sequences hash, outpoint, script code, amount, sequence, outputs hash, lock time, scope
+  const length = 4 + 32 + 32 + 36 + varIntLength + scriptLength + 8 + 4 + 32 + 4 + 4
+  return length + (length <= 75 ? 1 : length <= 255 ? 2 : length <= 65535 ? 3 : 5)
+}
@@ -1,7 +1,9 @@
-import MerklePath from './MerklePath.js'
+import MerklePath, { MerklePathLeaf } from './MerklePath.js'
 import Transaction from './Transaction.js'
 import ChainTracker from './ChainTracker.js'
 import BeefTx from './BeefTx.js'
+import { VerificationReport, VerificationOptions, TransactionVerification } from './VerificationReport.js'
+import processQueue from './processQueue.js'
 import { Reader, Writer, toHex, toArray } from '../primitives/utils.js'
 import { hash256 } from '../primitives/Hash.js'
 
@@ -19,6 +21,59 @@ export enum TX_DATA_FORMAT {
   TXID_ONLY = 2, // txid only
 }
 
+/**
+ * What `Beef.compact` removed from a `Beef`, and the bytes it saved.
+ */
+export interface BeefCompaction {
+  bytesBefore: number
+  bytesAfter: number
+  bytesSaved: number
+  /** The ancestor transactions removed because a descendant is proven. */
+  removedTxids: string[]
+  /** The proven ancestor transactions replaced by their txids because they are known. */
+  txidOnlyTxids: string[]
+  /** How many fewer BUMPs there are, from merging BUMPs for the same block and removing unused ones. */
+  bumpsRemoved: number
+}
+
+/**
+ * Builds the smallest merkle path for a block that proves the given txids, each from a path that proves it.
+ *
+ * Only the sibling of each node on the way to the root is kept, and only when it is not itself on the way
+ * to the root from another txid, as those are computed.
+ */
+function provingPath (blockHeight: number, proofs: Array<{ txid: string, bump: MerklePath }>): MerklePath {
+  const height = proofs[0].bump.path.length
+  const levels: Array<Map<number, MerklePathLeaf>> = Array.from({ length: height }, () => new Map())
+  const computed: Array<Set<number>> = Array.from({ length: height }, () => new Set())
+  for (const { txid, bump } of proofs) {
+    const leaf = verifyTruthy(bump.path[0].find((l) => l.hash === txid))
+    levels[0].set(leaf.offset, { offset: leaf.offset, hash: txid, txid: true })
+    for (let h = 0; h < height; h++) {
+      computed[h].add(leaf.offset >> h)
+    }
+  }
+  for (const { txid, bump } of proofs) {
+    const offset = verifyTruthy(bump.path[0].find((l) => l.hash === txid)).offset
+    for (let h = 0; h < height; h++) {
+      const siblingOffset = (offset >> h) ^ 1
+      if (computed[h].has(siblingOffset) || levels[h].has(siblingOffset)) continue
+      const sibling = bump.findOrComputeLeaf(h, siblingOffset)
+      if (sibling === undefined) {
+        // A block with a single transaction has no sibling to prove it with.
+        if (height === 1 && bump.path[0].length === 1) continue
+        throw new Error(`The merkle path of ${txid} is missing the hash at height ${h}.`)
+      }
+      levels[h].set(siblingOffset, sibling.duplicate === true
+        ? { offset: siblingOffset, duplicate: true }
+        : { offset: siblingOffset, hash: sibling.hash })
+    }
+  }
+  return new MerklePath(blockHeight, levels.map((level) =>
+    Array.from(level.values()).sort((a, b) => a.offset - b.offset)
+  ))
+}
+
 /*
  * BEEF standard: BRC-62: Background Evaluation Extended Format (BEEF) Transactions
  * https://github.com/bitcoin-sv/BRCs/blob/master/transactions/0062.md
@@ -368,52 +423,148 @@ export class Beef {
    * 3. Order of transactions satisfies dependencies before dependents.
    * 4. No transactions with duplicate txids.
    *
+   * Transactions in `options.knownValidTxids` are accepted as txid only, and merkle roots are not
+   * checked again for blocks whose BUMP txids are all known to be valid.
+   *
    * @param chainTracker Used to verify computed merkle path roots for all bump txids.
    * @param allowTxidOnly optional. If true, transaction txid is assumed valid
+   * @param options optional. Transactions known to be valid, how many merkle roots to check at once and a progress callback.
    */
   async verify (
     chainTracker: ChainTracker,
-    allowTxidOnly?: boolean
+    allowTxidOnly?: boolean,
+    options: VerificationOptions = {}
   ): Promise<boolean> {
-    const r = this.verifyValid(allowTxidOnly)
+    const r = this.verifyValid(allowTxidOnly, options)
     if (!r.valid) return false
 
-    for (const height of Object.keys(r.roots)) {
-      const isValid = await chainTracker.isValidRootForHeight(
-        r.roots[height],
-        Number(height)
-      )
+    const validRoots = await this.checkRoots(r.roots, chainTracker, options)
+    return Object.values(validRoots).every((isValid) => isValid)
+  }
+
+  /**
+   * Sorts `txs` and verifies this beef as `verify` does, reporting why verification failed.
+   *
+   * The report has an entry for each transaction, in dependency order, with the merkle proof of
+   * those that have one. Scripts are not evaluated, so the entries have no inputs; use
+   * `Transaction.verifyDetailed` on a transaction from `findAtomicTransaction` for that.
+   *
+   * Unlike `verify`, every merkle root is checked with `chainTracker` even when the structure of this beef is not valid.
+   *
+   * @param chainTracker Used to verify computed merkle path roots for all bump txids.
+   * @param allowTxidOnly optional. If true, transaction txid is assumed valid
+   * @param options optional. Transactions known to be valid, how many merkle roots to check at once and a progress callback.
+   * @returns A report of the verification of this beef.
+   */
+  async verifyDetailed (
+    chainTracker: ChainTracker,
+    allowTxidOnly?: boolean,
+    options: VerificationOptions = {}
+  ): Promise<VerificationReport> {
+    const r = this.verifyValid(allowTxidOnly, options)
+    const report: VerificationReport = { valid: r.valid, transactions: [], errors: [...r.errors] }
+
+    const validRoots = await this.checkRoots(r.roots, chainTracker, options)
+    for (const [height, isValid] of Object.entries(validRoots)) {
       if (!isValid) {
-        return false
+        report.valid = false
+        report.errors.push(`The merkle root ${r.roots[height] as string} is not valid for block ${height}.`)
+      }
+    }
+
+    for (const tx of this.txs) {
+      const result: TransactionVerification = {
+        txid: tx.txid,
+        valid: true,
+        inputs: [],
+        errors: r.txErrors[tx.txid] ?? []
+      }
+      if (tx.bumpIndex !== undefined) {
+        const blockHeight = this.bumps[tx.bumpIndex].blockHeight
+        const root = r.roots[blockHeight]
+        if (root !== undefined) {
+          const isValid: boolean | undefined = validRoots[blockHeight]
+          result.merkleProof = { blockHeight, root, valid: isValid ?? true, checked: isValid !== undefined }
+          if (isValid !== undefined && !isValid) {
+            result.errors.push(`The merkle root ${root} is not valid for block ${blockHeight}.`)
+          }
+        }
       }
+      result.valid = result.errors.length === 0
+      report.transactions.push(result)
     }
 
-    return true
+    return report
+  }
+
+  /**
+   * Checks computed merkle roots with `chainTracker`, skipping blocks whose BUMP txids are all known to be valid.
+   *
+   * @returns Whether each checked root is valid, by block height.
+   */
+  private async checkRoots (
+    roots: Record<number, string>,
+    chainTracker: ChainTracker,
+    options: VerificationOptions
+  ): Promise<Record<number, boolean>> {
+    const knownValidTxids = new Set(options.knownValidTxids ?? [])
+    const heights = Object.keys(roots).map(Number).filter((height) =>
+      this.bumps.some((b) => b.blockHeight === height &&
+        b.path[0].some((n) => n.txid === true && typeof n.hash === 'string' && !knownValidTxids.has(n.hash)))
+    )
+    const validRoots: Record<number, boolean> = {}
+    await processQueue(heights, options.concurrency ?? 1, async (height) => {
+      validRoots[height] = await chainTracker.isValidRootForHeight(roots[height], height)
+      options.onProgress?.({ verified: Object.keys(validRoots).length, total: heights.length, blockHeight: height })
+    })
+    return validRoots
   }
 
-  private verifyValid (allowTxidOnly?: boolean): {
+  private verifyValid (allowTxidOnly?: boolean, options: VerificationOptions = {}): {
     valid: boolean
     roots: Record<number, string>
+    errors: string[]
+    txErrors: Record<string, string[]>
   } {
-    const r: { valid: boolean, roots: Record<number, string> } = {
+    const r: {
+      valid: boolean
+      roots: Record<number, string>
+      errors: string[]
+      txErrors: Record<string, string[]>
+    } = {
       valid: false,
-      roots: {}
+      roots: {},
+      errors: [],
+      txErrors: {}
+    }
+    const fail = (error: string, txid?: string): void => {
+      r.errors.push(error)
+      if (txid !== undefined) {
+        (r.txErrors[txid] ??= []).push(error)
+      }
     }
 
     const sr = this.sortTxs()
-    if (sr.missingInputs.length > 0 ||
-      sr.notValid.length > 0 ||
-      (sr.txidOnly.length > 0 && allowTxidOnly !== true) ||
-      sr.withMissingInputs.length > 0
-    ) { return r }
-
-    // valid txids: only txids if allowed, bump txids, then txids with input's in txids
+    for (const txid of sr.missingInputs) {
+      fail(`Input transaction ${txid} is missing.`)
+    }
+    for (const txid of sr.withMissingInputs) {
+      fail(`Transaction ${txid} spends an input transaction that is missing.`, txid)
+    }
+    for (const txid of sr.notValid) {
+      fail(`Transaction ${txid} has no proof and its inputs do not chain back to one.`, txid)
+    }
+    // valid txids: only txids if allowed or known, bump txids, then txids with input's in txids
     const txids: Record<string, boolean> = {}
+    const knownValidTxids = new Set(options.knownValidTxids ?? [])
 
     for (const tx of this.txs) {
       if (tx.isTxidOnly) {
-        if (allowTxidOnly !== true) return r // ✅ Explicit check for `true`
-        txids[tx.txid] = true
+        if (allowTxidOnly === true || knownValidTxids.has(tx.txid)) { // ✅ Explicit check for `true`
+          txids[tx.txid] = true
+        } else {
+          fail(`Transaction ${tx.txid} is included by txid only.`, tx.txid)
+        }
       }
     }
 
@@ -436,7 +587,7 @@ export class Beef {
 
           // All txid hashes in all bumps must agree on computed merkle path roots
           if (!confirmComputedRoot(b, n.hash)) {
-            return r
+            fail(`The merkle path of ${n.hash} disagrees with other paths about the merkle root of block ${b.blockHeight}.`, n.hash)
           }
         }
       }
@@ -446,19 +597,26 @@ export class Beef {
     for (const t of this.txs) {
       if (t.bumpIndex !== undefined) {
         const leaf = this.bumps[t.bumpIndex].path[0].find(l => l.hash === t.txid)
-        if (leaf == null) { return r }
+        if (leaf == null) {
+          fail(`Transaction ${t.txid} is not a leaf of its merkle path.`, t.txid)
+        }
       }
     }
 
     for (const t of this.txs) {
       // all input txids must be included before they are referenced
-      for (const i of t.inputTxids) {
-        if (!txids[i]) return r
+      const missing = t.inputTxids.filter((i) => !txids[i])
+      if (missing.length > 0) {
+        // Missing inputs were reported above.
+        if (r.txErrors[t.txid] === undefined) {
+          fail(`Transaction ${t.txid} spends transactions ${missing.join(', ')} which are not valid.`, t.txid)
+        }
+        continue
       }
       txids[t.txid] = true
     }
 
-    r.valid = true
+    r.valid = r.errors.length === 0
     return r
   }
 
@@ -471,7 +629,7 @@ export class Beef {
 
     writer.writeVarIntNum(this.bumps.length)
     for (const b of this.bumps) {
-      writer.write(b.toBinary())
+      b.toWriter(writer)
     }
 
     writer.writeVarIntNum(this.txs.length)
@@ -490,6 +648,16 @@ export class Beef {
     return writer.toArray()
   }
 
+  /**
+   * Returns a typed array representing the serialized BEEF
+   * @returns A typed array representing the BEEF
+   */
+  toUint8Array (): Uint8Array {
+    const writer = new Writer()
+    this.toWriter(writer)
+    return writer.toUint8Array()
+  }
+
   /**
    * Serialize this Beef as AtomicBEEF.
    *
@@ -560,11 +728,11 @@ export class Beef {
   }
 
   /**
-   * Constructs an instance of the Beef class based on the provided binary array
-   * @param bin The binary array from which to construct BEEF
+   * Constructs an instance of the Beef class based on the provided binary array or typed array
+   * @param bin The binary array or typed array from which to construct BEEF
    * @returns An instance of the Beef class constructed from the binary data
    */
-  static fromBinary (bin: number[]): Beef {
+  static fromBinary (bin: number[] | Uint8Array): Beef {
     const br = new Reader(bin)
     return Beef.fromReader(br)
   }
@@ -743,6 +911,86 @@ export class Beef {
     // TODO: bumps could be trimmed to eliminate unreferenced proofs.
   }
 
+  /**
+   * Makes this `Beef` as small as it can be while still proving the same transactions:
+   * 1. Removes ancestor transactions that are no longer needed because a descendant is proven.
+   * 2. Replaces the proven ancestors in `knownTxids` by their txids, which only BEEF V2 supports.
+   * 3. Merges the BUMPs for the same block, and trims the leaves no longer needed or computable from others.
+   *
+   * The transactions that no other transaction spends, or `atomicTxid` if set, are always kept in full.
+   *
+   * @param knownTxids Optional. Txids of transactions the recipient already has, with their proofs.
+   * @returns What was removed, and the bytes saved.
+   */
+  compact (knownTxids: string[] = []): BeefCompaction {
+    const bytesBefore = this.toBinary().length
+    const bumpsBefore = this.bumps.length
+    const inputsOf = (btx: BeefTx): string[] =>
+      (btx.tx?.inputs ?? []).map((i) => i.sourceTXID ?? i.sourceTransaction?.id('hex') ?? '')
+
+    const spent = new Set(this.txs.flatMap(inputsOf))
+    const tips = this.atomicTxid !== undefined && this.findTxid(this.atomicTxid) !== undefined
+      ? [this.atomicTxid]
+      : this.txs.filter((btx) => !spent.has(btx.txid)).map((btx) => btx.txid)
+    const needed = new Set<string>()
+    const queue = [...tips]
+    while (queue.length > 0) {
+      const btx = this.findTxid(verifyTruthy(queue.pop()))
+      if (btx === undefined || needed.has(btx.txid)) continue
+      needed.add(btx.txid)
+      if (!btx.hasProof) {
+        queue.push(...inputsOf(btx))
+      }
+    }
+    const removedTxids = this.txs.filter((btx) => !needed.has(btx.txid)).map((btx) => btx.txid)
+    this.txs = this.txs.filter((btx) => needed.has(btx.txid))
+
+    const txidOnlyTxids: string[] = []
+    if (this.version === BEEF_V2) {
+      const known = new Set(knownTxids)
+      this.txs = this.txs.map((btx) => {
+        if (!known.has(btx.txid) || tips.includes(btx.txid) || !btx.hasProof || btx.isTxidOnly) {
+          return btx
+        }
+        txidOnlyTxids.push(btx.txid)
+        return new BeefTx(btx.txid)
+      })
+    }
+
+    // Group the proven transactions by block, and prove each group with a single path.
+    // Transactions are replaced rather than modified, so that a `clone()` can be compacted without affecting the original.
+    const groups = new Map<string, Array<{ txid: string, bump: MerklePath, index: number }>>()
+    this.txs.forEach((btx, index) => {
+      if (btx.bumpIndex === undefined) return
+      if (btx.isTxidOnly) {
+        this.txs[index] = new BeefTx(btx.txid)
+        return
+      }
+      const bump = this.bumps[btx.bumpIndex]
+      const key = `${bump.blockHeight}:${bump.computeRoot(btx.txid)}`
+      const group = groups.get(key) ?? []
+      group.push({ txid: btx.txid, bump, index })
+      groups.set(key, group)
+    })
+    this.bumps = Array.from(groups.values()).map((proofs, bumpIndex) => {
+      for (const { index } of proofs) {
+        const btx = this.txs[index]
+        this.txs[index] = new BeefTx(verifyTruthy(btx._tx ?? btx._rawTx), bumpIndex)
+      }
+      return provingPath(proofs[0].bump.blockHeight, proofs)
+    })
+
+    const bytesAfter = this.toBinary().length
+    return {
+      bytesBefore,
+      bytesAfter,
+      bytesSaved: bytesBefore - bytesAfter,
+      removedTxids,
+      txidOnlyTxids,
+      bumpsRemoved: bumpsBefore - this.bumps.length
+    }
+  }
+
   /**
    * @returns array of transaction txids that either have a proof or whose inputs chain back to a proven transaction.
    */
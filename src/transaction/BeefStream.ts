@@ -0,0 +1,420 @@
+import MerklePath from './MerklePath.js'
+import BeefTx from './BeefTx.js'
+import { Beef, BEEF_V1, BEEF_V2, ATOMIC_BEEF, TX_DATA_FORMAT } from './Beef.js'
+import { Reader, Writer, toHex, toArray } from '../primitives/utils.js'
+
+/**
+ * What `BeefStreamParser` decodes from a BEEF, in the order it appears: the header, then each BUMP, then each transaction.
+ */
+export type BeefStreamEvent =
+  | { type: 'header', version: number, atomicTxid?: string }
+  | { type: 'bump', index: number, bump: MerklePath }
+  | { type: 'tx', index: number, beefTx: BeefTx }
+
+/**
+ * The measurement of an item at the cursor of a `ByteQueue`, which yields whenever it needs bytes not yet received and
+ * is resumed where it left off once more have arrived.
+ */
+type Measurement<T = void> = Generator<undefined, T, undefined>
+
+/**
+ * The bytes received by a `BeefStreamParser` and not yet decoded, as the list of chunks they arrived in, with a cursor
+ * for measuring the next item in them.
+ */
+class ByteQueue {
+  private readonly chunks: Uint8Array[] = []
+  /** The offset of the front of the queue in the first chunk. */
+  private start = 0
+  private size = 0
+  /** The number of bytes measured from the front of the queue, and the chunk and offset they end at. */
+  private cursor = 0
+  private chunkIndex = 0
+  private chunkOffset = 0
+
+  get length (): number {
+    return this.size
+  }
+
+  append (chunk: Uint8Array): void {
+    if (chunk.length === 0) return
+    this.chunks.push(chunk)
+    this.size += chunk.length
+  }
+
+  /** Whether the next n bytes after the cursor have been received. */
+  has (n: number): boolean {
+    return this.cursor + n <= this.size
+  }
+
+  /** Moves the cursor past n received bytes. */
+  skip (n: number): void {
+    this.cursor += n
+    let offset = this.chunkOffset + n
+    while (this.chunkIndex < this.chunks.length && offset >= this.chunks[this.chunkIndex].length) {
+      offset -= this.chunks[this.chunkIndex].length
+      this.chunkIndex++
+    }
+    this.chunkOffset = offset
+  }
+
+  /** Reads a received byte at the cursor. */
+  uint8 (): number {
+    const b = this.chunks[this.chunkIndex][this.chunkOffset]
+    this.skip(1)
+    return b
+  }
+
+  /** Removes the measured item from the front of the queue, returning a reader over its bytes. */
+  take (): Reader {
+    const first = this.chunks[0]
+    let item: Uint8Array
+    if (this.start + this.cursor <= first.length) {
+      item = first.subarray(this.start, this.start + this.cursor)
+    } else {
+      item = new Uint8Array(this.cursor)
+      let copied = 0
+      for (let i = 0; copied < this.cursor; i++) {
+        const offset = i === 0 ? this.start : 0
+        const part = this.chunks[i].subarray(offset, offset + this.cursor - copied)
+        item.set(part, copied)
+        copied += part.length
+      }
+    }
+    this.chunks.splice(0, this.chunkIndex)
+    this.start = this.chunkOffset
+    this.size -= this.cursor
+    this.cursor = 0
+    this.chunkIndex = 0
+    return new Reader(item)
+  }
+}
+
+function * skip (q: ByteQueue, n: number): Measurement {
+  while (!q.has(n)) yield
+  q.skip(n)
+}
+
+function * uint8 (q: ByteQueue): Measurement<number> {
+  while (!q.has(1)) yield
+  return q.uint8()
+}
+
+function * littleEndian (q: ByteQueue, size: number): Measurement<number> {
+  while (!q.has(size)) yield
+  let n = 0
+  for (let i = 0, scale = 1; i < size; i++, scale *= 256) {
+    n += q.uint8() * scale
+  }
+  return n
+}
+
+function * uint32LE (q: ByteQueue): Measurement<number> {
+  return yield * littleEndian(q, 4)
+}
+
+function * varInt (q: ByteQueue): Measurement<number> {
+  const first = yield * uint8(q)
+  const size = first === 0xfd ? 2 : first === 0xfe ? 4 : first === 0xff ? 8 : 0
+  return size === 0 ? first : yield * littleEndian(q, size)
+}
+
+/**
+ * Measures a serialized transaction at the cursor.
+ */
+function * measureTransaction (q: ByteQueue): Measurement {
+  yield * skip(q, 4)
+  const inputs = yield * varInt(q)
+  for (let i = 0; i < inputs; i++) {
+    yield * skip(q, 36)
+    yield * skip(q, yield * varInt(q))
+    yield * skip(q, 4)
+  }
+  const outputs = yield * varInt(q)
+  for (let i = 0; i < outputs; i++) {
+    yield * skip(q, 8)
+    yield * skip(q, yield * varInt(q))
+  }
+  yield * skip(q, 4)
+}
+
+/**
+ * Measures a serialized BUMP at the cursor.
+ */
+function * measureBump (q: ByteQueue): Measurement {
+  yield * varInt(q)
+  const treeHeight = yield * uint8(q)
+  for (let level = 0; level < treeHeight; level++) {
+    const leaves = yield * varInt(q)
+    for (let i = 0; i < leaves; i++) {
+      yield * varInt(q)
+      const flags = yield * uint8(q)
+      if ((flags & 1) === 0) {
+        yield * skip(q, 32)
+      }
+    }
+  }
+}
+
+/**
+ * Measures a transaction of a BEEF of the given version at the cursor.
+ */
+function * measureBeefTx (q: ByteQueue, version: number): Measurement {
+  if (version === BEEF_V2) {
+    const format = yield * uint8(q)
+    if (format === TX_DATA_FORMAT.TXID_ONLY) {
+      yield * skip(q, 32)
+      return
+    }
+    if (format === TX_DATA_FORMAT.RAWTX_AND_BUMP_INDEX) {
+      yield * varInt(q)
+    }
+    yield * measureTransaction(q)
+  } else {
+    yield * measureTransaction(q)
+    if ((yield * uint8(q)) !== 0) {
+      yield * varInt(q)
+    }
+  }
+}
+
+/**
+ * Decodes a BEEF, Atomic BEEF or BEEF V2 incrementally, from chunks of bytes as they arrive, so that a large BEEF
+ * need never be held in memory all at once.
+ *
+ * Each chunk is decoded as far as it goes, and the header, BUMPs and transactions it completes are returned as events.
+ * Only the bytes of an item not yet complete are kept between chunks.
+ *
+ * @example
+ * const parser = new BeefStreamParser()
+ * for await (const chunk of response.body) {
+ *   for (const event of parser.push(chunk)) {
+ *     if (event.type === 'tx') console.log(event.beefTx.txid)
+ *   }
+ * }
+ * parser.end()
+ */
+export class BeefStreamParser {
+  version: number | undefined = undefined
+  atomicTxid: string | undefined = undefined
+  private readonly queue = new ByteQueue()
+  /** The measurement of the next item, resumed as its bytes arrive. */
+  private measurement: Measurement | undefined = undefined
+  private bumpCount: number | undefined = undefined
+  private bumpsRead = 0
+  private txCount: number | undefined = undefined
+  private txsRead = 0
+
+  /**
+   * @returns true once the whole BEEF has been decoded.
+   */
+  get done (): boolean {
+    return this.txCount !== undefined && this.txsRead === this.txCount
+  }
+
+  /**
+   * Decodes as much of the BEEF as the bytes received so far complete.
+   * @param chunk The next bytes of the BEEF.
+   * @returns The header, BUMPs and transactions completed by this chunk.
+   * @throws If the BEEF is not valid, or bytes follow the end of it.
+   */
+  push (chunk: Uint8Array | number[]): BeefStreamEvent[] {
+    if (this.done && chunk.length > 0) {
+      throw new Error('Unexpected data after the end of the BEEF.')
+    }
+    this.queue.append(chunk instanceof Uint8Array ? chunk : Uint8Array.from(chunk))
+    const events: BeefStreamEvent[] = []
+    while (!this.done) {
+      this.measurement ??= this.measure()
+      if (this.measurement.next().done !== true) break
+      this.measurement = undefined
+      const event = this.next()
+      if (event !== undefined) events.push(event)
+    }
+    if (this.done && this.queue.length > 0) {
+      throw new Error('Unexpected data after the end of the BEEF.')
+    }
+    return events
+  }
+
+  /**
+   * Confirms the BEEF is complete, when there are no more chunks.
+   * @throws If the BEEF ended early.
+   */
+  end (): void {
+    if (!this.done) {
+      throw new Error('The BEEF ended before all of its BUMPs and transactions were received.')
+    }
+  }
+
+  /**
+   * Measures the next item of the BEEF, waiting for its bytes to be received.
+   */
+  private * measure (): Measurement {
+    const q = this.queue
+    if (this.version === undefined) {
+      if ((yield * uint32LE(q)) === ATOMIC_BEEF) {
+        yield * skip(q, 36)
+      }
+    } else if (this.bumpCount === undefined) {
+      yield * varInt(q)
+    } else if (this.bumpsRead < this.bumpCount) {
+      yield * measureBump(q)
+    } else if (this.txCount === undefined) {
+      yield * varInt(q)
+    } else {
+      yield * measureBeefTx(q, this.version)
+    }
+  }
+
+  /**
+   * Decodes the next item of the BEEF, once it has been measured.
+   * @returns The event for the item, or undefined for a count of BUMPs or transactions.
+   */
+  private next (): BeefStreamEvent | undefined {
+    const q = this.queue
+    if (this.version === undefined) {
+      const br = q.take()
+      let version = br.readUInt32LE()
+      if (version === ATOMIC_BEEF) {
+        this.atomicTxid = toHex(br.readReverse(32))
+        version = br.readUInt32LE()
+      }
+      if (version !== BEEF_V1 && version !== BEEF_V2) {
+        throw new Error(
+          `Serialized BEEF must start with ${BEEF_V1} or ${BEEF_V2} but starts with ${version}`
+        )
+      }
+      this.version = version
+      return this.atomicTxid === undefined
+        ? { type: 'header', version }
+        : { type: 'header', version, atomicTxid: this.atomicTxid }
+    }
+    if (this.bumpCount === undefined) {
+      this.bumpCount = q.take().readVarIntNum()
+      return undefined
+    }
+    if (this.bumpsRead < this.bumpCount) {
+      const bump = MerklePath.fromReader(q.take(), false)
+      return { type: 'bump', index: this.bumpsRead++, bump }
+    }
+    if (this.txCount === undefined) {
+      this.txCount = q.take().readVarIntNum()
+      return undefined
+    }
+    const beefTx = BeefTx.fromReader(q.take(), this.version)
+    return { type: 'tx', index: this.txsRead++, beefTx }
+  }
+
+  /**
+   * Decodes the events of a BEEF from a stream of chunks.
+   * @param source The chunks of the BEEF, such as the body of a fetch response.
+   * @throws If the BEEF is not valid, or the source ends before the BEEF does.
+   */
+  static async * parse (
+    source: AsyncIterable<Uint8Array | number[]> | Iterable<Uint8Array | number[]>
+  ): AsyncGenerator<BeefStreamEvent> {
+    const parser = new BeefStreamParser()
+    for await (const chunk of source) {
+      for (const event of parser.push(chunk)) {
+        yield event
+      }
+    }
+    parser.end()
+  }
+
+  /**
+   * Decodes a `Beef` from a stream of chunks, without first joining them into a single array.
+   * @param source The chunks of the BEEF.
+   * @returns The `Beef`, with `atomicTxid` set if it was an Atomic BEEF.
+   */
+  static async toBeef (
+    source: AsyncIterable<Uint8Array | number[]> | Iterable<Uint8Array | number[]>
+  ): Promise<Beef> {
+    let beef = new Beef()
+    for await (const event of BeefStreamParser.parse(source)) {
+      if (event.type === 'header') {
+        beef = new Beef(event.version)
+        beef.atomicTxid = event.atomicTxid
+      } else if (event.type === 'bump') {
+        beef.bumps.push(event.bump)
+      } else {
+        beef.txs.push(event.beefTx)
+      }
+    }
+    return beef
+  }
+}
+
+/**
+ * Encodes a BEEF as a stream of chunks, one for the header and one for each BUMP and transaction, so that a large BEEF
+ * need never be held in memory all at once. `BeefStreamParser` decodes them.
+ *
+ * @example
+ * const writer = new BeefStreamWriter(beef)
+ * await writer.write(async (chunk) => await file.write(chunk))
+ */
+export class BeefStreamWriter {
+  beef: Beef
+  atomicTxid?: string
+
+  /**
+   * @param beef The `Beef` to encode.
+   * @param atomicTxid Optional. Encodes an Atomic BEEF for this txid, leaving out the transactions that follow it.
+   */
+  constructor (beef: Beef, atomicTxid?: string) {
+    this.beef = beef
+    this.atomicTxid = atomicTxid
+  }
+
+  /**
+   * Encodes the `Beef` as chunks. Joined together, they are the same as `beef.toBinary()`, or
+   * `beef.toBinaryAtomic(atomicTxid)`.
+   * @throws If `atomicTxid` is not a transaction of the `Beef`.
+   */
+  * chunks (): Generator<Uint8Array> {
+    const beef = this.beef
+    let txs = beef.txs
+    const header = new Writer()
+    if (this.atomicTxid !== undefined) {
+      // Sorts a copy, leaving the order of the transactions of the caller's Beef as it is.
+      const sorted = beef.clone()
+      sorted.sortTxs()
+      const i = sorted.txs.findIndex((t) => t.txid === this.atomicTxid)
+      if (i === -1) {
+        throw new Error(`${this.atomicTxid} does not exist in this Beef`)
+      }
+      txs = sorted.txs.slice(0, i + 1)
+      header.writeUInt32LE(ATOMIC_BEEF)
+      header.writeReverse(toArray(this.atomicTxid, 'hex'))
+    }
+    header.writeUInt32LE(beef.version)
+    header.writeVarIntNum(beef.bumps.length)
+    yield header.toUint8Array()
+
+    for (const bump of beef.bumps) {
+      yield bump.toUint8Array()
+    }
+
+    yield new Writer().writeVarIntNum(txs.length).toUint8Array()
+    for (const tx of txs) {
+      const writer = new Writer()
+      tx.toWriter(writer, beef.version)
+      yield writer.toUint8Array()
+    }
+  }
+
+  /**
+   * Encodes the `Beef` to a sink, one chunk at a time, waiting for the sink to accept each chunk before encoding the next.
+   * @param sink Receives each chunk, such as by writing it to a file or network stream.
+   * @returns The number of bytes written.
+   */
+  async write (sink: (chunk: Uint8Array) => void | Promise<void>): Promise<number> {
+    let bytes = 0
+    for (const chunk of this.chunks()) {
+      const size: number = chunk.length
+      await sink(chunk)
+      bytes += size
+    }
+    return bytes
+  }
+}
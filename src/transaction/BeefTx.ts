@@ -49,7 +49,7 @@ export default class BeefTx {
       return this._txid
     }
     if (this._rawTx != null) {
-      this._txid = toHex(hash256(this._rawTx))
+      this._txid = toHex(hash256(this._rawTx).reverse())
       return this._txid
     }
     throw new Error('Internal')
@@ -133,7 +133,7 @@ export default class BeefTx {
       if (this._rawTx != null) {
         writer.write(this._rawTx)
       } else if (this._tx != null) {
-        writer.write(this._tx.toBinary())
+        this._tx.toWriter(writer)
       } else {
         throw new Error('a valid serialized Transaction is expected')
       }
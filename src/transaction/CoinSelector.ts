@@ -0,0 +1,31 @@
+import { FundingUtxo } from './UtxoSource.js'
+
+/**
+ * Describes the amount a `CoinSelector` must cover and the costs it should account for.
+ *
+ * @interface CoinSelectionTarget
+ * @property {number} satoshis - The amount the selected outputs must cover, before the cost of spending them.
+ * @property {number} costPerInput - The estimated fee added by spending one more output.
+ * @property {number} costOfChange - The estimated fee of creating (and later spending) a change output.
+ *           Selections that overshoot by less than this amount are better served without change.
+ */
+export interface CoinSelectionTarget {
+  satoshis: number
+  costPerInput: number
+  costOfChange: number
+}
+
+/**
+ * Represents the interface for a coin selection strategy.
+ * This interface defines a standard method for choosing which outputs fund a transaction.
+ *
+ * @interface
+ * @property {function} select - A function that takes the available outputs and a target, and returns the chosen outputs,
+ *                               or undefined if the available outputs cannot cover the target.
+ */
+export default interface CoinSelector {
+  select: (
+    utxos: FundingUtxo[],
+    target: CoinSelectionTarget
+  ) => FundingUtxo[] | undefined
+}
@@ -2,6 +2,7 @@
 import { Reader, Writer, toHex, toArray } from '../primitives/utils.js'
 import { hash256 } from '../primitives/Hash.js'
 import ChainTracker from './ChainTracker.js'
+import { parseBlockHeader } from './chaintrackers/BlockHeader.js'
 
 export interface MerklePathLeaf {
   offset: number
@@ -10,6 +11,143 @@ export interface MerklePathLeaf {
   duplicate?: boolean
 }
 
+/**
+ * A merkle proof of a single transaction in the JSON format of the TSC (Technical Standards Committee) merkle proof
+ * standard, as returned by services such as WhatsOnChain.
+ *
+ * @property index - The index of the transaction in its block.
+ * @property txOrId - The txid of the transaction, or the serialized transaction in hex.
+ * @property targetType - What `target` is: a block hash (the default), a block header or a merkle root.
+ * @property target - The block hash, block header or merkle root the proof leads to.
+ * @property nodes - The hash paired with the transaction at each level of the merkle tree, from the bottom up,
+ *                   with `*` where the transaction's own branch is paired with itself.
+ * @property composite - Whether the proof is of several transactions, which is not supported.
+ * @property proofType - Whether the proof is a single branch or a merkle tree, which is not supported.
+ */
+export interface TSCMerkleProof {
+  index: number
+  txOrId: string
+  targetType?: 'hash' | 'header' | 'merkleRoot'
+  target: string
+  nodes: string[]
+  composite?: boolean
+  proofType?: 'branch' | 'tree'
+}
+
+/**
+ * Computes the parent of two nodes of a merkle tree, given as hashes in hex.
+ */
+function merkleParent (left: string, right: string): string {
+  return toHex(hash256(toArray(right + left, 'hex').reverse()).reverse())
+}
+
+/**
+ * The flags byte of a TSC merkle proof in binary form.
+ */
+const TSC_FLAGS = {
+  TX: 0x01,
+  TARGET_TYPE: 0x06,
+  TARGET_HEADER: 0x02,
+  TARGET_MERKLE_ROOT: 0x04,
+  TREE: 0x08,
+  COMPOSITE: 0x10
+}
+
+/**
+ * Reads a TSC merkle proof in binary form, in which hashes are in internal byte order.
+ */
+function readTSCProof (reader: Reader): TSCMerkleProof {
+  const read = (length: number, reverse = false): string => {
+    if (reader.pos + length > reader.bin.length) {
+      throw new Error('The TSC merkle proof is incomplete.')
+    }
+    return toHex(reverse ? reader.readReverse(length) : reader.read(length))
+  }
+  const flags = reader.readUInt8()
+  const index = reader.readVarIntNum()
+  const txOrId = (flags & TSC_FLAGS.TX) !== 0 ? read(reader.readVarIntNum()) : read(32, true)
+  const targetFlags = flags & TSC_FLAGS.TARGET_TYPE
+  const targetType = targetFlags === TSC_FLAGS.TARGET_HEADER
+    ? 'header'
+    : targetFlags === TSC_FLAGS.TARGET_MERKLE_ROOT ? 'merkleRoot' : 'hash'
+  const target = targetType === 'header' ? read(80) : read(32, true)
+  const nodes: string[] = []
+  const nodeCount = reader.readVarIntNum()
+  for (let i = 0; i < nodeCount; i++) {
+    if (reader.eof()) {
+      throw new Error('The TSC merkle proof is incomplete.')
+    }
+    const type = reader.readUInt8()
+    if (type === 0) {
+      nodes.push(read(32, true))
+    } else if (type === 1) {
+      nodes.push('*')
+    } else {
+      throw new Error('Only TSC merkle proofs of a single branch are supported.')
+    }
+  }
+  return {
+    index,
+    txOrId,
+    targetType,
+    target,
+    nodes,
+    composite: (flags & TSC_FLAGS.COMPOSITE) !== 0,
+    proofType: (flags & TSC_FLAGS.TREE) !== 0 ? 'tree' : 'branch'
+  }
+}
+
+/**
+ * Writes a TSC merkle proof in binary form.
+ */
+function writeTSCProof (writer: Writer, proof: TSCMerkleProof): void {
+  const isTx = proof.txOrId.length !== 64
+  let flags = isTx ? TSC_FLAGS.TX : 0
+  if (proof.targetType === 'header') flags |= TSC_FLAGS.TARGET_HEADER
+  if (proof.targetType === 'merkleRoot') flags |= TSC_FLAGS.TARGET_MERKLE_ROOT
+  writer.writeUInt8(flags)
+  writer.writeVarIntNum(proof.index)
+  if (isTx) {
+    const tx = toArray(proof.txOrId, 'hex')
+    writer.writeVarIntNum(tx.length)
+    writer.write(tx)
+  } else {
+    writer.writeReverse(toArray(proof.txOrId, 'hex'))
+  }
+  if (proof.targetType === 'header') {
+    writer.write(toArray(proof.target, 'hex'))
+  } else {
+    writer.writeReverse(toArray(proof.target, 'hex'))
+  }
+  writer.writeVarIntNum(proof.nodes.length)
+  for (const node of proof.nodes) {
+    if (node === '*') {
+      writer.writeUInt8(1)
+    } else {
+      writer.writeUInt8(0)
+      writer.writeReverse(toArray(node, 'hex'))
+    }
+  }
+}
+
+/**
+ * Builds the path of a single branch from the hash paired with the txid at each level, with `*` for itself.
+ */
+function branchPath (txid: string, index: number, nodes: string[]): MerklePathLeaf[][] {
+  const path: MerklePathLeaf[][] = nodes.map((node, height) => {
+    const offset = (index >> height) ^ 1
+    return [node === '*' ? { offset, duplicate: true } : { offset, hash: node }]
+  })
+  const leaf: MerklePathLeaf = { offset: index, hash: txid, txid: true }
+  if (path.length === 0) {
+    path.push([leaf])
+  } else {
+    path[0].push(leaf)
+    path[0].sort((a, b) => a.offset - b.offset)
+  }
+  return path
+}
+
 /**
  * Represents a Merkle Path, which is used to provide a compact proof of inclusion for a
  * transaction in a block. This class encapsulates all the details required for creating
@@ -100,10 +238,10 @@ export default class MerklePath {
    * Creates a MerklePath instance from a binary array.
    *
    * @static
-   * @param {number[]} bump - The binary array representation of the Merkle Path.
+   * @param {number[] | Uint8Array} bump - The binary array or typed array representation of the Merkle Path.
    * @returns {MerklePath} - A new MerklePath instance.
    */
-  static fromBinary (bump: number[]): MerklePath {
+  static fromBinary (bump: number[] | Uint8Array): MerklePath {
     const reader = new Reader(bump)
     return MerklePath.fromReader(reader)
   }
@@ -123,6 +261,142 @@ export default class MerklePath {
     return new MerklePath(height, [[{ offset: 0, hash: txid, txid: true }]])
   }
 
+  /**
+   * Builds the smallest MerklePath proving the target transactions from the txids of all of the transactions in
+   * their block.
+   *
+   * At each level of the tree only the siblings of the nodes on the way to the root from a target are included, and
+   * only when they are not on the way to the root from another target. Levels with an odd number of nodes pair their
+   * last node with itself.
+   *
+   * @static
+   * @param {number} blockHeight - The height of the block.
+   * @param {string[]} txids - The txids of all of the transactions in the block, in block order.
+   * @param {string[]} targets - The txids of the transactions to prove.
+   * @returns {MerklePath} - A new MerklePath instance proving the targets.
+   * @throws {Error} - If there are no targets, or a target is not in the block.
+   */
+  static fromBlockTxids (blockHeight: number, txids: string[], targets: string[]): MerklePath {
+    if (targets.length === 0) {
+      throw new Error('At least one target txid is required.')
+    }
+    const indexes = new Map(txids.map((txid, index) => [txid, index]))
+    let offsets = new Set(targets.map((txid) => {
+      const index = indexes.get(txid)
+      if (index === undefined) {
+        throw new Error(`Transaction ID ${txid} is not in the block.`)
+      }
+      return index
+    }))
+    if (txids.length === 1) {
+      return new MerklePath(blockHeight, [[{ offset: 0, hash: txids[0], txid: true }]])
+    }
+
+    const path: MerklePathLeaf[][] = []
+    let level = txids
+    while (level.length > 1) {
+      const leaves = new Map<number, MerklePathLeaf>()
+      if (path.length === 0) {
+        for (const offset of offsets) {
+          leaves.set(offset, { offset, hash: level[offset], txid: true })
+        }
+      }
+      for (const offset of offsets) {
+        const sibling = offset ^ 1
+        if (offsets.has(sibling)) continue
+        leaves.set(sibling, sibling < level.length
+          ? { offset: sibling, hash: level[sibling] }
+          : { offset: sibling, duplicate: true })
+      }
+      path.push(Array.from(leaves.values()).sort((a, b) => a.offset - b.offset))
+
+      const next: string[] = []
+      for (let i = 0; i < level.length; i += 2) {
+        next.push(merkleParent(level[i], level[i + 1] ?? level[i]))
+      }
+      level = next
+      offsets = new Set(Array.from(offsets, (offset) => offset >> 1))
+    }
+    return new MerklePath(blockHeight, path)
+  }
+
+  /**
+   * Creates a MerklePath instance from a TSC merkle proof, which does not include the height of its block.
+   *
+   * When the proof leads to a merkle root or a block header, or `merkleRoot` is given, the root computed from the
+   * proof is checked against it. A block hash cannot be checked without its header.
+   *
+   * @static
+   * @param {TSCMerkleProof} proof - The TSC merkle proof of a single transaction.
+   * @param {number} blockHeight - The height of the block the proof leads to.
+   * @param {string} merkleRoot - Optional. The merkle root of the block, for proofs which lead to its hash.
+   * @returns {MerklePath} - A new MerklePath instance.
+   * @throws {Error} - If the proof is a composite proof or a merkle tree, which are not supported, or does not lead
+   *                   to its merkle root.
+   */
+  static fromTSC (proof: TSCMerkleProof, blockHeight: number, merkleRoot?: string): MerklePath {
+    if (proof.composite === true || proof.proofType === 'tree') {
+      throw new Error('Only TSC merkle proofs of a single branch are supported.')
+    }
+    const txid = proof.txOrId.length === 64
+      ? proof.txOrId
+      : toHex(hash256(toArray(proof.txOrId, 'hex')).reverse())
+    if (merkleRoot === undefined) {
+      if (proof.targetType === 'merkleRoot') {
+        merkleRoot = proof.target
+      } else if (proof.targetType === 'header') {
+        merkleRoot = parseBlockHeader(proof.target).merkleRoot
+      }
+    }
+    return new MerklePath(blockHeight, branchPath(txid, proof.index, proof.nodes)).verifyRoot(txid, merkleRoot)
+  }
+
+  /**
+   * Creates a MerklePath instance from a TSC merkle proof in binary form.
+   *
+   * @static
+   * @param {number[] | Uint8Array} bin - The TSC merkle proof of a single transaction in binary form.
+   * @param {number} blockHeight - The height of the block the proof leads to.
+   * @param {string} merkleRoot - Optional. The merkle root of the block, for proofs which lead to its hash.
+   * @returns {MerklePath} - A new MerklePath instance.
+   * @throws {Error} - If the proof is incomplete, is not of a single branch, or does not lead to its merkle root.
+   */
+  static fromTSCBinary (bin: number[] | Uint8Array, blockHeight: number, merkleRoot?: string): MerklePath {
+    return MerklePath.fromTSC(readTSCProof(new Reader(bin)), blockHeight, merkleRoot)
+  }
+
+  /**
+   * Creates a MerklePath instance from a merkle branch, the hashes paired with a transaction at each level of the
+   * merkle tree from the bottom up, and the index of the transaction in its block, as returned by Electrum servers
+   * and `getmerkleproof` style APIs. A hash equal to the transaction's own branch pairs the branch with itself.
+   *
+   * @static
+   * @param {number} blockHeight - The height of the block.
+   * @param {string} txid - The transaction ID.
+   * @param {number} index - The index of the transaction in its block.
+   * @param {string[]} branch - The hashes paired with the transaction, from the bottom of the tree up.
+   * @param {string} merkleRoot - Optional. The merkle root of the block, checked against the root computed from the
+   *                              branch.
+   * @returns {MerklePath} - A new MerklePath instance.
+   * @throws {Error} - If the branch does not lead to `merkleRoot`.
+   */
+  static fromMerkleBranch (
+    blockHeight: number,
+    txid: string,
+    index: number,
+    branch: string[],
+    merkleRoot?: string
+  ): MerklePath {
+    let workingHash = txid
+    const nodes = branch.map((hash, height) => {
+      const isLeft = ((index >> height) & 1) === 0
+      const node = isLeft && hash === workingHash ? '*' : hash
+      workingHash = isLeft ? merkleParent(workingHash, hash) : merkleParent(hash, workingHash)
+      return node
+    })
+    return new MerklePath(blockHeight, branchPath(txid, index, nodes)).verifyRoot(txid, merkleRoot)
+  }
+
   constructor (
     blockHeight: number,
     path: Array<
@@ -187,6 +461,27 @@ export default class MerklePath {
    */
   toBinary (): number[] {
     const writer = new Writer()
+    this.toWriter(writer)
+    return writer.toArray()
+  }
+
+  /**
+   * Converts the MerklePath to a typed array.
+   *
+   * @returns {Uint8Array} - The typed array representation of the Merkle Path.
+   */
+  toUint8Array (): Uint8Array {
+    const writer = new Writer()
+    this.toWriter(writer)
+    return writer.toUint8Array()
+  }
+
+  /**
+   * Serializes the MerklePath to a writer.
+   *
+   * @param {Writer} writer - The writer to append the Merkle Path to.
+   */
+  toWriter (writer: Writer): void {
     writer.writeVarIntNum(this.blockHeight)
     const treeHeight = this.path.length
     writer.writeUInt8(treeHeight)
@@ -208,7 +503,6 @@ export default class MerklePath {
         }
       }
     }
-    return writer.toArray()
   }
 
   /**
@@ -220,6 +514,87 @@ export default class MerklePath {
     return toHex(this.toBinary())
   }
 
+  /**
+   * Converts the proof of one transaction of the MerklePath to a TSC merkle proof, which leads to the merkle root.
+   *
+   * @param {string} txid - The transaction ID to prove. If not provided, the first transaction of the path is proven.
+   * @returns {TSCMerkleProof} - The TSC merkle proof of the transaction.
+   * @throws {Error} - If the transaction ID is not part of the Merkle Path, or a hash needed to prove it is missing.
+   */
+  toTSC (txid?: string): TSCMerkleProof {
+    if (txid === undefined) {
+      const leaf = this.path[0].find((l) => l.txid === true) ?? this.path[0].find((l) => l.hash !== undefined)
+      if (leaf?.hash === undefined) {
+        throw new Error('No valid leaf found in the Merkle Path')
+      }
+      txid = leaf.hash
+    }
+    const index = this.indexOf(txid)
+    const nodes: string[] = []
+    // A block with only one transaction has no other nodes.
+    if (this.path.length > 1 || this.path[0].length > 1) {
+      for (let height = 0; height < this.path.length; height++) {
+        const leaf = this.findOrComputeLeaf(height, (index >> height) ^ 1)
+        if (leaf === undefined) {
+          throw new Error(`Missing hash for index ${index} at height ${height}`)
+        }
+        nodes.push(leaf.duplicate === true ? '*' : leaf.hash ?? '')
+      }
+    }
+    return {
+      index,
+      txOrId: txid,
+      targetType: 'merkleRoot',
+      target: this.computeRoot(txid),
+      nodes
+    }
+  }
+
+  /**
+   * Converts the proof of one transaction of the MerklePath to a TSC merkle proof in binary form, which leads to the
+   * merkle root.
+   *
+   * @param {string} txid - The transaction ID to prove. If not provided, the first transaction of the path is proven.
+   * @returns {number[]} - The TSC merkle proof of the transaction in binary form.
+   */
+  toTSCBinary (txid?: string): number[] {
+    const writer = new Writer()
+    writeTSCProof(writer, this.toTSC(txid))
+    return writer.toArray()
+  }
+
+  /**
+   * Converts the proof of one transaction of the MerklePath to a merkle branch and the index of the transaction.
+   * Where the transaction's branch is paired with itself, the branch holds the hash of its own branch.
+   *
+   * @param {string} txid - The transaction ID to prove. If not provided, the first transaction of the path is proven.
+   * @returns {{ index: number, branch: string[] }} - The index of the transaction in its block and the hashes paired
+   *                                                  with it, from the bottom of the tree up.
+   */
+  toMerkleBranch (txid?: string): { index: number, branch: string[] } {
+    const { index, txOrId, nodes } = this.toTSC(txid)
+    let workingHash = txOrId
+    const branch = nodes.map((node, height) => {
+      const hash = node === '*' ? workingHash : node
+      workingHash = ((index >> height) & 1) === 0 ? merkleParent(workingHash, hash) : merkleParent(hash, workingHash)
+      return hash
+    })
+    return { index, branch }
+  }
+
+  /**
+   * Checks that the root computed for a txid is the expected merkle root, if there is one.
+   */
+  private verifyRoot (txid: string, merkleRoot: string | undefined): this {
+    if (merkleRoot !== undefined) {
+      const root = this.computeRoot(txid)
+      if (root !== merkleRoot) {
+        throw new Error(`The merkle root computed from the proof, ${root}, is not the expected root ${merkleRoot}.`)
+      }
+    }
+    return this
+  }
+
   //
   private indexOf (txid: string): number {
     const leaf = this.path[0].find((l) => l.hash === txid)
@@ -0,0 +1,25 @@
+import Spend from '../script/Spend.js'
+import { ScriptFailure } from './VerificationReport.js'
+
+/**
+ * The outcome of evaluating the scripts of a spend.
+ *
+ * @interface ScriptEvaluation
+ * @property {boolean} valid - Whether the unlocking script satisfied the locking script.
+ * @property {ScriptFailure} [failure] - Optional. Where evaluation failed, if it did.
+ */
+export interface ScriptEvaluation {
+  valid: boolean
+  failure?: ScriptFailure
+}
+
+/**
+ * Represents the interface for evaluating the scripts of a spend during transaction verification.
+ * This interface allows script evaluation, the most expensive part of verification, to be moved off the calling thread.
+ *
+ * @interface
+ * @property {function} evaluate - A function that takes an unevaluated Spend and resolves with the outcome of its evaluation.
+ */
+export default interface ScriptEvaluator {
+  evaluate: (spend: Spend) => Promise<ScriptEvaluation>
+}
@@ -10,11 +10,23 @@ import SatoshisPerKilobyte from './fee-models/SatoshisPerKilobyte.js'
 import { Broadcaster, BroadcastResponse, BroadcastFailure } from './Broadcaster.js'
 import MerklePath from './MerklePath.js'
 import Spend from '../script/Spend.js'
+import { ScriptVerifyFlags } from '../script/ScriptVerifyFlags.js'
 import ChainTracker from './ChainTracker.js'
 import { defaultBroadcaster } from './broadcasters/DefaultBroadcaster.js'
 import { defaultChainTracker } from './chaintrackers/DefaultChainTracker.js'
 import { Beef, BEEF_V1 } from './Beef.js'
 import P2PKH from '../script/templates/P2PKH.js'
+import UtxoSource, { FundingUtxo, FundingOptions } from './UtxoSource.js'
+import LargestFirst from './coin-selectors/LargestFirst.js'
+import {
+  VerificationReport,
+  VerificationOptions,
+  TransactionVerification,
+  InputVerification
+} from './VerificationReport.js'
+import ScriptEvaluator from './ScriptEvaluator.js'
+import LocalScriptEvaluator from './script-evaluators/LocalScriptEvaluator.js'
+import processQueue from './processQueue.js'
 
 /**
  * Represents a complete Bitcoin transaction. This class encapsulates all the details
@@ -238,7 +250,7 @@ export default class Transaction {
       const sourceTXID = toHex(br.readReverse(32))
       const sourceOutputIndex = br.readUInt32LE()
       const scriptLength = br.readVarIntNum()
-      const scriptBin = br.read(scriptLength)
+      const scriptBin = br.readView(scriptLength)
       const unlockingScript = UnlockingScript.fromBinary(scriptBin)
       const sequence = br.readUInt32LE()
       inputs.push({
@@ -253,7 +265,7 @@ export default class Transaction {
     for (let i = 0; i < outputsLength; i++) {
       const satoshis = br.readUInt64LEBn().toNumber()
       const scriptLength = br.readVarIntNum()
-      const scriptBin = br.read(scriptLength)
+      const scriptBin = br.readView(scriptLength)
       const lockingScript = LockingScript.fromBinary(scriptBin)
       outputs.push({
         satoshis,
@@ -268,10 +280,10 @@ export default class Transaction {
    * Creates a Transaction instance from a binary array.
    *
    * @static
-   * @param {number[]} bin - The binary array representation of the transaction.
+   * @param {number[] | Uint8Array} bin - The binary array or typed array representation of the transaction.
    * @returns {Transaction} - A new Transaction instance.
    */
-  static fromBinary (bin: number[]): Transaction {
+  static fromBinary (bin: number[] | Uint8Array): Transaction {
     const br = new Reader(bin)
     return Transaction.fromReader(br)
   }
@@ -404,6 +416,7 @@ export default class Transaction {
   /**
    * Computes fees prior to signing.
    * If no fee model is provided, uses a SatoshisPerKilobyte fee model that pays 10 sat/kb.
+   * To follow the current policy of a miner instead, provide an `ArcPolicyFeeModel`.
    * If fee is a number, the transaction uses that value as fee.
    *
    * @param modelOrFee - The initialized fee model to use or fixed fee for the transaction
@@ -434,13 +447,10 @@ export default class Transaction {
   private calculateChange (fee: number): number {
     let change = 0
     for (const input of this.inputs) {
-      if (typeof input.sourceTransaction !== 'object') {
-        throw new Error(
-          'Source transactions are required for all inputs during fee computation'
-        )
-      }
-      change +=
-        input.sourceTransaction.outputs[input.sourceOutputIndex].satoshis ?? 0
+      change += Transaction.sourceSatoshis(
+        input,
+        'Source transactions or sourceSatoshis are required for all inputs during fee computation'
+      )
     }
     change -= fee
     for (const out of this.outputs) {
@@ -523,13 +533,10 @@ export default class Transaction {
   getFee (): number {
     let totalIn = 0
     for (const input of this.inputs) {
-      if (typeof input.sourceTransaction !== 'object') {
-        throw new Error(
-          'Source transactions or sourceSatoshis are required for all inputs to calculate fee'
-        )
-      }
-      totalIn +=
-        input.sourceTransaction.outputs[input.sourceOutputIndex].satoshis ?? 0
+      totalIn += Transaction.sourceSatoshis(
+        input,
+        'Source transactions or sourceSatoshis are required for all inputs to calculate fee'
+      )
     }
     let totalOut = 0
     for (const output of this.outputs) {
@@ -538,6 +545,156 @@ export default class Transaction {
     return totalIn - totalOut
   }
 
+  /**
+   * Selects inputs from a UTXO source to cover the outputs of this transaction plus the fee, then computes change.
+   *
+   * Coin selection is repeated with an increased target until the fee estimate for the selected inputs settles.
+   * Change outputs whose computed amount falls below the dust limit are removed, and the change is distributed again among
+   * the others, or goes to the fee when none are left.
+   *
+   * @param utxoSource - The provider of spendable outputs, or an array of them.
+   * @param options - Fee model, coin selection strategy and change options. See `FundingOptions`.
+   * @returns The outputs which were selected and added as inputs.
+   * @throws {Error} - If the available outputs cannot cover the outputs and fee.
+   *
+   * @example
+   * await tx.fund(wallet, { changeLockingScript: new P2PKH().lock(changeAddress), selector: new BranchAndBound() })
+   * await tx.sign()
+   */
+  async fund (
+    utxoSource: UtxoSource | FundingUtxo[],
+    options: FundingOptions = {}
+  ): Promise<FundingUtxo[]> {
+    const feeModel = options.feeModel ?? new SatoshisPerKilobyte(10)
+    const selector = options.selector ?? new LargestFirst()
+    const dustLimit = options.dustLimit ?? 1
+    const maxIterations = options.maxIterations ?? 10
+    this.cachedHash = undefined
+
+    if (
+      options.changeLockingScript != null &&
+      !this.outputs.some((out) => out.change === true)
+    ) {
+      this.addOutput({ lockingScript: options.changeLockingScript, change: true })
+    }
+    const hasChange = this.outputs.some((out) => out.change === true)
+
+    let outputTotal = 0
+    for (const out of this.outputs) {
+      if (out.change !== true) outputTotal += out.satoshis ?? 0
+    }
+    let inputTotal = 0
+    const spent = new Set<string>()
+    for (const input of this.inputs) {
+      inputTotal += Transaction.sourceSatoshis(
+        input,
+        'Source transactions or sourceSatoshis are required for all inputs during fee computation'
+      )
+      spent.add(`${input.sourceTXID ?? input.sourceTransaction?.id('hex') ?? ''}.${input.sourceOutputIndex}`)
+    }
+
+    const listed = Array.isArray(utxoSource)
+      ? utxoSource
+      : await utxoSource.listUtxos(outputTotal - inputTotal)
+    const utxos = listed.filter((u) =>
+      !spent.has(`${u.sourceTXID ?? u.sourceTransaction?.id('hex')}.${u.sourceOutputIndex}`)
+    )
+
+    // Marginal costs are measured with the fee model itself, so any FeeModel can be used.
+    const withInputs = (selected: FundingUtxo[], outputs = this.outputs): Transaction =>
+      new Transaction(
+        this.version,
+        [...this.inputs, ...selected.map((u) => Transaction.inputFromUtxo(u))],
+        outputs,
+        this.lockTime
+      )
+    const baseFee = await feeModel.computeFee(withInputs([]))
+    const costPerInput = utxos.length > 0
+      ? (await feeModel.computeFee(withInputs([utxos[0]]))) - baseFee
+      : 0
+    const costOfChange = hasChange
+      ? baseFee - (await feeModel.computeFee(withInputs([], this.outputs.filter((out) => out.change !== true))))
+      : 0
+
+    let target = outputTotal + baseFee - inputTotal
+    let selected: FundingUtxo[] | undefined
+    let settled = false
+    for (let i = 0; i < maxIterations; i++) {
+      selected = target <= 0
+        ? []
+        : selector.select(utxos, { satoshis: target, costPerInput, costOfChange })
+      if (selected === undefined) {
+        const available = utxos.reduce((a, u) => a + u.satoshis, 0)
+        throw new Error(
+          `Insufficient funds: ${target} satoshis are required but only ${available} are available.`
+        )
+      }
+      const fee = await feeModel.computeFee(withInputs(selected))
+      const selectedTotal = selected.reduce((a, u) => a + u.satoshis, 0)
+      const shortfall = outputTotal + fee - inputTotal - selectedTotal
+      if (shortfall <= 0) {
+        settled = true
+        break
+      }
+      // The estimated cost of the selected inputs was too low, so select again for a larger amount.
+      target += shortfall
+    }
+    if (!settled || selected === undefined) {
+      throw new Error(
+        `The fee estimate did not settle after ${maxIterations} coin selection attempts.`
+      )
+    }
+
+    for (const utxo of selected) {
+      this.addInput(Transaction.inputFromUtxo(utxo))
+    }
+    if (hasChange) {
+      const changeDistribution = options.changeDistribution ?? 'equal'
+      const isDust = (out: TransactionOutput): boolean => out.change === true && (out.satoshis ?? 0) < dustLimit
+      await this.fee(feeModel, changeDistribution)
+      // Each pass removes at least one output, and the change is distributed again among those that remain.
+      while (this.outputs.some(isDust)) {
+        this.outputs = this.outputs.filter((out) => !isDust(out))
+        if (!this.outputs.some((out) => out.change === true)) break
+        await this.fee(feeModel, changeDistribution)
+      }
+    }
+    return selected
+  }
+
+  /**
+   * The amount of the output spent by an input, from its source transaction, or else its `sourceSatoshis`.
+   */
+  private static sourceSatoshis (input: TransactionInput, error: string): number {
+    if (typeof input.sourceTransaction === 'object') {
+      return input.sourceTransaction.outputs[input.sourceOutputIndex].satoshis ?? 0
+    }
+    if (typeof input.sourceSatoshis !== 'number') {
+      throw new Error(error)
+    }
+    return input.sourceSatoshis
+  }
+
+  private static inputFromUtxo (utxo: FundingUtxo): TransactionInput {
+    const input: TransactionInput = {
+      sourceTransaction: utxo.sourceTransaction,
+      sourceTXID: utxo.sourceTXID,
+      sourceOutputIndex: utxo.sourceOutputIndex,
+      unlockingScriptTemplate: utxo.unlockingScriptTemplate,
+      sequence: utxo.sequence ?? 0xffffffff
+    }
+    if (typeof utxo.sourceTransaction !== 'object') {
+      if (typeof utxo.sourceTXID !== 'string' || typeof utxo.lockingScript !== 'object') {
+        throw new Error(
+          'Funding UTXOs require either a sourceTransaction, or both a sourceTXID and a lockingScript.'
+        )
+      }
+      input.sourceSatoshis = utxo.satoshis
+      input.sourceLockingScript = utxo.lockingScript
+    }
+    return input
+  }
+
   /**
    * Signs a transaction, hydrating all its unlocking scripts based on the provided script templates where they are available.
    */
@@ -556,6 +713,10 @@ export default class Transaction {
         }
       }
     }
+    // Templates may change fields, such as the lock time, that every signature covers.
+    for (let i = 0, l = this.inputs.length; i < l; i++) {
+      this.inputs[i].unlockingScriptTemplate?.prepare?.(this, i)
+    }
     const unlockingScripts = await Promise.all(
       this.inputs.map(async (x, i): Promise<UnlockingScript | undefined> => {
         if (typeof this.inputs[i].unlockingScriptTemplate === 'object') {
@@ -591,6 +752,27 @@ export default class Transaction {
    */
   toBinary (): number[] {
     const writer = new Writer()
+    this.toWriter(writer)
+    return writer.toArray()
+  }
+
+  /**
+   * Converts the transaction to a typed array.
+   *
+   * @returns {Uint8Array} - The typed array representation of the transaction.
+   */
+  toUint8Array (): Uint8Array {
+    const writer = new Writer()
+    this.toWriter(writer)
+    return writer.toUint8Array()
+  }
+
+  /**
+   * Serializes the transaction to a writer.
+   *
+   * @param {Writer} writer - The writer to append the transaction to.
+   */
+  toWriter (writer: Writer): void {
     writer.writeUInt32LE(this.version)
     writer.writeVarIntNum(this.inputs.length)
     for (const i of this.inputs) {
@@ -607,7 +789,7 @@ export default class Transaction {
       if (i.unlockingScript == null) {
         throw new Error('unlockingScript is undefined')
       }
-      const scriptBin = i.unlockingScript.toBinary()
+      const scriptBin = i.unlockingScript.toUint8Array()
       writer.writeVarIntNum(scriptBin.length)
       writer.write(scriptBin)
       writer.writeUInt32LE(i.sequence ?? 0)
@@ -615,12 +797,11 @@ export default class Transaction {
     writer.writeVarIntNum(this.outputs.length)
     for (const o of this.outputs) {
       writer.writeUInt64LE(o.satoshis ?? 0)
-      const scriptBin = o.lockingScript.toBinary()
+      const scriptBin = o.lockingScript.toUint8Array()
       writer.writeVarIntNum(scriptBin.length)
       writer.write(scriptBin)
     }
     writer.writeUInt32LE(this.lockTime)
-    return writer.toArray()
   }
 
   /**
@@ -760,7 +941,11 @@ export default class Transaction {
   /**
    * Verifies the legitimacy of the Bitcoin transaction according to the rules of SPV by ensuring all the input transactions link back to valid block headers, the chain of spends for all inputs are valid, and the sum of inputs is not less than the sum of outputs.
    *
+   * Use `verifyDetailed` to find out why a transaction is not valid.
+   *
    * @param chainTracker - An instance of ChainTracker, a Bitcoin block header tracker. If the value is set to 'scripts only', headers will not be verified. If not provided then the default chain tracker will be used.
+   * @param feeModel - Optional. If provided, unmined transactions must pay at least the fee this model requires.
+   * @param options - Optional. Transactions known to be valid, how many transactions to verify at once, a progress callback, and where and with which rules scripts are evaluated.
    *
    * @returns Whether the transaction is valid according to the rules of SPV.
    *
@@ -768,122 +953,219 @@ export default class Transaction {
    */
   async verify (
     chainTracker: ChainTracker | 'scripts only' = defaultChainTracker(),
-    feeModel?: FeeModel
+    feeModel?: FeeModel,
+    options?: VerificationOptions
   ): Promise<boolean> {
-    const verifiedTxids = new Set<string>()
-    const txQueue: Transaction[] = [this]
+    const report = await this.verifyDetailed(chainTracker, feeModel, options)
+    return report.valid
+  }
 
-    while (txQueue.length > 0) {
-      const tx = txQueue.shift()
-      const txid = tx?.id('hex') ?? ''
-      if (txid != null && txid !== '' && verifiedTxids.has(txid)) {
-        continue
+  /**
+   * Verifies the transaction as `verify` does, reporting what was checked for every transaction in its ancestry and why verification failed.
+   *
+   * Each transaction with a merkle proof has the proof checked against the chain tracker. Transactions without a valid proof
+   * have every input evaluated with `Spend.validate`, their fee checked against the fee model, and their input and output amounts compared.
+   * Verification continues past failures so that every problem is reported.
+   *
+   * Independent branches of the ancestry are verified concurrently when `options.concurrency` is above 1, and script evaluation
+   * can be moved off the calling thread with `options.scriptEvaluator`. Transactions in `options.knownValidTxids` are skipped
+   * along with their ancestry, so a wallet can avoid verifying the same ancestors again.
+   *
+   * @param chainTracker - An instance of ChainTracker, a Bitcoin block header tracker. If the value is set to 'scripts only', headers will not be verified. If not provided then the default chain tracker will be used.
+   * @param feeModel - Optional. If provided, unmined transactions must pay at least the fee this model requires.
+   * @param options - Optional. Transactions known to be valid, how many transactions to verify at once, a progress callback, and where and with which rules scripts are evaluated.
+   *
+   * @returns A report of the verification of the transaction and its ancestors.
+   * @throws Error if the chain tracker or script evaluator fails.
+   *
+   * @example
+   * const report = await tx.verifyDetailed(new WhatsOnChain(), undefined, { knownValidTxids, concurrency: 8 })
+   * if (report.valid) {
+   *   report.transactions.forEach(t => knownValidTxids.add(t.txid))
+   * } else {
+   *   console.log(report.errors)
+   * }
+   */
+  async verifyDetailed (
+    chainTracker: ChainTracker | 'scripts only' = defaultChainTracker(),
+    feeModel?: FeeModel,
+    options: VerificationOptions = {}
+  ): Promise<VerificationReport> {
+    const scriptEvaluator = options.scriptEvaluator ?? new LocalScriptEvaluator()
+    const knownValidTxids = new Set(options.knownValidTxids ?? [])
+    const discoveredTxids = new Set<string>()
+    const discover = (tx: Transaction): boolean => {
+      const txid = tx.id('hex')
+      if (discoveredTxids.has(txid) || knownValidTxids.has(txid)) {
+        return false
       }
+      discoveredTxids.add(txid)
+      return true
+    }
 
-      // If the transaction has a valid merkle path, verification is complete.
-      if (typeof tx?.merklePath === 'object') {
-        if (chainTracker === 'scripts only') {
-          if (txid != null) {
-            verifiedTxids.add(txid)
-          }
-          continue
-        } else {
-          const proofValid = await tx.merklePath.verify(txid, chainTracker)
-          // If the proof is valid, no need to verify inputs.
-          if (proofValid) {
-            verifiedTxids.add(txid)
-            continue
-          }
+    const results: TransactionVerification[] = []
+    let verified = 0
+    await processQueue(discover(this) ? [this] : [], options.concurrency ?? 1, async (tx, enqueue) => {
+      const result: TransactionVerification = { txid: tx.id('hex'), valid: true, inputs: [], errors: [] }
+      results.push(result)
+      await Transaction.verifyAncestor(tx, result, chainTracker, feeModel, scriptEvaluator, options.scriptFlags, (source) => {
+        if (discover(source)) {
+          enqueue(source)
         }
-      }
+      })
+      verified++
+      options.onProgress?.({ verified, total: discoveredTxids.size, txid: result.txid })
+    })
 
-      // Verify fee if feeModel is provided
-      if (typeof feeModel !== 'undefined') {
-        if (tx === undefined) {
-          throw new Error('Transaction is undefined')
-        }
-        const cpTx = Transaction.fromEF(tx.toEF())
-        delete cpTx.outputs[0].satoshis
-        cpTx.outputs[0].change = true
-        await cpTx.fee(feeModel)
-        if (tx.getFee() < cpTx.getFee()) {
-          throw new Error(
-            `Verification failed because the transaction ${txid} has an insufficient fee and has not been mined.`
-          )
+    return {
+      valid: results.every((r) => r.valid),
+      transactions: results,
+      errors: results.flatMap((r) => r.errors)
+    }
+  }
+
+  /**
+   * Verifies one transaction of an ancestry into `result`, passing its source transactions to `discover`.
+   */
+  private static async verifyAncestor (
+    tx: Transaction,
+    result: TransactionVerification,
+    chainTracker: ChainTracker | 'scripts only',
+    feeModel: FeeModel | undefined,
+    scriptEvaluator: ScriptEvaluator,
+    scriptFlags: Partial<ScriptVerifyFlags> | undefined,
+    discover: (source: Transaction) => void
+  ): Promise<void> {
+    const txid = result.txid
+    const fail = (error: string): void => {
+      result.valid = false
+      result.errors.push(error)
+    }
+
+    // If the transaction has a valid merkle path, verification is complete.
+    if (typeof tx.merklePath === 'object') {
+      const blockHeight: number = tx.merklePath.blockHeight
+      if (chainTracker === 'scripts only') {
+        result.merkleProof = { blockHeight, valid: true, checked: false }
+        return
+      }
+      let root: string | undefined
+      try {
+        root = tx.merklePath.computeRoot(txid)
+      } catch (e) {
+        fail(`The merkle path of transaction ${txid} is invalid: ${(e as Error).message}`)
+      }
+      if (root !== undefined) {
+        const proofValid = await tx.merklePath.verify(txid, chainTracker)
+        result.merkleProof = { blockHeight, root, valid: proofValid, checked: true }
+        // If the proof is valid, no need to verify inputs.
+        if (proofValid) {
+          return
         }
       }
+    }
 
-      // Verify each input transaction and evaluate the spend events.
-      // Also, keep a total of the input amounts for later.
-      let inputTotal = 0
-      if (tx === undefined) {
-        throw new Error('Transaction is undefined')
+    // Verify each input transaction and evaluate the spend events.
+    // Also, keep a total of the input amounts for later.
+    let inputTotal = 0
+    let inputsComplete = true
+    const evaluations: Array<Promise<void>> = []
+    for (let i = 0; i < tx.inputs.length; i++) {
+      const input = tx.inputs[i]
+      const inputResult: InputVerification = {
+        index: i,
+        sourceTXID: input.sourceTXID ?? input.sourceTransaction?.id('hex'),
+        sourceOutputIndex: input.sourceOutputIndex,
+        scriptsRan: false,
+        valid: false
       }
-      for (let i = 0; i < tx.inputs.length; i++) {
-        const input = tx.inputs[i]
-        if (typeof input.sourceTransaction !== 'object') {
-          throw new Error(
-            `Verification failed because the input at index ${i} of transaction ${txid} is missing an associated source transaction. This source transaction is required for transaction verification because there is no merkle proof for the transaction spending a UTXO it contains.`
-          )
-        }
-        if (typeof input.unlockingScript !== 'object') {
-          throw new Error(
-            `Verification failed because the input at index ${i} of transaction ${txid} is missing an associated unlocking script. This script is required for transaction verification because there is no merkle proof for the transaction spending the UTXO.`
-          )
-        }
-        const sourceOutput =
-          input.sourceTransaction.outputs[input.sourceOutputIndex]
-        inputTotal += sourceOutput.satoshis ?? 0
+      result.inputs.push(inputResult)
+      if (typeof input.sourceTransaction !== 'object') {
+        inputsComplete = false
+        inputResult.error = `Verification failed because the input at index ${i} of transaction ${txid} is missing an associated source transaction. This source transaction is required for transaction verification because there is no merkle proof for the transaction spending a UTXO it contains.`
+        continue
+      }
+      if (typeof input.unlockingScript !== 'object') {
+        inputResult.error = `Verification failed because the input at index ${i} of transaction ${txid} is missing an associated unlocking script. This script is required for transaction verification because there is no merkle proof for the transaction spending the UTXO.`
+        continue
+      }
+      const sourceOutput =
+        input.sourceTransaction.outputs[input.sourceOutputIndex]
+      inputTotal += sourceOutput.satoshis ?? 0
 
-        const sourceTxid = input.sourceTransaction.id('hex')
-        if (!verifiedTxids.has(sourceTxid)) {
-          txQueue.push(input.sourceTransaction)
-        }
+      discover(input.sourceTransaction)
 
-        const otherInputs = tx.inputs.filter((_, idx) => idx !== i)
-        if (typeof input.sourceTXID === 'undefined') {
-          input.sourceTXID = sourceTxid
-        }
+      const otherInputs = tx.inputs.filter((_, idx) => idx !== i)
+      if (typeof input.sourceTXID === 'undefined') {
+        input.sourceTXID = input.sourceTransaction.id('hex')
+      }
 
-        const spend = new Spend({
-          sourceTXID: input.sourceTXID,
-          sourceOutputIndex: input.sourceOutputIndex,
-          lockingScript: sourceOutput.lockingScript,
-          sourceSatoshis: sourceOutput.satoshis ?? 0,
-          transactionVersion: tx.version,
-          otherInputs,
-          unlockingScript: input.unlockingScript,
-          inputSequence: input.sequence ?? 0,
-          inputIndex: i,
-          outputs: tx.outputs,
-          lockTime: tx.lockTime
+      const spend = new Spend({
+        sourceTXID: input.sourceTXID,
+        sourceOutputIndex: input.sourceOutputIndex,
+        lockingScript: sourceOutput.lockingScript,
+        sourceSatoshis: sourceOutput.satoshis ?? 0,
+        transactionVersion: tx.version,
+        otherInputs,
+        unlockingScript: input.unlockingScript,
+        inputSequence: input.sequence ?? 0,
+        inputIndex: i,
+        outputs: tx.outputs,
+        lockTime: tx.lockTime,
+        flags: scriptFlags
+      })
+      inputResult.scriptsRan = true
+      evaluations.push(
+        scriptEvaluator.evaluate(spend).then((evaluation) => {
+          inputResult.valid = evaluation.valid
+          if (evaluation.failure !== undefined) {
+            inputResult.scriptFailure = evaluation.failure
+          }
         })
-        const spendValid = spend.validate()
-
-        if (!spendValid) {
-          return false
-        }
+      )
+    }
+    // The inputs are evaluated at once, which lets a script evaluator spread them across threads.
+    await Promise.all(evaluations)
+    for (const inputResult of result.inputs) {
+      if (inputResult.error !== undefined) {
+        fail(inputResult.error)
+      } else if (!inputResult.valid) {
+        fail(`The scripts of input ${inputResult.index} of transaction ${txid} failed: ${inputResult.scriptFailure?.message ?? 'unknown error'}`)
       }
+    }
 
-      // Total the outputs to ensure they don't amount to more than the inputs
-      let outputTotal = 0
-      for (const out of tx.outputs) {
-        if (typeof out.satoshis !== 'number') {
-          throw new Error(
-            'Every output must have a defined amount during transaction verification.'
-          )
-        }
-        outputTotal += out.satoshis
+    // Verify fee if feeModel is provided
+    if (typeof feeModel !== 'undefined' && inputsComplete) {
+      const cpTx = Transaction.fromEF(tx.toEF())
+      delete cpTx.outputs[0].satoshis
+      cpTx.outputs[0].change = true
+      await cpTx.fee(feeModel)
+      result.fee = { paid: tx.getFee(), required: cpTx.getFee() }
+      if (result.fee.paid < result.fee.required) {
+        fail(
+          `Verification failed because the transaction ${txid} has an insufficient fee and has not been mined. It pays ${result.fee.paid} satoshis but ${result.fee.required} are required.`
+        )
       }
+    }
 
+    // Total the outputs to ensure they don't amount to more than the inputs
+    let outputTotal = 0
+    let outputsComplete = true
+    for (const out of tx.outputs) {
+      if (typeof out.satoshis !== 'number') {
+        outputsComplete = false
+        fail('Every output must have a defined amount during transaction verification.')
+        break
+      }
+      outputTotal += out.satoshis
+    }
+    if (inputsComplete && outputsComplete) {
+      result.satoshisIn = inputTotal
+      result.satoshisOut = outputTotal
       if (outputTotal > inputTotal) {
-        return false
+        fail(`The outputs of transaction ${txid} amount to ${outputTotal} satoshis, more than its inputs' ${inputTotal}.`)
       }
-
-      verifiedTxids.add(txid)
     }
-
-    return true
   }
 
   /**
@@ -1,4 +1,5 @@
 import UnlockingScript from '../script/UnlockingScript.js'
+import LockingScript from '../script/LockingScript.js'
 import Transaction from './Transaction.js'
 
 /**
@@ -13,6 +14,10 @@ import Transaction from './Transaction.js'
  * @property {string} [sourceTXID] - Optional. The transaction ID (TXID) of the source
  *           transaction. Required if the source transaction itself is not provided.
  *           This uniquely identifies the transaction within the blockchain.
+ * @property {number} [sourceSatoshis] - Optional. The amount of the output being spent, used
+ *           for fee computation and signing when the source transaction is not provided.
+ * @property {LockingScript} [sourceLockingScript] - Optional. The locking script of the output
+ *           being spent, used for signing when the source transaction is not provided.
  * @property {number} sourceOutputIndex - The index of the output in the source transaction
  *           that this input is spending. It is zero-based, indicating the position of the
  *           output in the array of outputs of the source transaction.
@@ -27,6 +32,8 @@ import Transaction from './Transaction.js'
  *              resolves to the UnlockingScript.
  *    @property {Function} unlockingScriptTemplate.estimateLength - A function that estimates
  *              the length of the unlocking script, given the transaction and the input index.
+ *    @property {Function} [unlockingScriptTemplate.prepare] - Optional. A function that adjusts the
+ *              transaction for this input, such as by setting its lock time, before any input is signed.
  * @property {number} sequence - A sequence number for the input. Used to enable
  *           updates to this input. If set to a non-final value (less than 0xFFFFFFFF),
  *           it indicates that the input may be replaced in the future.
@@ -53,11 +60,14 @@ import Transaction from './Transaction.js'
 export default interface TransactionInput {
   sourceTransaction?: Transaction
   sourceTXID?: string
+  sourceSatoshis?: number
+  sourceLockingScript?: LockingScript
   sourceOutputIndex: number
   unlockingScript?: UnlockingScript
   unlockingScriptTemplate?: {
     sign: (tx: Transaction, inputIndex: number) => Promise<UnlockingScript>
     estimateLength: (tx: Transaction, inputIndex: number) => Promise<number>
+    prepare?: (tx: Transaction, inputIndex: number) => void
   }
   sequence?: number
 }
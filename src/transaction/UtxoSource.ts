@@ -0,0 +1,69 @@
+import LockingScript from '../script/LockingScript.js'
+import Transaction from './Transaction.js'
+import TransactionInput from './TransactionInput.js'
+import FeeModel from './FeeModel.js'
+import CoinSelector from './CoinSelector.js'
+
+/**
+ * Describes a spendable output offered to `Transaction.fund` by a `UtxoSource`.
+ *
+ * Either `sourceTransaction` must be provided, or `sourceTXID` together with `lockingScript`.
+ * The `satoshis` value is always required so that coin selection does not need to parse source transactions.
+ *
+ * @interface FundingUtxo
+ * @property {Transaction} [sourceTransaction] - Optional. The transaction which created the output.
+ * @property {string} [sourceTXID] - Optional. The TXID of the transaction which created the output.
+ * @property {number} sourceOutputIndex - The index of the output within its transaction.
+ * @property {number} satoshis - The amount locked by the output.
+ * @property {LockingScript} [lockingScript] - Optional. The locking script of the output, required when no `sourceTransaction` is given.
+ * @property {Object} unlockingScriptTemplate - The template used to sign and estimate the unlocking script for this output.
+ * @property {number} [sequence] - Optional. The sequence number to use for the resulting input.
+ */
+export interface FundingUtxo {
+  sourceTransaction?: Transaction
+  sourceTXID?: string
+  sourceOutputIndex: number
+  satoshis: number
+  lockingScript?: LockingScript
+  unlockingScriptTemplate: NonNullable<TransactionInput['unlockingScriptTemplate']>
+  sequence?: number
+}
+
+/**
+ * Options controlling how `Transaction.fund` selects inputs and produces change.
+ *
+ * @interface FundingOptions
+ * @property {FeeModel} [feeModel] - Optional. The fee model used for every fee estimate. Defaults to 10 sat/kb.
+ * @property {CoinSelector} [selector] - Optional. The coin selection strategy. Defaults to `LargestFirst`.
+ * @property {LockingScript} [changeLockingScript] - Optional. If provided and the transaction has no change outputs, a change output with this script is added.
+ * @property {'equal' | 'random'} [changeDistribution] - Optional. How change is spread across change outputs. Defaults to 'equal'.
+ * @property {number} [dustLimit] - Optional. Change outputs below this many satoshis are dropped, and their value goes to the other change
+ *           outputs, or to the fee when there are none. Defaults to 1.
+ * @property {number} [maxIterations] - Optional. How many times selection may be repeated while the fee estimate settles. Defaults to 10.
+ */
+export interface FundingOptions {
+  feeModel?: FeeModel
+  selector?: CoinSelector
+  changeLockingScript?: LockingScript
+  changeDistribution?: 'equal' | 'random'
+  dustLimit?: number
+  maxIterations?: number
+}
+
+/**
+ * Represents a provider of spendable outputs which can be used to fund transactions.
+ *
+ * @interface
+ * @property {function} listUtxos - A function that returns the outputs currently available for spending.
+ *                                  The `targetSatoshis` hint allows providers to avoid returning their entire UTXO set.
+ *
+ * @example
+ * const utxoSource = {
+ *   listUtxos: async (targetSatoshis) => {
+ *     // Return spendable outputs, ideally totalling at least targetSatoshis.
+ *   }
+ * }
+ */
+export default interface UtxoSource {
+  listUtxos: (targetSatoshis: number) => Promise<FundingUtxo[]>
+}
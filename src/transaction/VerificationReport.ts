@@ -0,0 +1,137 @@
+import ScriptEvaluator from './ScriptEvaluator.js'
+import { ScriptVerifyFlags } from '../script/ScriptVerifyFlags.js'
+import { ScriptResource } from '../script/ScriptResourceExceededError.js'
+
+/**
+ * Where script evaluation of an input stopped, as captured from the failing `Spend`.
+ *
+ * @interface ScriptFailure
+ * @property {string} message - The script evaluation error.
+ * @property {'UnlockingScript' | 'LockingScript'} context - The script that was being evaluated.
+ * @property {number} programCounter - The index of the failing chunk within that script.
+ * @property {string} [operation] - Optional. The failing chunk in ASM form, absent if evaluation failed after the last chunk.
+ * @property {string[]} stack - The main stack at the time of the failure, as hex, with the top item last.
+ * @property {string[]} altStack - The alt stack at the time of the failure, as hex, with the top item last.
+ * @property {{ resource: ScriptResource, limit: number, used: number }} [resourceExceeded] - Optional. The resource whose limit was exceeded, if evaluation was aborted for using too much of one.
+ */
+export interface ScriptFailure {
+  message: string
+  context: 'UnlockingScript' | 'LockingScript'
+  programCounter: number
+  operation?: string
+  stack: string[]
+  altStack: string[]
+  resourceExceeded?: { resource: ScriptResource, limit: number, used: number }
+}
+
+/**
+ * The outcome of verifying one input of a transaction.
+ *
+ * @interface InputVerification
+ * @property {number} index - The index of the input.
+ * @property {string} [sourceTXID] - Optional. The TXID of the transaction whose output is spent, if known.
+ * @property {number} sourceOutputIndex - The index of the spent output.
+ * @property {boolean} scriptsRan - Whether the unlocking and locking scripts were evaluated with `Spend.validate`.
+ * @property {boolean} valid - Whether the input is valid.
+ * @property {string} [error] - Optional. Why the input could not be verified, such as a missing source transaction.
+ * @property {ScriptFailure} [scriptFailure] - Optional. Where script evaluation failed.
+ */
+export interface InputVerification {
+  index: number
+  sourceTXID?: string
+  sourceOutputIndex: number
+  scriptsRan: boolean
+  valid: boolean
+  error?: string
+  scriptFailure?: ScriptFailure
+}
+
+/**
+ * The outcome of checking a merkle proof against a chain tracker.
+ *
+ * @interface MerkleProofVerification
+ * @property {number} blockHeight - The height of the block the proof is for.
+ * @property {string} [root] - Optional. The merkle root computed from the proof, absent if the proof was not checked.
+ * @property {boolean} valid - Whether the chain tracker accepted the root, or true if headers were not checked.
+ * @property {boolean} checked - Whether the root was checked against a chain tracker.
+ */
+export interface MerkleProofVerification {
+  blockHeight: number
+  root?: string
+  valid: boolean
+  checked: boolean
+}
+
+/**
+ * The outcome of verifying one transaction.
+ *
+ * Transactions proven by a valid merkle proof have no input or amount details, since their inputs need not be verified.
+ *
+ * @interface TransactionVerification
+ * @property {string} txid - The TXID of the transaction.
+ * @property {boolean} valid - Whether the transaction is valid.
+ * @property {MerkleProofVerification} [merkleProof] - Optional. The merkle proof of the transaction, if it has one.
+ * @property {InputVerification[]} inputs - The outcome for each input that was verified.
+ * @property {number} [satoshisIn] - Optional. The total amount of the spent outputs.
+ * @property {number} [satoshisOut] - Optional. The total amount of the outputs.
+ * @property {{ paid: number, required: number }} [fee] - Optional. The fee paid and the fee required by the fee model, if one was given.
+ * @property {string[]} errors - Every reason the transaction is not valid.
+ */
+export interface TransactionVerification {
+  txid: string
+  valid: boolean
+  merkleProof?: MerkleProofVerification
+  inputs: InputVerification[]
+  satoshisIn?: number
+  satoshisOut?: number
+  fee?: { paid: number, required: number }
+  errors: string[]
+}
+
+/**
+ * A structured account of the verification of a transaction and its ancestry, or of a BEEF.
+ *
+ * @interface VerificationReport
+ * @property {boolean} valid - Whether verification succeeded.
+ * @property {TransactionVerification[]} transactions - The outcome for each transaction that was verified, in the order they were verified.
+ * @property {string[]} errors - Every reason verification failed, including those of the individual transactions.
+ */
+export interface VerificationReport {
+  valid: boolean
+  transactions: TransactionVerification[]
+  errors: string[]
+}
+
+/**
+ * How far a verification has got, as reported to `VerificationOptions.onProgress`.
+ *
+ * @interface VerificationProgress
+ * @property {number} verified - The number of transactions, or for a BEEF merkle roots, verified so far.
+ * @property {number} total - The number found to need verifying so far. This grows as a transaction's ancestry is discovered.
+ * @property {string} [txid] - Optional. The TXID of the transaction just verified.
+ * @property {number} [blockHeight] - Optional. The height of the block whose merkle root was just checked.
+ */
+export interface VerificationProgress {
+  verified: number
+  total: number
+  txid?: string
+  blockHeight?: number
+}
+
+/**
+ * Options for verifying transactions and BEEFs.
+ *
+ * @interface VerificationOptions
+ * @property {Iterable<string>} [knownValidTxids] - Optional. TXIDs of transactions already verified. These transactions, and their ancestry, are not verified again.
+ * @property {number} [concurrency] - Optional. How many transactions, or for a BEEF merkle roots, are verified at once. Defaults to 1.
+ * @property {function} [onProgress] - Optional. Called after each transaction, or for a BEEF merkle root, is verified.
+ * @property {ScriptEvaluator} [scriptEvaluator] - Optional. Evaluates the scripts of transaction inputs. Defaults to a `LocalScriptEvaluator`. Not used when verifying a BEEF.
+ * @property {Partial<ScriptVerifyFlags>} [scriptFlags] - Optional. The rules and limits scripts are evaluated with, such as `consensusScriptFlags`. Defaults to the standard policy. Not used when verifying a BEEF.
+ */
+export interface VerificationOptions {
+  knownValidTxids?: Iterable<string>
+  concurrency?: number
+  onProgress?: (progress: VerificationProgress) => void
+  scriptEvaluator?: ScriptEvaluator
+  scriptFlags?: Partial<ScriptVerifyFlags>
+}
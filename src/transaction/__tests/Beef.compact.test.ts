@@ -0,0 +1,126 @@
+/* eslint-env jest */
+import { Beef, BEEF_V1 } from '../../transaction/Beef'
+import Transaction from '../../transaction/Transaction'
+import MerklePath from '../../transaction/MerklePath'
+import LockingScript from '../../script/LockingScript'
+import UnlockingScript from '../../script/UnlockingScript'
+import { hash256 } from '../../primitives/Hash'
+import { toHex, toArray } from '../../primitives/utils'
+
+const hashPair = (left: string, right: string): string =>
+  toHex(hash256([...toArray(left, 'hex').reverse(), ...toArray(right, 'hex').reverse()]).reverse())
+
+/**
+ * The merkle path of the txid at `index` in a block of `txids`, with every sibling hash on the way to the root.
+ */
+const merklePathOf = (blockHeight: number, txids: string[], index: number): MerklePath => {
+  const path: MerklePath['path'] = []
+  let level = txids
+  let offset = index
+  while (level.length > 1) {
+    const leaves: MerklePath['path'][number] = []
+    if (path.length === 0) {
+      leaves.push({ offset, hash: level[offset], txid: true })
+    }
+    const sibling = offset ^ 1
+    leaves.push(sibling < level.length ? { offset: sibling, hash: level[sibling] } : { offset: sibling, duplicate: true })
+    path.push(leaves.sort((a, b) => a.offset - b.offset))
+    const next: string[] = []
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(hashPair(level[i], level[i + 1] ?? level[i]))
+    }
+    level = next
+    offset >>= 1
+  }
+  return new MerklePath(blockHeight, path)
+}
+
+const spending = (sourceTXIDs: string[], lockTime: number): Transaction => new Transaction(
+  1,
+  sourceTXIDs.map((sourceTXID) => ({ sourceTXID, sourceOutputIndex: 0, unlockingScript: new UnlockingScript(), sequence: 0xffffffff })),
+  [{ lockingScript: LockingScript.fromASM('OP_TRUE'), satoshis: 1000 }],
+  lockTime
+)
+
+const filler = (n: number): string => toHex(hash256([n]))
+
+describe('Beef.compact', () => {
+  // The grandparent is mined in block 50, the parent and an unrelated transaction in block 100, and the child is unmined.
+  const grandparent = spending([filler(0)], 1)
+  const parent = spending([grandparent.id('hex')], 2)
+  const other = spending([filler(1)], 3)
+  const child = spending([parent.id('hex'), other.id('hex')], 4)
+  const block50 = [filler(2), grandparent.id('hex')]
+  const block100 = [filler(3), parent.id('hex'), filler(4), filler(5), other.id('hex'), filler(6), filler(7)]
+
+  const makeBeef = (version?: number): Beef => {
+    const beef = new Beef(version)
+    beef.bumps.push(merklePathOf(50, block50, 1), merklePathOf(100, block100, 1), merklePathOf(100, block100, 4))
+    // Leaves that can be computed from others only take up space.
+    beef.bumps[1].path[1].push({ offset: 0, hash: hashPair(block100[0], block100[1]) })
+    beef.mergeRawTx(grandparent.toBinary(), 0)
+    beef.mergeRawTx(parent.toBinary(), 1)
+    beef.mergeRawTx(other.toBinary(), 2)
+    beef.mergeRawTx(child.toBinary())
+    return beef
+  }
+
+  it('Removes ancestors of proven transactions and merges the BUMPs of a block', () => {
+    const beef = makeBeef()
+    expect(beef.isValid()).toBe(true)
+    const before = beef.toBinary().length
+    const root = beef.bumps[1].computeRoot()
+
+    const report = beef.compact()
+    expect(report.removedTxids).toEqual([grandparent.id('hex')])
+    expect(report.txidOnlyTxids).toEqual([])
+    expect(report.bumpsRemoved).toBe(2)
+    expect(report.bytesBefore).toBe(before)
+    expect(report.bytesAfter).toBe(beef.toBinary().length)
+    expect(report.bytesSaved).toBe(report.bytesBefore - report.bytesAfter)
+    expect(report.bytesSaved).toBeGreaterThan(grandparent.toBinary().length)
+
+    expect(beef.isValid()).toBe(true)
+    expect(beef.txs.map((btx) => btx.txid)).toEqual([parent.id('hex'), other.id('hex'), child.id('hex')])
+    expect(beef.bumps).toHaveLength(1)
+    expect(beef.bumps[0].computeRoot(parent.id('hex'))).toBe(root)
+    expect(beef.bumps[0].computeRoot(other.id('hex'))).toBe(root)
+    // The parent and the other transaction both prove the node above the parent at height 2.
+    expect(beef.bumps[0].path.map((level) => level.map((leaf) => leaf.offset))).toEqual([[0, 1, 4, 5], [1, 3], []])
+
+    // A compact BEEF stays as it is.
+    expect(Beef.fromBinary(beef.toBinary()).compact().bytesSaved).toBe(0)
+  })
+
+  it('Replaces proven ancestors the recipient knows by their txids', () => {
+    const beef = makeBeef()
+    const report = beef.compact([parent.id('hex'), child.id('hex')])
+    expect(report.txidOnlyTxids).toEqual([parent.id('hex')])
+    expect(beef.findTxid(parent.id('hex'))?.isTxidOnly).toBe(true)
+    // The child is kept in full, as it is what the BEEF is for.
+    expect(beef.findTxid(child.id('hex'))?.isTxidOnly).toBe(false)
+    expect(beef.bumps[0].path[0].filter((leaf) => leaf.txid === true).map((leaf) => leaf.hash)).toEqual([other.id('hex')])
+    expect(beef.isValid()).toBe(false)
+    expect(beef.isValid(true)).toBe(true)
+
+    // BEEF V1 cannot include transactions by txid only.
+    const v1 = makeBeef(BEEF_V1)
+    expect(v1.compact([parent.id('hex')]).txidOnlyTxids).toEqual([])
+    expect(v1.isValid()).toBe(true)
+  })
+
+  it('Keeps only the ancestors of the atomic transaction', () => {
+    const beef = makeBeef()
+    beef.atomicTxid = other.id('hex')
+    expect(beef.compact().removedTxids).toEqual([grandparent.id('hex'), parent.id('hex'), child.id('hex')])
+    expect(beef.txs.map((btx) => btx.txid)).toEqual([other.id('hex')])
+    expect(beef.bumps[0].path[0].map((leaf) => leaf.offset)).toEqual([4, 5])
+  })
+
+  it('Leaves the original of a clone as it was', () => {
+    const beef = makeBeef()
+    const hex = beef.toHex()
+    beef.clone().compact([parent.id('hex')])
+    expect(beef.toHex()).toBe(hex)
+  })
+})
@@ -432,6 +432,72 @@ describe('Beef tests', () => {
     expect(valid).toBe(false)
   })
 
+  test('12_verifyDetailed', async () => {
+    {
+      const beef = Beef.fromString(beefs[0])
+      beef.mergeTransaction(Transaction.fromHex(txs[0]))
+      const report = await beef.verifyDetailed(chainTracker)
+      expect(report.valid).toBe(true)
+      expect(report.errors).toEqual([])
+      expect(report.transactions.map(t => t.txid)).toEqual(beef.txs.map(t => t.txid))
+      const proven = report.transactions.find(t => t.merkleProof !== undefined)
+      expect(proven?.merkleProof).toEqual({
+        blockHeight: beef.bumps[0].blockHeight,
+        root: expect.any(String),
+        valid: true,
+        checked: true
+      })
+
+      // Structurally valid, but with a root the chain tracker rejects.
+      beef.bumps[0].path[1][0].hash =
+        'ffffdb404ec59871c8e2b00e41d8090d28a0d8a190d44606e895dd0d013bca00'
+      const rejected = await beef.verifyDetailed(chainTracker)
+      expect(rejected.valid).toBe(false)
+      expect(rejected.errors).toEqual([expect.stringContaining(`not valid for block ${beef.bumps[0].blockHeight}`)])
+      expect(rejected.transactions.find(t => t.merkleProof !== undefined)?.merkleProof?.valid).toBe(false)
+      expect(await beef.verify(chainTracker)).toBe(false)
+    }
+    {
+      const beef = new Beef()
+      beef.mergeTxidOnly('a')
+      const btx = beef.mergeTxidOnly('b')
+      btx.inputTxids = ['c']
+      const report = await beef.verifyDetailed(chainTracker)
+      expect(report.valid).toBe(false)
+      expect(report.errors).toContain('Input transaction c is missing.')
+      const b = report.transactions.find(t => t.txid === 'b')
+      expect(b?.valid).toBe(false)
+      expect(b?.errors).toContain('Transaction b spends an input transaction that is missing.')
+      const a = report.transactions.find(t => t.txid === 'a')
+      expect(a?.errors).toEqual(['Transaction a is included by txid only.'])
+      expect((await beef.verifyDetailed(chainTracker, true)).transactions.find(t => t.txid === 'a')?.valid).toBe(true)
+    }
+  })
+
+  test('13_verify incrementally', async () => {
+    const beef = Beef.fromString(beefs[0])
+    beef.mergeTransaction(Transaction.fromHex(txs[0]))
+    const isValidRootForHeight = jest.fn(chainTracker.isValidRootForHeight)
+    const tracker = { ...chainTracker, isValidRootForHeight }
+    const progress: Array<{ verified: number, total: number, blockHeight?: number }> = []
+    expect(await beef.verify(tracker, undefined, { onProgress: (p) => progress.push(p), concurrency: 4 })).toBe(true)
+    expect(progress).toEqual([{ verified: 1, total: 1, blockHeight: beef.bumps[0].blockHeight }])
+    expect(isValidRootForHeight).toHaveBeenCalledTimes(1)
+
+    // Once the proven transactions are known to be valid, their roots are not checked again.
+    const knownValidTxids = beef.bumps[0].path[0].filter(n => n.txid === true).map(n => n.hash as string)
+    const report = await beef.verifyDetailed(tracker, undefined, { knownValidTxids })
+    expect(report.valid).toBe(true)
+    expect(report.transactions.find(t => t.merkleProof !== undefined)?.merkleProof?.checked).toBe(false)
+    expect(isValidRootForHeight).toHaveBeenCalledTimes(1)
+
+    // Known transactions are accepted as txid only.
+    const txidOnly = new Beef()
+    txidOnly.mergeTxidOnly('a')
+    expect(await txidOnly.verify(tracker)).toBe(false)
+    expect(await txidOnly.verify(tracker, undefined, { knownValidTxids: ['a'] })).toBe(true)
+  })
+
 })
 
 const b58Beef10 =
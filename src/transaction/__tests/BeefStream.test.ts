@@ -0,0 +1,156 @@
+/* eslint-env jest */
+import { Beef, BEEF_V1 } from '../../transaction/Beef'
+import { BeefStreamParser, BeefStreamWriter, BeefStreamEvent } from '../../transaction/BeefStream'
+import Transaction from '../../transaction/Transaction'
+import MerklePath from '../../transaction/MerklePath'
+import LockingScript from '../../script/LockingScript'
+import UnlockingScript from '../../script/UnlockingScript'
+import { hash256 } from '../../primitives/Hash'
+import { toHex } from '../../primitives/utils'
+
+describe('BeefStream', () => {
+  // A mined transaction, spent by a chain of unmined ones with scripts of increasing size.
+  const makeBeef = (version?: number): Beef => {
+    const mined = new Transaction(1, [{
+      sourceTXID: toHex(hash256([1])),
+      sourceOutputIndex: 0,
+      unlockingScript: new UnlockingScript(),
+      sequence: 0xffffffff
+    }], [{ lockingScript: LockingScript.fromASM('OP_TRUE'), satoshis: 100000 }], 0)
+    mined.merklePath = new MerklePath(100, [
+      [{ offset: 0, hash: toHex(hash256([2])) }, { offset: 1, hash: mined.id('hex'), txid: true }],
+      [{ offset: 1, hash: toHex(hash256([3])) }]
+    ])
+    let tx = mined
+    for (let i = 0; i < 20; i++) {
+      tx = new Transaction(1, [{
+        sourceTransaction: tx,
+        sourceOutputIndex: 0,
+        unlockingScript: new UnlockingScript([{ op: 76, data: new Array(i * 10).fill(i) }]),
+        sequence: 0xffffffff
+      }], [{ lockingScript: LockingScript.fromASM('OP_TRUE'), satoshis: 100000 - i }], i)
+    }
+    const beef = new Beef(version)
+    beef.mergeTransaction(tx)
+    beef.mergeTxidOnly(toHex(hash256([4])))
+    return beef
+  }
+
+  // Splits bytes into chunks of varying sizes, so that items are split at every kind of boundary.
+  const split = (bytes: number[], sizes: number[]): Uint8Array[] => {
+    const chunks: Uint8Array[] = []
+    for (let i = 0, j = 0; i < bytes.length; j++) {
+      const size = sizes[j % sizes.length]
+      chunks.push(Uint8Array.from(bytes.slice(i, i + size)))
+      i += size
+    }
+    return chunks
+  }
+
+  it('Decodes BEEF V1 and V2 from chunks of any size', async () => {
+    for (const version of [BEEF_V1, undefined]) {
+      const beef = makeBeef(version)
+      if (version === BEEF_V1) beef.txs = beef.txs.filter((btx) => !btx.isTxidOnly)
+      const bytes = beef.toBinary()
+      for (const sizes of [[1], [3, 7, 1], [1000], [bytes.length]]) {
+        const decoded = await BeefStreamParser.toBeef(split(bytes, sizes))
+        expect(decoded.toHex()).toBe(beef.toHex())
+        expect(decoded.isValid(true)).toBe(true)
+      }
+    }
+  })
+
+  it('Emits the header, BUMPs and transactions as they are completed', () => {
+    const beef = makeBeef()
+    const bytes = beef.toBinary()
+    const parser = new BeefStreamParser()
+    const events: BeefStreamEvent[] = []
+    // The first 5 bytes complete the header and the count of BUMPs, but not the BUMP.
+    expect(parser.push(bytes.slice(0, 5))).toEqual([{ type: 'header', version: beef.version }])
+    events.push(...parser.push(bytes.slice(5, 200)))
+    expect(events[0]).toEqual({ type: 'bump', index: 0, bump: beef.bumps[0] })
+    expect(events.length).toBeLessThan(beef.txs.length)
+    expect(parser.done).toBe(false)
+    expect(() => parser.end()).toThrow('The BEEF ended before all of its BUMPs and transactions were received.')
+    events.push(...parser.push(bytes.slice(200)))
+    expect(parser.done).toBe(true)
+    parser.end()
+    const txEvents = events.filter((e) => e.type === 'tx')
+    expect(txEvents.map((e) => e.type === 'tx' ? e.beefTx.txid : '')).toEqual(beef.txs.map((btx) => btx.txid))
+    expect(txEvents.map((e) => e.type === 'tx' ? e.index : -1)).toEqual(beef.txs.map((_, i) => i))
+    expect(() => parser.push([0])).toThrow('Unexpected data after the end of the BEEF.')
+  })
+
+  it('Encodes chunks that join into the serialized BEEF, and decode back', async () => {
+    const beef = makeBeef()
+    const chunks = Array.from(new BeefStreamWriter(beef).chunks())
+    expect(chunks).toHaveLength(1 + beef.bumps.length + 1 + beef.txs.length)
+    expect(chunks.flatMap((chunk) => Array.from(chunk))).toEqual(beef.toBinary())
+
+    const written: Uint8Array[] = []
+    const bytes = await new BeefStreamWriter(beef).write(async (chunk) => { written.push(chunk) })
+    expect(bytes).toBe(beef.toBinary().length)
+
+    async function * slowly (): AsyncGenerator<Uint8Array> {
+      for (const chunk of written) {
+        await new Promise((resolve) => setTimeout(resolve, 0))
+        yield chunk
+      }
+    }
+    expect((await BeefStreamParser.toBeef(slowly())).toHex()).toBe(beef.toHex())
+  })
+
+  it('Encodes and decodes Atomic BEEF', async () => {
+    const beef = makeBeef()
+    beef.sortTxs()
+    const txid = beef.txs[beef.txs.length - 2].txid
+    const chunks = Array.from(new BeefStreamWriter(beef, txid).chunks())
+    expect(chunks.flatMap((chunk) => Array.from(chunk))).toEqual(beef.toBinaryAtomic(txid))
+
+    const events: BeefStreamEvent[] = []
+    for await (const event of BeefStreamParser.parse(chunks)) {
+      events.push(event)
+    }
+    expect(events[0]).toEqual({ type: 'header', version: beef.version, atomicTxid: txid })
+    const decoded = await BeefStreamParser.toBeef(chunks)
+    expect(decoded.atomicTxid).toBe(txid)
+    expect(decoded.txs[decoded.txs.length - 1].txid).toBe(txid)
+    expect(() => Array.from(new BeefStreamWriter(beef, '00'.repeat(32)).chunks())).toThrow('does not exist in this Beef')
+  })
+
+  it('Decodes a large transaction received a byte at a time in linear time', () => {
+    const tx = new Transaction(1, [{
+      sourceTXID: toHex(hash256([1])),
+      sourceOutputIndex: 0,
+      unlockingScript: new UnlockingScript([{ op: 78, data: new Array(200000).fill(1) }]),
+      sequence: 0xffffffff
+    }], [{ lockingScript: LockingScript.fromASM('OP_TRUE'), satoshis: 1 }], 0)
+    const beef = new Beef()
+    beef.mergeTransaction(tx)
+    const bytes = Uint8Array.from(beef.toBinary())
+    const parser = new BeefStreamParser()
+    const events: BeefStreamEvent[] = []
+    const start = Date.now()
+    for (let i = 0; i < bytes.length; i++) {
+      events.push(...parser.push(bytes.subarray(i, i + 1)))
+    }
+    expect(Date.now() - start).toBeLessThan(5000)
+    parser.end()
+    expect(events.map((e) => e.type === 'tx' ? e.beefTx.txid : e.type)).toEqual(['header', tx.id('hex')])
+  })
+
+  it('Leaves the order of the transactions of an encoded Beef as it is', () => {
+    const beef = makeBeef()
+    beef.txs.reverse()
+    const order = beef.txs.map((btx) => btx.txid)
+    const chunks = Array.from(new BeefStreamWriter(beef, order[1]).chunks())
+    expect(beef.txs.map((btx) => btx.txid)).toEqual(order)
+    expect(chunks.flatMap((chunk) => Array.from(chunk))).toEqual(beef.clone().toBinaryAtomic(order[1]))
+  })
+
+  it('Rejects data that is not a BEEF, or ends early', async () => {
+    expect(() => new BeefStreamParser().push([1, 2, 3, 4, 5])).toThrow('Serialized BEEF must start with')
+    const bytes = makeBeef().toBinary()
+    await expect(BeefStreamParser.toBeef([Uint8Array.from(bytes.slice(0, -1))])).rejects.toThrow('The BEEF ended before')
+  })
+})
@@ -2,6 +2,11 @@ import ChainTracker from '../ChainTracker'
 import MerklePath from '../../transaction/MerklePath'
 import invalidBumps from './bump.invalid.vectors'
 import validBumps from './bump.valid.vectors'
+import Transaction from '../../transaction/Transaction'
+import LockingScript from '../../script/LockingScript'
+import { hash256 } from '../../primitives/Hash'
+import { toHex, toArray } from '../../primitives/utils'
+import { serializeBlockHeader } from '../../transaction/chaintrackers/BlockHeader'
 
 const BRC74Hex =
   'fe8a6a0c000c04fde80b0011774f01d26412f0d16ea3f0447be0b5ebec67b0782e321a7a01cbdf7f734e30fde90b02004e53753e3fe4667073063a17987292cfdea278824e9888e52180581d7188d8fdea0b025e441996fc53f0191d649e68a200e752fb5f39e0d5617083408fa179ddc5c998fdeb0b0102fdf405000671394f72237d08a4277f4435e5b6edf7adc272f25effef27cdfe805ce71a81fdf50500262bccabec6c4af3ed00cc7a7414edea9c5efa92fb8623dd6160a001450a528201fdfb020101fd7c010093b3efca9b77ddec914f8effac691ecb54e2c81d0ab81cbc4c4b93befe418e8501bf01015e005881826eb6973c54003a02118fe270f03d46d02681c8bc71cd44c613e86302f8012e00e07a2bb8bb75e5accff266022e1e5e6e7b4d6d943a04faadcf2ab4a22f796ff30116008120cafa17309c0bb0e0ffce835286b3a2dcae48e4497ae2d2b7ced4f051507d010a00502e59ac92f46543c23006bff855d96f5e648043f0fb87a7a5949e6a9bebae430104001ccd9f8f64f4d0489b30cc815351cf425e0e78ad79a589350e4341ac165dbe45010301010000af8764ce7e1cc132ab5ed2229a005c87201c9a5ee15c0f91dd53eff31ab30cd4'
@@ -216,6 +221,163 @@ describe('MerklePath', () => {
       'd5377a7aba0c0e0dbaef230f8917217b453484c83579e11a14c8299faa57ef02'
     )
   })
+  describe('fromBlockTxids', () => {
+    const txidsOf = (n: number): string[] => Array.from({ length: n }, (_, i) => toHex(hash256([n, i])))
+    const parent = (left: string, right: string): string =>
+      toHex(hash256([...toArray(left, 'hex').reverse(), ...toArray(right, 'hex').reverse()]).reverse())
+    const rootOf = (txids: string[]): string => {
+      let level = txids
+      while (level.length > 1) {
+        const next: string[] = []
+        for (let i = 0; i < level.length; i += 2) next.push(parent(level[i], level[i + 1] ?? level[i]))
+        level = next
+      }
+      return level[0]
+    }
+
+    it('Proves each transaction of blocks of any size', () => {
+      for (const n of [1, 2, 3, 4, 5, 6, 7, 9, 16, 17]) {
+        const txids = txidsOf(n)
+        const root = rootOf(txids)
+        for (const txid of txids) {
+          const path = MerklePath.fromBlockTxids(100, txids, [txid])
+          expect(path.blockHeight).toBe(100)
+          expect(path.computeRoot(txid)).toBe(root)
+          expect(path.path).toHaveLength(Math.max(1, Math.ceil(Math.log2(n))))
+          // One sibling at each level, and the txid itself.
+          expect(path.path.map((level) => level.length)).toEqual(path.path.map((_, h) => h === 0 && n > 1 ? 2 : 1))
+        }
+      }
+    })
+
+    it('Pairs the last node of a level with an odd number of nodes with itself', () => {
+      const txids = txidsOf(5)
+      const path = MerklePath.fromBlockTxids(100, txids, [txids[4]])
+      expect(path.path).toEqual([
+        [{ offset: 4, hash: txids[4], txid: true }, { offset: 5, duplicate: true }],
+        [{ offset: 3, duplicate: true }],
+        [{ offset: 0, hash: rootOf(txids.slice(0, 4)) }]
+      ])
+      expect(path.computeRoot()).toBe(rootOf(txids))
+    })
+
+    it('Proves several transactions without the nodes that can be computed', () => {
+      const txids = txidsOf(17)
+      const targets = [txids[2], txids[3], txids[9], txids[16]]
+      const path = MerklePath.fromBlockTxids(200, txids, targets)
+      for (const txid of targets) {
+        expect(path.computeRoot(txid)).toBe(rootOf(txids))
+      }
+      const combined = MerklePath.fromBlockTxids(200, txids, [targets[0]])
+      for (const txid of targets.slice(1)) {
+        combined.combine(MerklePath.fromBlockTxids(200, txids, [txid]))
+      }
+      expect(path.toHex()).toBe(combined.toHex())
+      expect(path.path[0].map((leaf) => leaf.offset)).toEqual([2, 3, 8, 9, 16, 17])
+      expect(path.path[1].map((leaf) => leaf.offset)).toEqual([0, 5, 9])
+    })
+
+    it('Rejects targets that are not in the block', () => {
+      const txids = txidsOf(4)
+      expect(() => MerklePath.fromBlockTxids(100, txids, [])).toThrow('At least one target txid is required.')
+      expect(() => MerklePath.fromBlockTxids(100, txids, [txidsOf(5)[0]])).toThrow('is not in the block')
+    })
+  })
+
+  describe('TSC merkle proofs', () => {
+    it('Exports the proof of a transaction and imports it again', () => {
+      const path = MerklePath.fromHex(BRC74Hex)
+      for (const leaf of path.path[0].filter((l) => l.txid === true)) {
+        const hash = leaf.hash as string
+        const proof = path.toTSC(hash)
+        expect(proof.index).toBe(leaf.offset)
+        expect(proof.txOrId).toBe(hash)
+        expect(proof.targetType).toBe('merkleRoot')
+        expect(proof.target).toBe(path.computeRoot(hash))
+        expect(proof.nodes).toHaveLength(path.path.length)
+        const imported = MerklePath.fromTSC(proof, path.blockHeight)
+        expect(imported.blockHeight).toBe(path.blockHeight)
+        expect(imported.computeRoot(hash)).toBe(path.computeRoot(hash))
+        expect(imported.toTSC(hash)).toEqual(proof)
+      }
+      expect(path.toTSC().txOrId).toBe(BRC74JSON.path[0][1].hash)
+      // The level with offset 763 pairs the branch of the transactions with itself.
+      expect(path.toTSC(BRC74JSON.path[0][1].hash).nodes[2]).toBe('*')
+    })
+
+    it('Imports proofs of serialized transactions and single transaction blocks', () => {
+      const tx = new Transaction(1, [], [{ lockingScript: LockingScript.fromASM('OP_TRUE'), satoshis: 1 }], 0)
+      const path = MerklePath.fromTSC({ index: 0, txOrId: tx.toHex(), target: 'ff'.repeat(32), nodes: [] }, 7)
+      expect(path.path).toEqual([[{ offset: 0, hash: tx.id('hex'), txid: true }]])
+      expect(path.toTSC().nodes).toEqual([])
+      expect(path.toTSC().target).toBe(tx.id('hex'))
+      expect(() => MerklePath.fromTSC({ index: 0, txOrId: tx.id('hex'), target: '', nodes: [], composite: true }, 7))
+        .toThrow('Only TSC merkle proofs of a single branch are supported.')
+    })
+
+    it('Checks the root computed from a proof against its target', () => {
+      const path = MerklePath.fromHex(BRC74Hex)
+      const txid = BRC74JSON.path[0][2].hash
+      const proof = path.toTSC(txid)
+      const root = proof.target
+      const header = toHex(serializeBlockHeader({ version: 1, previousHash: '00'.repeat(32), merkleRoot: root, time: 0, bits: 0, nonce: 0 }))
+      expect(MerklePath.fromTSC({ ...proof, targetType: 'header', target: header }, 813706).computeRoot(txid)).toBe(root)
+      expect(MerklePath.fromTSC({ ...proof, targetType: 'hash', target: 'ab'.repeat(32) }, 813706, root).computeRoot(txid)).toBe(root)
+      // A block hash cannot be checked without the merkle root of its block.
+      expect(() => MerklePath.fromTSC({ ...proof, targetType: 'hash', target: 'ab'.repeat(32) }, 813706)).not.toThrow()
+      expect(() => MerklePath.fromTSC({ ...proof, target: 'ab'.repeat(32) }, 813706)).toThrow('is not the expected root')
+      expect(() => MerklePath.fromTSC({ ...proof, nodes: [...proof.nodes].reverse() }, 813706)).toThrow('is not the expected root')
+    })
+
+    it('Converts proofs to and from binary', () => {
+      const path = MerklePath.fromHex(BRC74Hex)
+      const txid = BRC74JSON.path[0][1].hash
+      const bin = path.toTSCBinary(txid)
+      const proof = path.toTSC(txid)
+      // Flags for a txid leading to a merkle root, then the index, txid and root in internal byte order.
+      expect(bin.slice(0, 4)).toEqual([0x04, 0xfd, 0xe9, 0x0b])
+      expect(toHex(bin.slice(4, 36))).toBe(toHex(toArray(txid, 'hex').reverse()))
+      expect(toHex(bin.slice(36, 68))).toBe(toHex(toArray(proof.target, 'hex').reverse()))
+      expect(bin.slice(68, 69)).toEqual([proof.nodes.length])
+      // Each hash takes 33 bytes and each duplicate one.
+      expect(bin).toHaveLength(69 + proof.nodes.reduce((length, node) => length + (node === '*' ? 1 : 33), 0))
+      const imported = MerklePath.fromTSCBinary(Uint8Array.from(bin), 813706)
+      expect(imported.toTSC(txid)).toEqual(proof)
+      expect(MerklePath.fromTSCBinary(bin, 813706).toTSCBinary()).toEqual(bin)
+
+      const tx = new Transaction(1, [], [{ lockingScript: LockingScript.fromASM('OP_TRUE'), satoshis: 1 }], 0)
+      const withTx = MerklePath.fromTSC({ index: 0, txOrId: tx.toHex(), target: tx.id('hex'), targetType: 'merkleRoot', nodes: [] }, 7)
+      expect(withTx.toTSC().txOrId).toBe(tx.id('hex'))
+      expect(() => MerklePath.fromTSCBinary(bin.slice(0, 100), 813706)).toThrow('The TSC merkle proof is incomplete.')
+    })
+  })
+
+  describe('merkle branches', () => {
+    it('Converts proofs to and from a branch and index', () => {
+      const path = MerklePath.fromHex(BRC74Hex)
+      for (const leaf of path.path[0].filter((l) => l.txid === true)) {
+        const txid = leaf.hash as string
+        const root = path.computeRoot(txid)
+        const { index, branch } = path.toMerkleBranch(txid)
+        expect(index).toBe(leaf.offset)
+        expect(branch).toHaveLength(path.path.length)
+        expect(branch).not.toContain('*')
+        const imported = MerklePath.fromMerkleBranch(813706, txid, index, branch, root)
+        expect(imported.toTSC(txid)).toEqual(path.toTSC(txid))
+        expect(() => MerklePath.fromMerkleBranch(813706, txid, index, branch, '00'.repeat(32))).toThrow('is not the expected root')
+      }
+    })
+
+    it('Reads a hash equal to the branch as a duplicate', () => {
+      const txids = Array.from({ length: 5 }, (_, i) => toHex(hash256([i])))
+      const path = MerklePath.fromBlockTxids(10, txids, [txids[4]])
+      const { branch } = path.toMerkleBranch()
+      expect(branch[0]).toBe(txids[4])
+      const imported = MerklePath.fromMerkleBranch(10, txids[4], 4, branch, path.computeRoot())
+      expect(imported.path).toEqual(path.path)
+    })
+  })
+
   it('Creates a valid MerklePath from a txid', () => {
     expect(() =>
       MerklePath.fromCoinbaseTxidAndHeight(
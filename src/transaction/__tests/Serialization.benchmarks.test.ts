@@ -0,0 +1,108 @@
+/* eslint-env jest */
+import Transaction from '../../transaction/Transaction'
+import MerklePath from '../../transaction/MerklePath'
+import { Beef } from '../../transaction/Beef'
+import Script from '../../script/Script'
+import { toHex } from '../../primitives/utils'
+import { jest } from '@jest/globals'
+import validTransactions from './tx.valid.vectors'
+import validBumps from './bump.valid.vectors'
+import bigTX from './bigtx.vectors'
+
+jest.setTimeout(60000)
+
+// Helper function to measure execution time
+function measureTime (fn: () => void, iterations: number): number {
+  const start = process.hrtime()
+  for (let i = 0; i < iterations; i++) {
+    fn()
+  }
+  const diff = process.hrtime(start)
+  return diff[0] * 1000 + diff[1] / 1e6
+}
+
+interface Serializable {
+  toBinary: () => number[]
+  toUint8Array: () => Uint8Array
+}
+
+/**
+ * Serializes the items both ways, checks they agree, and logs how long each way took.
+ */
+function compare (label: string, iterations: number, items: Serializable[]): void {
+  for (const item of items) {
+    expect(toHex(Array.from(item.toUint8Array()))).toBe(toHex(item.toBinary()))
+  }
+  const arrayTime = measureTime(() => items.forEach((item) => item.toBinary()), iterations)
+  const typedTime = measureTime(() => items.forEach((item) => item.toUint8Array()), iterations)
+  console.log(
+    `${label} x ${iterations}: toBinary ${arrayTime.toFixed(2)} ms, toUint8Array ${typedTime.toFixed(2)} ms`
+  )
+}
+
+describe('Serialization Benchmark', () => {
+  const txs = validTransactions
+    .filter((vector) => typeof vector[1] === 'string')
+    .map((vector) => Transaction.fromHex(vector[1] as string))
+  const bigTx = Transaction.fromHex(bigTX.txhex)
+  const bumps = validBumps.map((vector) => MerklePath.fromHex(vector.bump))
+  const beef = new Beef()
+  for (const bump of bumps) {
+    beef.mergeBump(bump)
+  }
+  for (const tx of txs) {
+    beef.mergeRawTx(tx.toBinary())
+  }
+
+  it('serializes the valid transaction vectors', () => {
+    compare(`${txs.length} transactions`, 100, txs)
+    for (const tx of txs) {
+      expect(Transaction.fromBinary(tx.toUint8Array()).toHex()).toBe(tx.toHex())
+    }
+  })
+
+  it('serializes a large transaction', () => {
+    compare('Large transaction', 10, [bigTx])
+    expect(Transaction.fromBinary(bigTx.toUint8Array()).id('hex')).toBe(bigTX.txidhex)
+  })
+
+  it('serializes the scripts of a large transaction', () => {
+    const scripts: Script[] = [
+      ...bigTx.inputs.map((input) => input.unlockingScript as Script),
+      ...bigTx.outputs.map((output) => output.lockingScript)
+    ]
+    compare(`${scripts.length} scripts`, 10, scripts)
+    for (const script of scripts.slice(0, 10)) {
+      expect(Script.fromBinary(script.toUint8Array()).toHex()).toBe(script.toHex())
+    }
+  })
+
+  it('serializes the valid BUMP vectors', () => {
+    for (const bump of bumps) {
+      compare(`BUMP of block ${bump.blockHeight}`, 1000, [bump])
+      expect(MerklePath.fromBinary(bump.toUint8Array()).toHex()).toBe(bump.toHex())
+    }
+  })
+
+  it('serializes a BEEF of the vectors', () => {
+    compare(`BEEF of ${beef.txs.length} transactions`, 100, [beef])
+    expect(Beef.fromBinary(beef.toUint8Array()).toHex()).toBe(beef.toHex())
+  })
+
+  it('parses the valid transaction vectors from binary and typed arrays', () => {
+    const bins = txs.map((tx) => tx.toBinary())
+    const typed = txs.map((tx) => tx.toUint8Array())
+    const arrayTime = measureTime(() => bins.forEach((bin) => Transaction.fromBinary(bin)), 100)
+    const typedTime = measureTime(() => typed.forEach((bin) => Transaction.fromBinary(bin)), 100)
+    console.log(
+      `Parsing ${txs.length} transactions x 100: from number[] ${arrayTime.toFixed(2)} ms, from Uint8Array ${typedTime.toFixed(2)} ms`
+    )
+    const bigBin = bigTx.toBinary()
+    const bigTyped = bigTx.toUint8Array()
+    const bigArrayTime = measureTime(() => Transaction.fromBinary(bigBin), 10)
+    const bigTypedTime = measureTime(() => Transaction.fromBinary(bigTyped), 10)
+    console.log(
+      `Parsing a large transaction x 10: from number[] ${bigArrayTime.toFixed(2)} ms, from Uint8Array ${bigTypedTime.toFixed(2)} ms`
+    )
+  })
+})
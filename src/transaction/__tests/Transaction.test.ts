@@ -5,6 +5,7 @@ import { toHex, toArray, Writer } from '../../primitives/utils'
 import Script from '../../script/Script'
 import UnlockingScript from '../../script/UnlockingScript'
 import LockingScript from '../../script/LockingScript'
+import { consensusScriptFlags } from '../../script/ScriptVerifyFlags'
 import Transaction from '../../transaction/Transaction'
 import { hash256, hash160 } from '../../primitives/Hash'
 import PrivateKey from '../../primitives/PrivateKey'
@@ -12,13 +13,16 @@ import Curve from '../../primitives/Curve'
 import P2PKH from '../../script/templates/P2PKH'
 import fromUtxo from '../../compat/Utxo'
 import MerklePath from '../../transaction/MerklePath'
-import { BEEF_V1 } from '../../transaction/Beef'
+import { Beef, BEEF_V1 } from '../../transaction/Beef'
 
 import sighashVectors from '../../primitives/__tests/sighash.vectors'
 import invalidTransactions from './tx.invalid.vectors'
 import validTransactions from './tx.valid.vectors'
 import bigTX from './bigtx.vectors'
 import { BroadcastResponse } from '../../transaction/Broadcaster'
+import { FundingUtxo } from '../../transaction/UtxoSource'
+import SatoshisPerKilobyte from '../../transaction/fee-models/SatoshisPerKilobyte'
+import BranchAndBound from '../../transaction/coin-selectors/BranchAndBound'
 
 const BRC62Hex =
   '0100beef01fe636d0c0007021400fe507c0c7aa754cef1f7889d5fd395cf1f785dd7de98eed895dbedfe4e5bc70d1502ac4e164f5bc16746bb0868404292ac8318bbac3800e4aad13a014da427adce3e010b00bc4ff395efd11719b277694cface5aa50d085a0bb81f613f70313acd28cf4557010400574b2d9142b8d28b61d88e3b2c3f44d858411356b49a28a4643b6d1a6a092a5201030051a05fc84d531b5d250c23f4f886f6812f9fe3f402d61607f977b4ecd2701c19010000fd781529d58fc2523cf396a7f25440b409857e7e221766c57214b1d38c7b481f01010062f542f45ea3660f86c013ced80534cb5fd4c19d66c56e7e8c5d4bf2d40acc5e010100b121e91836fd7cd5102b654e9f72f3cf6fdbfd0b161c53a9c54b12c841126331020100000001cd4e4cac3c7b56920d1e7655e7e260d31f29d9a388d04910f1bbd72304a79029010000006b483045022100e75279a205a547c445719420aa3138bf14743e3f42618e5f86a19bde14bb95f7022064777d34776b05d816daf1699493fcdf2ef5a5ab1ad710d9c97bfb5b8f7cef3641210263e2dee22b1ddc5e11f6fab8bcd2378bdd19580d640501ea956ec0e786f93e76ffffffff013e660000000000001976a9146bfd5c7fbe21529d45803dbcf0c87dd3c71efbc288ac0000000001000100000001ac4e164f5bc16746bb0868404292ac8318bbac3800e4aad13a014da427adce3e000000006a47304402203a61a2e931612b4bda08d541cfb980885173b8dcf64a3471238ae7abcd368d6402204cbf24f04b9aa2256d8901f0ed97866603d2be8324c2bfb7a37bf8fc90edd5b441210263e2dee22b1ddc5e11f6fab8bcd2378bdd19580d640501ea956ec0e786f93e76ffffffff013c660000000000001976a9146bfd5c7fbe21529d45803dbcf0c87dd3c71efbc288ac0000000000'
@@ -733,6 +737,128 @@ describe('Transaction', () => {
     })
   })
 
+  describe('Funding', () => {
+    const privateKey = new PrivateKey(1)
+    const publicKeyHash = hash160(privateKey.toPublicKey().encode(true))
+    const p2pkh = new P2PKH()
+    const utxosFor = (amounts: number[]): FundingUtxo[] =>
+      amounts.map((satoshis, i) => ({
+        sourceTXID: (i + 1).toString(16).padStart(64, '0'),
+        sourceOutputIndex: 0,
+        satoshis,
+        lockingScript: p2pkh.lock(publicKeyHash),
+        unlockingScriptTemplate: p2pkh.unlock(privateKey)
+      }))
+
+    it('Selects inputs and computes change', async () => {
+      const tx = new Transaction()
+      tx.addOutput({ lockingScript: p2pkh.lock(publicKeyHash), satoshis: 6000 })
+      const selected = await tx.fund(utxosFor([1000, 5000, 2500]), {
+        changeLockingScript: p2pkh.lock(publicKeyHash)
+      })
+      expect(selected.map((u) => u.satoshis)).toEqual([5000, 2500])
+      expect(tx.inputs).toHaveLength(2)
+      expect(tx.outputs).toHaveLength(2)
+      expect(tx.outputs[1].change).toBe(true)
+      const fee = await new SatoshisPerKilobyte(10).computeFee(tx)
+      expect(tx.getFee()).toEqual(fee)
+      await tx.sign()
+      expect(tx.inputs.every((i) => i.unlockingScript !== undefined)).toBe(true)
+    })
+
+    it('Selects from a UtxoSource and skips outputs already spent by the transaction', async () => {
+      const utxos = utxosFor([3000, 4000])
+      const source = { listUtxos: jest.fn(async () => utxos) }
+      const tx = new Transaction()
+      tx.addInput({
+        sourceTXID: utxos[1].sourceTXID,
+        sourceOutputIndex: 0,
+        sourceSatoshis: utxos[1].satoshis,
+        sourceLockingScript: utxos[1].lockingScript,
+        unlockingScriptTemplate: utxos[1].unlockingScriptTemplate
+      })
+      tx.addOutput({ lockingScript: p2pkh.lock(publicKeyHash), satoshis: 5000 })
+      await tx.fund(source, { feeModel: new SatoshisPerKilobyte(1000) })
+      expect(source.listUtxos).toHaveBeenCalledWith(1000)
+      expect(tx.inputs.map((i) => i.sourceTXID)).toEqual([utxos[1].sourceTXID, utxos[0].sourceTXID])
+    })
+
+    it('Funds from UTXOs without source transactions and serializes the result', async () => {
+      const tx = new Transaction()
+      tx.addOutput({ lockingScript: p2pkh.lock(publicKeyHash), satoshis: 1500 })
+      await tx.fund(utxosFor([1000, 2000]), {
+        changeLockingScript: p2pkh.lock(publicKeyHash)
+      })
+      expect(tx.inputs.every((i) => i.sourceTransaction === undefined)).toBe(true)
+      expect(tx.inputs[0].sourceSatoshis).toEqual(2000)
+      await tx.sign()
+      const beef = Beef.fromBinary(tx.toBEEF(true))
+      expect(beef.findTxid(tx.id('hex'))).toBeDefined()
+      expect(Transaction.fromHex(tx.toHex()).id('hex')).toEqual(tx.id('hex'))
+    })
+
+    it('Repeats selection until the fee settles', async () => {
+      const tx = new Transaction()
+      tx.addOutput({ lockingScript: p2pkh.lock(publicKeyHash), satoshis: 1000 })
+      // The first input appears to cost 10 satoshis, but each further input costs more
+      const feeModel = { computeFee: async (t: Transaction) => 10 * t.inputs.length ** 2 }
+      const selected = await tx.fund(utxosFor([515, 515, 515, 515]), { feeModel })
+      expect(selected).toHaveLength(3)
+      expect(tx.getFee()).toBeGreaterThanOrEqual(90)
+    })
+
+    it('Drops change below the dust limit', async () => {
+      const tx = new Transaction()
+      tx.addOutput({ lockingScript: p2pkh.lock(publicKeyHash), satoshis: 990 })
+      await tx.fund(utxosFor([1000]), {
+        changeLockingScript: p2pkh.lock(publicKeyHash),
+        dustLimit: 50
+      })
+      expect(tx.outputs).toHaveLength(1)
+      expect(tx.getFee()).toEqual(10)
+    })
+
+    it('Drops only the change outputs below the dust limit and redistributes their value', async () => {
+      const tx = new Transaction()
+      tx.addOutput({ lockingScript: p2pkh.lock(publicKeyHash), satoshis: 1000 })
+      for (let i = 0; i < 3; i++) {
+        tx.addOutput({ lockingScript: p2pkh.lock(publicKeyHash), change: true })
+      }
+      // The random distribution first splits the 8990 satoshis of change as 2706, 288 and 5996.
+      const random = jest.spyOn(Math, 'random').mockReturnValueOnce(0).mockReturnValueOnce(0.99).mockReturnValue(0.5)
+      try {
+        await tx.fund(utxosFor([10000]), {
+          feeModel: { computeFee: async () => 10 },
+          changeDistribution: 'random',
+          dustLimit: 500
+        })
+      } finally {
+        random.mockRestore()
+      }
+      const change = tx.outputs.filter((out) => out.change === true)
+      expect(change).toHaveLength(2)
+      expect(change.every((out) => (out.satoshis ?? 0) >= 500)).toBe(true)
+      expect(change.reduce((a, out) => a + (out.satoshis ?? 0), 0)).toEqual(8990)
+      expect(tx.getFee()).toEqual(10)
+    })
+
+    it('Uses the provided coin selector', async () => {
+      const tx = new Transaction()
+      tx.addOutput({ lockingScript: p2pkh.lock(publicKeyHash), satoshis: 3000 })
+      const selected = await tx.fund(utxosFor([5000, 2000, 1005, 200]), {
+        selector: new BranchAndBound(),
+        changeLockingScript: p2pkh.lock(publicKeyHash)
+      })
+      expect(selected.map((u) => u.satoshis).sort((a, b) => a - b)).toEqual([1005, 2000])
+    })
+
+    it('Throws when funds are insufficient', async () => {
+      const tx = new Transaction()
+      tx.addOutput({ lockingScript: p2pkh.lock(publicKeyHash), satoshis: 5000 })
+      await expect(tx.fund(utxosFor([1000, 2000]))).rejects.toThrow('Insufficient funds')
+    })
+  })
+
   describe('Broadcast', () => {
     it('Broadcasts with the default Broadcaster instance', async () => {
       const mockedFetch = jest.fn().mockResolvedValue({
@@ -890,6 +1016,202 @@ describe('Transaction', () => {
       expect(verified).toBe(true)
     })
 
+    describe('verifyDetailed', () => {
+      const alwaysYesChainTracker = {
+        currentHeight: async () => 1000,
+        isValidRootForHeight: async () => true
+      }
+      const makeSpend = (lockingASM: string, unlockingASM: string, satoshis: number): { source: Transaction, tx: Transaction } => {
+        const source = new Transaction(1, [], [{
+          lockingScript: LockingScript.fromASM(lockingASM),
+          satoshis: 1000
+        }], 0)
+        source.merklePath = new MerklePath(900, [[{ offset: 0, hash: source.id('hex'), txid: true }]])
+        const tx = new Transaction(1, [{
+          sourceTransaction: source,
+          sourceOutputIndex: 0,
+          unlockingScript: UnlockingScript.fromASM(unlockingASM),
+          sequence: 0xffffffff
+        }], [{
+          lockingScript: LockingScript.fromASM('OP_TRUE'),
+          satoshis
+        }], 0)
+        return { source, tx }
+      }
+
+      it('Reports the proofs, inputs and amounts of a valid transaction', async () => {
+        const { source, tx } = makeSpend('OP_3 OP_EQUAL', 'OP_3', 900)
+        const report = await tx.verifyDetailed(alwaysYesChainTracker)
+        expect(report.valid).toBe(true)
+        expect(report.errors).toEqual([])
+        expect(report.transactions.map(t => t.txid)).toEqual([tx.id('hex'), source.id('hex')])
+        const [spend, proven] = report.transactions
+        expect(spend.inputs).toEqual([{
+          index: 0,
+          sourceTXID: source.id('hex'),
+          sourceOutputIndex: 0,
+          scriptsRan: true,
+          valid: true
+        }])
+        expect(spend.satoshisIn).toBe(1000)
+        expect(spend.satoshisOut).toBe(900)
+        expect(proven.merkleProof).toEqual({ blockHeight: 900, root: source.id('hex'), valid: true, checked: true })
+        expect(proven.inputs).toEqual([])
+        expect(await tx.verify(alwaysYesChainTracker)).toBe(true)
+      })
+
+      it('Reports the failing opcode, program counter and stacks of a script failure', async () => {
+        const { tx } = makeSpend('OP_DUP OP_TOALTSTACK OP_3 OP_EQUALVERIFY', 'OP_2', 900)
+        const report = await tx.verifyDetailed(alwaysYesChainTracker)
+        expect(report.valid).toBe(false)
+        const input = report.transactions[0].inputs[0]
+        expect(input.scriptsRan).toBe(true)
+        expect(input.valid).toBe(false)
+        expect(input.scriptFailure).toEqual({
+          message: expect.stringContaining('OP_EQUALVERIFY'),
+          context: 'LockingScript',
+          programCounter: 3,
+          operation: 'OP_EQUALVERIFY',
+          stack: expect.any(Array),
+          altStack: ['02']
+        })
+        expect(report.errors).toHaveLength(1)
+        expect(report.errors[0]).toContain('input 0')
+        expect(await tx.verify(alwaysYesChainTracker)).toBe(false)
+      })
+
+      it('Reports outputs that exceed inputs', async () => {
+        const { tx } = makeSpend('OP_3 OP_EQUAL', 'OP_3', 1500)
+        const report = await tx.verifyDetailed(alwaysYesChainTracker)
+        expect(report.valid).toBe(false)
+        expect(report.transactions[0].satoshisIn).toBe(1000)
+        expect(report.transactions[0].satoshisOut).toBe(1500)
+        expect(report.transactions[0].inputs[0].valid).toBe(true)
+        expect(report.errors).toEqual([expect.stringContaining('1500 satoshis')])
+      })
+
+      it('Reports a fee shortfall', async () => {
+        const { tx } = makeSpend('OP_3 OP_EQUAL', 'OP_3', 999)
+        const report = await tx.verifyDetailed(alwaysYesChainTracker, new SatoshisPerKilobyte(100))
+        expect(report.valid).toBe(false)
+        expect(report.transactions[0].fee?.paid).toBe(1)
+        expect(report.transactions[0].fee?.required).toBeGreaterThan(1)
+        expect(report.errors).toEqual([expect.stringContaining('insufficient fee')])
+      })
+
+      it('Reports missing source transactions and invalid merkle proofs', async () => {
+        const { source, tx } = makeSpend('OP_3 OP_EQUAL', 'OP_3', 900)
+        const orphan = new Transaction(1, [{
+          sourceTXID: '00'.repeat(32),
+          sourceOutputIndex: 1,
+          unlockingScript: UnlockingScript.fromASM('OP_TRUE'),
+          sequence: 0xffffffff
+        }], source.outputs, 0)
+        tx.inputs[0].sourceTransaction = orphan
+        const report = await tx.verifyDetailed({
+          currentHeight: async () => 1000,
+          isValidRootForHeight: async () => false
+        })
+        expect(report.valid).toBe(false)
+        const orphanResult = report.transactions[1]
+        expect(orphanResult.inputs[0]).toMatchObject({
+          sourceTXID: '00'.repeat(32),
+          sourceOutputIndex: 1,
+          scriptsRan: false,
+          valid: false,
+          error: expect.stringContaining('missing an associated source transaction')
+        })
+        expect(orphanResult.satoshisIn).toBeUndefined()
+
+        source.merklePath = new MerklePath(900, [[{ offset: 0, hash: source.id('hex'), txid: true }]])
+        tx.inputs[0].sourceTransaction = source
+        const rejected = await tx.verifyDetailed({
+          currentHeight: async () => 1000,
+          isValidRootForHeight: async () => false
+        })
+        expect(rejected.transactions[1].merkleProof).toEqual({ blockHeight: 900, root: source.id('hex'), valid: false, checked: true })
+        // The source has no inputs, so its outputs exceed them.
+        expect(rejected.transactions[1].valid).toBe(false)
+      })
+
+      it('Skips known valid transactions and reports progress', async () => {
+        const { source, tx } = makeSpend('OP_3 OP_EQUAL', 'OP_3', 900)
+        const isValidRootForHeight = jest.fn(async () => true)
+        const progress: Array<{ verified: number, total: number, txid?: string }> = []
+        const report = await tx.verifyDetailed({ currentHeight: async () => 1000, isValidRootForHeight }, undefined, {
+          knownValidTxids: [source.id('hex')],
+          onProgress: (p) => progress.push(p)
+        })
+        expect(report.valid).toBe(true)
+        expect(report.transactions.map(t => t.txid)).toEqual([tx.id('hex')])
+        expect(isValidRootForHeight).not.toHaveBeenCalled()
+        expect(progress).toEqual([{ verified: 1, total: 1, txid: tx.id('hex') }])
+
+        expect(await tx.verify('scripts only', undefined, { knownValidTxids: new Set([tx.id('hex')]) })).toBe(true)
+      })
+
+      it('Verifies independent branches concurrently with a custom script evaluator', async () => {
+        const a = makeSpend('OP_3 OP_EQUAL', 'OP_3', 900)
+        const b = makeSpend('OP_4 OP_EQUAL', 'OP_4', 900)
+        const tx = new Transaction(1, [
+          { sourceTransaction: a.tx, sourceOutputIndex: 0, unlockingScript: new UnlockingScript(), sequence: 0xffffffff },
+          { sourceTransaction: b.tx, sourceOutputIndex: 0, unlockingScript: new UnlockingScript(), sequence: 0xffffffff }
+        ], [{ lockingScript: LockingScript.fromASM('OP_TRUE'), satoshis: 1700 }], 0)
+        let inFlight = 0
+        let maxInFlight = 0
+        const chainTracker = {
+          currentHeight: async () => 1000,
+          isValidRootForHeight: async () => {
+            inFlight++
+            maxInFlight = Math.max(maxInFlight, inFlight)
+            await new Promise(resolve => setTimeout(resolve, 10))
+            inFlight--
+            return true
+          }
+        }
+        const evaluated: string[] = []
+        const scriptEvaluator = {
+          evaluate: async (spend: any) => {
+            evaluated.push(`${spend.sourceTXID as string}.${spend.sourceOutputIndex as number}`)
+            return { valid: spend.validate() }
+          }
+        }
+        const report = await tx.verifyDetailed(chainTracker, undefined, { concurrency: 4, scriptEvaluator })
+        expect(report.valid).toBe(true)
+        expect(report.transactions).toHaveLength(5)
+        expect(maxInFlight).toBe(2)
+        expect(evaluated).toHaveLength(4)
+        expect(evaluated).toContain(`${a.tx.id('hex')}.0`)
+      })
+
+      it('Evaluates scripts with the given script flags', async () => {
+        const { tx } = makeSpend('OP_3 OP_EQUAL', 'OP_1 OP_3', 900)
+        const report = await tx.verifyDetailed(alwaysYesChainTracker)
+        expect(report.transactions[0].inputs[0].scriptFailure?.message).toContain('clean stack')
+        expect(await tx.verify(alwaysYesChainTracker, undefined, { scriptFlags: consensusScriptFlags })).toBe(true)
+      })
+
+      it('Reports the resource whose limit a script exceeded', async () => {
+        const { tx } = makeSpend('OP_LSHIFT OP_DROP OP_1', 'ff ffffff7f', 900)
+        const report = await tx.verifyDetailed(alwaysYesChainTracker)
+        expect(report.valid).toBe(false)
+        const failure = report.transactions[0].inputs[0].scriptFailure
+        expect(failure?.operation).toBe('OP_LSHIFT')
+        expect(failure?.resourceExceeded).toEqual({
+          resource: 'executionCost',
+          limit: 100 * 1000 * 1000,
+          used: 2 + 1 + 1 + 4 + 268435456
+        })
+      })
+
+      it('Does not check merkle proofs with scripts only', async () => {
+        const { tx } = makeSpend('OP_3 OP_EQUAL', 'OP_3', 900)
+        const report = await tx.verifyDetailed('scripts only')
+        expect(report.valid).toBe(true)
+        expect(report.transactions[1].merkleProof).toEqual({ blockHeight: 900, valid: true, checked: false })
+      })
+    })
+
     describe('vectors: a 1mb transaction', () => {
       it('should find the correct id of this (valid, on the blockchain) 1 mb transaction', () => {
         const txidhex = bigTX.txidhex
@@ -23,8 +23,31 @@ export interface ArcConfig {
   callbackToken?: string
   /** additional headers to be attached to all tx submissions. */
   headers?: Record<string, string>
+  /** retry policy for transient failures. Failed submissions are not retried unless this is set. */
+  retry?: ArcRetryConfig
 }
 
+/**
+ * Retry policy for ARC submissions.
+ *
+ * Transient failures (network errors and timeouts, 408, 429 and 5xx responses) are retried with exponential backoff.
+ * Rejections of the transaction itself, such as malformed transactions or insufficient fees, are never retried.
+ */
+export interface ArcRetryConfig {
+  /** total number of attempts, including the first one. Defaults to 3. */
+  maxAttempts?: number
+  /** delay before the first retry, in milliseconds. Defaults to 500. */
+  initialDelayMs?: number
+  /** upper bound for the delay between attempts, in milliseconds. Defaults to 10000. */
+  maxDelayMs?: number
+  /** factor by which the delay grows after each attempt. Defaults to 2. */
+  backoffMultiplier?: number
+  /** fraction of each delay that is randomized, between 0 (no jitter) and 1. Defaults to 0.5. */
+  jitter?: number
+}
+
+const ALREADY_KNOWN_STATUSES = ['SEEN_ON_NETWORK', 'SEEN_IN_ORPHAN_MEMPOOL', 'MINED']
+
 function defaultDeploymentId(): string {
   return `ts-sdk-${toHex(Random(16))}`
 }
@@ -39,6 +62,7 @@ export default class ARC implements Broadcaster {
   readonly callbackUrl: string | undefined
   readonly callbackToken: string | undefined
   readonly headers: Record<string, string> | undefined
+  readonly retry: Required<ArcRetryConfig>
   private readonly httpClient: HttpClient
 
   /**
@@ -58,6 +82,14 @@ export default class ARC implements Broadcaster {
 
   constructor(URL: string, config?: string | ArcConfig) {
     this.URL = URL
+    const retry = typeof config === 'object' ? config.retry : undefined
+    this.retry = {
+      maxAttempts: retry === undefined ? 1 : retry.maxAttempts ?? 3,
+      initialDelayMs: retry?.initialDelayMs ?? 500,
+      maxDelayMs: retry?.maxDelayMs ?? 10000,
+      backoffMultiplier: retry?.backoffMultiplier ?? 2,
+      jitter: retry?.jitter ?? 0.5
+    }
     if (typeof config === 'string') {
       this.apiKey = config
       this.httpClient = defaultHttpClient()
@@ -116,6 +148,9 @@ export default class ARC implements Broadcaster {
   /**
    * Broadcasts a transaction via ARC.
    *
+   * Transient failures are retried according to the retry policy. A reply reporting that ARC already knows
+   * the transaction, as happens on rebroadcasts, is treated as success.
+   *
    * @param {Transaction} tx - The transaction to be broadcasted.
    * @returns {Promise<BroadcastResponse | BroadcastFailure>} A promise that resolves to either a success or failure response.
    */
@@ -136,6 +171,23 @@ export default class ARC implements Broadcaster {
       }
     }
 
+    for (let attempt = 1; ; attempt++) {
+      const result = await this.submit(tx, rawTx)
+      if (
+        result.status === 'success' ||
+        attempt >= this.retry.maxAttempts ||
+        !ARC.isTransient(result.code)
+      ) {
+        return result
+      }
+      await this.backoff(attempt)
+    }
+  }
+
+  private async submit(
+    tx: Transaction,
+    rawTx: string
+  ): Promise<BroadcastResponse | BroadcastFailure> {
     const requestOptions: HttpClientRequestOptions = {
       method: 'POST',
       headers: this.requestHeaders(),
@@ -159,35 +211,9 @@ export default class ARC implements Broadcaster {
         }
         return broadcastRes
       } else {
-        const st = typeof response.status
-        const r: BroadcastFailure = {
-          status: 'error',
-          code:
-            st === 'number' || st === 'string'
-              ? response.status.toString()
-              : 'ERR_UNKNOWN',
-          description: 'Unknown error'
-        }
-        let d = response.data
-        if (typeof d === 'string') {
-          try {
-            d = JSON.parse(response.data as string)
-          } catch {
-            // Intentionally left empty
-          }
-        }
-        if (typeof d === 'object') {
-          if (d !== null) {
-            r.more = d
-          }
-          if ((d != null) && typeof (d as { txid: string }).txid === 'string') {
-            r.txid = (d as { txid: string }).txid
-          }
-          if ((d != null) && 'detail' in d && typeof (d as { detail: string }).detail === 'string') {
-            r.description = (d as { detail: string }).detail
-          }
-        }
-        return r
+        const r = ARC.failureFromResponse(response.status, response.data)
+        // A rebroadcast, e.g. a retry of a submission that reached ARC before timing out.
+        return ARC.alreadyKnownSuccess(r, tx) ?? r
       }
     } catch (error) {
       return {
@@ -204,6 +230,8 @@ export default class ARC implements Broadcaster {
   /**
    * Broadcasts multiple transactions via ARC.
    * Handles mixed responses where some transactions succeed and others fail.
+   * When a retry policy is configured, only the transactions that failed transiently are resubmitted.
+   * As with `broadcast`, a transaction that ARC already knows is reported as a success.
    *
    * @param {Transaction[]} txs - Array of transactions to be broadcasted.
    * @returns {Promise<Array<object>>} A promise that resolves to an array of objects.
@@ -223,6 +251,36 @@ export default class ARC implements Broadcaster {
       }
     })
 
+    const results: object[] = new Array(txs.length)
+    let pending = txs.map((_, i) => i)
+    for (let attempt = 1; pending.length > 0; attempt++) {
+      const responses = await this.submitMany(pending.map((i) => rawTxs[i]))
+      const retry: number[] = []
+      pending.forEach((txIndex, i) => {
+        const item = responses[i]
+        // ARC may answer with fewer items than were submitted, or with something other than an object for one.
+        const r: object = typeof item === 'object' && item !== null
+          ? item
+          : {
+              status: 'error',
+              code: 'ERR_MISSING_RESPONSE',
+              description: 'ARC did not return a response for this transaction.'
+            }
+        if (attempt < this.retry.maxAttempts && ARC.isTransientItem(r)) {
+          retry.push(txIndex)
+        } else {
+          results[txIndex] = ARC.alreadyKnownItem(r, txs[txIndex]) ?? r
+        }
+      })
+      pending = retry
+      if (pending.length > 0) {
+        await this.backoff(attempt)
+      }
+    }
+    return results
+  }
+
+  private async submitMany(rawTxs: Array<{ rawTx: string }>): Promise<object[]> {
     const requestOptions: HttpClientRequestOptions = {
       method: 'POST',
       headers: this.requestHeaders(),
@@ -234,16 +292,131 @@ export default class ARC implements Broadcaster {
         `${this.URL}/v1/txs`,
         requestOptions
       )
-
-      return response.data as object[]
+      if (!response.ok && !Array.isArray(response.data)) {
+        const failure = ARC.failureFromResponse(response.status, response.data)
+        return rawTxs.map(() => failure)
+      }
+      return Array.isArray(response.data) ? response.data : []
     } catch (error) {
       const errorResponse: BroadcastFailure = {
         status: 'error',
         code: '500',
         description: typeof error.message === 'string' ? error.message : 'Internal Server Error'
       }
-      return txs.map(() => errorResponse)
+      return rawTxs.map(() => errorResponse)
+    }
+  }
+
+  /**
+   * Waits before the next attempt, using exponential backoff with jitter.
+   */
+  private async backoff(attempt: number): Promise<void> {
+    const { initialDelayMs, maxDelayMs, backoffMultiplier, jitter } = this.retry
+    const delay = Math.min(
+      maxDelayMs,
+      initialDelayMs * backoffMultiplier ** (attempt - 1)
+    )
+    const ms = delay * (1 - jitter * Math.random())
+    await new Promise((resolve) => setTimeout(resolve, ms))
+  }
+
+  private static failureFromResponse(
+    status: number | string,
+    data: unknown
+  ): BroadcastFailure {
+    const st = typeof status
+    const r: BroadcastFailure = {
+      status: 'error',
+      code:
+        st === 'number' || st === 'string'
+          ? status.toString()
+          : 'ERR_UNKNOWN',
+      description: 'Unknown error'
+    }
+    let d = data
+    if (typeof d === 'string') {
+      try {
+        d = JSON.parse(data as string)
+      } catch {
+        // Intentionally left empty
+      }
+    }
+    if (typeof d === 'object') {
+      if (d !== null) {
+        r.more = d
+      }
+      if ((d != null) && typeof (d as { txid: string }).txid === 'string') {
+        r.txid = (d as { txid: string }).txid
+      }
+      if ((d != null) && 'detail' in d && typeof (d as { detail: string }).detail === 'string') {
+        r.description = (d as { detail: string }).detail
+      }
+    }
+    return r
+  }
+
+  /**
+   * Whether a failure status is worth retrying: network errors and timeouts, rate limiting and server errors.
+   */
+  private static isTransient(code: number | string): boolean {
+    const status = Number(code)
+    return status === 408 || status === 429 || status >= 500
+  }
+
+  private static isTransientItem(item: unknown): boolean {
+    if (typeof item !== 'object' || item === null) return false
+    const { status, code } = item as { status?: unknown, code?: unknown }
+    if (status === 'error') {
+      return typeof code === 'string' && ARC.isTransient(code)
+    }
+    return typeof status === 'number' && ARC.isTransient(status)
+  }
+
+  /**
+   * The success reported in place of a failure that shows ARC already knows the transaction.
+   */
+  private static alreadyKnownSuccess(
+    failure: BroadcastFailure,
+    tx: Transaction
+  ): BroadcastResponse | undefined {
+    if (!ARC.isAlreadyKnown(failure.more)) return undefined
+    return {
+      status: 'success',
+      txid: failure.txid ?? tx.id('hex'),
+      message: `Transaction already known: ${failure.description}`
+    }
+  }
+
+  /**
+   * The success reported in place of a failed `broadcastMany` item that shows ARC already knows the transaction.
+   */
+  private static alreadyKnownItem(
+    item: object,
+    tx: Transaction
+  ): BroadcastResponse | undefined {
+    const { status } = item as { status?: unknown }
+    if (status === 'error') {
+      return ARC.alreadyKnownSuccess(item as BroadcastFailure, tx)
+    }
+    if (typeof status === 'number' && status !== 200) {
+      return ARC.alreadyKnownSuccess(ARC.failureFromResponse(status, item), tx)
+    }
+    return undefined
+  }
+
+  /**
+   * Whether an ARC error body reports that the transaction has already been received,
+   * in which case the broadcast has effectively succeeded.
+   */
+  private static isAlreadyKnown(data: unknown): boolean {
+    if (typeof data !== 'object' || data === null) return false
+    const { txStatus, detail, title, extraInfo } = data as Record<string, unknown>
+    if (typeof txStatus === 'string' && ALREADY_KNOWN_STATUSES.includes(txStatus)) {
+      return true
     }
+    return [detail, title, extraInfo].some(
+      (text) => typeof text === 'string' && /already (known|in (the )?mempool|mined)|txn-already-known/i.test(text)
+    )
   }
 }
 
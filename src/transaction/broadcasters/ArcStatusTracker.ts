@@ -0,0 +1,345 @@
+import Transaction from '../Transaction.js'
+import MerklePath from '../MerklePath.js'
+import ChainTracker from '../ChainTracker.js'
+import { ArcConfig } from './ARC.js'
+import { HttpClient } from '../http/HttpClient.js'
+import { defaultHttpClient } from '../http/DefaultHttpClient.js'
+
+/**
+ * The status of a transaction as reported by ARC, either by `GET /v1/tx/{txid}` or in a callback.
+ *
+ * `txStatus` moves through states such as RECEIVED, STORED, ANNOUNCED_TO_NETWORK and SEEN_ON_NETWORK
+ * until the transaction is MINED, or it ends up REJECTED or DOUBLE_SPEND_ATTEMPTED.
+ */
+export interface ArcTxStatus {
+  txid: string
+  txStatus: string
+  blockHash?: string
+  blockHeight?: number
+  /** The merkle path of a mined transaction, as a BUMP hex string. */
+  merklePath?: string
+  extraInfo?: string
+  competingTxs?: string[]
+  timestamp?: string
+}
+
+/** Configuration options for the ARC status tracker. */
+export interface ArcStatusTrackerConfig extends ArcConfig {
+  /** How long to wait between status requests for a tracked transaction, in milliseconds. Defaults to 10 seconds. */
+  pollIntervalMs?: number
+  /** How long a transaction is tracked before `track` gives up, in milliseconds. By default tracking does not time out. */
+  timeoutMs?: number
+  /** Used to check the merkle root of the merkle path reported for a mined transaction before it is attached. */
+  chainTracker?: ChainTracker
+}
+
+/** Statuses after which a tracked transaction is no longer polled. */
+const FINAL_STATUSES = ['MINED', 'REJECTED', 'DOUBLE_SPEND_ATTEMPTED']
+
+interface TrackedTransaction {
+  tx: Transaction
+  status?: ArcTxStatus
+  deadline: number
+  timer?: ReturnType<typeof setTimeout>
+  resolve: (status: ArcTxStatus) => void
+  reject: (error: Error) => void
+}
+
+/**
+ * Follows transactions after they have been broadcast to ARC, reporting each change of their status.
+ *
+ * Tracked transactions are polled through `GET /v1/tx/{txid}` and can also be updated from ARC callbacks,
+ * which are sent to the `callbackUrl` given to the ARC broadcaster. When a transaction is mined,
+ * its merkle path is checked, against the `chainTracker` when one is configured, and attached to `tx.merklePath`.
+ * Failed status requests and merkle paths that do not check out are reported to the error listeners.
+ *
+ * @example
+ * const tracker = new ArcStatusTracker('https://arc.taal.com', { apiKey, callbackToken })
+ * tracker.listenForStatusChanges((status) => console.log(status.txid, status.txStatus))
+ * await tx.broadcast(new ARC('https://arc.taal.com', { apiKey, callbackUrl, callbackToken }))
+ * const final = await tracker.track(tx)
+ */
+export default class ArcStatusTracker {
+  readonly URL: string
+  readonly apiKey: string | undefined
+  readonly callbackToken: string | undefined
+  readonly headers: Record<string, string> | undefined
+  readonly pollIntervalMs: number
+  readonly timeoutMs: number | undefined
+  readonly chainTracker: ChainTracker | undefined
+  private readonly httpClient: HttpClient
+  private readonly tracked: Map<string, TrackedTransaction> = new Map()
+  private readonly statusChangeCallbacks: Map<
+  number,
+  (status: ArcTxStatus, tx?: Transaction) => void
+  > = new Map()
+
+  private readonly errorCallbacks: Map<
+  number,
+  (error: Error, txid: string) => void
+  > = new Map()
+
+  private callbackIdCounter: number = 0
+
+  /**
+   * Constructs an instance of the ARC status tracker.
+   *
+   * @param {string} URL - The URL endpoint for the ARC API.
+   * @param {ArcStatusTrackerConfig} config - Configuration options for the tracker.
+   */
+  constructor (URL: string, config: ArcStatusTrackerConfig = {}) {
+    this.URL = URL
+    this.apiKey = config.apiKey
+    this.callbackToken = config.callbackToken
+    this.headers = config.headers
+    this.httpClient = config.httpClient ?? defaultHttpClient()
+    this.pollIntervalMs = config.pollIntervalMs ?? 10000
+    this.timeoutMs = config.timeoutMs
+    this.chainTracker = config.chainTracker
+  }
+
+  /**
+   * Registers a callback to listen for status changes of tracked transactions.
+   *
+   * @param {(status: ArcTxStatus, tx?: Transaction) => void} callback - The function to call when a status changes.
+   *        The transaction is provided when it is being tracked. Errors it throws are reported to the error listeners.
+   * @returns {number} The ID of the callback listener.
+   */
+  listenForStatusChanges (
+    callback: (status: ArcTxStatus, tx?: Transaction) => void
+  ): number {
+    const callbackID = this.callbackIdCounter++
+    this.statusChangeCallbacks.set(callbackID, callback)
+    return callbackID
+  }
+
+  /**
+   * Removes a status change listener.
+   *
+   * @param {number} callbackID - The ID of the callback to remove.
+   */
+  stopListeningForStatusChanges (callbackID: number): void {
+    this.statusChangeCallbacks.delete(callbackID)
+  }
+
+  /**
+   * Registers a callback to listen for errors while tracking transactions, such as failed status requests
+   * and merkle paths that do not check out. Tracking continues after an error.
+   *
+   * @param {(error: Error, txid: string) => void} callback - The function to call when an error occurs.
+   * @returns {number} The ID of the callback listener.
+   */
+  listenForErrors (callback: (error: Error, txid: string) => void): number {
+    const callbackID = this.callbackIdCounter++
+    this.errorCallbacks.set(callbackID, callback)
+    return callbackID
+  }
+
+  /**
+   * Removes an error listener.
+   *
+   * @param {number} callbackID - The ID of the callback to remove.
+   */
+  stopListeningForErrors (callbackID: number): void {
+    this.errorCallbacks.delete(callbackID)
+  }
+
+  /**
+   * Fetches the current status of a transaction from ARC.
+   *
+   * @param {string} txid - The ID of the transaction.
+   * @returns {Promise<ArcTxStatus>} The status reported by ARC.
+   * @throws {Error} - If ARC does not return a status for the transaction.
+   */
+  async getStatus (txid: string): Promise<ArcTxStatus> {
+    const headers: Record<string, string> = {
+      Accept: 'application/json',
+      ...this.headers
+    }
+    if (this.apiKey != null && this.apiKey !== '') {
+      headers.Authorization = `Bearer ${this.apiKey}`
+    }
+    const response = await this.httpClient.request<ArcTxStatus>(
+      `${this.URL}/v1/tx/${txid}`,
+      { method: 'GET', headers }
+    )
+    if (!response.ok || typeof response.data?.txStatus !== 'string') {
+      const { detail } = (response.data ?? {}) as { detail?: unknown }
+      const description = typeof detail === 'string' ? detail : JSON.stringify(response.data)
+      throw new Error(`Failed to fetch the status of transaction ${txid} (${response.status}): ${description}`)
+    }
+    return response.data
+  }
+
+  /**
+   * Tracks a transaction until it is mined, rejected or double spent, polling ARC for its status.
+   *
+   * Status changes are reported to the status change listeners. Once mined, the merkle path reported by ARC
+   * is checked and attached to `tx.merklePath`, and tracking continues until ARC provides a valid one.
+   *
+   * @param {Transaction} tx - The broadcast transaction to track.
+   * @returns {Promise<ArcTxStatus>} The final status of the transaction.
+   * @throws {Error} - If tracking times out or is stopped with `untrack`.
+   */
+  async track (tx: Transaction): Promise<ArcTxStatus> {
+    const txid = tx.id('hex')
+    if (this.tracked.has(txid)) {
+      throw new Error(`Transaction ${txid} is already being tracked.`)
+    }
+    return await new Promise((resolve, reject) => {
+      const entry: TrackedTransaction = {
+        tx,
+        deadline: this.timeoutMs === undefined ? Infinity : Date.now() + this.timeoutMs,
+        resolve,
+        reject
+      }
+      this.tracked.set(txid, entry)
+      void this.poll(txid)
+    })
+  }
+
+  /**
+   * Stops tracking a transaction, rejecting the promise returned by `track`.
+   *
+   * @param {string} txid - The ID of the transaction.
+   */
+  untrack (txid: string): void {
+    const entry = this.tracked.get(txid)
+    if (entry === undefined) return
+    this.stop(txid, entry)
+    entry.reject(new Error(`Stopped tracking transaction ${txid}.`))
+  }
+
+  /**
+   * Handles an ARC callback, as sent to the `callbackUrl` configured for the ARC broadcaster.
+   *
+   * When a `callbackToken` is configured, the callback must carry it as a bearer token in its
+   * `Authorization` header. Batched callbacks, which carry a `callbacks` array, are supported.
+   * The statuses of tracked transactions are updated as if they had been polled.
+   *
+   * @param {string | object} payload - The callback request body, as a JSON string or parsed object.
+   * @param {Record<string, string>} [headers] - The callback request headers.
+   * @returns {ArcTxStatus[]} The statuses carried by the callback.
+   * @throws {Error} - If the callback token does not match or the payload is not a transaction status.
+   */
+  handleCallback (
+    payload: string | object,
+    headers: Record<string, string> = {}
+  ): ArcTxStatus[] {
+    if (this.callbackToken != null && this.callbackToken !== '') {
+      const authorization = Object.entries(headers).find(
+        ([key]) => key.toLowerCase() === 'authorization'
+      )?.[1]
+      if (authorization !== `Bearer ${this.callbackToken}`) {
+        throw new Error('Invalid ARC callback token.')
+      }
+    }
+    const body: unknown = typeof payload === 'string' ? JSON.parse(payload) : payload
+    const callbacks: unknown[] = Array.isArray((body as { callbacks?: unknown[] })?.callbacks)
+      ? (body as { callbacks: unknown[] }).callbacks
+      : [body]
+    const statuses = callbacks.map((c) => {
+      const status = c as ArcTxStatus
+      if (typeof status?.txid !== 'string' || typeof status.txStatus !== 'string') {
+        throw new Error('ARC callback payload is not a transaction status.')
+      }
+      return status
+    })
+    for (const status of statuses) {
+      this.update(status).catch((error) => this.emitError(error, status.txid))
+    }
+    return statuses
+  }
+
+  private async poll (txid: string): Promise<void> {
+    const entry = this.tracked.get(txid)
+    if (entry === undefined) return
+    entry.timer = undefined
+    try {
+      await this.update(await this.getStatus(txid))
+    } catch (error) {
+      // ARC may not know the transaction yet, or be briefly unreachable: poll again later.
+      this.emitError(error, txid)
+    }
+    if (this.tracked.get(txid) !== entry) return
+    if (Date.now() >= entry.deadline) {
+      this.stop(txid, entry)
+      entry.reject(
+        new Error(`Timed out tracking transaction ${txid} with status ${entry.status?.txStatus ?? 'UNKNOWN'}.`)
+      )
+      return
+    }
+    entry.timer = setTimeout(() => { void this.poll(txid) }, this.pollIntervalMs)
+  }
+
+  private async update (status: ArcTxStatus): Promise<void> {
+    const entry = this.tracked.get(status.txid)
+    if (entry === undefined) {
+      this.emit(status)
+      return
+    }
+    if (status.txStatus === 'MINED' && typeof status.merklePath === 'string' && status.merklePath !== '') {
+      try {
+        const merklePath = await this.checkMerklePath(status.txid, status.merklePath)
+        if (this.tracked.get(status.txid) !== entry) return
+        entry.tx.merklePath = merklePath
+      } catch (error) {
+        this.emitError(error, status.txid)
+      }
+    }
+    const changed = entry.status?.txStatus !== status.txStatus
+    entry.status = status
+    if (changed) {
+      this.emit(status, entry.tx)
+    }
+    if (FINAL_STATUSES.includes(status.txStatus) && (status.txStatus !== 'MINED' || entry.tx.merklePath !== undefined)) {
+      this.stop(status.txid, entry)
+      entry.resolve(status)
+    }
+  }
+
+  /**
+   * Parses a merkle path reported by ARC, checking that it proves the transaction
+   * and, when a chain tracker is configured, that its root is valid for its block.
+   */
+  private async checkMerklePath (txid: string, hex: string): Promise<MerklePath> {
+    const merklePath = MerklePath.fromHex(hex)
+    const root = merklePath.computeRoot(txid)
+    if (
+      this.chainTracker !== undefined &&
+      !(await this.chainTracker.isValidRootForHeight(root, merklePath.blockHeight))
+    ) {
+      throw new Error(
+        `The merkle path of transaction ${txid} has root ${root}, which is not valid for block ${merklePath.blockHeight}.`
+      )
+    }
+    return merklePath
+  }
+
+  private stop (txid: string, entry: TrackedTransaction): void {
+    if (entry.timer !== undefined) clearTimeout(entry.timer)
+    this.tracked.delete(txid)
+  }
+
+  private emit (status: ArcTxStatus, tx?: Transaction): void {
+    for (const callback of this.statusChangeCallbacks.values()) {
+      // A listener that throws is reported, without keeping the others from being called.
+      try {
+        callback(status, tx)
+      } catch (error) {
+        this.emitError(error, status.txid)
+      }
+    }
+  }
+
+  private emitError (error: unknown, txid: string): void {
+    const e = error instanceof Error ? error : new Error(String(error))
+    for (const callback of this.errorCallbacks.values()) {
+      try {
+        callback(e, txid)
+      } catch {
+        // An error listener that throws has nowhere left to report to.
+      }
+    }
+  }
+}
@@ -0,0 +1,234 @@
+import {
+  BroadcastResponse,
+  BroadcastFailure,
+  Broadcaster,
+  isBroadcastResponse
+} from '../Broadcaster.js'
+import Transaction from '../Transaction.js'
+
+/** A broadcaster taking part in a `MultiBroadcaster`, with the name used to report its result. */
+export interface NamedBroadcaster {
+  name: string
+  broadcaster: Broadcaster
+}
+
+/** The outcome of broadcasting through one of the broadcasters of a `MultiBroadcaster`. */
+export interface BroadcasterResult {
+  name: string
+  result: BroadcastResponse | BroadcastFailure
+}
+
+/** Configuration options for the multi broadcaster. */
+export interface MultiBroadcasterConfig {
+  /**
+   * How broadcasters are used:
+   * 'parallel' sends to all broadcasters at once, 'priority' tries them one at a time in the order given
+   * and only moves on to the next while more successes are still needed. Defaults to 'parallel'.
+   */
+  strategy?: 'parallel' | 'priority'
+  /**
+   * How many broadcasters must succeed for the broadcast to succeed: a number (N of M), or 'all'.
+   * Defaults to 1, succeeding on the first success.
+   */
+  requiredSuccesses?: number | 'all'
+}
+
+/** A `BroadcastResponse` aggregated from several broadcasters. */
+export interface MultiBroadcastResponse extends BroadcastResponse {
+  results: BroadcasterResult[]
+}
+
+/** A `BroadcastFailure` aggregated from several broadcasters. */
+export interface MultiBroadcastFailure extends BroadcastFailure {
+  results: BroadcasterResult[]
+}
+
+/**
+ * Represents a broadcaster that sends transactions through several other broadcasters,
+ * such as multiple ARC instances, `WhatsOnChainBroadcaster` or `SHIPBroadcaster`,
+ * so that the outage of a single service does not prevent transactions from being broadcast.
+ *
+ * The aggregated result lists the outcome of every broadcaster that was used. Once the required number of
+ * successes has been reached, or can no longer be reached, the result is returned without waiting for
+ * the remaining broadcasters, which are then absent from the results.
+ *
+ * @example
+ * const broadcaster = new MultiBroadcaster([
+ *   { name: 'taal', broadcaster: new ARC('https://arc.taal.com', { apiKey }) },
+ *   { name: 'gorillapool', broadcaster: new ARC('https://arc.gorillapool.io') },
+ *   { name: 'woc', broadcaster: new WhatsOnChainBroadcaster('main') }
+ * ], { requiredSuccesses: 2 })
+ * await tx.broadcast(broadcaster)
+ */
+export default class MultiBroadcaster implements Broadcaster {
+  readonly broadcasters: NamedBroadcaster[]
+  readonly strategy: 'parallel' | 'priority'
+  readonly requiredSuccesses: number
+
+  /**
+   * Constructs an instance of the multi broadcaster.
+   *
+   * @param {Array<Broadcaster | NamedBroadcaster>} broadcasters - The broadcasters to use, in order of priority.
+   *        Broadcasters without a name are named after their class and position.
+   * @param {MultiBroadcasterConfig} config - Configuration options for the multi broadcaster.
+   */
+  constructor (
+    broadcasters: Array<Broadcaster | NamedBroadcaster>,
+    config: MultiBroadcasterConfig = {}
+  ) {
+    if (broadcasters.length === 0) {
+      throw new Error('At least one broadcaster is required.')
+    }
+    this.broadcasters = broadcasters.map((b, i) =>
+      'broadcaster' in b
+        ? b
+        : { name: `${i}:${b.constructor.name}`, broadcaster: b }
+    )
+    this.strategy = config.strategy ?? 'parallel'
+    const required = config.requiredSuccesses ?? 1
+    this.requiredSuccesses =
+      required === 'all' ? this.broadcasters.length : required
+    if (
+      !Number.isInteger(this.requiredSuccesses) ||
+      this.requiredSuccesses < 1 ||
+      this.requiredSuccesses > this.broadcasters.length
+    ) {
+      throw new Error(
+        `requiredSuccesses must be between 1 and the number of broadcasters (${this.broadcasters.length}).`
+      )
+    }
+  }
+
+  /**
+   * Broadcasts a transaction through the configured broadcasters.
+   *
+   * @param {Transaction} tx - The transaction to be broadcasted.
+   * @returns {Promise<MultiBroadcastResponse | MultiBroadcastFailure>} A promise that resolves to the aggregated outcome.
+   */
+  async broadcast (
+    tx: Transaction
+  ): Promise<MultiBroadcastResponse | MultiBroadcastFailure> {
+    const results =
+      this.strategy === 'priority'
+        ? await this.broadcastInPriorityOrder(tx)
+        : await this.broadcastInParallel(tx)
+    return this.aggregate(results)
+  }
+
+  /**
+   * Broadcasts multiple transactions, each through the configured broadcasters.
+   *
+   * @param {Transaction[]} txs - Array of transactions to be broadcasted.
+   * @returns {Promise<Array<MultiBroadcastResponse | MultiBroadcastFailure>>} The aggregated outcome for each transaction, in order.
+   */
+  async broadcastMany (
+    txs: Transaction[]
+  ): Promise<Array<MultiBroadcastResponse | MultiBroadcastFailure>> {
+    return await Promise.all(txs.map(async (tx) => await this.broadcast(tx)))
+  }
+
+  private async broadcastWith (
+    b: NamedBroadcaster,
+    tx: Transaction
+  ): Promise<BroadcasterResult> {
+    try {
+      return { name: b.name, result: await b.broadcaster.broadcast(tx) }
+    } catch (error) {
+      return {
+        name: b.name,
+        result: {
+          status: 'error',
+          code: '500',
+          description: error instanceof Error ? error.message : String(error)
+        }
+      }
+    }
+  }
+
+  private async broadcastInPriorityOrder (
+    tx: Transaction
+  ): Promise<BroadcasterResult[]> {
+    const results: BroadcasterResult[] = []
+    let successes = 0
+    for (let i = 0; i < this.broadcasters.length; i++) {
+      const remaining = this.broadcasters.length - i
+      if (successes >= this.requiredSuccesses || successes + remaining < this.requiredSuccesses) {
+        break
+      }
+      const r = await this.broadcastWith(this.broadcasters[i], tx)
+      results.push(r)
+      if (isBroadcastResponse(r.result)) successes++
+    }
+    return results
+  }
+
+  private async broadcastInParallel (
+    tx: Transaction
+  ): Promise<BroadcasterResult[]> {
+    return await new Promise((resolve) => {
+      const results: BroadcasterResult[] = []
+      let successes = 0
+      let failures = 0
+      let done = false
+      const total = this.broadcasters.length
+      for (const b of this.broadcasters) {
+        void this.broadcastWith(b, tx).then((r) => {
+          if (done) return
+          results.push(r)
+          if (isBroadcastResponse(r.result)) {
+            successes++
+          } else {
+            failures++
+          }
+          if (
+            successes >= this.requiredSuccesses ||
+            total - failures < this.requiredSuccesses ||
+            results.length === total
+          ) {
+            done = true
+            resolve(results)
+          }
+        })
+      }
+    })
+  }
+
+  private aggregate (
+    results: BroadcasterResult[]
+  ): MultiBroadcastResponse | MultiBroadcastFailure {
+    const successes = results
+      .map((r) => r.result)
+      .filter(isBroadcastResponse)
+    if (successes.length >= this.requiredSuccesses) {
+      const response: MultiBroadcastResponse = {
+        status: 'success',
+        txid: successes[0].txid,
+        message: `Broadcast succeeded with ${successes.length} of ${this.broadcasters.length} broadcasters: ${results
+          .filter((r) => isBroadcastResponse(r.result))
+          .map((r) => r.name)
+          .join(', ')}`,
+        results
+      }
+      const competingTxs = new Set<string>()
+      for (const s of successes) {
+        for (const txid of s.competingTxs ?? []) competingTxs.add(txid)
+      }
+      if (competingTxs.size > 0) {
+        response.competingTxs = Array.from(competingTxs)
+      }
+      return response
+    }
+    const failures = results.filter((r) => !isBroadcastResponse(r.result))
+    const failure: MultiBroadcastFailure = {
+      status: 'error',
+      code: 'ERR_INSUFFICIENT_BROADCASTS',
+      description: `Broadcast succeeded with ${successes.length} of ${this.broadcasters.length} broadcasters but ${this.requiredSuccesses} are required. ${failures
+        .map((r) => `${r.name}: ${(r.result as BroadcastFailure).description}`)
+        .join('; ')}`,
+      results
+    }
+    const txid = results.find((r) => r.result.txid !== undefined)?.result.txid
+    if (txid !== undefined) failure.txid = txid
+    return failure
+  }
+}
@@ -2,7 +2,7 @@ import ARC from '../../../transaction/broadcasters/ARC'
 import Transaction from '../../../transaction/Transaction'
 import { NodejsHttpClient } from '../../../transaction/http/NodejsHttpClient'
 import { FetchHttpClient } from '../../../transaction/http/FetchHttpClient'
-import { HttpClientRequestOptions } from '../../http'
+import { HttpClient, HttpClientRequestOptions, HttpClientResponse } from '../../http'
 import { RequestOptions } from 'https'
 
 // Mock Transaction
@@ -15,6 +15,10 @@ jest.mock('../../../transaction/Transaction', () => {
     toHexEF (): string {
       return 'mocked_transaction_hexEF'
     }
+
+    id (): string {
+      return 'mocked_txid'
+    }
   }
   return { __esModule: true, default: MockTransaction }
 })
@@ -250,6 +254,195 @@ describe('ARC Broadcaster', () => {
     }
   })
 
+  describe('retries', () => {
+    const retry = { maxAttempts: 3, initialDelayMs: 0, jitter: 0 }
+
+    function mockedHttpClient (
+      ...responses: Array<Partial<HttpClientResponse> | Error>
+    ): HttpClient & { request: jest.Mock } {
+      const request = jest.fn()
+      for (const response of responses) {
+        if (response instanceof Error) {
+          request.mockRejectedValueOnce(response)
+        } else {
+          request.mockResolvedValueOnce({
+            ok: response.status === 200,
+            statusText: '',
+            ...response
+          })
+        }
+      }
+      return { request }
+    }
+
+    it('does not retry unless a retry policy is configured', async () => {
+      const httpClient = mockedHttpClient({ status: 503, data: { detail: 'Service unavailable' } })
+      const response = await new ARC(URL, { httpClient }).broadcast(transaction)
+      expect(httpClient.request).toHaveBeenCalledTimes(1)
+      expect(response).toMatchObject({ status: 'error', code: '503' })
+    })
+
+    it('retries transient failures until one succeeds', async () => {
+      const httpClient = mockedHttpClient(
+        new Error('socket hang up'),
+        { status: 503, data: { detail: 'Service unavailable' } },
+        successResponse
+      )
+      const response = await new ARC(URL, { httpClient, retry }).broadcast(transaction)
+      expect(httpClient.request).toHaveBeenCalledTimes(3)
+      expect(response).toEqual({
+        status: 'success',
+        txid: 'mocked_txid',
+        message: 'success received'
+      })
+    })
+
+    it('retries rate limited and timed out requests', async () => {
+      const httpClient = mockedHttpClient(
+        { status: 429, data: { detail: 'Too many requests' } },
+        { status: 408, data: { detail: 'Request timeout' } },
+        successResponse
+      )
+      const response = await new ARC(URL, { httpClient, retry }).broadcast(transaction)
+      expect(httpClient.request).toHaveBeenCalledTimes(3)
+      expect(response.status).toBe('success')
+    })
+
+    it('gives up after the maximum number of attempts', async () => {
+      const httpClient = mockedHttpClient(
+        { status: 500, data: { detail: 'a' } },
+        { status: 502, data: { detail: 'b' } },
+        { status: 504, data: { detail: 'c' } },
+        successResponse
+      )
+      const response = await new ARC(URL, { httpClient, retry }).broadcast(transaction)
+      expect(httpClient.request).toHaveBeenCalledTimes(3)
+      expect(response).toMatchObject({ status: 'error', code: '504', description: 'c' })
+    })
+
+    it('does not retry permanent rejections', async () => {
+      const httpClient = mockedHttpClient({
+        status: 465,
+        data: { status: 465, detail: 'Fee too low' }
+      })
+      const response = await new ARC(URL, { httpClient, retry }).broadcast(transaction)
+      expect(httpClient.request).toHaveBeenCalledTimes(1)
+      expect(response).toMatchObject({ status: 'error', code: '465', description: 'Fee too low' })
+    })
+
+    it('backs off exponentially between attempts', async () => {
+      const delays: number[] = []
+      const setTimeoutSpy = jest
+        .spyOn(global, 'setTimeout')
+        .mockImplementation(((callback: () => void, ms: number) => {
+          delays.push(ms)
+          callback()
+          return 0
+        }) as unknown as typeof setTimeout)
+      const randomSpy = jest.spyOn(Math, 'random').mockReturnValue(0.5)
+      try {
+        const httpClient = mockedHttpClient(
+          { status: 500, data: {} },
+          { status: 500, data: {} },
+          { status: 500, data: {} },
+          { status: 500, data: {} }
+        )
+        await new ARC(URL, {
+          httpClient,
+          retry: { maxAttempts: 4, initialDelayMs: 100, maxDelayMs: 300, jitter: 0.5 }
+        }).broadcast(transaction)
+        expect(delays).toEqual([75, 150, 225])
+      } finally {
+        setTimeoutSpy.mockRestore()
+        randomSpy.mockRestore()
+      }
+    })
+
+    it('treats an already known transaction as success', async () => {
+      const httpClient = mockedHttpClient(
+        new Error('timeout'),
+        { status: 409, data: { status: 409, detail: 'Transaction already known', txid: 'known_txid' } }
+      )
+      const response = await new ARC(URL, { httpClient, retry }).broadcast(transaction)
+      expect(response).toMatchObject({ status: 'success', txid: 'known_txid' })
+    })
+
+    it('treats a SEEN_ON_NETWORK reply as success', async () => {
+      const httpClient = mockedHttpClient({
+        status: 400,
+        data: { txStatus: 'SEEN_ON_NETWORK', detail: 'Transaction rejected' }
+      })
+      const response = await new ARC(URL, { httpClient }).broadcast(transaction)
+      expect(response).toMatchObject({ status: 'success', txid: 'mocked_txid' })
+    })
+
+    it('retries only the transactions that failed in broadcastMany', async () => {
+      const httpClient = mockedHttpClient(
+        {
+          status: 200,
+          data: [
+            { status: 200, txid: 'a', txStatus: 'SEEN_ON_NETWORK' },
+            { status: 503, detail: 'Service unavailable' },
+            { status: 465, detail: 'Fee too low' }
+          ]
+        },
+        {
+          status: 200,
+          data: [{ status: 200, txid: 'b', txStatus: 'SEEN_ON_NETWORK' }]
+        }
+      )
+      const txs = [new Transaction(), new Transaction(), new Transaction()]
+      const responses = await new ARC(URL, { httpClient, retry }).broadcastMany(txs)
+      expect(httpClient.request).toHaveBeenCalledTimes(2)
+      expect(httpClient.request.mock.calls[1][1].data).toEqual([{ rawTx: 'mocked_transaction_hexEF' }])
+      expect(responses).toEqual([
+        { status: 200, txid: 'a', txStatus: 'SEEN_ON_NETWORK' },
+        { status: 200, txid: 'b', txStatus: 'SEEN_ON_NETWORK' },
+        { status: 465, detail: 'Fee too low' }
+      ])
+    })
+
+    it('treats already known transactions in broadcastMany as success', async () => {
+      const httpClient = mockedHttpClient({
+        status: 200,
+        data: [
+          { status: 400, txStatus: 'SEEN_ON_NETWORK', detail: 'Transaction rejected' },
+          { status: 409, txid: 'known_txid', detail: 'Transaction already known' },
+          { status: 465, detail: 'Fee too low' }
+        ]
+      })
+      const responses = await new ARC(URL, { httpClient }).broadcastMany([new Transaction(), new Transaction(), new Transaction()])
+      expect(responses).toEqual([
+        { status: 'success', txid: 'mocked_txid', message: 'Transaction already known: Transaction rejected' },
+        { status: 'success', txid: 'known_txid', message: 'Transaction already known: Transaction already known' },
+        { status: 465, detail: 'Fee too low' }
+      ])
+    })
+
+    it('reports a failure for transactions missing from the broadcastMany response', async () => {
+      const missing = {
+        status: 'error',
+        code: 'ERR_MISSING_RESPONSE',
+        description: 'ARC did not return a response for this transaction.'
+      }
+      const short = mockedHttpClient({ status: 200, data: [{ status: 200, txid: 'a' }, null] })
+      expect(await new ARC(URL, { httpClient: short }).broadcastMany([new Transaction(), new Transaction(), new Transaction()]))
+        .toEqual([{ status: 200, txid: 'a' }, missing, missing])
+      const notArray = mockedHttpClient({ status: 200, data: { txid: 'a' } })
+      expect(await new ARC(URL, { httpClient: notArray }).broadcastMany([new Transaction()])).toEqual([missing])
+    })
+
+    it('retries every transaction when the broadcastMany request fails', async () => {
+      const httpClient = mockedHttpClient(
+        new Error('socket hang up'),
+        { status: 200, data: [{ status: 200, txid: 'a' }, { status: 200, txid: 'b' }] }
+      )
+      const responses = await new ARC(URL, { httpClient, retry }).broadcastMany([new Transaction(), new Transaction()])
+      expect(httpClient.request).toHaveBeenCalledTimes(2)
+      expect(responses).toEqual([{ status: 200, txid: 'a' }, { status: 200, txid: 'b' }])
+    })
+  })
+
   function mockedFetch (response: { status: number, data: any }): jest.Mock {
     return jest.fn().mockResolvedValue({
       ok: response.status === 200,
@@ -0,0 +1,194 @@
+import ArcStatusTracker, { ArcTxStatus } from '../../../transaction/broadcasters/ArcStatusTracker'
+import Transaction from '../../../transaction/Transaction'
+import MerklePath from '../../../transaction/MerklePath'
+import LockingScript from '../../../script/LockingScript'
+import { HttpClient } from '../../../transaction/http'
+
+describe('ArcStatusTracker', () => {
+  const URL = 'https://arc.example.com'
+  let tx: Transaction
+  let txid: string
+  let merklePath: MerklePath
+
+  beforeEach(() => {
+    tx = new Transaction(1, [], [{ lockingScript: LockingScript.fromASM('OP_TRUE'), satoshis: 1 }], 0)
+    txid = tx.id('hex')
+    merklePath = MerklePath.fromCoinbaseTxidAndHeight(txid, 800000)
+  })
+
+  function mockedHttpClient (...statuses: Array<Partial<ArcTxStatus> | number>): HttpClient & { request: jest.Mock } {
+    const request = jest.fn()
+    for (const status of statuses) {
+      if (typeof status === 'number') {
+        request.mockResolvedValueOnce({ ok: false, status, statusText: '', data: { detail: 'Not found' } })
+      } else {
+        request.mockResolvedValueOnce({ ok: true, status: 200, statusText: 'OK', data: { txid, ...status } })
+      }
+    }
+    return { request }
+  }
+
+  it('Fetches the status of a transaction', async () => {
+    const httpClient = mockedHttpClient({ txStatus: 'SEEN_ON_NETWORK' })
+    const tracker = new ArcStatusTracker(URL, { httpClient, apiKey: 'key' })
+    const status = await tracker.getStatus(txid)
+    expect(status.txStatus).toEqual('SEEN_ON_NETWORK')
+    expect(httpClient.request).toHaveBeenCalledWith(`${URL}/v1/tx/${txid}`, {
+      method: 'GET',
+      headers: { Accept: 'application/json', Authorization: 'Bearer key' }
+    })
+  })
+
+  it('Throws when ARC does not know the transaction', async () => {
+    const tracker = new ArcStatusTracker(URL, { httpClient: mockedHttpClient(404) })
+    await expect(tracker.getStatus(txid)).rejects.toThrow('(404): Not found')
+  })
+
+  it('Polls until mined, emitting transitions and attaching the merkle path', async () => {
+    const httpClient = mockedHttpClient(
+      404,
+      { txStatus: 'STORED' },
+      { txStatus: 'STORED' },
+      { txStatus: 'SEEN_ON_NETWORK' },
+      { txStatus: 'MINED' },
+      { txStatus: 'MINED', blockHeight: 800000, merklePath: merklePath.toHex() }
+    )
+    const tracker = new ArcStatusTracker(URL, { httpClient, pollIntervalMs: 0 })
+    const transitions: string[] = []
+    tracker.listenForStatusChanges((status, trackedTx) => {
+      expect(trackedTx).toBe(tx)
+      transitions.push(status.txStatus)
+    })
+    const errors = jest.fn()
+    tracker.listenForErrors(errors)
+    const final = await tracker.track(tx)
+    expect(final.txStatus).toEqual('MINED')
+    expect(transitions).toEqual(['STORED', 'SEEN_ON_NETWORK', 'MINED'])
+    expect(tx.merklePath?.toHex()).toEqual(merklePath.toHex())
+    expect(httpClient.request).toHaveBeenCalledTimes(6)
+    expect(errors).toHaveBeenCalledTimes(1)
+    expect(errors.mock.calls[0][0].message).toMatch('(404): Not found')
+    expect(errors.mock.calls[0][1]).toEqual(txid)
+  })
+
+  it('Does not attach a merkle path that does not prove the transaction', async () => {
+    const otherPath = MerklePath.fromCoinbaseTxidAndHeight('00'.repeat(32), 800000)
+    const httpClient = mockedHttpClient(
+      { txStatus: 'MINED', blockHeight: 800000, merklePath: otherPath.toHex() },
+      { txStatus: 'MINED', blockHeight: 800000, merklePath: merklePath.toHex() }
+    )
+    const tracker = new ArcStatusTracker(URL, { httpClient, pollIntervalMs: 0 })
+    const errors = jest.fn()
+    tracker.listenForErrors(errors)
+    await tracker.track(tx)
+    expect(errors).toHaveBeenCalledTimes(1)
+    expect(errors.mock.calls[0][0].message).toMatch('not found in the Merkle Path')
+    expect(tx.merklePath?.toHex()).toEqual(merklePath.toHex())
+    expect(httpClient.request).toHaveBeenCalledTimes(2)
+  })
+
+  it('Checks the merkle root with the chain tracker', async () => {
+    const httpClient = mockedHttpClient(
+      { txStatus: 'MINED', blockHeight: 800000, merklePath: merklePath.toHex() },
+      { txStatus: 'MINED', blockHeight: 800000, merklePath: merklePath.toHex() }
+    )
+    const chainTracker = {
+      isValidRootForHeight: jest.fn().mockResolvedValueOnce(false).mockResolvedValueOnce(true),
+      currentHeight: jest.fn()
+    }
+    const tracker = new ArcStatusTracker(URL, { httpClient, pollIntervalMs: 0, chainTracker })
+    const errors = jest.fn()
+    tracker.listenForErrors(errors)
+    await tracker.track(tx)
+    expect(chainTracker.isValidRootForHeight).toHaveBeenCalledWith(txid, 800000)
+    expect(errors).toHaveBeenCalledTimes(1)
+    expect(errors.mock.calls[0][0].message).toMatch('which is not valid for block 800000')
+    expect(tx.merklePath).toBeInstanceOf(MerklePath)
+    expect(httpClient.request).toHaveBeenCalledTimes(2)
+  })
+
+  it('Stops tracking rejected transactions', async () => {
+    const tracker = new ArcStatusTracker(URL, {
+      httpClient: mockedHttpClient({ txStatus: 'RECEIVED' }, { txStatus: 'REJECTED', extraInfo: 'missing inputs' }),
+      pollIntervalMs: 0
+    })
+    const final = await tracker.track(tx)
+    expect(final).toEqual({ txid, txStatus: 'REJECTED', extraInfo: 'missing inputs' })
+    expect(tx.merklePath).toBeUndefined()
+  })
+
+  it('Times out', async () => {
+    const request = jest.fn().mockResolvedValue({ ok: true, status: 200, statusText: 'OK', data: { txid, txStatus: 'STORED' } })
+    const tracker = new ArcStatusTracker(URL, { httpClient: { request }, pollIntervalMs: 1, timeoutMs: 20 })
+    await expect(tracker.track(tx)).rejects.toThrow('Timed out tracking transaction')
+  })
+
+  it('Can stop tracking a transaction', async () => {
+    const request = jest.fn().mockResolvedValue({ ok: true, status: 200, statusText: 'OK', data: { txid, txStatus: 'STORED' } })
+    const tracker = new ArcStatusTracker(URL, { httpClient: { request }, pollIntervalMs: 1000 })
+    const tracking = tracker.track(tx)
+    await expect(tracker.track(tx)).rejects.toThrow('already being tracked')
+    tracker.untrack(txid)
+    await expect(tracking).rejects.toThrow('Stopped tracking')
+  })
+
+  describe('Callbacks', () => {
+    const callbackToken = 'secret'
+
+    it('Completes tracking from a callback', async () => {
+      const request = jest.fn().mockResolvedValue({ ok: true, status: 200, statusText: 'OK', data: { txid, txStatus: 'STORED' } })
+      const tracker = new ArcStatusTracker(URL, { httpClient: { request }, callbackToken, pollIntervalMs: 1000 })
+      const tracking = tracker.track(tx)
+      const statuses = tracker.handleCallback(
+        JSON.stringify({ txid, txStatus: 'MINED', blockHeight: 800000, merklePath: merklePath.toHex() }),
+        { authorization: `Bearer ${callbackToken}` }
+      )
+      expect(statuses).toHaveLength(1)
+      const final = await tracking
+      expect(final.txStatus).toEqual('MINED')
+      expect(tx.merklePath).toBeInstanceOf(MerklePath)
+    })
+
+    it('Parses batched callbacks and reports untracked transactions', () => {
+      const tracker = new ArcStatusTracker(URL, { httpClient: mockedHttpClient() })
+      const listener = jest.fn()
+      tracker.listenForStatusChanges(listener)
+      const statuses = tracker.handleCallback({
+        count: 2,
+        callbacks: [{ txid: 'a', txStatus: 'SEEN_ON_NETWORK' }, { txid: 'b', txStatus: 'DOUBLE_SPEND_ATTEMPTED', competingTxs: ['c'] }]
+      })
+      expect(statuses.map((s) => s.txStatus)).toEqual(['SEEN_ON_NETWORK', 'DOUBLE_SPEND_ATTEMPTED'])
+      expect(listener).toHaveBeenCalledTimes(2)
+      expect(listener.mock.calls[1]).toEqual([statuses[1], undefined])
+    })
+
+    it('Reports errors thrown by status listeners and completes tracking', async () => {
+      const request = jest.fn().mockResolvedValue({ ok: true, status: 200, statusText: 'OK', data: { txid, txStatus: 'STORED' } })
+      const tracker = new ArcStatusTracker(URL, { httpClient: { request }, pollIntervalMs: 1000 })
+      const errors = jest.fn()
+      const listener = jest.fn()
+      tracker.listenForErrors(errors)
+      tracker.listenForStatusChanges(() => { throw new Error('Listener failed') })
+      tracker.listenForStatusChanges(listener)
+      tracker.listenForErrors(() => { throw new Error('Error listener failed') })
+      const tracking = tracker.track(tx)
+      tracker.handleCallback({ txid, txStatus: 'MINED', blockHeight: 800000, merklePath: merklePath.toHex() })
+      const final = await tracking
+      expect(final.txStatus).toEqual('MINED')
+      expect(listener).toHaveBeenCalledWith(final, tx)
+      expect(errors).toHaveBeenCalledWith(new Error('Listener failed'), txid)
+    })
+
+    it('Rejects callbacks without the callback token', () => {
+      const tracker = new ArcStatusTracker(URL, { httpClient: mockedHttpClient(), callbackToken })
+      const payload = { txid, txStatus: 'MINED' }
+      expect(() => tracker.handleCallback(payload)).toThrow('Invalid ARC callback token.')
+      expect(() => tracker.handleCallback(payload, { Authorization: 'Bearer wrong' })).toThrow('Invalid ARC callback token.')
+    })
+
+    it('Rejects malformed payloads', () => {
+      const tracker = new ArcStatusTracker(URL, { httpClient: mockedHttpClient() })
+      expect(() => tracker.handleCallback({ hello: 'world' })).toThrow('not a transaction status')
+    })
+  })
+})
@@ -0,0 +1,117 @@
+import MultiBroadcaster, { MultiBroadcastResponse } from '../../../transaction/broadcasters/MultiBroadcaster'
+import { Broadcaster, BroadcastFailure, BroadcastResponse } from '../../../transaction/Broadcaster'
+import Transaction from '../../../transaction/Transaction'
+
+const success = (txid = 'mocked_txid', competingTxs?: string[]): BroadcastResponse => ({
+  status: 'success',
+  txid,
+  message: 'ok',
+  ...(competingTxs !== undefined ? { competingTxs } : {})
+})
+
+const failure = (description = 'rejected'): BroadcastFailure => ({
+  status: 'error',
+  code: '503',
+  description
+})
+
+const mockBroadcaster = (
+  result: BroadcastResponse | BroadcastFailure | Error,
+  delay = 0
+): Broadcaster & { broadcast: jest.Mock } => ({
+  broadcast: jest.fn(async () => {
+    await new Promise((resolve) => setTimeout(resolve, delay))
+    if (result instanceof Error) throw result
+    return result
+  })
+})
+
+describe('MultiBroadcaster', () => {
+  const tx = new Transaction()
+
+  it('Succeeds on the first success by default', async () => {
+    const a = mockBroadcaster(failure())
+    const b = mockBroadcaster(success())
+    const response = await new MultiBroadcaster([
+      { name: 'a', broadcaster: a },
+      { name: 'b', broadcaster: b }
+    ]).broadcast(tx)
+    expect(response.status).toEqual('success')
+    expect(response.txid).toEqual('mocked_txid')
+    expect(response.results.map((r) => r.name).sort()).toEqual(['a', 'b'])
+  })
+
+  it('Returns without waiting for slow broadcasters once the quorum is met', async () => {
+    const fast = mockBroadcaster(success(), 0)
+    const slow = mockBroadcaster(success(), 200)
+    const response = await new MultiBroadcaster([slow, fast]).broadcast(tx)
+    expect(response.status).toEqual('success')
+    expect(response.results).toHaveLength(1)
+    expect(response.results[0].name).toEqual('1:Object')
+    expect(slow.broadcast).toHaveBeenCalled()
+  })
+
+  it('Requires N of M successes', async () => {
+    const broadcasters = [mockBroadcaster(success()), mockBroadcaster(failure('down')), mockBroadcaster(success())]
+    const ok = await new MultiBroadcaster(broadcasters, { requiredSuccesses: 2 }).broadcast(tx)
+    expect(ok.status).toEqual('success')
+
+    const notOk = await new MultiBroadcaster(
+      [mockBroadcaster(success()), mockBroadcaster(failure('down')), mockBroadcaster(failure('rejected'))],
+      { requiredSuccesses: 2 }
+    ).broadcast(tx)
+    expect(notOk.status).toEqual('error')
+    expect((notOk as BroadcastFailure).code).toEqual('ERR_INSUFFICIENT_BROADCASTS')
+    expect((notOk as BroadcastFailure).description).toContain('down')
+    expect((notOk as BroadcastFailure).description).toContain('rejected')
+  })
+
+  it('Requires all successes when configured', async () => {
+    const response = await new MultiBroadcaster(
+      [mockBroadcaster(success()), mockBroadcaster(new Error('ECONNRESET'))],
+      { requiredSuccesses: 'all' }
+    ).broadcast(tx)
+    expect(response.status).toEqual('error')
+    const thrown = response.results.find((r) => r.result.status === 'error')
+    expect((thrown?.result as BroadcastFailure).description).toEqual('ECONNRESET')
+  })
+
+  it('Fails over in priority order', async () => {
+    const first = mockBroadcaster(failure())
+    const second = mockBroadcaster(success())
+    const third = mockBroadcaster(success())
+    const response = await new MultiBroadcaster([first, second, third], { strategy: 'priority' }).broadcast(tx)
+    expect(response.status).toEqual('success')
+    expect(first.broadcast).toHaveBeenCalled()
+    expect(second.broadcast).toHaveBeenCalled()
+    expect(third.broadcast).not.toHaveBeenCalled()
+    expect(response.results).toHaveLength(2)
+  })
+
+  it('Stops in priority order once the quorum can no longer be met', async () => {
+    const first = mockBroadcaster(failure())
+    const second = mockBroadcaster(failure())
+    const third = mockBroadcaster(success())
+    const response = await new MultiBroadcaster([first, second, third], { strategy: 'priority', requiredSuccesses: 2 }).broadcast(tx)
+    expect(response.status).toEqual('error')
+    expect(third.broadcast).not.toHaveBeenCalled()
+  })
+
+  it('Merges competing transactions reported by broadcasters', async () => {
+    const response = await new MultiBroadcaster(
+      [mockBroadcaster(success('t', ['x'])), mockBroadcaster(success('t', ['x', 'y']))],
+      { requiredSuccesses: 'all' }
+    ).broadcast(tx)
+    expect((response as MultiBroadcastResponse).competingTxs?.sort()).toEqual(['x', 'y'])
+  })
+
+  it('Broadcasts many transactions', async () => {
+    const responses = await new MultiBroadcaster([mockBroadcaster(success())]).broadcastMany([tx, tx])
+    expect(responses.map((r) => r.status)).toEqual(['success', 'success'])
+  })
+
+  it('Rejects invalid configurations', () => {
+    expect(() => new MultiBroadcaster([])).toThrow()
+    expect(() => new MultiBroadcaster([mockBroadcaster(success())], { requiredSuccesses: 2 })).toThrow()
+  })
+})
@@ -1,4 +1,14 @@
 export { default as ARC } from './ARC.js'
-export type { ArcConfig } from './ARC.js'
+export type { ArcConfig, ArcRetryConfig } from './ARC.js'
 export { default as WhatsOnChainBroadcaster } from './WhatsOnChainBroadcaster.js'
 export { defaultBroadcaster } from './DefaultBroadcaster.js'
+export { default as MultiBroadcaster } from './MultiBroadcaster.js'
+export type {
+  MultiBroadcasterConfig,
+  NamedBroadcaster,
+  BroadcasterResult,
+  MultiBroadcastResponse,
+  MultiBroadcastFailure
+} from './MultiBroadcaster.js'
+export { default as ArcStatusTracker } from './ArcStatusTracker.js'
+export type { ArcTxStatus, ArcStatusTrackerConfig } from './ArcStatusTracker.js'
@@ -0,0 +1,123 @@
+import { hash256 } from '../../primitives/Hash.js'
+import { Reader, Writer, toArray, toHex } from '../../primitives/utils.js'
+
+/**
+ * An 80-byte block header.
+ *
+ * Hashes are hex strings in the byte order shown by block explorers,
+ * which is also the order in which `MerklePath.computeRoot` returns merkle roots.
+ *
+ * @interface BlockHeader
+ * @property {number} version - The block version.
+ * @property {string} previousHash - The hash of the previous block header.
+ * @property {string} merkleRoot - The merkle root of the transactions in the block.
+ * @property {number} time - The block timestamp, in seconds since the Unix epoch.
+ * @property {number} bits - The compact encoding of the proof-of-work target.
+ * @property {number} nonce - The nonce.
+ */
+export interface BlockHeader {
+  version: number
+  previousHash: string
+  merkleRoot: string
+  time: number
+  bits: number
+  nonce: number
+}
+
+/**
+ * Parses an 80-byte block header.
+ *
+ * @param header The serialized header, as bytes or a hex string.
+ * @returns The parsed block header.
+ * @throws {Error} If the header is not 80 bytes long.
+ */
+export function parseBlockHeader (header: number[] | string): BlockHeader {
+  const bytes = typeof header === 'string' ? toArray(header, 'hex') : header
+  if (bytes.length !== 80) {
+    throw new Error(`Block headers are 80 bytes, got ${bytes.length}.`)
+  }
+  const reader = new Reader(bytes)
+  return {
+    version: reader.readInt32LE(),
+    previousHash: toHex(reader.readReverse(32)),
+    merkleRoot: toHex(reader.readReverse(32)),
+    time: reader.readUInt32LE(),
+    bits: reader.readUInt32LE(),
+    nonce: reader.readUInt32LE()
+  }
+}
+
+/**
+ * Serializes a block header into its 80-byte form.
+ *
+ * @param header The block header.
+ * @returns The serialized header.
+ */
+export function serializeBlockHeader (header: BlockHeader): number[] {
+  const writer = new Writer()
+  writer.writeInt32LE(header.version)
+  writer.writeReverse(toArray(header.previousHash, 'hex'))
+  writer.writeReverse(toArray(header.merkleRoot, 'hex'))
+  writer.writeUInt32LE(header.time)
+  writer.writeUInt32LE(header.bits)
+  writer.writeUInt32LE(header.nonce)
+  return writer.toArray()
+}
+
+/**
+ * Computes the hash of a block header.
+ *
+ * @param header The block header, parsed or serialized.
+ * @returns The block hash as a hex string.
+ */
+export function blockHeaderHash (header: BlockHeader | number[]): string {
+  const bytes = Array.isArray(header) ? header : serializeBlockHeader(header)
+  return toHex(hash256(bytes).reverse())
+}
+
+/**
+ * Expands the compact `bits` encoding of a proof-of-work target.
+ *
+ * @param bits The compact target.
+ * @returns The target.
+ * @throws {Error} If the compact target is negative.
+ */
+export function bitsToTarget (bits: number): bigint {
+  const size = bits >>> 24
+  const word = bits & 0x007fffff
+  if (word !== 0 && (bits & 0x00800000) !== 0) {
+    throw new Error(`The compact target ${bits.toString(16)} is negative.`)
+  }
+  return size <= 3
+    ? BigInt(word >>> (8 * (3 - size)))
+    : BigInt(word) << BigInt(8 * (size - 3))
+}
+
+/**
+ * Encodes a proof-of-work target in its compact `bits` form, losing precision as consensus does.
+ *
+ * @param target The target.
+ * @returns The compact target.
+ */
+export function targetToBits (target: bigint): number {
+  let size = target === BigInt(0) ? 0 : Math.ceil(target.toString(16).length / 2)
+  let compact = size <= 3
+    ? Number(target << BigInt(8 * (3 - size)))
+    : Number(target >> BigInt(8 * (size - 3)))
+  if ((compact & 0x00800000) !== 0) {
+    compact >>>= 8
+    size++
+  }
+  return (compact | (size << 24)) >>> 0
+}
+
+/**
+ * Computes the expected number of hashes needed to find a block with a given target.
+ *
+ * @param bits The compact target.
+ * @returns The work represented by a block with this target.
+ */
+export function blockWork (bits: number): bigint {
+  const target = bitsToTarget(bits)
+  return (BigInt(1) << BigInt(256)) / (target + BigInt(1))
+}
@@ -0,0 +1,391 @@
+import ChainTracker from '../ChainTracker.js'
+import HeaderStore, { StoredHeader } from './HeaderStore.js'
+import MemoryHeaderStore from './MemoryHeaderStore.js'
+import {
+  blockHeaderHash,
+  blockWork,
+  bitsToTarget,
+  parseBlockHeader,
+  targetToBits
+} from './BlockHeader.js'
+import { toArray } from '../../primitives/utils.js'
+
+/**
+ * The consensus parameters used to validate a chain of block headers.
+ *
+ * @interface HeaderChainParams
+ * @property {string} genesisHeader - The serialized genesis block header, as hex.
+ * @property {bigint} powLimit - The easiest proof-of-work target allowed.
+ * @property {number} targetSpacing - The intended time between blocks, in seconds.
+ * @property {number} retargetInterval - The number of blocks between legacy difficulty adjustments.
+ * @property {boolean} [noRetargeting] - Optional. Whether the difficulty never changes, as on regtest.
+ * @property {number} [edaHeight] - Optional. The first height at which the emergency difficulty adjustment applies.
+ * @property {number} [daaHeight] - Optional. The first height at which the difficulty is adjusted every block.
+ */
+export interface HeaderChainParams {
+  genesisHeader: string
+  powLimit: bigint
+  targetSpacing: number
+  retargetInterval: number
+  noRetargeting?: boolean
+  edaHeight?: number
+  daaHeight?: number
+}
+
+/** The header chain parameters of the BSV mainnet. */
+export const mainnetHeaderChainParams: HeaderChainParams = {
+  genesisHeader:
+    '0100000000000000000000000000000000000000000000000000000000000000000000003ba3edfd7a7b12b27ac72c3e67768f617fc81bc3888a51323a9fb8aa4b1e5e4a29ab5f49ffff001d1dac2b7c',
+  powLimit: BigInt(
+    '0x00000000ffffffffffffffffffffffffffffffffffffffffffffffffffffffff'
+  ),
+  targetSpacing: 600,
+  retargetInterval: 2016,
+  edaHeight: 478559,
+  daaHeight: 504032
+}
+
+/** The header chain parameters of a regression test network. */
+export const regtestHeaderChainParams: HeaderChainParams = {
+  genesisHeader:
+    '0100000000000000000000000000000000000000000000000000000000000000000000003ba3edfd7a7b12b27ac72c3e67768f617fc81bc3888a51323a9fb8aa4b1e5e4adae5494dffff7f2002000000',
+  powLimit: BigInt(
+    '0x7fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff'
+  ),
+  targetSpacing: 600,
+  retargetInterval: 2016,
+  noRetargeting: true
+}
+
+/** Configuration options for the block header chain tracker. */
+export interface BlockHeaderChainTrackerConfig {
+  /** Where headers are kept. Defaults to a `MemoryHeaderStore`. */
+  store?: HeaderStore
+  /** The consensus parameters of the chain. Defaults to mainnet. */
+  params?: HeaderChainParams
+  /**
+   * A header trusted without validation, from which the chain is built. Defaults to the genesis header.
+   * Difficulty adjustments that depend on blocks before the checkpoint are not checked.
+   */
+  checkpoint?: { header: number[] | string, height: number }
+}
+
+/** The number of blocks the difficulty adjustment algorithm averages over. */
+const DAA_WINDOW = 144
+
+/**
+ * Represents a chain tracker that answers from block headers it has validated itself,
+ * so that merkle roots can be checked offline and without trusting a remote service.
+ *
+ * Headers are added with `addHeader` or `addHeaders`. Each header must build on a known header, carry
+ * enough proof-of-work for its target, have a timestamp later than the median of the previous 11 blocks,
+ * and have the target required by the difficulty adjustment rules in force at its height.
+ * Headers of competing branches are kept, and the branch with the most accumulated work is the active chain.
+ *
+ * @example
+ * const chainTracker = new BlockHeaderChainTracker({ store: new FileHeaderStore('./headers.bin') })
+ * await chainTracker.addHeaders(headersFromPeer)
+ * await tx.verify(chainTracker)
+ */
+export default class BlockHeaderChainTracker implements ChainTracker {
+  readonly store: HeaderStore
+  readonly params: HeaderChainParams
+  private readonly checkpoint: { header: number[] | string, height: number }
+  private ready?: Promise<void>
+  private queue: Promise<unknown> = Promise.resolve()
+
+  /**
+   * Constructs an instance of the block header chain tracker.
+   *
+   * @param {BlockHeaderChainTrackerConfig} config - Configuration options for the chain tracker.
+   */
+  constructor (config: BlockHeaderChainTrackerConfig = {}) {
+    this.store = config.store ?? new MemoryHeaderStore()
+    this.params = config.params ?? mainnetHeaderChainParams
+    this.checkpoint = config.checkpoint ?? {
+      header: this.params.genesisHeader,
+      height: 0
+    }
+  }
+
+  /**
+   * Validates a block header and adds it to the store, switching the active chain if the header
+   * makes its branch the one with the most work.
+   *
+   * @param header The 80-byte header, as bytes or a hex string.
+   * @returns The stored header.
+   * @throws {Error} If the header does not build on a known header or breaks a consensus rule.
+   */
+  async addHeader (header: number[] | string): Promise<StoredHeader> {
+    const result = this.queue.then(async () => await this.add(header))
+    this.queue = result.catch(() => {})
+    return await result
+  }
+
+  /**
+   * Validates and adds a sequence of block headers, in order.
+   *
+   * @param headers The headers, either as separate headers or as consecutive 80-byte headers in one array.
+   * @returns The stored headers.
+   * @throws {Error} If a header is invalid. The headers before it remain added.
+   */
+  async addHeaders (
+    headers: Array<number[] | string> | number[]
+  ): Promise<StoredHeader[]> {
+    const list: Array<number[] | string> = []
+    if (headers.length > 0 && typeof headers[0] === 'number') {
+      const bytes = headers as number[]
+      if (bytes.length % 80 !== 0) {
+        throw new Error('Concatenated headers must be a multiple of 80 bytes long.')
+      }
+      for (let i = 0; i < bytes.length; i += 80) {
+        list.push(bytes.slice(i, i + 80))
+      }
+    } else {
+      list.push(...(headers as Array<number[] | string>))
+    }
+    const stored: StoredHeader[] = []
+    for (const header of list) {
+      stored.push(await this.addHeader(header))
+    }
+    return stored
+  }
+
+  /**
+   * Verifies that a merkle root is the one of the active chain block at a height.
+   *
+   * @param root The merkle root, as returned by `MerklePath.computeRoot`.
+   * @param height The block height.
+   * @returns True if the active chain block at the height has this merkle root.
+   */
+  async isValidRootForHeight (root: string, height: number): Promise<boolean> {
+    const header = await this.getHeaderAtHeight(height)
+    return header !== undefined && header.header.merkleRoot === root
+  }
+
+  /**
+   * Returns the height of the tip of the active chain.
+   */
+  async currentHeight (): Promise<number> {
+    await this.initialize()
+    const tip = await this.store.getActiveTip()
+    return (tip as StoredHeader).height
+  }
+
+  /**
+   * Returns the active chain header at a height, if it is known.
+   *
+   * @param height The block height.
+   */
+  async getHeaderAtHeight (height: number): Promise<StoredHeader | undefined> {
+    await this.initialize()
+    const hash = await this.store.getActiveHash(height)
+    return hash === undefined ? undefined : await this.store.getHeader(hash)
+  }
+
+  /**
+   * Returns the tips of all known branches, including the active one.
+   */
+  async getTips (): Promise<StoredHeader[]> {
+    await this.initialize()
+    return await this.store.getTips()
+  }
+
+  private async initialize (): Promise<void> {
+    if (this.ready === undefined) {
+      this.ready = (async () => {
+        if (await this.store.getActiveTip() !== undefined) return
+        const bytes = typeof this.checkpoint.header === 'string'
+          ? toArray(this.checkpoint.header, 'hex')
+          : this.checkpoint.header
+        const header = parseBlockHeader(bytes)
+        const hash = blockHeaderHash(bytes)
+        await this.store.putHeader({
+          hash,
+          height: this.checkpoint.height,
+          header,
+          chainWork: blockWork(header.bits)
+        })
+        await this.store.setActiveChain(this.checkpoint.height, [hash])
+      })()
+    }
+    await this.ready
+  }
+
+  private async add (headerBytes: number[] | string): Promise<StoredHeader> {
+    await this.initialize()
+    const bytes = typeof headerBytes === 'string'
+      ? toArray(headerBytes, 'hex')
+      : headerBytes
+    const header = parseBlockHeader(bytes)
+    const hash = blockHeaderHash(bytes)
+    const existing = await this.store.getHeader(hash)
+    if (existing !== undefined) return existing
+
+    const prev = await this.store.getHeader(header.previousHash)
+    if (prev === undefined) {
+      throw new Error(`Header ${hash} builds on unknown header ${header.previousHash}.`)
+    }
+    const height = prev.height + 1
+
+    const target = bitsToTarget(header.bits)
+    if (target === BigInt(0) || target > this.params.powLimit) {
+      throw new Error(`Header ${hash} has an invalid target ${header.bits.toString(16)}.`)
+    }
+    if (BigInt('0x' + hash) > target) {
+      throw new Error(`Header ${hash} does not meet its proof-of-work target.`)
+    }
+
+    const medianTimePast = await this.medianTimePast(prev)
+    if (header.time <= medianTimePast) {
+      throw new Error(
+        `Header ${hash} has time ${header.time}, which is not after the median time of the previous blocks (${medianTimePast}).`
+      )
+    }
+
+    const expectedBits = await this.expectedBits(prev)
+    if (expectedBits !== undefined && header.bits !== expectedBits) {
+      throw new Error(
+        `Header ${hash} at height ${height} has target ${header.bits.toString(16)}, but ${expectedBits.toString(16)} is required.`
+      )
+    }
+
+    const stored: StoredHeader = {
+      hash,
+      height,
+      header,
+      chainWork: prev.chainWork + blockWork(header.bits)
+    }
+    await this.store.putHeader(stored)
+    const tip = await this.store.getActiveTip() as StoredHeader
+    if (stored.chainWork > tip.chainWork) {
+      await this.activate(stored)
+    }
+    return stored
+  }
+
+  /**
+   * Makes the branch ending in a header the active chain, replacing the active blocks after the fork point.
+   */
+  private async activate (tip: StoredHeader): Promise<void> {
+    const hashes = [tip.hash]
+    let fork = tip
+    while (await this.store.getActiveHash(fork.height - 1) !== fork.header.previousHash) {
+      fork = await this.store.getHeader(fork.header.previousHash) as StoredHeader
+      hashes.unshift(fork.hash)
+    }
+    await this.store.setActiveChain(fork.height, hashes)
+  }
+
+  /**
+   * Returns the ancestor of a header at a height, or undefined if it comes before the checkpoint.
+   */
+  private async ancestor (
+    header: StoredHeader,
+    height: number
+  ): Promise<StoredHeader | undefined> {
+    let current: StoredHeader | undefined = header
+    while (current !== undefined && current.height > height) {
+      if (await this.store.getActiveHash(current.height) === current.hash) {
+        const hash = await this.store.getActiveHash(height)
+        return hash === undefined ? undefined : await this.store.getHeader(hash)
+      }
+      current = await this.store.getHeader(current.header.previousHash)
+    }
+    return current
+  }
+
+  /**
+   * Returns the median time of a header and up to 10 of its ancestors.
+   */
+  private async medianTimePast (header: StoredHeader): Promise<number> {
+    const times: number[] = []
+    let current: StoredHeader | undefined = header
+    while (current !== undefined && times.length < 11) {
+      times.push(current.header.time)
+      current = await this.store.getHeader(current.header.previousHash)
+    }
+    times.sort((a, b) => a - b)
+    return times[Math.floor(times.length / 2)]
+  }
+
+  /**
+   * Returns the target required of the block after `prev`,
+   * or undefined if it depends on headers from before the checkpoint.
+   */
+  private async expectedBits (prev: StoredHeader): Promise<number | undefined> {
+    const { noRetargeting, daaHeight, edaHeight, retargetInterval } = this.params
+    const height = prev.height + 1
+    if (noRetargeting === true) {
+      return prev.header.bits
+    }
+    if (daaHeight !== undefined && height >= daaHeight) {
+      return await this.nextDaaBits(prev)
+    }
+    if (height % retargetInterval === 0) {
+      const first = await this.ancestor(prev, height - retargetInterval)
+      if (first === undefined) return undefined
+      return this.nextRetargetBits(prev, first)
+    }
+    const powLimitBits = targetToBits(this.params.powLimit)
+    if (edaHeight !== undefined && height >= edaHeight && prev.header.bits !== powLimitBits) {
+      // The emergency difficulty adjustment lowers the difficulty by 20% when the last 6 blocks took over 12 hours.
+      const sixBack = await this.ancestor(prev, prev.height - 6)
+      if (sixBack === undefined || await this.ancestor(sixBack, sixBack.height - 10) === undefined) {
+        return undefined
+      }
+      const elapsed = await this.medianTimePast(prev) - await this.medianTimePast(sixBack)
+      if (elapsed >= 12 * 3600) {
+        const target = bitsToTarget(prev.header.bits)
+        return this.capToPowLimit(target + (target >> BigInt(2)))
+      }
+    }
+    return prev.header.bits
+  }
+
+  private nextRetargetBits (prev: StoredHeader, first: StoredHeader): number {
+    const targetTimespan = this.params.retargetInterval * this.params.targetSpacing
+    const timespan = Math.min(
+      Math.max(prev.header.time - first.header.time, Math.floor(targetTimespan / 4)),
+      targetTimespan * 4
+    )
+    const target = bitsToTarget(prev.header.bits) * BigInt(timespan) / BigInt(targetTimespan)
+    return this.capToPowLimit(target)
+  }
+
+  private async nextDaaBits (prev: StoredHeader): Promise<number | undefined> {
+    const spacing = this.params.targetSpacing
+    const first = await this.ancestor(prev, prev.height - DAA_WINDOW)
+    if (first === undefined) return undefined
+    const suitableLast = await this.suitableBlock(prev)
+    const suitableFirst = await this.suitableBlock(first)
+    if (suitableLast === undefined || suitableFirst === undefined) return undefined
+    const timespan = Math.min(
+      Math.max(suitableLast.header.time - suitableFirst.header.time, 72 * spacing),
+      288 * spacing
+    )
+    const work = (suitableLast.chainWork - suitableFirst.chainWork) * BigInt(spacing) / BigInt(timespan)
+    const target = ((BigInt(1) << BigInt(256)) - work) / work
+    return this.capToPowLimit(target)
+  }
+
+  /**
+   * Returns the header with the median time among a header and its two predecessors.
+   */
+  private async suitableBlock (header: StoredHeader): Promise<StoredHeader | undefined> {
+    const prev = await this.store.getHeader(header.header.previousHash)
+    const prevPrev = prev === undefined
+      ? undefined
+      : await this.store.getHeader(prev.header.previousHash)
+    if (prev === undefined || prevPrev === undefined) return undefined
+    const blocks = [prevPrev, prev, header]
+    if (blocks[0].header.time > blocks[2].header.time) [blocks[0], blocks[2]] = [blocks[2], blocks[0]]
+    if (blocks[0].header.time > blocks[1].header.time) [blocks[0], blocks[1]] = [blocks[1], blocks[0]]
+    if (blocks[1].header.time > blocks[2].header.time) [blocks[1], blocks[2]] = [blocks[2], blocks[1]]
+    return blocks[1]
+  }
+
+  private capToPowLimit (target: bigint): number {
+    return targetToBits(target > this.params.powLimit ? this.params.powLimit : target)
+  }
+}
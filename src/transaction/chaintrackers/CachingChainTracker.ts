@@ -0,0 +1,224 @@
+import ChainTracker from '../ChainTracker.js'
+
+/** Configuration options for the caching chain tracker. */
+export interface CachingChainTrackerConfig {
+  /**
+   * How the answers of several chain trackers are combined:
+   * 'all' requires every tracker to answer and agree, 'majority' requires more than half of them to agree,
+   * and 'first' uses the first tracker that answers, in the order given. Defaults to 'all'.
+   */
+  agreement?: 'all' | 'majority' | 'first'
+  /** The number of merkle roots kept in the cache. Defaults to 1000. */
+  cacheSize?: number
+  /**
+   * How many blocks deep a block must be, counting itself, before its merkle root is cached.
+   * Shallower blocks may still be reorganized away. Defaults to 6.
+   */
+  minCacheDepth?: number
+  /** How long the current height is reused for depth checks, in milliseconds. Defaults to 1 minute. */
+  currentHeightTtlMs?: number
+}
+
+/**
+ * The answer of one of the underlying chain trackers, as reported by a `ChainTrackerMismatchError`.
+ */
+export interface ChainTrackerAnswer {
+  index: number
+  valid?: boolean
+  error?: Error
+}
+
+/**
+ * Thrown when the underlying chain trackers of a `CachingChainTracker` disagree about a merkle root.
+ */
+export class ChainTrackerMismatchError extends Error {
+  root: string
+  height: number
+  answers: ChainTrackerAnswer[]
+
+  constructor (root: string, height: number, answers: ChainTrackerAnswer[]) {
+    super(
+      `Chain trackers disagree about merkle root ${root} at height ${height}: ${answers
+        .map((a) => `#${a.index} ${a.error !== undefined ? `failed (${a.error.message})` : String(a.valid)}`)
+        .join(', ')}`
+    )
+    this.name = this.constructor.name
+    this.root = root
+    this.height = height
+    this.answers = answers
+  }
+}
+
+/**
+ * Represents a chain tracker that combines one or more chain trackers and caches their confirmations.
+ *
+ * Verifying a BEEF checks the merkle root of every BUMP, so the same roots are often asked for repeatedly.
+ * Confirmed roots of blocks buried at least `minCacheDepth` deep are kept in an LRU cache,
+ * and concurrent requests for the same root share a single lookup.
+ *
+ * When several chain trackers are given, their answers must agree according to the `agreement` policy.
+ * Disagreements are reported with a `ChainTrackerMismatchError` rather than by returning false.
+ *
+ * @example
+ * const chainTracker = new CachingChainTracker([
+ *   new WhatsOnChain('main', { apiKey }),
+ *   new BlockHeaderChainTracker({ store })
+ * ], { agreement: 'all' })
+ * await beef.verify(chainTracker)
+ */
+export default class CachingChainTracker implements ChainTracker {
+  readonly trackers: ChainTracker[]
+  readonly agreement: 'all' | 'majority' | 'first'
+  readonly cacheSize: number
+  readonly minCacheDepth: number
+  readonly currentHeightTtlMs: number
+  private readonly roots: Map<number, string> = new Map()
+  private readonly pending: Map<string, Promise<boolean>> = new Map()
+  private height?: { value: number, expires: number }
+
+  /**
+   * Constructs an instance of the caching chain tracker.
+   *
+   * @param {ChainTracker | ChainTracker[]} trackers - The chain tracker, or chain trackers, to answer from.
+   * @param {CachingChainTrackerConfig} config - Configuration options for the chain tracker.
+   */
+  constructor (
+    trackers: ChainTracker | ChainTracker[],
+    config: CachingChainTrackerConfig = {}
+  ) {
+    this.trackers = Array.isArray(trackers) ? trackers : [trackers]
+    if (this.trackers.length === 0) {
+      throw new Error('At least one chain tracker is required.')
+    }
+    this.agreement = config.agreement ?? 'all'
+    this.cacheSize = config.cacheSize ?? 1000
+    this.minCacheDepth = config.minCacheDepth ?? 6
+    this.currentHeightTtlMs = config.currentHeightTtlMs ?? 60 * 1000
+  }
+
+  /**
+   * Verifies a merkle root for a block height, from the cache when possible.
+   *
+   * @param root The merkle root to verify.
+   * @param height The block height.
+   * @returns True if the underlying chain trackers confirm the root.
+   * @throws {ChainTrackerMismatchError} If the underlying chain trackers disagree.
+   */
+  async isValidRootForHeight (root: string, height: number): Promise<boolean> {
+    const cached = this.roots.get(height)
+    if (cached !== undefined) {
+      // Refresh the entry's position as the most recently used.
+      this.roots.delete(height)
+      this.roots.set(height, cached)
+      return cached === root
+    }
+    const key = `${height}:${root}`
+    let lookup = this.pending.get(key)
+    if (lookup === undefined) {
+      lookup = this.lookup(root, height).finally(() => {
+        this.pending.delete(key)
+      })
+      this.pending.set(key, lookup)
+    }
+    return await lookup
+  }
+
+  /**
+   * Returns the current block height.
+   *
+   * With several chain trackers, the lowest height reported is used, since trackers may lag behind
+   * the network. With the 'first' policy, the first tracker that answers is used.
+   */
+  async currentHeight (): Promise<number> {
+    if (this.agreement === 'first') {
+      return await this.first(async (tracker) => await tracker.currentHeight())
+    }
+    const results = await Promise.allSettled(
+      this.trackers.map(async (tracker) => await tracker.currentHeight())
+    )
+    const heights: number[] = []
+    for (const result of results) {
+      if (result.status === 'fulfilled') {
+        heights.push(result.value)
+      } else if (this.agreement === 'all') {
+        throw result.reason
+      }
+    }
+    if (heights.length <= this.trackers.length / 2) {
+      throw new Error('Not enough chain trackers reported the current height.')
+    }
+    return Math.min(...heights)
+  }
+
+  /**
+   * Empties the cache of confirmed merkle roots.
+   */
+  clearCache (): void {
+    this.roots.clear()
+    this.height = undefined
+  }
+
+  private async lookup (root: string, height: number): Promise<boolean> {
+    const valid = await this.query(root, height)
+    if (valid && await this.isDeepEnough(height)) {
+      this.roots.set(height, root)
+      if (this.roots.size > this.cacheSize) {
+        // Maps iterate in insertion order, so the first key is the least recently used.
+        this.roots.delete(this.roots.keys().next().value as number)
+      }
+    }
+    return valid
+  }
+
+  private async query (root: string, height: number): Promise<boolean> {
+    if (this.agreement === 'first') {
+      return await this.first(async (tracker) => await tracker.isValidRootForHeight(root, height))
+    }
+    const answers: ChainTrackerAnswer[] = await Promise.all(
+      this.trackers.map(async (tracker, index) => {
+        try {
+          return { index, valid: await tracker.isValidRootForHeight(root, height) }
+        } catch (error) {
+          return { index, error: error instanceof Error ? error : new Error(String(error)) }
+        }
+      })
+    )
+    const confirmations = answers.filter((a) => a.valid === true).length
+    const denials = answers.filter((a) => a.valid === false).length
+    const required = this.agreement === 'all' ? answers.length : Math.floor(answers.length / 2) + 1
+    if (confirmations >= required) return true
+    if (denials >= required) return false
+    if (confirmations > 0 && denials > 0) {
+      throw new ChainTrackerMismatchError(root, height, answers)
+    }
+    // Too few trackers answered to reach agreement.
+    throw answers.find((a) => a.error !== undefined)?.error as Error
+  }
+
+  private async first<T>(ask: (tracker: ChainTracker) => Promise<T>): Promise<T> {
+    let lastError: unknown
+    for (const tracker of this.trackers) {
+      try {
+        return await ask(tracker)
+      } catch (error) {
+        lastError = error
+      }
+    }
+    throw lastError
+  }
+
+  private async isDeepEnough (height: number): Promise<boolean> {
+    if (this.minCacheDepth <= 1) return true
+    if (this.height === undefined || this.height.expires <= Date.now()) {
+      try {
+        this.height = {
+          value: await this.currentHeight(),
+          expires: Date.now() + this.currentHeightTtlMs
+        }
+      } catch {
+        return false
+      }
+    }
+    return this.height.value - height + 1 >= this.minCacheDepth
+  }
+}
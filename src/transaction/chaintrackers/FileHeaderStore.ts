@@ -0,0 +1,164 @@
+import HeaderStore, { StoredHeader } from './HeaderStore.js'
+import MemoryHeaderStore from './MemoryHeaderStore.js'
+import { blockHeaderHash, parseBlockHeader, serializeBlockHeader } from './BlockHeader.js'
+import { Reader, Writer, toArray, toHex } from '../../primitives/utils.js'
+
+/** The file system operations needed by `FileHeaderStore`, as provided by the Node `fs.promises` module. */
+export interface HeaderFileSystem {
+  /** Reads a whole file, rejecting with an error whose `code` is 'ENOENT' if it does not exist. */
+  readFile: (path: string) => Promise<Uint8Array>
+  /** Appends data to a file, creating it if needed. */
+  appendFile: (path: string, data: Uint8Array) => Promise<void>
+  /** Shortens a file to the given length. */
+  truncate: (path: string, length: number) => Promise<void>
+}
+
+const HEADER_RECORD = 1
+const ACTIVE_CHAIN_RECORD = 2
+
+async function defaultFileSystem (): Promise<HeaderFileSystem> {
+  try {
+    // Left out of bundles, as the file system is only available in Node.
+    return await import(/* webpackIgnore: true */ 'fs/promises')
+  } catch {
+    throw new Error('No file system is available, one must be provided to FileHeaderStore.')
+  }
+}
+
+/** The size of the varint starting with the given byte. */
+function varIntSize (prefix: number): number {
+  return prefix < 0xfd ? 1 : prefix === 0xfd ? 3 : prefix === 0xfe ? 5 : 9
+}
+
+/**
+ * Keeps block headers in memory and persists them to an append-only file, from which they are
+ * reloaded the first time the store is used. A record cut short by an interrupted write is
+ * dropped from the end of the file when it is reloaded.
+ *
+ * Each header takes 117 bytes on disk, and each change of the active chain 32 bytes per block hash.
+ */
+export default class FileHeaderStore implements HeaderStore {
+  readonly path: string
+  private fs?: HeaderFileSystem
+  private loading?: Promise<MemoryHeaderStore>
+  private writing: Promise<void> = Promise.resolve()
+
+  /**
+   * Constructs a file backed header store.
+   *
+   * @param {string} path - The path of the file the headers are kept in.
+   * @param {HeaderFileSystem} [fs] - The file system to use. Defaults to the Node `fs` module.
+   */
+  constructor (path: string, fs?: HeaderFileSystem) {
+    this.path = path
+    this.fs = fs
+  }
+
+  async getHeader (hash: string): Promise<StoredHeader | undefined> {
+    return await (await this.load()).getHeader(hash)
+  }
+
+  async putHeader (header: StoredHeader): Promise<void> {
+    const store = await this.load()
+    if (await store.getHeader(header.hash) !== undefined) return
+    await store.putHeader(header)
+    const writer = new Writer()
+    writer.writeUInt8(HEADER_RECORD)
+    writer.write(serializeBlockHeader(header.header))
+    writer.writeUInt32LE(header.height)
+    writer.write(toArray(header.chainWork.toString(16).padStart(64, '0'), 'hex'))
+    await this.append(writer.toArray())
+  }
+
+  async getTips (): Promise<StoredHeader[]> {
+    return await (await this.load()).getTips()
+  }
+
+  async getActiveHash (height: number): Promise<string | undefined> {
+    return await (await this.load()).getActiveHash(height)
+  }
+
+  async getActiveTip (): Promise<StoredHeader | undefined> {
+    return await (await this.load()).getActiveTip()
+  }
+
+  async setActiveChain (fromHeight: number, hashes: string[]): Promise<void> {
+    await (await this.load()).setActiveChain(fromHeight, hashes)
+    const writer = new Writer()
+    writer.writeUInt8(ACTIVE_CHAIN_RECORD)
+    writer.writeUInt32LE(fromHeight)
+    writer.writeVarIntNum(hashes.length)
+    for (const hash of hashes) {
+      writer.write(toArray(hash, 'hex'))
+    }
+    await this.append(writer.toArray())
+  }
+
+  private async append (data: number[]): Promise<void> {
+    this.writing = this.writing
+      .catch(() => {})
+      .then(async () => await (await this.fileSystem()).appendFile(this.path, Uint8Array.from(data)))
+    await this.writing
+  }
+
+  private async fileSystem (): Promise<HeaderFileSystem> {
+    if (this.fs === undefined) {
+      this.fs = await defaultFileSystem()
+    }
+    return this.fs
+  }
+
+  private async load (): Promise<MemoryHeaderStore> {
+    if (this.loading === undefined) {
+      this.loading = this.read()
+    }
+    return await this.loading
+  }
+
+  private async read (): Promise<MemoryHeaderStore> {
+    const store = new MemoryHeaderStore()
+    const fs = await this.fileSystem()
+    let data: Uint8Array
+    try {
+      data = await fs.readFile(this.path)
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') return store
+      throw error
+    }
+    const reader = new Reader(data)
+    const remaining = (): number => reader.bin.length - reader.pos
+    // The end of the last whole record
+    let end = 0
+    while (!reader.eof()) {
+      const type = reader.readUInt8()
+      if (type === HEADER_RECORD) {
+        if (remaining() < 80 + 4 + 32) break
+        const bytes = reader.read(80)
+        await store.putHeader({
+          hash: blockHeaderHash(bytes),
+          header: parseBlockHeader(bytes),
+          height: reader.readUInt32LE(),
+          chainWork: BigInt('0x' + toHex(reader.read(32)))
+        })
+      } else if (type === ACTIVE_CHAIN_RECORD) {
+        if (remaining() < 4 + 1 || remaining() < 4 + varIntSize(data[reader.pos + 4])) break
+        const fromHeight = reader.readUInt32LE()
+        const count = reader.readVarIntNum()
+        if (remaining() < count * 32) break
+        const hashes: string[] = []
+        for (let i = 0; i < count; i++) {
+          hashes.push(toHex(reader.read(32)))
+        }
+        await store.setActiveChain(fromHeight, hashes)
+      } else {
+        throw new Error(`The header file ${this.path} is corrupt.`)
+      }
+      end = reader.pos
+    }
+    if (end < data.length) {
+      // Drop a record cut short by an interrupted write, so that later records are appended after the last whole one.
+      await fs.truncate(this.path, end)
+    }
+    return store
+  }
+}
@@ -0,0 +1,41 @@
+import { BlockHeader } from './BlockHeader.js'
+
+/**
+ * A validated block header, as kept by a `HeaderStore`.
+ *
+ * @interface StoredHeader
+ * @property {string} hash - The block hash.
+ * @property {number} height - The height of the block.
+ * @property {BlockHeader} header - The block header.
+ * @property {bigint} chainWork - The work accumulated by the chain ending in this block, counted from the
+ *                                header the store was started from.
+ */
+export interface StoredHeader {
+  hash: string
+  height: number
+  header: BlockHeader
+  chainWork: bigint
+}
+
+/**
+ * Persists the block headers known to a `BlockHeaderChainTracker`.
+ *
+ * The store keeps every header it is given, including those of competing branches, and an index of
+ * the active chain by height. Validation and the choice of the active chain are up to the chain tracker.
+ *
+ * @interface HeaderStore
+ * @function getHeader - Returns a header by its hash.
+ * @function putHeader - Adds a header. The header becomes a tip in place of its previous header.
+ * @function getTips - Returns the headers that no other header builds on.
+ * @function getActiveHash - Returns the hash of the active chain header at a height.
+ * @function getActiveTip - Returns the last header of the active chain.
+ * @function setActiveChain - Replaces the active chain from a height onwards with the given hashes.
+ */
+export default interface HeaderStore {
+  getHeader: (hash: string) => Promise<StoredHeader | undefined>
+  putHeader: (header: StoredHeader) => Promise<void>
+  getTips: () => Promise<StoredHeader[]>
+  getActiveHash: (height: number) => Promise<string | undefined>
+  getActiveTip: () => Promise<StoredHeader | undefined>
+  setActiveChain: (fromHeight: number, hashes: string[]) => Promise<void>
+}
@@ -0,0 +1,46 @@
+import HeaderStore, { StoredHeader } from './HeaderStore.js'
+
+/**
+ * Keeps block headers in memory.
+ */
+export default class MemoryHeaderStore implements HeaderStore {
+  private readonly headers: Map<string, StoredHeader> = new Map()
+  private readonly tips: Set<string> = new Set()
+  private active: string[] = []
+  private activeBase: number = 0
+
+  async getHeader (hash: string): Promise<StoredHeader | undefined> {
+    return this.headers.get(hash)
+  }
+
+  async putHeader (header: StoredHeader): Promise<void> {
+    if (this.headers.has(header.hash)) return
+    this.headers.set(header.hash, header)
+    this.tips.delete(header.header.previousHash)
+    this.tips.add(header.hash)
+  }
+
+  async getTips (): Promise<StoredHeader[]> {
+    return Array.from(this.tips, (hash) => this.headers.get(hash) as StoredHeader)
+  }
+
+  async getActiveHash (height: number): Promise<string | undefined> {
+    return this.active[height - this.activeBase]
+  }
+
+  async getActiveTip (): Promise<StoredHeader | undefined> {
+    if (this.active.length === 0) return undefined
+    return this.headers.get(this.active[this.active.length - 1])
+  }
+
+  async setActiveChain (fromHeight: number, hashes: string[]): Promise<void> {
+    if (this.active.length === 0) {
+      this.activeBase = fromHeight
+    }
+    const offset = fromHeight - this.activeBase
+    if (offset < 0 || offset > this.active.length) {
+      throw new Error(`The active chain cannot be set from height ${fromHeight}.`)
+    }
+    this.active = this.active.slice(0, offset).concat(hashes)
+  }
+}
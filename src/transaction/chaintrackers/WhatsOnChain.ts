@@ -1,5 +1,6 @@
 
 import ChainTracker from '../ChainTracker.js'
+import MerklePath, { TSCMerkleProof } from '../MerklePath.js'
 import { HttpClient } from '../http/HttpClient.js'
 import { defaultHttpClient } from '../http/DefaultHttpClient.js'
 
@@ -15,6 +16,11 @@ interface WhatsOnChainBlockHeader {
   merkleroot: string
 }
 
+interface WhatsOnChainBlock {
+  height: number
+  merkleroot: string
+}
+
 /**
  * Represents a chain tracker based on What's On Chain .
  */
@@ -88,6 +94,51 @@ export default class WhatsOnChain implements ChainTracker {
     }
   }
 
+  /**
+   * Fetches the merkle proof of a transaction as a MerklePath.
+   *
+   * WhatsOnChain returns TSC merkle proofs leading to the hash of the block, so the block is fetched too, for its
+   * height and for its merkle root, which the proof is checked against.
+   *
+   * @param {string} txid - The transaction ID.
+   * @returns {Promise<MerklePath | undefined>} - The merkle path of the transaction, or undefined if it is not mined.
+   * @throws {Error} - If a request fails, or the proof does not lead to the merkle root of its block.
+   */
+  async getMerklePath(txid: string): Promise<MerklePath | undefined> {
+    const requestOptions = {
+      method: 'GET',
+      headers: this.getHttpHeaders()
+    }
+
+    const response = await this.httpClient.request<TSCMerkleProof | TSCMerkleProof[] | null>(
+      `${this.URL}/tx/${txid}/proof/tsc`,
+      requestOptions
+    )
+    if (response.status === 404) {
+      return undefined
+    } else if (!response.ok) {
+      throw new Error(
+        `Failed to get the merkle proof of ${txid} because of an error: ${JSON.stringify(response.data)} `
+      )
+    }
+    const proof = Array.isArray(response.data) ? response.data[0] : response.data
+    if (proof === undefined || proof === null) {
+      return undefined
+    }
+
+    const blockResponse = await this.httpClient.request<WhatsOnChainBlock>(
+      `${this.URL}/block/hash/${proof.target}`,
+      requestOptions
+    )
+    if (!blockResponse.ok) {
+      throw new Error(
+        `Failed to get block ${proof.target} because of an error: ${JSON.stringify(blockResponse.data)} `
+      )
+    }
+    const { height, merkleroot } = blockResponse.data
+    return MerklePath.fromTSC(proof, height, merkleroot)
+  }
+
   protected getHttpHeaders(): Record<string, string> {
     const headers: Record<string, string> = {
       Accept: 'application/json'
@@ -0,0 +1,299 @@
+import BlockHeaderChainTracker, {
+  HeaderChainParams,
+  regtestHeaderChainParams
+} from '../../../transaction/chaintrackers/BlockHeaderChainTracker'
+import FileHeaderStore, { HeaderFileSystem } from '../../../transaction/chaintrackers/FileHeaderStore'
+import {
+  BlockHeader,
+  bitsToTarget,
+  blockHeaderHash,
+  parseBlockHeader,
+  serializeBlockHeader,
+  targetToBits
+} from '../../../transaction/chaintrackers/BlockHeader'
+import { toHex } from '../../../primitives/utils'
+
+const GENESIS = '0100000000000000000000000000000000000000000000000000000000000000000000003ba3edfd7a7b12b27ac72c3e67768f617fc81bc3888a51323a9fb8aa4b1e5e4a29ab5f49ffff001d1dac2b7c'
+const BLOCK_1 = '010000006fe28c0ab6f1b372c1a6a246ae63f74f931e8365e15a089c68d6190000000000982051fd1e4ba744bbbe680e1fee14677ba1a3c3540bf7b1cdb606e857233e0e61bc6649ffff001d01e36299'
+const BLOCK_2 = '010000004860eb18bf1b1620e37e9490fc8a427514416fd75159ab86688e9a8300000000d5fdcc541e25de1c7a5addedf24858b8bb665c9f36ef744ee42c316022c90f9bb0bc6649ffff001d08d2bd61'
+
+/** Finds a nonce for a header so that it meets its target. */
+function mine (
+  previous: BlockHeader,
+  time: number,
+  bits: number = previous.bits,
+  merkleRoot: string = toHex(Array(32).fill(time % 256))
+): BlockHeader {
+  const header: BlockHeader = {
+    version: 1,
+    previousHash: blockHeaderHash(previous),
+    merkleRoot,
+    time,
+    bits,
+    nonce: 0
+  }
+  const target = bitsToTarget(bits)
+  while (BigInt('0x' + blockHeaderHash(header)) > target) {
+    header.nonce++
+  }
+  return header
+}
+
+function mineChain (from: BlockHeader, count: number, spacing: number, bits?: number): BlockHeader[] {
+  const headers: BlockHeader[] = []
+  let previous = from
+  for (let i = 0; i < count; i++) {
+    previous = mine(previous, previous.time + spacing, bits)
+    headers.push(previous)
+  }
+  return headers
+}
+
+const serialize = (headers: BlockHeader[]): number[][] => headers.map(serializeBlockHeader)
+
+describe('BlockHeader', () => {
+  it('Parses and hashes headers', () => {
+    const header = parseBlockHeader(BLOCK_1)
+    expect(header).toEqual({
+      version: 1,
+      previousHash: '000000000019d6689c085ae165831e934ff763ae46a2a6c172b3f1b60a8ce26f',
+      merkleRoot: '0e3e2357e806b6cdb1f70b54c3a3a17b6714ee1f0e68bebb44a74b1efd512098',
+      time: 1231469665,
+      bits: 0x1d00ffff,
+      nonce: 2573394689
+    })
+    expect(toHex(serializeBlockHeader(header))).toEqual(BLOCK_1)
+    expect(blockHeaderHash(header)).toEqual('00000000839a8e6886ab5951d76f411475428afc90947ee320161bbf18eb6048')
+  })
+
+  it('Converts between compact and full targets', () => {
+    expect(bitsToTarget(0x1d00ffff).toString(16)).toEqual('ffff' + '0'.repeat(52))
+    expect(targetToBits(bitsToTarget(0x1d00ffff))).toEqual(0x1d00ffff)
+    expect(targetToBits(BigInt('0x' + 'f'.repeat(56)))).toEqual(0x1d00ffff)
+    expect(targetToBits(BigInt(0x80))).toEqual(0x02008000)
+    expect(() => bitsToTarget(0x04923456)).toThrow('negative')
+  })
+})
+
+describe('BlockHeaderChainTracker', () => {
+  const regtestGenesis = parseBlockHeader(regtestHeaderChainParams.genesisHeader)
+
+  it('Validates mainnet headers from genesis', async () => {
+    const chainTracker = new BlockHeaderChainTracker()
+    expect(await chainTracker.currentHeight()).toEqual(0)
+    await chainTracker.addHeaders([BLOCK_1, BLOCK_2])
+    expect(await chainTracker.currentHeight()).toEqual(2)
+    expect(await chainTracker.isValidRootForHeight('0e3e2357e806b6cdb1f70b54c3a3a17b6714ee1f0e68bebb44a74b1efd512098', 1)).toBe(true)
+    expect(await chainTracker.isValidRootForHeight('0e3e2357e806b6cdb1f70b54c3a3a17b6714ee1f0e68bebb44a74b1efd512098', 2)).toBe(false)
+    expect(await chainTracker.isValidRootForHeight(parseBlockHeader(GENESIS).merkleRoot, 0)).toBe(true)
+    expect(await chainTracker.isValidRootForHeight(parseBlockHeader(GENESIS).merkleRoot, 3)).toBe(false)
+  })
+
+  it('Accepts headers as one concatenated array', async () => {
+    const chainTracker = new BlockHeaderChainTracker()
+    const stored = await chainTracker.addHeaders(serialize([parseBlockHeader(BLOCK_1), parseBlockHeader(BLOCK_2)]).flat())
+    expect(stored.map((s) => s.height)).toEqual([1, 2])
+    await expect(chainTracker.addHeaders([1, 2, 3])).rejects.toThrow('multiple of 80 bytes')
+  })
+
+  it('Rejects headers without enough proof-of-work', async () => {
+    const chainTracker = new BlockHeaderChainTracker()
+    const header = parseBlockHeader(BLOCK_1)
+    header.nonce++
+    await expect(chainTracker.addHeader(serializeBlockHeader(header))).rejects.toThrow('proof-of-work')
+    expect(await chainTracker.currentHeight()).toEqual(0)
+  })
+
+  it('Rejects headers that do not build on a known header', async () => {
+    const chainTracker = new BlockHeaderChainTracker()
+    await expect(chainTracker.addHeader(BLOCK_2)).rejects.toThrow('unknown header')
+  })
+
+  it('Rejects headers that are not later than the median time past', async () => {
+    const chainTracker = new BlockHeaderChainTracker({ params: regtestHeaderChainParams })
+    const headers = mineChain(regtestGenesis, 11, 600)
+    await chainTracker.addHeaders(serialize(headers))
+    // The median of the last 11 block times is that of the 6th block back.
+    const late = mine(headers[10], headers[5].time)
+    await expect(chainTracker.addHeader(serializeBlockHeader(late))).rejects.toThrow('median time')
+    await chainTracker.addHeader(serializeBlockHeader(mine(headers[10], headers[5].time + 1)))
+  })
+
+  it('Switches to the branch with the most work and keeps competing tips', async () => {
+    const chainTracker = new BlockHeaderChainTracker({ params: regtestHeaderChainParams })
+    const a = mineChain(regtestGenesis, 2, 600)
+    const b = mineChain(regtestGenesis, 3, 601)
+    await chainTracker.addHeaders(serialize(a))
+    await chainTracker.addHeaders(serialize(b.slice(0, 2)))
+    // Equal work: the first branch seen remains active.
+    expect((await chainTracker.getHeaderAtHeight(2))?.hash).toEqual(blockHeaderHash(a[1]))
+    expect((await chainTracker.getTips()).map((t) => t.hash).sort())
+      .toEqual([blockHeaderHash(a[1]), blockHeaderHash(b[1])].sort())
+
+    await chainTracker.addHeader(serializeBlockHeader(b[2]))
+    expect(await chainTracker.currentHeight()).toEqual(3)
+    for (let i = 0; i < 3; i++) {
+      expect((await chainTracker.getHeaderAtHeight(i + 1))?.hash).toEqual(blockHeaderHash(b[i]))
+      expect(await chainTracker.isValidRootForHeight(b[i].merkleRoot, i + 1)).toBe(true)
+    }
+    expect(await chainTracker.isValidRootForHeight(a[0].merkleRoot, 1)).toBe(false)
+    expect((await chainTracker.getTips()).map((t) => t.hash).sort())
+      .toEqual([blockHeaderHash(a[1]), blockHeaderHash(b[2])].sort())
+  })
+
+  it('Enforces legacy difficulty retargeting', async () => {
+    const params: HeaderChainParams = { ...regtestHeaderChainParams, noRetargeting: false, retargetInterval: 4 }
+    const chainTracker = new BlockHeaderChainTracker({ params })
+    const headers = mineChain(regtestGenesis, 3, 150)
+    await chainTracker.addHeaders(serialize(headers))
+    await expect(chainTracker.addHeader(serializeBlockHeader(mine(headers[2], headers[2].time + 150, regtestGenesis.bits - 1))))
+      .rejects.toThrow('is required')
+    // Blocks came 4 times faster than intended, so the target is divided by 4.
+    await expect(chainTracker.addHeader(serializeBlockHeader(mine(headers[2], headers[2].time + 150))))
+      .rejects.toThrow('but 201fffff is required')
+    await chainTracker.addHeader(serializeBlockHeader(mine(headers[2], headers[2].time + 150, 0x201fffff)))
+    expect(await chainTracker.currentHeight()).toEqual(4)
+  })
+
+  it('Enforces the difficulty adjustment algorithm', async () => {
+    const params: HeaderChainParams = { ...regtestHeaderChainParams, noRetargeting: false, retargetInterval: 100000, daaHeight: 150 }
+    const chainTracker = new BlockHeaderChainTracker({ params })
+    const headers = mineChain(regtestGenesis, 149, 300)
+    await chainTracker.addHeaders(serialize(headers))
+    // Twice as much work as intended was done over the window, so the target is halved.
+    await expect(chainTracker.addHeader(serializeBlockHeader(mine(headers[148], headers[148].time + 300))))
+      .rejects.toThrow('but 203fffff is required')
+    await chainTracker.addHeader(serializeBlockHeader(mine(headers[148], headers[148].time + 300, 0x203fffff)))
+  })
+
+  it('Enforces the emergency difficulty adjustment', async () => {
+    const bits = 0x1f7fffff
+    const checkpoint = mine(regtestGenesis, regtestGenesis.time + 600, bits)
+    const params: HeaderChainParams = { ...regtestHeaderChainParams, noRetargeting: false, retargetInterval: 100000, edaHeight: 1 }
+    const chainTracker = new BlockHeaderChainTracker({
+      params,
+      checkpoint: { header: serializeBlockHeader(checkpoint), height: 100 }
+    })
+    // Blocks three hours apart: the difficulty is lowered once enough history is known to check.
+    const headers = mineChain(checkpoint, 16, 3 * 3600, bits)
+    await chainTracker.addHeaders(serialize(headers))
+    const target = bitsToTarget(bits)
+    const easier = targetToBits(target + (target >> BigInt(2)))
+    await expect(chainTracker.addHeader(serializeBlockHeader(mine(headers[15], headers[15].time + 600, bits))))
+      .rejects.toThrow('is required')
+    await chainTracker.addHeader(serializeBlockHeader(mine(headers[15], headers[15].time + 600, easier)))
+    expect(await chainTracker.currentHeight()).toEqual(117)
+  })
+
+  describe('FileHeaderStore', () => {
+    function memoryFileSystem (): HeaderFileSystem & { files: Map<string, number[]> } {
+      const files = new Map<string, number[]>()
+      return {
+        files,
+        readFile: async (path) => {
+          const file = files.get(path)
+          if (file === undefined) {
+            throw Object.assign(new Error('not found'), { code: 'ENOENT' })
+          }
+          return Uint8Array.from(file)
+        },
+        appendFile: async (path, data) => {
+          files.set(path, (files.get(path) ?? []).concat(Array.from(data)))
+        },
+        truncate: async (path, length) => {
+          files.set(path, (files.get(path) ?? []).slice(0, length))
+        }
+      }
+    }
+
+    it('Reloads headers and the active chain', async () => {
+      const fs = memoryFileSystem()
+      const a = mineChain(regtestGenesis, 2, 600)
+      const b = mineChain(regtestGenesis, 3, 601)
+      const chainTracker = new BlockHeaderChainTracker({
+        params: regtestHeaderChainParams,
+        store: new FileHeaderStore('headers.bin', fs)
+      })
+      await chainTracker.addHeaders(serialize(a))
+      await chainTracker.addHeaders(serialize(b))
+
+      const reloaded = new BlockHeaderChainTracker({
+        params: regtestHeaderChainParams,
+        store: new FileHeaderStore('headers.bin', fs)
+      })
+      expect(await reloaded.currentHeight()).toEqual(3)
+      expect(await reloaded.isValidRootForHeight(b[0].merkleRoot, 1)).toBe(true)
+      expect((await reloaded.getTips()).length).toEqual(2)
+      await reloaded.addHeader(serializeBlockHeader(mine(b[2], b[2].time + 600)))
+      expect(await reloaded.currentHeight()).toEqual(4)
+    })
+
+    it('Drops a record cut short by an interrupted write', async () => {
+      const fs = memoryFileSystem()
+      const headers = mineChain(regtestGenesis, 2, 600)
+      const chainTracker = new BlockHeaderChainTracker({
+        params: regtestHeaderChainParams,
+        store: new FileHeaderStore('headers.bin', fs)
+      })
+      await chainTracker.addHeaders(serialize(headers))
+      const file = fs.files.get('headers.bin') as number[]
+      fs.files.set('headers.bin', file.concat([1, 2, 3]))
+
+      const reloaded = new BlockHeaderChainTracker({
+        params: regtestHeaderChainParams,
+        store: new FileHeaderStore('headers.bin', fs)
+      })
+      expect(await reloaded.currentHeight()).toEqual(2)
+      expect(fs.files.get('headers.bin')).toEqual(file)
+      await reloaded.addHeader(serializeBlockHeader(mine(headers[1], headers[1].time + 600)))
+
+      const again = new BlockHeaderChainTracker({
+        params: regtestHeaderChainParams,
+        store: new FileHeaderStore('headers.bin', fs)
+      })
+      expect(await again.currentHeight()).toEqual(3)
+    })
+
+    it('Drops an active chain record cut short within its hash count', async () => {
+      const fs = memoryFileSystem()
+      const headers = mineChain(regtestGenesis, 1, 600)
+      const chainTracker = new BlockHeaderChainTracker({
+        params: regtestHeaderChainParams,
+        store: new FileHeaderStore('headers.bin', fs)
+      })
+      await chainTracker.addHeaders(serialize(headers))
+      const file = fs.files.get('headers.bin') as number[]
+      fs.files.set('headers.bin', file.concat([2, 1, 0, 0, 0, 0xfd, 1]))
+
+      const reloaded = new BlockHeaderChainTracker({
+        params: regtestHeaderChainParams,
+        store: new FileHeaderStore('headers.bin', fs)
+      })
+      expect(await reloaded.currentHeight()).toEqual(1)
+      expect(fs.files.get('headers.bin')).toEqual(file)
+    })
+
+    it('Uses the Node file system by default', async () => {
+      const { mkdtemp, rm, stat } = await import('fs/promises')
+      const { tmpdir } = await import('os')
+      const { join } = await import('path')
+      const dir = await mkdtemp(join(tmpdir(), 'headers-'))
+      try {
+        const path = join(dir, 'headers.bin')
+        const chainTracker = new BlockHeaderChainTracker({
+          params: regtestHeaderChainParams,
+          store: new FileHeaderStore(path)
+        })
+        await chainTracker.addHeaders(serialize(mineChain(regtestGenesis, 2, 600)))
+        expect((await stat(path)).size).toBeGreaterThan(0)
+        const reloaded = new BlockHeaderChainTracker({
+          params: regtestHeaderChainParams,
+          store: new FileHeaderStore(path)
+        })
+        expect(await reloaded.currentHeight()).toEqual(2)
+      } finally {
+        await rm(dir, { recursive: true, force: true })
+      }
+    })
+  })
+})
@@ -0,0 +1,119 @@
+import CachingChainTracker, { ChainTrackerMismatchError } from '../../../transaction/chaintrackers/CachingChainTracker'
+import ChainTracker from '../../../transaction/ChainTracker'
+
+const ROOT = 'aa'.repeat(32)
+const OTHER_ROOT = 'bb'.repeat(32)
+
+function mockTracker (
+  valid: boolean | Error,
+  height: number | Error = 1000
+): ChainTracker & { isValidRootForHeight: jest.Mock, currentHeight: jest.Mock } {
+  return {
+    isValidRootForHeight: jest.fn(async () => {
+      if (valid instanceof Error) throw valid
+      return valid
+    }),
+    currentHeight: jest.fn(async () => {
+      if (height instanceof Error) throw height
+      return height
+    })
+  }
+}
+
+describe('CachingChainTracker', () => {
+  it('Caches confirmed roots of deep enough blocks', async () => {
+    const tracker = mockTracker(true)
+    const chainTracker = new CachingChainTracker(tracker)
+    expect(await chainTracker.isValidRootForHeight(ROOT, 900)).toBe(true)
+    expect(await chainTracker.isValidRootForHeight(ROOT, 900)).toBe(true)
+    expect(await chainTracker.isValidRootForHeight(OTHER_ROOT, 900)).toBe(false)
+    expect(tracker.isValidRootForHeight).toHaveBeenCalledTimes(1)
+    expect(tracker.currentHeight).toHaveBeenCalledTimes(1)
+  })
+
+  it('Does not cache roots of recent blocks or denied roots', async () => {
+    const tracker = mockTracker(true)
+    const chainTracker = new CachingChainTracker(tracker, { minCacheDepth: 6 })
+    await chainTracker.isValidRootForHeight(ROOT, 996)
+    await chainTracker.isValidRootForHeight(ROOT, 996)
+    expect(tracker.isValidRootForHeight).toHaveBeenCalledTimes(2)
+    await chainTracker.isValidRootForHeight(ROOT, 995)
+    await chainTracker.isValidRootForHeight(ROOT, 995)
+    expect(tracker.isValidRootForHeight).toHaveBeenCalledTimes(3)
+
+    const denying = mockTracker(false)
+    const denyingChainTracker = new CachingChainTracker(denying)
+    await denyingChainTracker.isValidRootForHeight(ROOT, 1)
+    await denyingChainTracker.isValidRootForHeight(ROOT, 1)
+    expect(denying.isValidRootForHeight).toHaveBeenCalledTimes(2)
+  })
+
+  it('Evicts the least recently used roots', async () => {
+    const tracker = mockTracker(true)
+    const chainTracker = new CachingChainTracker(tracker, { cacheSize: 2 })
+    await chainTracker.isValidRootForHeight(ROOT, 1)
+    await chainTracker.isValidRootForHeight(ROOT, 2)
+    await chainTracker.isValidRootForHeight(ROOT, 1)
+    await chainTracker.isValidRootForHeight(ROOT, 3)
+    expect(tracker.isValidRootForHeight).toHaveBeenCalledTimes(3)
+    await chainTracker.isValidRootForHeight(ROOT, 1)
+    expect(tracker.isValidRootForHeight).toHaveBeenCalledTimes(3)
+    await chainTracker.isValidRootForHeight(ROOT, 2)
+    expect(tracker.isValidRootForHeight).toHaveBeenCalledTimes(4)
+    chainTracker.clearCache()
+    await chainTracker.isValidRootForHeight(ROOT, 1)
+    expect(tracker.isValidRootForHeight).toHaveBeenCalledTimes(5)
+  })
+
+  it('Shares concurrent lookups of the same root', async () => {
+    const tracker = mockTracker(true)
+    const chainTracker = new CachingChainTracker(tracker, { minCacheDepth: 2000 })
+    const results = await Promise.all([1, 2, 3].map(async () => await chainTracker.isValidRootForHeight(ROOT, 10)))
+    expect(results).toEqual([true, true, true])
+    expect(tracker.isValidRootForHeight).toHaveBeenCalledTimes(1)
+  })
+
+  it('Requires all trackers to agree by default', async () => {
+    const agreeing = new CachingChainTracker([mockTracker(true), mockTracker(true)])
+    expect(await agreeing.isValidRootForHeight(ROOT, 1)).toBe(true)
+
+    const disagreeing = new CachingChainTracker([mockTracker(true), mockTracker(false)])
+    const error = await disagreeing.isValidRootForHeight(ROOT, 1).catch((e) => e)
+    expect(error).toBeInstanceOf(ChainTrackerMismatchError)
+    expect(error.root).toEqual(ROOT)
+    expect(error.height).toEqual(1)
+    expect(error.answers).toEqual([{ index: 0, valid: true }, { index: 1, valid: false }])
+
+    const failing = new CachingChainTracker([mockTracker(true), mockTracker(new Error('offline'))])
+    await expect(failing.isValidRootForHeight(ROOT, 1)).rejects.toThrow('offline')
+  })
+
+  it('Accepts the answer of a majority', async () => {
+    const chainTracker = new CachingChainTracker(
+      [mockTracker(true), mockTracker(false), mockTracker(true)],
+      { agreement: 'majority' }
+    )
+    expect(await chainTracker.isValidRootForHeight(ROOT, 1)).toBe(true)
+
+    const split = new CachingChainTracker(
+      [mockTracker(true), mockTracker(false), mockTracker(new Error('offline'))],
+      { agreement: 'majority' }
+    )
+    await expect(split.isValidRootForHeight(ROOT, 1)).rejects.toBeInstanceOf(ChainTrackerMismatchError)
+  })
+
+  it('Uses the first tracker that answers', async () => {
+    const failing = mockTracker(new Error('offline'), new Error('offline'))
+    const answering = mockTracker(false, 900)
+    const unused = mockTracker(true)
+    const chainTracker = new CachingChainTracker([failing, answering, unused], { agreement: 'first' })
+    expect(await chainTracker.isValidRootForHeight(ROOT, 1)).toBe(false)
+    expect(await chainTracker.currentHeight()).toEqual(900)
+    expect(unused.isValidRootForHeight).not.toHaveBeenCalled()
+  })
+
+  it('Reports the lowest current height', async () => {
+    const chainTracker = new CachingChainTracker([mockTracker(true, 1001), mockTracker(true, 1000)])
+    expect(await chainTracker.currentHeight()).toEqual(1000)
+  })
+})
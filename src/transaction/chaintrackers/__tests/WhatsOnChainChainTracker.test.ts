@@ -1,6 +1,10 @@
 import { NodejsHttpClient } from '../../../transaction/http/NodejsHttpClient'
 import WhatsOnChain from '../../../transaction/chaintrackers/WhatsOnChain'
 import { FetchHttpClient } from '../../../transaction/http/FetchHttpClient'
+import { HttpClient } from '../../../transaction/http/HttpClient'
+import MerklePath from '../../../transaction/MerklePath'
+import { toHex } from '../../../primitives/utils'
+import { hash256 } from '../../../primitives/Hash'
 
 describe('WhatsOnChain ChainTracker', () => {
   const network = 'main'
@@ -154,6 +158,60 @@ describe('WhatsOnChain ChainTracker', () => {
     await expect(await chainTracker.currentHeight()).toBe(875904)
   })
 
+  describe('getMerklePath', () => {
+    const txids = Array.from({ length: 3 }, (_, i) => toHex(hash256([i])))
+    const path = MerklePath.fromBlockTxids(875904, txids, [txids[2]])
+    const blockHash = 'ab'.repeat(32)
+    const proof = { index: 2, txOrId: txids[2], target: blockHash, nodes: path.toTSC().nodes }
+
+    const httpClient = (responses: Record<string, { status: number, data: any }>): HttpClient & { urls: string[] } => {
+      const urls: string[] = []
+      return {
+        urls,
+        request: async (url: string) => {
+          urls.push(url)
+          const { status, data } = responses[url]
+          return { status, data, statusText: '', ok: status === 200 } as any
+        }
+      }
+    }
+
+    it('should fetch the TSC proof and block of a transaction as a merkle path', async () => {
+      const client = httpClient({
+        [`https://api.whatsonchain.com/v1/bsv/main/tx/${txids[2]}/proof/tsc`]: { status: 200, data: [proof] },
+        [`https://api.whatsonchain.com/v1/bsv/main/block/hash/${blockHash}`]: {
+          status: 200,
+          data: { height: 875904, merkleroot: path.computeRoot() }
+        }
+      })
+      const merklePath = await new WhatsOnChain(network, { httpClient: client }).getMerklePath(txids[2])
+      expect(merklePath?.toHex()).toBe(path.toHex())
+      expect(client.urls).toHaveLength(2)
+    })
+
+    it('should reject a proof which does not lead to the merkle root of its block', async () => {
+      const client = httpClient({
+        [`https://api.whatsonchain.com/v1/bsv/main/tx/${txids[2]}/proof/tsc`]: { status: 200, data: proof },
+        [`https://api.whatsonchain.com/v1/bsv/main/block/hash/${blockHash}`]: {
+          status: 200,
+          data: { height: 875904, merkleroot: txids[0] }
+        }
+      })
+      await expect(new WhatsOnChain(network, { httpClient: client }).getMerklePath(txids[2]))
+        .rejects.toThrow('is not the expected root')
+    })
+
+    it('should return undefined for transactions which are not mined', async () => {
+      const client = httpClient({
+        [`https://api.whatsonchain.com/v1/bsv/main/tx/${txids[0]}/proof/tsc`]: { status: 200, data: null },
+        [`https://api.whatsonchain.com/v1/bsv/main/tx/${txids[1]}/proof/tsc`]: { status: 404, data: 'not found' }
+      })
+      const chainTracker = new WhatsOnChain(network, { httpClient: client })
+      expect(await chainTracker.getMerklePath(txids[0])).toBeUndefined()
+      expect(await chainTracker.getMerklePath(txids[1])).toBeUndefined()
+    })
+  })
+
   function mockedFetch (response: { status: number, data: any }): jest.Mock<any, any, any> {
     return jest.fn().mockResolvedValue({
       ok: response.status === 200,
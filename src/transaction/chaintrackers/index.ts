@@ -1,3 +1,25 @@
 export { default as WhatsOnChain } from './WhatsOnChain.js'
 export type { WhatsOnChainConfig } from './WhatsOnChain.js'
 export { defaultChainTracker } from './DefaultChainTracker.js'
+export {
+  default as BlockHeaderChainTracker,
+  mainnetHeaderChainParams,
+  regtestHeaderChainParams
+} from './BlockHeaderChainTracker.js'
+export type {
+  BlockHeaderChainTrackerConfig,
+  HeaderChainParams
+} from './BlockHeaderChainTracker.js'
+export type { default as HeaderStore, StoredHeader } from './HeaderStore.js'
+export { default as MemoryHeaderStore } from './MemoryHeaderStore.js'
+export { default as FileHeaderStore } from './FileHeaderStore.js'
+export type { HeaderFileSystem } from './FileHeaderStore.js'
+export * from './BlockHeader.js'
+export {
+  default as CachingChainTracker,
+  ChainTrackerMismatchError
+} from './CachingChainTracker.js'
+export type {
+  CachingChainTrackerConfig,
+  ChainTrackerAnswer
+} from './CachingChainTracker.js'
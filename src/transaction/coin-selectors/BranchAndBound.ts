@@ -0,0 +1,111 @@
+import CoinSelector, { CoinSelectionTarget } from '../CoinSelector.js'
+import { FundingUtxo } from '../UtxoSource.js'
+import LargestFirst from './LargestFirst.js'
+
+/**
+ * Represents the "branch and bound" coin selection strategy.
+ *
+ * Searches for a set of outputs whose effective value matches the target closely enough
+ * that no change output is needed, i.e. the excess is no greater than the cost of change.
+ * When no such set exists within the search budget, the fallback strategy is used instead.
+ *
+ * Based on the algorithm described by Mark Erhardt in
+ * "An Evaluation of Coin Selection Strategies" and used by Bitcoin Core.
+ */
+export default class BranchAndBound implements CoinSelector {
+  /**
+   * @property
+   * The maximum number of search tree nodes to visit before giving up.
+   */
+  maxTries: number
+
+  /**
+   * @property
+   * The strategy used when no exact match is found.
+   */
+  fallback: CoinSelector
+
+  /**
+   * Constructs an instance of the branch and bound coin selector.
+   *
+   * @param {number} maxTries - The maximum number of search tree nodes to visit. Defaults to 100000.
+   * @param {CoinSelector} fallback - The strategy used when no exact match is found. Defaults to `LargestFirst`.
+   */
+  constructor (maxTries: number = 100000, fallback: CoinSelector = new LargestFirst()) {
+    this.maxTries = maxTries
+    this.fallback = fallback
+  }
+
+  /**
+   * Selects a set of outputs matching the target without change, or defers to the fallback strategy.
+   *
+   * @param utxos The outputs available for spending.
+   * @param target The amount to cover, the cost of each additional input and the cost of change.
+   * @returns The selected outputs, or undefined if all of them together cannot cover the target.
+   */
+  select (
+    utxos: FundingUtxo[],
+    target: CoinSelectionTarget
+  ): FundingUtxo[] | undefined {
+    const exact = this.search(utxos, target)
+    if (exact !== undefined) return exact
+    return this.fallback.select(utxos, target)
+  }
+
+  private search (
+    utxos: FundingUtxo[],
+    target: CoinSelectionTarget
+  ): FundingUtxo[] | undefined {
+    const pool = utxos
+      .map((utxo) => ({ utxo, value: utxo.satoshis - target.costPerInput }))
+      .filter((c) => c.value > 0)
+      .sort((a, b) => b.value - a.value)
+    const upperBound = target.satoshis + target.costOfChange
+
+    let available = pool.reduce((a, c) => a + c.value, 0)
+    if (available < target.satoshis) return undefined
+
+    // selection[i] records whether pool[i] is included on the current branch
+    const selection: boolean[] = []
+    let best: boolean[] | undefined
+    let bestWaste = Number.MAX_SAFE_INTEGER
+    let total = 0
+
+    for (let tries = 0; tries < this.maxTries; tries++) {
+      let backtrack = false
+      if (total + available < target.satoshis || total > upperBound) {
+        // Cannot reach the target on this branch, or already overshot it
+        backtrack = true
+      } else if (total >= target.satoshis) {
+        const waste = total - target.satoshis
+        if (waste < bestWaste) {
+          best = [...selection]
+          bestWaste = waste
+          if (waste === 0) break
+        }
+        backtrack = true
+      }
+
+      if (backtrack) {
+        // Walk back to the last included output and exclude it instead
+        while (selection.length > 0 && !selection[selection.length - 1]) {
+          selection.pop()
+          available += pool[selection.length].value
+        }
+        if (selection.length === 0) break
+        selection[selection.length - 1] = false
+        total -= pool[selection.length - 1].value
+      } else if (selection.length < pool.length) {
+        // Explore the branch including the next output first
+        available -= pool[selection.length].value
+        total += pool[selection.length].value
+        selection.push(true)
+      } else {
+        break
+      }
+    }
+
+    if (best === undefined) return undefined
+    return pool.filter((_, i) => best?.[i] === true).map((c) => c.utxo)
+  }
+}
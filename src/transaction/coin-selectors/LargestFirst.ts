@@ -0,0 +1,34 @@
+import CoinSelector, { CoinSelectionTarget } from '../CoinSelector.js'
+import { FundingUtxo } from '../UtxoSource.js'
+
+/**
+ * Represents the "largest first" coin selection strategy.
+ *
+ * Outputs are spent in order of decreasing value until the target is covered,
+ * which minimizes the number of inputs and therefore the fee.
+ */
+export default class LargestFirst implements CoinSelector {
+  /**
+   * Selects the largest outputs until their combined effective value covers the target.
+   *
+   * @param utxos The outputs available for spending.
+   * @param target The amount to cover and the cost of each additional input.
+   * @returns The selected outputs, or undefined if all of them together cannot cover the target.
+   */
+  select (
+    utxos: FundingUtxo[],
+    target: CoinSelectionTarget
+  ): FundingUtxo[] | undefined {
+    const sorted = [...utxos].sort((a, b) => b.satoshis - a.satoshis)
+    const selected: FundingUtxo[] = []
+    let total = 0
+    for (const utxo of sorted) {
+      if (total >= target.satoshis) break
+      const effectiveValue = utxo.satoshis - target.costPerInput
+      if (effectiveValue <= 0) break
+      selected.push(utxo)
+      total += effectiveValue
+    }
+    return total >= target.satoshis ? selected : undefined
+  }
+}
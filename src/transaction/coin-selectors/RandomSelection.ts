@@ -0,0 +1,40 @@
+import CoinSelector, { CoinSelectionTarget } from '../CoinSelector.js'
+import { FundingUtxo } from '../UtxoSource.js'
+
+/**
+ * Represents a privacy-preserving random coin selection strategy.
+ *
+ * Outputs are drawn in random order until the target is covered. Because the selection
+ * does not depend on output values, observers cannot infer the wallet's other holdings
+ * from which outputs were chosen, and change amounts vary between otherwise similar payments.
+ */
+export default class RandomSelection implements CoinSelector {
+  /**
+   * Draws random outputs until their combined effective value covers the target.
+   *
+   * @param utxos The outputs available for spending.
+   * @param target The amount to cover and the cost of each additional input.
+   * @returns The selected outputs, or undefined if all of them together cannot cover the target.
+   */
+  select (
+    utxos: FundingUtxo[],
+    target: CoinSelectionTarget
+  ): FundingUtxo[] | undefined {
+    const candidates = utxos.filter((u) => u.satoshis > target.costPerInput)
+    // Fisher-Yates shuffle
+    for (let i = candidates.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1))
+      const tmp = candidates[i]
+      candidates[i] = candidates[j]
+      candidates[j] = tmp
+    }
+    const selected: FundingUtxo[] = []
+    let total = 0
+    for (const utxo of candidates) {
+      if (total >= target.satoshis) break
+      selected.push(utxo)
+      total += utxo.satoshis - target.costPerInput
+    }
+    return total >= target.satoshis ? selected : undefined
+  }
+}
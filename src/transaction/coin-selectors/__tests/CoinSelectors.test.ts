@@ -0,0 +1,74 @@
+import LargestFirst from '../../../transaction/coin-selectors/LargestFirst'
+import BranchAndBound from '../../../transaction/coin-selectors/BranchAndBound'
+import RandomSelection from '../../../transaction/coin-selectors/RandomSelection'
+import { FundingUtxo } from '../../../transaction/UtxoSource'
+import LockingScript from '../../../script/LockingScript'
+import UnlockingScript from '../../../script/UnlockingScript'
+
+const template = {
+  sign: async () => new UnlockingScript(),
+  estimateLength: async () => 108
+}
+
+const utxo = (satoshis: number, i: number): FundingUtxo => ({
+  sourceTXID: i.toString(16).padStart(64, '0'),
+  sourceOutputIndex: 0,
+  satoshis,
+  lockingScript: new LockingScript(),
+  unlockingScriptTemplate: template
+})
+
+const sum = (utxos: FundingUtxo[] | undefined): number =>
+  (utxos ?? []).reduce((a, u) => a + u.satoshis, 0)
+
+describe('Coin selectors', () => {
+  const utxos = [1000, 5000, 300, 2500, 700].map(utxo)
+
+  describe('LargestFirst', () => {
+    it('Selects the largest outputs first', () => {
+      const selected = new LargestFirst().select(utxos, { satoshis: 6000, costPerInput: 10, costOfChange: 0 })
+      expect(selected?.map((u) => u.satoshis)).toEqual([5000, 2500])
+    })
+    it('Accounts for the cost of each input', () => {
+      const selected = new LargestFirst().select(utxos, { satoshis: 7500, costPerInput: 10, costOfChange: 0 })
+      expect(selected?.map((u) => u.satoshis)).toEqual([5000, 2500, 1000])
+    })
+    it('Returns undefined when the outputs cannot cover the target', () => {
+      expect(new LargestFirst().select(utxos, { satoshis: 10000, costPerInput: 0, costOfChange: 0 })).toBeUndefined()
+    })
+    it('Ignores outputs that cost more to spend than they are worth', () => {
+      expect(new LargestFirst().select([utxo(5, 1), utxo(5, 2)], { satoshis: 1, costPerInput: 10, costOfChange: 0 })).toBeUndefined()
+    })
+  })
+
+  describe('BranchAndBound', () => {
+    it('Finds a selection that needs no change', () => {
+      const selected = new BranchAndBound().select(utxos, { satoshis: 3180, costPerInput: 10, costOfChange: 0 })
+      expect(selected?.map((u) => u.satoshis).sort((a, b) => a - b)).toEqual([700, 2500])
+    })
+    it('Accepts an overshoot no greater than the cost of change', () => {
+      const selected = new BranchAndBound().select(utxos, { satoshis: 3480, costPerInput: 0, costOfChange: 25 })
+      expect(sum(selected)).toEqual(3500)
+    })
+    it('Uses the fallback selector when no exact match exists', () => {
+      const selected = new BranchAndBound().select(utxos, { satoshis: 5100, costPerInput: 0, costOfChange: 0 })
+      expect(selected?.map((u) => u.satoshis)).toEqual([5000, 2500])
+    })
+    it('Returns undefined when the outputs cannot cover the target', () => {
+      expect(new BranchAndBound().select(utxos, { satoshis: 10000, costPerInput: 0, costOfChange: 0 })).toBeUndefined()
+    })
+  })
+
+  describe('RandomSelection', () => {
+    it('Always covers the target', () => {
+      const selector = new RandomSelection()
+      for (let i = 0; i < 20; i++) {
+        const selected = selector.select(utxos, { satoshis: 4000, costPerInput: 10, costOfChange: 0 })
+        expect(sum(selected) - 10 * (selected?.length ?? 0)).toBeGreaterThanOrEqual(4000)
+      }
+    })
+    it('Returns undefined when the outputs cannot cover the target', () => {
+      expect(new RandomSelection().select(utxos, { satoshis: 10000, costPerInput: 0, costOfChange: 0 })).toBeUndefined()
+    })
+  })
+})
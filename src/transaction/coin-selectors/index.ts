@@ -0,0 +1,3 @@
+export { default as LargestFirst } from './LargestFirst.js'
+export { default as BranchAndBound } from './BranchAndBound.js'
+export { default as RandomSelection } from './RandomSelection.js'
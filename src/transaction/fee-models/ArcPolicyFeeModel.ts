@@ -0,0 +1,144 @@
+import FeeModel from '../FeeModel.js'
+import Transaction from '../Transaction.js'
+import SatoshisPerKilobyte from './SatoshisPerKilobyte.js'
+import { HttpClient } from '../http/HttpClient.js'
+import { defaultHttpClient } from '../http/DefaultHttpClient.js'
+
+/** Configuration options for the ARC policy fee model. */
+export interface ArcPolicyFeeModelConfig {
+  /** Authentication token for the ARC API */
+  apiKey?: string
+  /** The HTTP client used to make requests to the ARC API. */
+  httpClient?: HttpClient
+  /** How long a fetched policy is reused before it is fetched again, in milliseconds. Defaults to 5 minutes. */
+  cacheTtlMs?: number
+  /** The satoshis per kilobyte rate used when the policy endpoint is unreachable. Defaults to 10. */
+  fallbackRate?: number
+  /** How long the fallback rate is reused before the policy is fetched again, in milliseconds. Defaults to 30 seconds. */
+  fallbackTtlMs?: number
+}
+
+/** The fee policy of an ARC instance, as returned by `GET /v1/policy`. */
+export interface ArcPolicy {
+  maxscriptsizepolicy?: number
+  maxtxsigopscountspolicy?: number
+  maxtxsizepolicy?: number
+  miningFee: {
+    satoshis: number
+    bytes: number
+  }
+}
+
+interface ArcPolicyResponse {
+  timestamp?: string
+  policy: ArcPolicy
+}
+
+/**
+ * Represents a "satoshis per kilobyte" fee model whose rate is set by the fee policy of an ARC instance.
+ *
+ * The policy is fetched from the ARC `/v1/policy` endpoint and cached for `cacheTtlMs`.
+ * If the endpoint cannot be reached, or replies with an unusable policy, the fallback rate is used
+ * and cached for the shorter `fallbackTtlMs`, after which the policy is fetched again.
+ */
+export default class ArcPolicyFeeModel implements FeeModel {
+  readonly URL: string
+  readonly apiKey: string | undefined
+  readonly cacheTtlMs: number
+  readonly fallbackTtlMs: number
+  readonly fallback: SatoshisPerKilobyte
+  private readonly httpClient: HttpClient
+  private cached?: { rate: number, expires: number }
+  private pending?: Promise<number>
+
+  /**
+   * Constructs an instance of the ARC policy fee model.
+   *
+   * @param {string} URL - The URL endpoint for the ARC API.
+   * @param {ArcPolicyFeeModelConfig} config - Configuration options for the fee model.
+   */
+  constructor (URL: string, config: ArcPolicyFeeModelConfig = {}) {
+    const { apiKey, httpClient, cacheTtlMs, fallbackRate, fallbackTtlMs } = config
+    this.URL = URL
+    this.apiKey = apiKey
+    this.httpClient = httpClient ?? defaultHttpClient()
+    this.cacheTtlMs = cacheTtlMs ?? 5 * 60 * 1000
+    this.fallbackTtlMs = fallbackTtlMs ?? 30 * 1000
+    this.fallback = new SatoshisPerKilobyte(fallbackRate ?? 10)
+  }
+
+  /**
+   * Computes the fee for a given transaction using the current ARC policy rate.
+   *
+   * @param tx The transaction for which a fee is to be computed.
+   * @returns The fee in satoshis for the transaction.
+   */
+  async computeFee (tx: Transaction): Promise<number> {
+    const rate = await this.getSatoshisPerKilobyte()
+    return await new SatoshisPerKilobyte(rate).computeFee(tx)
+  }
+
+  /**
+   * Returns the mining fee rate of the ARC policy, from the cache while it is fresh.
+   *
+   * Concurrent callers share a single policy request.
+   *
+   * @returns The policy rate in satoshis per kilobyte, or the fallback rate if the policy is unavailable.
+   */
+  async getSatoshisPerKilobyte (): Promise<number> {
+    if (this.cached !== undefined && this.cached.expires > Date.now()) {
+      return this.cached.rate
+    }
+    if (this.pending === undefined) {
+      this.pending = this.fetchRate().finally(() => {
+        this.pending = undefined
+      })
+    }
+    return await this.pending
+  }
+
+  /**
+   * Fetches the current fee policy from ARC.
+   *
+   * @returns The policy reported by the ARC instance.
+   * @throws {Error} - If the request fails or the response does not contain a policy.
+   */
+  async getPolicy (): Promise<ArcPolicy> {
+    const headers: Record<string, string> = {
+      Accept: 'application/json'
+    }
+    if (this.apiKey != null && this.apiKey !== '') {
+      headers.Authorization = `Bearer ${this.apiKey}`
+    }
+    const response = await this.httpClient.request<ArcPolicyResponse>(
+      `${this.URL}/v1/policy`,
+      { method: 'GET', headers }
+    )
+    if (!response.ok) {
+      throw new Error(
+        `Failed to fetch ARC policy because of an error: ${JSON.stringify(response.data)}`
+      )
+    }
+    const policy = response.data?.policy
+    if (typeof policy?.miningFee !== 'object' || policy.miningFee === null) {
+      throw new Error('ARC policy response does not contain a mining fee.')
+    }
+    return policy
+  }
+
+  private async fetchRate (): Promise<number> {
+    try {
+      const { miningFee } = await this.getPolicy()
+      const rate = (miningFee.satoshis / miningFee.bytes) * 1000
+      if (!Number.isFinite(rate) || rate < 0) {
+        throw new Error(`ARC policy mining fee is invalid: ${JSON.stringify(miningFee)}`)
+      }
+      this.cached = { rate, expires: Date.now() + this.cacheTtlMs }
+      return rate
+    } catch {
+      const rate = this.fallback.value
+      this.cached = { rate, expires: Date.now() + this.fallbackTtlMs }
+      return rate
+    }
+  }
+}
@@ -0,0 +1,153 @@
+import FeeModel from '../FeeModel.js'
+import Transaction from '../Transaction.js'
+import LockingScript from '../../script/LockingScript.js'
+import OP from '../../script/OP.js'
+
+/**
+ * A loggable account of how a `StandardDataFeeModel` arrived at a fee.
+ *
+ * @interface FeeBreakdown
+ * @property {number} standardBytes - The number of transaction bytes charged at the standard rate.
+ * @property {number} dataBytes - The number of data-carrying script bytes charged at the data rate.
+ * @property {number} standardFee - The (unrounded) fee for the standard bytes, in satoshis.
+ * @property {number} dataFee - The (unrounded) fee for the data bytes, in satoshis.
+ * @property {number} fee - The total fee in satoshis, rounded up.
+ * @property {number[]} dataOutputs - The indexes of the outputs classified as data outputs.
+ */
+export interface FeeBreakdown {
+  standardBytes: number
+  dataBytes: number
+  standardFee: number
+  dataFee: number
+  fee: number
+  dataOutputs: number[]
+}
+
+/**
+ * Represents a fee model that charges data-carrying bytes at a different rate than standard bytes.
+ *
+ * An output is a data output when its locking script begins with `OP_RETURN` or `OP_FALSE OP_RETURN`.
+ * The script bytes of data outputs are charged at the data rate, and every other byte of the transaction
+ * (including the satoshi amounts and length prefixes of data outputs) is charged at the standard rate.
+ */
+export default class StandardDataFeeModel implements FeeModel {
+  /**
+   * @property
+   * Denotes the number of satoshis paid per kilobyte of standard bytes.
+   */
+  standardRate: number
+
+  /**
+   * @property
+   * Denotes the number of satoshis paid per kilobyte of data bytes.
+   */
+  dataRate: number
+
+  /**
+   * Constructs an instance of the standard and data rate fee model.
+   *
+   * @param {number} standardRate - The number of satoshis per kilobyte to charge for standard bytes.
+   * @param {number} dataRate - The number of satoshis per kilobyte to charge for data bytes.
+   */
+  constructor (standardRate: number, dataRate: number) {
+    this.standardRate = standardRate
+    this.dataRate = dataRate
+  }
+
+  /**
+   * Determines whether a locking script carries data rather than locking spendable value.
+   *
+   * @param script The locking script to classify.
+   * @returns True if the script begins with `OP_RETURN` or `OP_FALSE OP_RETURN`.
+   */
+  static isDataScript (script: LockingScript): boolean {
+    const chunks = script.chunks
+    if (chunks.length === 0) return false
+    if (chunks[0].op === OP.OP_RETURN) return true
+    return (
+      chunks[0].op === OP.OP_FALSE &&
+      chunks.length > 1 &&
+      chunks[1].op === OP.OP_RETURN
+    )
+  }
+
+  /**
+   * Computes the fee for a given transaction.
+   *
+   * @param tx The transaction for which a fee is to be computed.
+   * @returns The fee in satoshis for the transaction.
+   */
+  async computeFee (tx: Transaction): Promise<number> {
+    const { fee } = await this.computeFeeBreakdown(tx)
+    return fee
+  }
+
+  /**
+   * Computes the fee for a given transaction, along with the byte counts and rates that produced it.
+   *
+   * @param tx The transaction for which a fee is to be computed.
+   * @returns A breakdown of the fee into its standard and data components.
+   */
+  async computeFeeBreakdown (tx: Transaction): Promise<FeeBreakdown> {
+    const getVarIntSize = (i: number): number => {
+      if (i > 2 ** 32) {
+        return 9
+      } else if (i > 2 ** 16) {
+        return 5
+      } else if (i > 253) {
+        return 3
+      } else {
+        return 1
+      }
+    }
+    // Compute the (potentially estimated) size of the transaction, split by byte type
+    let standardBytes = 4 // version
+    let dataBytes = 0
+    const dataOutputs: number[] = []
+    standardBytes += getVarIntSize(tx.inputs.length) // number of inputs
+    for (let i = 0; i < tx.inputs.length; i++) {
+      const input = tx.inputs[i]
+      standardBytes += 40 // txid, output index, sequence number
+      let scriptLength: number
+      if (typeof input.unlockingScript === 'object') {
+        scriptLength = input.unlockingScript.toBinary().length
+      } else if (typeof input.unlockingScriptTemplate === 'object') {
+        scriptLength = await input.unlockingScriptTemplate.estimateLength(
+          tx,
+          i
+        )
+      } else {
+        throw new Error(
+          'All inputs must have an unlocking script or an unlocking script template for fee computation.'
+        )
+      }
+      standardBytes += getVarIntSize(scriptLength) // unlocking script length
+      standardBytes += scriptLength // unlocking script
+    }
+    standardBytes += getVarIntSize(tx.outputs.length) // number of outputs
+    for (let i = 0; i < tx.outputs.length; i++) {
+      const out = tx.outputs[i]
+      standardBytes += 8 // satoshis
+      const length = out.lockingScript.toBinary().length
+      standardBytes += getVarIntSize(length) // script length
+      if (StandardDataFeeModel.isDataScript(out.lockingScript)) {
+        dataOutputs.push(i)
+        dataBytes += length
+      } else {
+        standardBytes += length
+      }
+    }
+    standardBytes += 4 // lock time
+    const standardFee = (standardBytes / 1000) * this.standardRate
+    const dataFee = (dataBytes / 1000) * this.dataRate
+    return {
+      standardBytes,
+      dataBytes,
+      standardFee,
+      dataFee,
+      // We'll use Math.ceil to ensure the miners get the extra satoshi.
+      fee: Math.ceil((standardBytes * this.standardRate + dataBytes * this.dataRate) / 1000),
+      dataOutputs
+    }
+  }
+}
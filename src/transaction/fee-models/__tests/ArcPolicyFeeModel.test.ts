@@ -0,0 +1,110 @@
+import ArcPolicyFeeModel from '../../../transaction/fee-models/ArcPolicyFeeModel'
+import SatoshisPerKilobyte from '../../../transaction/fee-models/SatoshisPerKilobyte'
+import Transaction from '../../../transaction/Transaction'
+import P2PKH from '../../../script/templates/P2PKH'
+import PrivateKey from '../../../primitives/PrivateKey'
+import { hash160 } from '../../../primitives/Hash'
+import { HttpClient } from '../../../transaction/http/HttpClient'
+
+describe('ArcPolicyFeeModel', () => {
+  const URL = 'https://arc.example.com'
+  const privateKey = new PrivateKey(1)
+  const publicKeyHash = hash160(privateKey.toPublicKey().encode(true))
+  const p2pkh = new P2PKH()
+  const sourceTx = new Transaction(1, [], [{ lockingScript: p2pkh.lock(publicKeyHash), satoshis: 4000 }], 0)
+  const tx = new Transaction(
+    1,
+    [{ sourceTransaction: sourceTx, sourceOutputIndex: 0, unlockingScriptTemplate: p2pkh.unlock(privateKey), sequence: 0xffffffff }],
+    [{ lockingScript: p2pkh.lock(publicKeyHash), satoshis: 1000 }],
+    0
+  )
+
+  const policyResponse = (satoshis: number, bytes: number): any => ({
+    ok: true,
+    status: 200,
+    statusText: 'OK',
+    data: { timestamp: '2025-03-01T00:00:00Z', policy: { maxtxsizepolicy: 100000000, miningFee: { satoshis, bytes } } }
+  })
+
+  const mockClient = (...responses: any[]): HttpClient & { request: jest.Mock } => {
+    const request = jest.fn()
+    for (const r of responses) {
+      if (r instanceof Error) {
+        request.mockRejectedValueOnce(r)
+      } else {
+        request.mockResolvedValueOnce(r)
+      }
+    }
+    return { request }
+  }
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('Computes fees at the rate of the ARC policy', async () => {
+    const httpClient = mockClient(policyResponse(50, 1000))
+    const model = new ArcPolicyFeeModel(URL, { httpClient, apiKey: 'key' })
+    expect(await model.computeFee(tx)).toEqual(await new SatoshisPerKilobyte(50).computeFee(tx))
+    const [url, options] = httpClient.request.mock.calls[0]
+    expect(url).toEqual(`${URL}/v1/policy`)
+    expect(options.method).toEqual('GET')
+    expect(options.headers.Authorization).toEqual('Bearer key')
+  })
+
+  it('Converts mining fees expressed over other byte counts', async () => {
+    const model = new ArcPolicyFeeModel(URL, { httpClient: mockClient(policyResponse(1, 20)) })
+    expect(await model.getSatoshisPerKilobyte()).toEqual(50)
+  })
+
+  it('Caches the policy until the TTL expires', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000)
+    const httpClient = mockClient(policyResponse(50, 1000), policyResponse(100, 1000))
+    const model = new ArcPolicyFeeModel(URL, { httpClient, cacheTtlMs: 60000 })
+    expect(await model.getSatoshisPerKilobyte()).toEqual(50)
+    now.mockReturnValue(60999)
+    expect(await model.getSatoshisPerKilobyte()).toEqual(50)
+    expect(httpClient.request).toHaveBeenCalledTimes(1)
+    now.mockReturnValue(61000)
+    expect(await model.getSatoshisPerKilobyte()).toEqual(100)
+    expect(httpClient.request).toHaveBeenCalledTimes(2)
+  })
+
+  it('Shares a single request between concurrent callers', async () => {
+    const httpClient = mockClient(policyResponse(50, 1000))
+    const model = new ArcPolicyFeeModel(URL, { httpClient })
+    const rates = await Promise.all([model.getSatoshisPerKilobyte(), model.getSatoshisPerKilobyte()])
+    expect(rates).toEqual([50, 50])
+    expect(httpClient.request).toHaveBeenCalledTimes(1)
+  })
+
+  it('Falls back to the static rate when the endpoint is unreachable', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000)
+    const httpClient = mockClient(new Error('ECONNREFUSED'), policyResponse(50, 1000))
+    const model = new ArcPolicyFeeModel(URL, { httpClient, fallbackRate: 5, fallbackTtlMs: 10000 })
+    expect(await model.getSatoshisPerKilobyte()).toEqual(5)
+    now.mockReturnValue(10999)
+    expect(await model.getSatoshisPerKilobyte()).toEqual(5)
+    expect(httpClient.request).toHaveBeenCalledTimes(1)
+    now.mockReturnValue(11000)
+    expect(await model.getSatoshisPerKilobyte()).toEqual(50)
+    expect(httpClient.request).toHaveBeenCalledTimes(2)
+  })
+
+  it('Falls back to the static rate on error responses and malformed policies', async () => {
+    const httpClient = mockClient(
+      { ok: false, status: 503, statusText: 'Service Unavailable', data: 'down' },
+      { ok: true, status: 200, statusText: 'OK', data: { policy: {} } },
+      policyResponse(1, 0)
+    )
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000)
+    const model = new ArcPolicyFeeModel(URL, { httpClient })
+    for (let i = 1; i <= 3; i++) {
+      expect(await model.getSatoshisPerKilobyte()).toEqual(10)
+      expect(await model.getSatoshisPerKilobyte()).toEqual(10)
+      expect(httpClient.request).toHaveBeenCalledTimes(i)
+      now.mockReturnValue(1000 + i * 30000)
+    }
+    await expect(model.getPolicy()).rejects.toThrow()
+  })
+})
@@ -0,0 +1,59 @@
+import StandardDataFeeModel from '../../../transaction/fee-models/StandardDataFeeModel'
+import SatoshisPerKilobyte from '../../../transaction/fee-models/SatoshisPerKilobyte'
+import Transaction from '../../../transaction/Transaction'
+import LockingScript from '../../../script/LockingScript'
+import P2PKH from '../../../script/templates/P2PKH'
+import PrivateKey from '../../../primitives/PrivateKey'
+import { hash160 } from '../../../primitives/Hash'
+
+describe('StandardDataFeeModel', () => {
+  const privateKey = new PrivateKey(1)
+  const publicKeyHash = hash160(privateKey.toPublicKey().encode(true))
+  const p2pkh = new P2PKH()
+
+  const buildTx = (dataScript: LockingScript): Transaction => {
+    const sourceTx = new Transaction(1, [], [{ lockingScript: p2pkh.lock(publicKeyHash), satoshis: 4000 }], 0)
+    return new Transaction(
+      1,
+      [{ sourceTransaction: sourceTx, sourceOutputIndex: 0, unlockingScriptTemplate: p2pkh.unlock(privateKey), sequence: 0xffffffff }],
+      [
+        { lockingScript: p2pkh.lock(publicKeyHash), satoshis: 1000 },
+        { lockingScript: dataScript, satoshis: 0 }
+      ],
+      0
+    )
+  }
+
+  it('Classifies data scripts', () => {
+    expect(StandardDataFeeModel.isDataScript(LockingScript.fromASM('OP_RETURN 01020304'))).toBe(true)
+    expect(StandardDataFeeModel.isDataScript(LockingScript.fromASM('OP_FALSE OP_RETURN 01020304'))).toBe(true)
+    expect(StandardDataFeeModel.isDataScript(p2pkh.lock(publicKeyHash))).toBe(false)
+    expect(StandardDataFeeModel.isDataScript(new LockingScript())).toBe(false)
+  })
+
+  it('Charges data script bytes at the data rate', async () => {
+    const data = 'ff'.repeat(1000)
+    const tx = buildTx(LockingScript.fromASM(`OP_FALSE OP_RETURN ${data}`))
+    const breakdown = await new StandardDataFeeModel(50, 1).computeFeeBreakdown(tx)
+    // OP_FALSE OP_RETURN OP_PUSHDATA2 <2 byte length> <1000 bytes>
+    expect(breakdown.dataBytes).toEqual(1005)
+    expect(breakdown.dataOutputs).toEqual([1])
+    // 10 (version, counts, locktime) + 149 (input) + 34 (P2PKH output) + 8 + 3 (data output amount and length)
+    expect(breakdown.standardBytes).toEqual(204)
+    expect(breakdown.fee).toEqual(Math.ceil((204 * 50 + 1005 * 1) / 1000))
+    expect(await new StandardDataFeeModel(50, 1).computeFee(tx)).toEqual(breakdown.fee)
+  })
+
+  it('Matches SatoshisPerKilobyte when both rates are equal', async () => {
+    const tx = buildTx(LockingScript.fromASM(`OP_RETURN ${'00'.repeat(300)}`))
+    const fee = await new StandardDataFeeModel(100, 100).computeFee(tx)
+    expect(fee).toEqual(await new SatoshisPerKilobyte(100).computeFee(tx))
+  })
+
+  it('Can be used to compute change', async () => {
+    const tx = buildTx(LockingScript.fromASM(`OP_FALSE OP_RETURN ${'ff'.repeat(1000)}`))
+    tx.addOutput({ lockingScript: p2pkh.lock(publicKeyHash), change: true })
+    await tx.fee(new StandardDataFeeModel(50, 1))
+    expect(tx.getFee()).toEqual(await new StandardDataFeeModel(50, 1).computeFee(tx))
+  })
+})
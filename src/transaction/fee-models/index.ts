@@ -1 +1,5 @@
 export { default as SatoshisPerKilobyte } from './SatoshisPerKilobyte.js'
+export { default as StandardDataFeeModel } from './StandardDataFeeModel.js'
+export type { FeeBreakdown } from './StandardDataFeeModel.js'
+export { default as ArcPolicyFeeModel } from './ArcPolicyFeeModel.js'
+export type { ArcPolicyFeeModelConfig, ArcPolicy } from './ArcPolicyFeeModel.js'
@@ -1,5 +1,6 @@
 export { default as Transaction } from './Transaction.js'
 export { default as MerklePath } from './MerklePath.js'
+export type { TSCMerkleProof } from './MerklePath.js'
 export type { default as TransactionInput } from './TransactionInput.js'
 export type { default as TransactionOutput } from './TransactionOutput.js'
 export type {
@@ -9,6 +10,19 @@ export type {
 } from './Broadcaster.js'
 export { isBroadcastResponse, isBroadcastFailure } from './Broadcaster.js'
 export type { default as ChainTracker } from './ChainTracker.js'
+export type { default as UtxoSource, FundingUtxo, FundingOptions } from './UtxoSource.js'
+export type { default as CoinSelector, CoinSelectionTarget } from './CoinSelector.js'
+export type {
+  VerificationReport,
+  TransactionVerification,
+  InputVerification,
+  MerkleProofVerification,
+  ScriptFailure,
+  VerificationOptions,
+  VerificationProgress
+} from './VerificationReport.js'
+export type { default as ScriptEvaluator, ScriptEvaluation } from './ScriptEvaluator.js'
 export { default as BeefTx } from './BeefTx.js'
 export * from './Beef.js'
+export * from './BeefStream.js'
 export { default as BeefParty } from './BeefParty.js'
@@ -0,0 +1,46 @@
+/**
+ * Processes a queue of items with at most `concurrency` of them in progress at once.
+ * Items may add further items to the queue while they are processed.
+ *
+ * @param items - The initial items.
+ * @param concurrency - The most items processed at once.
+ * @param process - Processes an item, calling `enqueue` to add further items.
+ * @returns Resolves once the queue is empty, or rejects with the first error, after which no further items are started.
+ */
+export default async function processQueue<T> (
+  items: T[],
+  concurrency: number,
+  process: (item: T, enqueue: (item: T) => void) => Promise<void>
+): Promise<void> {
+  const queue = [...items]
+  const limit = Math.max(1, concurrency)
+  let active = 0
+  let failed = false
+  const enqueue = (item: T): void => {
+    queue.push(item)
+  }
+  await new Promise<void>((resolve, reject) => {
+    const pump = (): void => {
+      if (failed) return
+      if (queue.length === 0 && active === 0) {
+        resolve()
+        return
+      }
+      while (active < limit && queue.length > 0) {
+        const item = queue.shift() as T
+        active++
+        process(item, enqueue).then(
+          () => {
+            active--
+            pump()
+          },
+          (error) => {
+            failed = true
+            reject(error)
+          }
+        )
+      }
+    }
+    pump()
+  })
+}
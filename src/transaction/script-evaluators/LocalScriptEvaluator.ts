@@ -0,0 +1,43 @@
+import ScriptEvaluator, { ScriptEvaluation } from '../ScriptEvaluator.js'
+import { ScriptFailure } from '../VerificationReport.js'
+import Spend from '../../script/Spend.js'
+import Script from '../../script/Script.js'
+import ScriptResourceExceededError from '../../script/ScriptResourceExceededError.js'
+import { toHex } from '../../primitives/utils.js'
+
+/**
+ * Captures where a script evaluation failed from the state of the failing spend.
+ *
+ * @param spend - The spend whose evaluation failed.
+ * @param error - The error thrown by `Spend.validate`.
+ * @returns The failure, with the stacks as hex.
+ */
+export function captureScriptFailure (spend: Spend, error: Error): ScriptFailure {
+  const script = spend.context === 'UnlockingScript' ? spend.unlockingScript : spend.lockingScript
+  const chunk = script.chunks[spend.programCounter]
+  const failure: ScriptFailure = {
+    message: error.message.split('\n')[0].replace(/^Script evaluation error: /, ''),
+    context: spend.context,
+    programCounter: spend.programCounter,
+    operation: chunk === undefined ? undefined : new Script([chunk]).toASM(),
+    stack: spend.stack.map((item) => toHex(item)),
+    altStack: spend.altStack.map((item) => toHex(item))
+  }
+  if (error instanceof ScriptResourceExceededError) {
+    failure.resourceExceeded = { resource: error.resource, limit: error.limit, used: error.used }
+  }
+  return failure
+}
+
+/**
+ * Evaluates scripts on the calling thread. This is the default script evaluator.
+ */
+export default class LocalScriptEvaluator implements ScriptEvaluator {
+  async evaluate (spend: Spend): Promise<ScriptEvaluation> {
+    try {
+      return { valid: spend.validate() }
+    } catch (e) {
+      return { valid: false, failure: captureScriptFailure(spend, e as Error) }
+    }
+  }
+}
@@ -0,0 +1,225 @@
+import ScriptEvaluator, { ScriptEvaluation } from '../ScriptEvaluator.js'
+import LocalScriptEvaluator from './LocalScriptEvaluator.js'
+import Spend from '../../script/Spend.js'
+import LockingScript from '../../script/LockingScript.js'
+import UnlockingScript from '../../script/UnlockingScript.js'
+import { ScriptVerifyFlags } from '../../script/ScriptVerifyFlags.js'
+
+/**
+ * A spend in a form that can be posted to a worker.
+ * Scripts are hex encoded and the inputs other than the one being spent are reduced to the fields signatures commit to.
+ */
+export interface SerializedSpend {
+  sourceTXID: string
+  sourceOutputIndex: number
+  sourceSatoshis: number
+  lockingScript: string
+  transactionVersion: number
+  otherInputs: Array<{ sourceTXID: string, sourceOutputIndex: number, sequence?: number }>
+  outputs: Array<{ lockingScript: string, satoshis?: number }>
+  unlockingScript: string
+  inputSequence: number
+  inputIndex: number
+  lockTime: number
+  flags: ScriptVerifyFlags
+}
+
+/** The subset of the Node `worker_threads` Worker used by `WorkerScriptEvaluator`. */
+export interface ScriptWorker {
+  postMessage: (message: unknown) => void
+  on: (event: 'message' | 'error', listener: (value: any) => void) => void
+  terminate: () => unknown
+  ref?: () => void
+  unref?: () => void
+}
+
+/** Configuration options for the worker script evaluator. */
+export interface WorkerScriptEvaluatorConfig {
+  /** The number of workers to start. Defaults to 4. */
+  workers?: number
+  /**
+   * The module the workers import `evaluateSerializedSpend` from, as a package name or file URL.
+   * Defaults to '@bsv/sdk'.
+   */
+  module?: string
+  /** Starts a worker running the given script source. Defaults to a Node `worker_threads` Worker. */
+  createWorker?: (source: string) => ScriptWorker | Promise<ScriptWorker>
+}
+
+interface PooledWorker {
+  worker: Promise<ScriptWorker>
+  pending: Map<number, { resolve: (result: ScriptEvaluation) => void, reject: (error: Error) => void }>
+}
+
+/**
+ * Converts a spend into a form that can be posted to a worker.
+ *
+ * @param spend - The unevaluated spend.
+ */
+export function serializeSpend (spend: Spend): SerializedSpend {
+  return {
+    sourceTXID: spend.sourceTXID,
+    sourceOutputIndex: spend.sourceOutputIndex,
+    sourceSatoshis: spend.sourceSatoshis,
+    lockingScript: spend.lockingScript.toHex(),
+    transactionVersion: spend.transactionVersion,
+    otherInputs: spend.otherInputs.map((input) => ({
+      sourceTXID: input.sourceTXID ?? input.sourceTransaction?.id('hex') ?? '',
+      sourceOutputIndex: input.sourceOutputIndex,
+      sequence: input.sequence
+    })),
+    outputs: spend.outputs.map((output) => ({
+      lockingScript: output.lockingScript.toHex(),
+      satoshis: output.satoshis
+    })),
+    unlockingScript: spend.unlockingScript.toHex(),
+    inputSequence: spend.inputSequence,
+    inputIndex: spend.inputIndex,
+    lockTime: spend.lockTime,
+    flags: spend.flags
+  }
+}
+
+/**
+ * Evaluates a serialized spend on the calling thread. Workers started by `WorkerScriptEvaluator` call this.
+ *
+ * @param serialized - The spend to evaluate.
+ */
+export async function evaluateSerializedSpend (serialized: SerializedSpend): Promise<ScriptEvaluation> {
+  const spend = new Spend({
+    ...serialized,
+    lockingScript: LockingScript.fromHex(serialized.lockingScript),
+    unlockingScript: UnlockingScript.fromHex(serialized.unlockingScript),
+    otherInputs: serialized.otherInputs,
+    outputs: serialized.outputs.map((output) => ({
+      lockingScript: LockingScript.fromHex(output.lockingScript),
+      satoshis: output.satoshis
+    }))
+  })
+  return await new LocalScriptEvaluator().evaluate(spend)
+}
+
+// Loads its modules with dynamic imports, which work whether the module is CommonJS or ESM.
+// Messages posted before the imports complete are queued by the port until the listener is added.
+function workerSource (module: string): string {
+  return `
+Promise.all([import('worker_threads'), import(${JSON.stringify(module)})]).then(([{ parentPort }, { evaluateSerializedSpend }]) => {
+  parentPort.on('message', ({ id, spend }) => {
+    evaluateSerializedSpend(spend).then(
+      (result) => parentPort.postMessage({ id, result }),
+      (error) => parentPort.postMessage({ id, error: String(error && error.message) })
+    )
+  })
+})
+`
+}
+
+async function defaultCreateWorker (source: string): Promise<ScriptWorker> {
+  // Left out of bundles, as worker threads are only available in Node.
+  const { Worker } = await import(/* webpackIgnore: true */ 'worker_threads').catch(() => {
+    throw new Error('Worker threads are not available, a createWorker function must be provided to WorkerScriptEvaluator.')
+  })
+  return new Worker(source, { eval: true })
+}
+
+/**
+ * Evaluates scripts on a pool of worker threads, so that the scripts of many inputs are evaluated in parallel
+ * and the calling thread stays responsive.
+ *
+ * Workers are started on first use and do not keep the process alive while idle. Call `close` to stop them.
+ *
+ * @example
+ * const scriptEvaluator = new WorkerScriptEvaluator({ workers: 4 })
+ * const valid = await tx.verify(chainTracker, undefined, { scriptEvaluator, concurrency: 16 })
+ * await scriptEvaluator.close()
+ */
+export default class WorkerScriptEvaluator implements ScriptEvaluator {
+  readonly workers: number
+  readonly module: string
+  private readonly createWorker: (source: string) => ScriptWorker | Promise<ScriptWorker>
+  private readonly pool: PooledWorker[] = []
+  private nextId = 0
+
+  /**
+   * Constructs an instance of the worker script evaluator.
+   *
+   * @param {WorkerScriptEvaluatorConfig} config - Configuration options for the evaluator.
+   */
+  constructor (config: WorkerScriptEvaluatorConfig = {}) {
+    this.workers = Math.max(1, config.workers ?? 4)
+    this.module = config.module ?? '@bsv/sdk'
+    this.createWorker = config.createWorker ?? defaultCreateWorker
+  }
+
+  async evaluate (spend: Spend): Promise<ScriptEvaluation> {
+    const pooled = this.leastBusy()
+    const id = this.nextId++
+    const result = new Promise<ScriptEvaluation>((resolve, reject) => {
+      pooled.pending.set(id, { resolve, reject })
+    })
+    // A worker that fails to start has already rejected the evaluation.
+    const worker = await pooled.worker.catch(() => undefined)
+    if (worker !== undefined && pooled.pending.has(id)) {
+      worker.ref?.()
+      worker.postMessage({ id, spend: serializeSpend(spend) })
+    }
+    return await result
+  }
+
+  /**
+   * Stops all workers, rejecting evaluations still in progress.
+   */
+  async close (): Promise<void> {
+    const pool = this.pool.splice(0)
+    for (const pooled of pool) {
+      this.fail(pooled, new Error('The script evaluator was closed.'))
+    }
+    await Promise.all(pool.map(async (pooled) => {
+      await pooled.worker.then(async (worker) => { await worker.terminate() }, () => {})
+    }))
+  }
+
+  private leastBusy (): PooledWorker {
+    if (this.pool.length < this.workers) {
+      return this.start()
+    }
+    return this.pool.reduce((a, b) => (b.pending.size < a.pending.size ? b : a))
+  }
+
+  private start (): PooledWorker {
+    const pooled: PooledWorker = {
+      worker: Promise.resolve().then(async () => await this.createWorker(workerSource(this.module))),
+      pending: new Map()
+    }
+    // A failed worker is replaced on the next evaluation.
+    const discard = (error: Error): void => {
+      const index = this.pool.indexOf(pooled)
+      if (index !== -1) this.pool.splice(index, 1)
+      this.fail(pooled, error)
+    }
+    void pooled.worker.then((worker) => {
+      worker.on('message', ({ id, result, error }: { id: number, result?: ScriptEvaluation, error?: string }) => {
+        const task = pooled.pending.get(id)
+        if (task === undefined) return
+        pooled.pending.delete(id)
+        if (pooled.pending.size === 0) worker.unref?.()
+        if (error !== undefined) {
+          task.reject(new Error(error))
+        } else {
+          task.resolve(result as ScriptEvaluation)
+        }
+      })
+      worker.on('error', discard)
+      worker.unref?.()
+    }, discard)
+    this.pool.push(pooled)
+    return pooled
+  }
+
+  private fail (pooled: PooledWorker, error: Error): void {
+    for (const task of pooled.pending.values()) {
+      task.reject(error)
+    }
+    pooled.pending.clear()
+  }
+}
@@ -0,0 +1,183 @@
+import WorkerScriptEvaluator, {
+  ScriptWorker,
+  evaluateSerializedSpend
+} from '../../../transaction/script-evaluators/WorkerScriptEvaluator'
+import LocalScriptEvaluator from '../../../transaction/script-evaluators/LocalScriptEvaluator'
+import Transaction from '../../../transaction/Transaction'
+import MerklePath from '../../../transaction/MerklePath'
+import LockingScript from '../../../script/LockingScript'
+import UnlockingScript from '../../../script/UnlockingScript'
+
+class FakeWorker implements ScriptWorker {
+  listeners: Record<string, Array<(value: any) => void>> = { message: [], error: [] }
+  posted = 0
+  terminated = false
+  source: string
+
+  constructor (source: string) {
+    this.source = source
+  }
+
+  postMessage (message: any): void {
+    this.posted++
+    setTimeout(() => {
+      // Round trip through JSON, as structured cloning would drop class instances.
+      const { id, spend } = JSON.parse(JSON.stringify(message))
+      evaluateSerializedSpend(spend).then(
+        (result) => this.emit('message', { id, result }),
+        (error) => this.emit('message', { id, error: error.message })
+      )
+    }, 1)
+  }
+
+  on (event: 'message' | 'error', listener: (value: any) => void): void {
+    this.listeners[event].push(listener)
+  }
+
+  emit (event: 'message' | 'error', value: any): void {
+    this.listeners[event].forEach((l) => l(value))
+  }
+
+  terminate (): void {
+    this.terminated = true
+  }
+}
+
+const chainTracker = {
+  currentHeight: async () => 1000,
+  isValidRootForHeight: async () => true
+}
+
+function makeTx (lockingASM: string, unlockingASMs: string[]): Transaction {
+  const source = new Transaction(1, [], unlockingASMs.map(() => ({
+    lockingScript: LockingScript.fromASM(lockingASM),
+    satoshis: 1000
+  })), 0)
+  source.merklePath = new MerklePath(900, [[{ offset: 0, hash: source.id('hex'), txid: true }]])
+  return new Transaction(1, unlockingASMs.map((asm, i) => ({
+    sourceTransaction: source,
+    sourceOutputIndex: i,
+    unlockingScript: UnlockingScript.fromASM(asm),
+    sequence: 0xffffffff
+  })), [{ lockingScript: LockingScript.fromASM('OP_TRUE'), satoshis: 900 }], 0)
+}
+
+describe('WorkerScriptEvaluator', () => {
+  let workers: FakeWorker[]
+  let evaluator: WorkerScriptEvaluator
+
+  beforeEach(() => {
+    workers = []
+    evaluator = new WorkerScriptEvaluator({
+      workers: 2,
+      module: '/path/to/sdk',
+      createWorker: (source) => {
+        const worker = new FakeWorker(source)
+        workers.push(worker)
+        return worker
+      }
+    })
+  })
+
+  it('evaluates the inputs of a transaction across its workers', async () => {
+    const tx = makeTx('OP_3 OP_EQUAL', ['OP_3', 'OP_3', 'OP_3', 'OP_3'])
+    const report = await tx.verifyDetailed(chainTracker, undefined, { scriptEvaluator: evaluator })
+    expect(report.valid).toBe(true)
+    expect(report.transactions[0].inputs.every((i) => i.scriptsRan && i.valid)).toBe(true)
+    expect(workers).toHaveLength(2)
+    expect(workers.map((w) => w.posted)).toEqual([2, 2])
+    expect(workers[0].source).toContain('import("/path/to/sdk")')
+  })
+
+  it('reports script failures as the local evaluator does', async () => {
+    const tx = makeTx('OP_DUP OP_TOALTSTACK OP_3 OP_EQUALVERIFY', ['OP_3', 'OP_2'])
+    const report = await tx.verifyDetailed(chainTracker, undefined, { scriptEvaluator: evaluator })
+    const local = await tx.verifyDetailed(chainTracker)
+    expect(report.valid).toBe(false)
+    expect(report.transactions[0].inputs[1].scriptFailure).toEqual({
+      message: expect.stringContaining('OP_EQUALVERIFY'),
+      context: 'LockingScript',
+      programCounter: 3,
+      operation: 'OP_EQUALVERIFY',
+      // The comparison's false result is left on the stack.
+      stack: [''],
+      altStack: ['02']
+    })
+    expect(report).toEqual(local)
+  })
+
+  it('rejects pending evaluations when a worker fails and replaces it', async () => {
+    const tx = makeTx('OP_3 OP_EQUAL', ['OP_3'])
+    const pending = tx.verifyDetailed(chainTracker, undefined, { scriptEvaluator: evaluator })
+    await new Promise((resolve) => setImmediate(resolve))
+    workers[0].emit('error', new Error('Worker crashed'))
+    await expect(pending).rejects.toThrow('Worker crashed')
+    expect(await tx.verify(chainTracker, undefined, { scriptEvaluator: evaluator })).toBe(true)
+    expect(workers).toHaveLength(2)
+  })
+
+  it('terminates its workers when closed', async () => {
+    const tx = makeTx('OP_3 OP_EQUAL', ['OP_3', 'OP_3'])
+    await tx.verify(chainTracker, undefined, { scriptEvaluator: evaluator })
+    await evaluator.close()
+    expect(workers.every((w) => w.terminated)).toBe(true)
+  })
+
+  describe('with worker threads', () => {
+    let dir: string
+    let module: string
+
+    beforeAll(async () => {
+      const { mkdtemp, writeFile } = await import('fs/promises')
+      const { tmpdir } = await import('os')
+      const { join } = await import('path')
+      const { pathToFileURL } = await import('url')
+      dir = await mkdtemp(join(tmpdir(), 'script-evaluator-'))
+      const path = join(dir, 'evaluator.mjs')
+      // Stands in for the SDK: OP_3 unlocks OP_3 OP_EQUAL, OP_16 fails to evaluate.
+      await writeFile(path, `
+export async function evaluateSerializedSpend (spend) {
+  if (spend.unlockingScript === '60') throw new Error('Evaluation failed')
+  return { valid: spend.lockingScript === '5387' && spend.unlockingScript === '53' }
+}
+`)
+      module = pathToFileURL(path).href
+    })
+
+    afterAll(async () => {
+      const { rm } = await import('fs/promises')
+      await rm(dir, { recursive: true, force: true })
+    })
+
+    it('evaluates spends in ESM worker threads', async () => {
+      const threaded = new WorkerScriptEvaluator({ workers: 2, module })
+      try {
+        const report = await makeTx('OP_3 OP_EQUAL', ['OP_3', 'OP_4', 'OP_3'])
+          .verifyDetailed(chainTracker, undefined, { scriptEvaluator: threaded })
+        expect(report.transactions[0].inputs.map((i) => i.valid)).toEqual([true, false, true])
+        await expect(makeTx('OP_3 OP_EQUAL', ['OP_16']).verify(chainTracker, undefined, { scriptEvaluator: threaded }))
+          .rejects.toThrow('Evaluation failed')
+      } finally {
+        await threaded.close()
+      }
+    })
+
+    it('rejects evaluations when the module cannot be loaded', async () => {
+      const threaded = new WorkerScriptEvaluator({ workers: 1, module: `${module}.missing` })
+      try {
+        const tx = makeTx('OP_3 OP_EQUAL', ['OP_3'])
+        await expect(tx.verify(chainTracker, undefined, { scriptEvaluator: threaded })).rejects.toThrow()
+      } finally {
+        await threaded.close()
+      }
+    })
+  })
+
+  it('matches the local evaluator on serialized spends', async () => {
+    const tx = makeTx('OP_3 OP_EQUAL', ['OP_4'])
+    const local = await tx.verifyDetailed(chainTracker, undefined, { scriptEvaluator: new LocalScriptEvaluator() })
+    const remote = await tx.verifyDetailed(chainTracker, undefined, { scriptEvaluator: evaluator })
+    expect(remote).toEqual(local)
+    expect(remote.valid).toBe(false)
+  })
+})
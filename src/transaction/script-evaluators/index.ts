@@ -0,0 +1,14 @@
+export {
+  default as LocalScriptEvaluator,
+  captureScriptFailure
+} from './LocalScriptEvaluator.js'
+export {
+  default as WorkerScriptEvaluator,
+  serializeSpend,
+  evaluateSerializedSpend
+} from './WorkerScriptEvaluator.js'
+export type {
+  SerializedSpend,
+  ScriptWorker,
+  WorkerScriptEvaluatorConfig
+} from './WorkerScriptEvaluator.js'